@@ -0,0 +1,155 @@
+import {
+  coerceDate,
+  collectAdministrationsUntil,
+  formatLocalDate,
+  isAsNeeded,
+  resolveScheduleConfig
+} from "./schedule";
+import {
+  AdherenceOptions,
+  AdherenceResult,
+  DoseAdherenceStatus,
+  ExpectedDoseOutcome
+} from "./types";
+import { formatZonedIso } from "./zoned-time";
+
+const DEFAULT_ADHERENCE_TOLERANCE_MINUTES = 60;
+const DEFAULT_ADHERENCE_EARLY_LIMIT_MINUTES = 180;
+const DEFAULT_ADHERENCE_LATE_LIMIT_MINUTES = 360;
+const MS_PER_MINUTE = 60 * 1000;
+
+function resolveAdherenceMinutes(value: number | undefined, fallback: number, label: string): number {
+  const minutes = value ?? fallback;
+  if (!Number.isFinite(minutes) || minutes < 0) {
+    throw new Error(`Invalid ${label} supplied to analyzeAdherence`);
+  }
+  return minutes * MS_PER_MINUTE;
+}
+
+function classifyDeviation(
+  deviation: number,
+  earlyTolerance: number,
+  lateTolerance: number
+): DoseAdherenceStatus {
+  if (deviation < -earlyTolerance) {
+    return "early";
+  }
+  return deviation > lateTolerance ? "late" : "onTime";
+}
+
+/**
+ * Compares administration history with the doses a regimen expected between
+ * `from` and `to`. Each expected dose claims the closest administration within
+ * its window, which never reaches past halfway to the neighbouring due time,
+ * so one administration cannot count twice. As-needed dosages expect nothing.
+ */
+export function analyzeAdherence(options: AdherenceOptions): AdherenceResult {
+  if (!options || typeof options !== "object") {
+    throw new Error("Options argument is required for analyzeAdherence");
+  }
+  if (options.from === undefined || options.to === undefined) {
+    throw new Error("The 'from' and 'to' options are required for analyzeAdherence");
+  }
+  const from = coerceDate(options.from, "from");
+  const to = coerceDate(options.to, "to");
+  const config = resolveScheduleConfig(options, "analyzeAdherence");
+  const timeZone = config.timeZone!;
+  const earlyTolerance = resolveAdherenceMinutes(
+    options.earlyToleranceMinutes,
+    DEFAULT_ADHERENCE_TOLERANCE_MINUTES,
+    "earlyToleranceMinutes"
+  );
+  const lateTolerance = resolveAdherenceMinutes(
+    options.lateToleranceMinutes,
+    DEFAULT_ADHERENCE_TOLERANCE_MINUTES,
+    "lateToleranceMinutes"
+  );
+  const earlyLimit = resolveAdherenceMinutes(
+    options.earlyLimitMinutes,
+    DEFAULT_ADHERENCE_EARLY_LIMIT_MINUTES,
+    "earlyLimitMinutes"
+  );
+  const lateLimit = resolveAdherenceMinutes(
+    options.lateLimitMinutes,
+    DEFAULT_ADHERENCE_LATE_LIMIT_MINUTES,
+    "lateLimitMinutes"
+  );
+  const taken = options.administrations
+    .map((value) => {
+      const date = value instanceof Date ? value : new Date(value);
+      if (Number.isNaN(date.getTime())) {
+        throw new Error("Invalid administration supplied to analyzeAdherence");
+      }
+      return date.getTime();
+    })
+    .sort((left, right) => left - right);
+
+  const dosages = Array.isArray(options.dosage)
+    ? options.dosage
+    : "items" in options.dosage
+    ? options.dosage.items.map((item) => item.fhir)
+    : [options.dosage];
+  const expected = from < to
+    ? collectAdministrationsUntil(dosages, { ...options, timeZone, from }, to).filter(
+        (administration) => !isAsNeeded(dosages[administration.dosageIndex])
+      )
+    : [];
+  const dueTimes = expected.map((administration) => new Date(administration.time).getTime());
+  const instants = Array.from(new Set(dueTimes));
+
+  const used = new Set<number>();
+  const doses = expected.map((administration, index): ExpectedDoseOutcome => {
+    const due = dueTimes[index];
+    const position = instants.indexOf(due);
+    const previous = instants[position - 1];
+    const next = instants[position + 1];
+    const earliest = due - Math.min(earlyLimit, previous === undefined ? earlyLimit : (due - previous) / 2);
+    const latest = due + Math.min(lateLimit, next === undefined ? lateLimit : (next - due) / 2);
+    let match: number | undefined;
+    taken.forEach((time, takenIndex) => {
+      if (used.has(takenIndex) || time < earliest || time > latest) {
+        return;
+      }
+      if (match === undefined || Math.abs(time - due) < Math.abs(taken[match] - due)) {
+        match = takenIndex;
+      }
+    });
+    const outcome = { due: administration.time, dosageIndex: administration.dosageIndex };
+    if (match === undefined) {
+      return { ...outcome, status: "missed" };
+    }
+    used.add(match);
+    const deviation = taken[match] - due;
+    return {
+      ...outcome,
+      status: classifyDeviation(deviation, earlyTolerance, lateTolerance),
+      takenAt: formatZonedIso(new Date(taken[match]), timeZone),
+      deviationMinutes: Math.round(deviation / MS_PER_MINUTE)
+    };
+  });
+
+  const extraDoses = taken
+    .filter((time, index) => !used.has(index) && time >= from.getTime() && time < to.getTime())
+    .map((time) => formatZonedIso(new Date(time), timeZone));
+  const counts = { onTime: 0, early: 0, late: 0, missed: 0, extra: extraDoses.length };
+  for (const dose of doses) {
+    counts[dose.status] += 1;
+  }
+  if (!doses.length) {
+    return { doses, extraDoses, counts };
+  }
+
+  const coveredByDay = new Map<string, boolean>();
+  doses.forEach((dose, index) => {
+    const day = formatLocalDate(new Date(dueTimes[index]), timeZone);
+    coveredByDay.set(day, (coveredByDay.get(day) ?? true) && dose.status !== "missed");
+  });
+  const coveredDays = Array.from(coveredByDay.values()).filter(Boolean).length;
+  return {
+    doses,
+    extraDoses,
+    counts,
+    adherencePercent: Math.round(((doses.length - counts.missed) / doses.length) * 1000) / 10,
+    proportionOfDaysCovered: coveredDays / coveredByDay.size
+  };
+}
@@ -0,0 +1,259 @@
+import {
+  buildMarGrid,
+  calculateTotalUnits,
+  coerceDate,
+  isAsNeeded,
+  normalizeClock,
+  startOfLocalDay
+} from "./schedule";
+import { parseTimingDayOfMonthExtensions, parseTimingWeekdayOfMonthExtensions } from "./timing-calendar";
+import {
+  CompliancePack,
+  CompliancePackEntry,
+  CompliancePackExclusion,
+  CompliancePackExclusionReason,
+  CompliancePackOptions,
+  CompliancePackRow,
+  CompliancePackSlot,
+  EventTiming,
+  FhirDosage,
+  FhirPeriodUnit,
+  MarCell,
+  RouteCode
+} from "./types";
+import { readQuantityUnit } from "./ucum";
+import { arrayIncludes } from "./utils/array";
+import { getUnitCategory } from "./utils/units";
+
+const COMPLIANCE_PACK_DAYS = 7;
+const DEFAULT_PACK_SLOT_TOLERANCE_MINUTES = 120;
+
+/** Compartments of a common four-a-day weekly blister pack. */
+const DEFAULT_PACK_SLOTS: CompliancePackSlot[] = [
+  {
+    label: "Morning",
+    clock: "08:00",
+    when: [
+      EventTiming.Wake,
+      EventTiming["After Sleep"],
+      EventTiming.Morning,
+      EventTiming["Early Morning"],
+      EventTiming["Late Morning"],
+      EventTiming.Breakfast,
+      EventTiming["Before Breakfast"],
+      EventTiming["After Breakfast"]
+    ]
+  },
+  {
+    label: "Noon",
+    clock: "12:00",
+    when: [EventTiming.Noon, EventTiming.Lunch, EventTiming["Before Lunch"], EventTiming["After Lunch"]]
+  },
+  {
+    label: "Evening",
+    clock: "18:00",
+    when: [
+      EventTiming.Evening,
+      EventTiming["Early Evening"],
+      EventTiming["Late Evening"],
+      EventTiming.Dinner,
+      EventTiming["Before Dinner"],
+      EventTiming["After Dinner"]
+    ]
+  },
+  { label: "Bedtime", clock: "22:00", when: [EventTiming["Before Sleep"], EventTiming.Night] }
+];
+
+/** Units counted into compartments, and whether they may be halved. */
+const PACK_UNIT_HALVABLE: Record<string, boolean> = { tab: true, cap: false };
+
+function clockToMinutes(clock: string): number {
+  const [hour, minute] = normalizeClock(clock).split(":").map(Number);
+  return hour * 60 + minute;
+}
+
+/**
+ * Whether doses fall less often than daily on days the timing does not name,
+ * such as `weekly` or `every other day` without a weekday.
+ */
+function hasUnfixedDay(dosage: FhirDosage): boolean {
+  const repeat = dosage.timing?.repeat;
+  if (
+    !repeat ||
+    repeat.dayOfWeek?.length ||
+    parseTimingDayOfMonthExtensions(dosage.timing) ||
+    parseTimingWeekdayOfMonthExtensions(dosage.timing)
+  ) {
+    return false;
+  }
+  const unit = repeat.periodUnit;
+  if (unit === FhirPeriodUnit.Week || unit === FhirPeriodUnit.Month || unit === FhirPeriodUnit.Year) {
+    return true;
+  }
+  return unit === FhirPeriodUnit.Day && (repeat.period ?? 1) / (repeat.frequency ?? 1) > 1;
+}
+
+/**
+ * First reason a dosage cannot be filled into a pack. `anchored` is true when
+ * a start date fixes the days of sparse schedules.
+ */
+function resolvePackExclusion(
+  dosage: FhirDosage,
+  anchored: boolean
+): CompliancePackExclusionReason | undefined {
+  if (isAsNeeded(dosage)) {
+    return "asNeeded";
+  }
+  const routes = dosage.route?.coding?.map((coding) => coding.code) ?? [];
+  if (routes.length && !routes.some((code) => code === RouteCode["Oral route"])) {
+    return "route";
+  }
+  if (!dosage.timing?.repeat && !dosage.timing?.code) {
+    return "unscheduled";
+  }
+  const dose = dosage.doseAndRate?.[0];
+  const quantity = dose?.doseQuantity;
+  if (!quantity) {
+    return dose?.doseRange ? "variableDose" : "doseUnit";
+  }
+  const unit = readQuantityUnit(quantity);
+  if (getUnitCategory(unit) === "volume") {
+    return "liquid";
+  }
+  const halvable = unit ? PACK_UNIT_HALVABLE[unit.toLowerCase()] : undefined;
+  if (halvable === undefined || quantity.value === undefined) {
+    return "doseUnit";
+  }
+  if (!Number.isInteger(quantity.value * (halvable ? 2 : 1))) {
+    return "splitDose";
+  }
+  return !anchored && hasUnfixedDay(dosage) ? "unfixedDay" : undefined;
+}
+
+/**
+ * Day-or-longer intervals without `when` or `timeOfDay` take their clock from
+ * the start time rather than the prescription.
+ */
+function lacksDoseClock(dosage: FhirDosage): boolean {
+  const repeat = dosage.timing?.repeat;
+  return Boolean(
+    repeat &&
+      !repeat.when?.length &&
+      !repeat.timeOfDay?.length &&
+      (repeat.periodUnit === FhirPeriodUnit.Day ||
+        repeat.periodUnit === FhirPeriodUnit.Week ||
+        repeat.periodUnit === FhirPeriodUnit.Month ||
+        repeat.periodUnit === FhirPeriodUnit.Year)
+  );
+}
+
+/**
+ * Compartment for a scheduled dose: the slot listing its event code, the
+ * first slot for an interval dose without a clock of its own, else the
+ * closest slot clock within `tolerance` minutes on the same day.
+ */
+function findPackSlot(
+  cell: MarCell,
+  dosage: FhirDosage,
+  slots: CompliancePackSlot[],
+  slotMinutes: number[],
+  tolerance: number
+): number | undefined {
+  if (cell.source === "interval" && lacksDoseClock(dosage)) {
+    return 0;
+  }
+  const when = cell.when;
+  if (when) {
+    const listed = slots.findIndex((slot) => arrayIncludes(slot.when ?? [], when));
+    if (listed >= 0) {
+      return listed;
+    }
+  }
+  const minutes = clockToMinutes(cell.clock);
+  let best: number | undefined;
+  slotMinutes.forEach((slot, index) => {
+    const distance = Math.abs(slot - minutes);
+    if (distance <= tolerance && (best === undefined || distance < Math.abs(slotMinutes[best] - minutes))) {
+      best = index;
+    }
+  });
+  return best;
+}
+
+/**
+ * Lays a week of medications out as a compliance (blister) pack: a tablet
+ * count for every day and compartment, with half tablets as 0.5. The pack
+ * starts on the local day containing `from`. A medication with any dosage
+ * that cannot be packed, such as a PRN, a liquid or a non-oral dose, is left
+ * out whole and lists the reasons. Weekly totals come from
+ * `calculateTotalUnits`.
+ */
+export function buildCompliancePack(
+  entries: CompliancePackEntry[],
+  options: CompliancePackOptions
+): CompliancePack {
+  if (!options || typeof options !== "object") {
+    throw new Error("Options argument is required for buildCompliancePack");
+  }
+  if (options.from === undefined) {
+    throw new Error("The 'from' option is required for buildCompliancePack");
+  }
+  const tolerance = options.slotToleranceMinutes ?? DEFAULT_PACK_SLOT_TOLERANCE_MINUTES;
+  if (!Number.isFinite(tolerance) || tolerance < 0) {
+    throw new Error("Invalid slotToleranceMinutes supplied to buildCompliancePack");
+  }
+  const slots = options.slots ?? DEFAULT_PACK_SLOTS;
+  if (!slots.length) {
+    throw new Error("Invalid slots supplied to buildCompliancePack");
+  }
+  const slotMinutes = slots.map((slot) => clockToMinutes(slot.clock));
+  const grid = buildMarGrid(entries, { ...options, days: COMPLIANCE_PACK_DAYS });
+  const timeZone = grid.timeZone;
+  const packStart = startOfLocalDay(coerceDate(options.from, "from"), timeZone);
+  const emptyCounts = () => grid.dates.map(() => slots.map(() => 0));
+  const totals = emptyCounts();
+  const rows = grid.rows.map((row, index): CompliancePackRow => {
+    const orderedAt = entries[index].orderedAt ?? options.orderedAt;
+    const excluded: CompliancePackExclusion[] = [];
+    row.dosages.forEach((dosage, dosageIndex) => {
+      const reason = resolvePackExclusion(dosage, orderedAt !== undefined);
+      if (reason) {
+        excluded.push({ dosageIndex, reason });
+      }
+    });
+    const counts = emptyCounts();
+    for (const cell of row.cells) {
+      const slot = findPackSlot(cell, row.dosages[cell.dosageIndex], slots, slotMinutes, tolerance);
+      if (slot !== undefined) {
+        counts[grid.dates.indexOf(cell.date)][slot] += cell.doseQuantity?.value ?? 0;
+      } else if (!excluded.some((entry) => entry.dosageIndex === cell.dosageIndex)) {
+        excluded.push({ dosageIndex: cell.dosageIndex, reason: "noSlot" });
+      }
+    }
+    if (excluded.length) {
+      return {
+        label: row.label,
+        dosages: row.dosages,
+        counts: emptyCounts(),
+        weeklyTotal: 0,
+        excluded: excluded.sort((left, right) => left.dosageIndex - right.dosageIndex)
+      };
+    }
+    counts.forEach((day, dayIndex) =>
+      day.forEach((count, slotIndex) => {
+        totals[dayIndex][slotIndex] += count;
+      })
+    );
+    const { totalUnits } = calculateTotalUnits({
+      ...options,
+      timeZone,
+      dosage: row.dosages,
+      from: packStart,
+      orderedAt: orderedAt ?? packStart,
+      durationValue: COMPLIANCE_PACK_DAYS,
+      durationUnit: FhirPeriodUnit.Day
+    });
+    return { label: row.label, dosages: row.dosages, counts, weeklyTotal: totalUnits, excluded };
+  });
+  return { timeZone, dates: grid.dates, slots, rows, totals };
+}
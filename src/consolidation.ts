@@ -0,0 +1,341 @@
+import { canonicalFromFhir } from "./fhir";
+import { formatCanonicalClause } from "./format";
+import { resolveSigLocalization } from "./i18n";
+import { DailyClockPlan, isAsNeeded, normalizeClock, resolveDailyClockPlan } from "./schedule";
+import {
+  ConsolidatedClock,
+  ConsolidatedDosage,
+  ConsolidationConstraint,
+  ConsolidationOptions,
+  ConsolidationResult,
+  FhirDosage,
+  FhirPeriodUnit,
+  FhirTiming,
+  FhirTimingRepeat,
+  NextDueDoseConfig,
+  ParseBatchResult
+} from "./types";
+
+const MINUTES_PER_DAY = 24 * 60;
+/** Stops the slot search for a dosage once this many sets have been scored. */
+const MAX_SLOT_COMBINATIONS = 100000;
+/** Floor for the default spacing of a daily frequency, unless the day cannot fit it. */
+const MIN_DEFAULT_SPACING_HOURS = 4;
+
+type MovablePlan = Extract<DailyClockPlan, { kind: "movable" }>;
+
+interface Placement {
+  clocks: number[];
+  added: number;
+  /** Minutes outside the span of the day's other clocks. */
+  outside: number;
+  deviation: number;
+}
+
+/** First and last clock of the day before anything is moved. */
+interface DaySpan {
+  start: number;
+  end: number;
+}
+
+function toMinutes(clock: string): number {
+  const [hour, minute] = clock.split(":").map(Number);
+  return hour * 60 + minute;
+}
+
+function toClock(minutes: number): string {
+  const wrapped = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hour = Math.floor(wrapped / 60);
+  const minute = wrapped % 60;
+  return `${hour < 10 ? "0" : ""}${hour}:${minute < 10 ? "0" : ""}${minute}:00`;
+}
+
+function cyclicDistance(left: number, right: number): number {
+  const distance = Math.abs(left - right) % MINUTES_PER_DAY;
+  return Math.min(distance, MINUTES_PER_DAY - distance);
+}
+
+/** Whether sorted clocks keep `spacing` apart, including across midnight. */
+function keepsSpacing(clocks: number[], spacing: number): boolean {
+  if (clocks.length < 2) {
+    return true;
+  }
+  for (let index = 1; index < clocks.length; index += 1) {
+    if (clocks[index] - clocks[index - 1] < spacing) {
+      return false;
+    }
+  }
+  return clocks[0] + MINUTES_PER_DAY - clocks[clocks.length - 1] >= spacing;
+}
+
+function resolveConfig(options: ConsolidationOptions): NextDueDoseConfig {
+  const provided = options.config;
+  return {
+    eventClock: { ...(provided?.eventClock ?? {}), ...(options.eventClock ?? {}) },
+    mealOffsets: { ...(provided?.mealOffsets ?? {}), ...(options.mealOffsets ?? {}) },
+    frequencyDefaults: {
+      byCode: {
+        ...(provided?.frequencyDefaults?.byCode ?? {}),
+        ...(options.frequencyDefaults?.byCode ?? {})
+      },
+      byFrequency: {
+        ...(provided?.frequencyDefaults?.byFrequency ?? {}),
+        ...(options.frequencyDefaults?.byFrequency ?? {})
+      }
+    }
+  };
+}
+
+/**
+ * Scores a set of clocks: new slots first, then how far it reaches beyond the
+ * day's other clocks (so an interval does not wake the patient when it could
+ * share bedtime), then how far it strays from the dosage's default clocks.
+ */
+function scorePlacement(
+  clocks: number[],
+  used: Set<number>,
+  defaults: number[],
+  span: DaySpan
+): Placement {
+  const added = clocks.filter((clock) => !used.has(clock)).length;
+  const outside = clocks.reduce(
+    (total, clock) => total + Math.max(0, span.start - clock, clock - span.end),
+    0
+  );
+  const deviation =
+    defaults.length === clocks.length
+      ? clocks.reduce((total, clock, index) => total + cyclicDistance(clock, defaults[index]), 0)
+      : 0;
+  return { clocks, added, outside, deviation };
+}
+
+function isBetter(candidate: Placement, best: Placement | undefined): boolean {
+  if (!best || candidate.added !== best.added) {
+    return !best || candidate.added < best.added;
+  }
+  if (candidate.outside !== best.outside) {
+    return candidate.outside < best.outside;
+  }
+  return candidate.deviation < best.deviation;
+}
+
+/**
+ * Default closest spacing for a daily frequency: half an even split of the
+ * day, but no less than 4 hours unless the even split itself is shorter.
+ * Twice daily keeps 6 hours apart; three and four times daily keep 4.
+ */
+function defaultSpacingHours(doses: number): number {
+  return Math.max(12 / doses, Math.min(MIN_DEFAULT_SPACING_HOURS, 24 / doses));
+}
+
+/**
+ * Picks the clocks for one movable dosage. Intervals try their grid from
+ * every candidate and get no clocks when there is none to start from; daily
+ * frequencies try every set of candidates that keeps the minimum spacing.
+ * Without any valid set the defaults are kept.
+ */
+function placeDoses(
+  plan: MovablePlan,
+  candidates: number[],
+  used: Set<number>,
+  spacing: number,
+  span: DaySpan
+): number[] {
+  const defaults = plan.defaults.map(toMinutes);
+  let best: Placement | undefined;
+  if (plan.intervalMinutes) {
+    for (const start of candidates) {
+      const grid: number[] = [];
+      for (let index = 0; index < plan.doses; index += 1) {
+        grid.push((start + index * plan.intervalMinutes) % MINUTES_PER_DAY);
+      }
+      const placement = scorePlacement(grid.sort((a, b) => a - b), used, defaults, span);
+      if (isBetter(placement, best)) {
+        best = placement;
+      }
+    }
+    return best ? best.clocks : [];
+  }
+  if (defaults.length === plan.doses && keepsSpacing(defaults, spacing)) {
+    best = scorePlacement(defaults, used, defaults, span);
+  }
+  let scored = 0;
+  const chosen: number[] = [];
+  const search = (from: number) => {
+    if (scored >= MAX_SLOT_COMBINATIONS) {
+      return;
+    }
+    if (chosen.length === plan.doses) {
+      scored += 1;
+      if (keepsSpacing(chosen, spacing)) {
+        const placement = scorePlacement([...chosen], used, defaults, span);
+        if (isBetter(placement, best)) {
+          best = placement;
+        }
+      }
+      return;
+    }
+    for (let index = from; index < candidates.length; index += 1) {
+      const previous = chosen[chosen.length - 1];
+      if (previous !== undefined && candidates[index] - previous < spacing) {
+        continue;
+      }
+      chosen.push(candidates[index]);
+      search(index + 1);
+      chosen.pop();
+    }
+  };
+  search(0);
+  return best ? best.clocks : defaults;
+}
+
+/**
+ * A daily frequency or interval becomes `timeOfDay` clocks. Hourly intervals
+ * turn into a daily frequency and lose their timing code; sparser schedules
+ * keep their period.
+ */
+function applyClocks(dosage: FhirDosage, plan: MovablePlan, clocks: string[]): FhirDosage {
+  const timing: FhirTiming = dosage.timing ?? {};
+  const repeat: FhirTimingRepeat = { ...(timing.repeat ?? {}), timeOfDay: clocks };
+  if (!plan.intervalMinutes) {
+    return { ...dosage, timing: { ...timing, repeat } };
+  }
+  const { code: _code, ...rest } = timing;
+  const daily: FhirTimingRepeat = {
+    ...repeat,
+    frequency: plan.doses,
+    period: 1,
+    periodUnit: FhirPeriodUnit.Day
+  };
+  return { ...dosage, timing: { ...rest, repeat: daily } };
+}
+
+/**
+ * Proposes shared administration clocks for several dosages to cut the
+ * number of distinct times a patient takes medicines each day. Meal codes,
+ * bedtime and explicit clocks stay where they are; daily frequencies and
+ * hourly intervals are moved onto slots already in use where their spacing
+ * allows, placing the most frequent dosages first. Each clock reports what
+ * put it there.
+ */
+export function consolidateAdministrationTimes(
+  dosage: FhirDosage[] | ParseBatchResult,
+  options: ConsolidationOptions = {}
+): ConsolidationResult {
+  const dosages = Array.isArray(dosage) ? dosage : dosage.items.map((item) => item.fhir);
+  if (
+    options.minSpacingHours !== undefined &&
+    (!Number.isFinite(options.minSpacingHours) || options.minSpacingHours <= 0)
+  ) {
+    throw new Error("Invalid minSpacingHours supplied to consolidateAdministrationTimes");
+  }
+  const config = resolveConfig(options);
+  const plans = dosages.map((entry) =>
+    isAsNeeded(entry) ? undefined : resolveDailyClockPlan(entry, config)
+  );
+
+  const assigned = new Map<number, number[]>();
+  const pinnedConstraints = new Map<number, Map<number, ConsolidationConstraint>>();
+  const base = new Set<number>();
+  const original = new Set<number>();
+  plans.forEach((plan, index) => {
+    if (plan?.kind === "pinned") {
+      const constraints = new Map(plan.clocks.map((entry) => [toMinutes(entry.clock), entry.constraint]));
+      pinnedConstraints.set(index, constraints);
+      assigned.set(index, Array.from(constraints.keys()));
+    }
+    const clocks =
+      plan?.kind === "pinned" ? plan.clocks.map((entry) => entry.clock) : plan?.defaults ?? [];
+    for (const clock of clocks) {
+      base.add(toMinutes(clock));
+      original.add(toMinutes(clock));
+    }
+  });
+  const eventClock = config.eventClock ?? {};
+  for (const clock of [
+    ...Object.keys(eventClock).map((code) => eventClock[code]),
+    ...(options.candidateClocks ?? [])
+  ]) {
+    base.add(toMinutes(normalizeClock(clock)));
+  }
+  const candidates = new Set(base);
+  for (const plan of plans) {
+    if (plan?.kind === "movable" && plan.intervalMinutes) {
+      base.forEach((start) => {
+        for (let index = 0; index < plan.doses; index += 1) {
+          candidates.add((start + index * plan.intervalMinutes!) % MINUTES_PER_DAY);
+        }
+      });
+    }
+  }
+  const sortedCandidates = Array.from(candidates).sort((a, b) => a - b);
+  const span: DaySpan = base.size
+    ? { start: Math.min(...Array.from(base)), end: Math.max(...Array.from(base)) }
+    : { start: 0, end: MINUTES_PER_DAY };
+
+  const used = new Set<number>();
+  assigned.forEach((clocks) => clocks.forEach((clock) => used.add(clock)));
+  const movable = plans
+    .map((plan, index) => ({ plan, index }))
+    .filter((entry): entry is { plan: MovablePlan; index: number } => entry.plan?.kind === "movable")
+    .sort((left, right) => right.plan.doses - left.plan.doses || left.index - right.index);
+  for (const { plan, index } of movable) {
+    const spacing = (options.minSpacingHours ?? defaultSpacingHours(plan.doses)) * 60;
+    const clocks = placeDoses(plan, sortedCandidates, used, spacing, span);
+    assigned.set(index, clocks);
+    clocks.forEach((clock) => used.add(clock));
+  }
+
+  const owners = new Map<number, number[]>();
+  assigned.forEach((clocks, index) => {
+    for (const clock of clocks) {
+      owners.set(clock, [...(owners.get(clock) ?? []), index]);
+    }
+  });
+  const localization = resolveSigLocalization(options.locale, options.i18n);
+  const items: ConsolidatedDosage[] = dosages.map((entry, index) => {
+    const plan = plans[index];
+    if (!plan) {
+      return {
+        dosageIndex: index,
+        dosage: entry,
+        movable: false,
+        clocks: [],
+        excluded: isAsNeeded(entry) ? "asNeeded" : "unscheduled"
+      };
+    }
+    const minutes = [...(assigned.get(index) ?? [])].sort((a, b) => a - b);
+    const clocks: ConsolidatedClock[] = minutes.map((clock) => {
+      const sharedWith = (owners.get(clock) ?? [])
+        .filter((owner) => owner !== index)
+        .sort((a, b) => a - b);
+      const drivenBy: ConsolidationConstraint =
+        pinnedConstraints.get(index)?.get(clock) ??
+        (sharedWith.length
+          ? "sharedSlot"
+          : plan.kind === "movable" && plan.intervalMinutes
+          ? "interval"
+          : plan.kind === "movable" && plan.defaults.some((value) => toMinutes(value) === clock)
+          ? "defaultClock"
+          : "minSpacing");
+      return { clock: toClock(clock), drivenBy, sharedWith };
+    });
+    if (plan.kind === "pinned" || !clocks.length) {
+      return { dosageIndex: index, dosage: entry, movable: false, clocks };
+    }
+    const adjusted = applyClocks(entry, plan, clocks.map((clock) => clock.clock));
+    adjusted.text = formatCanonicalClause(canonicalFromFhir(adjusted), "long", localization, options);
+    return { dosageIndex: index, dosage: adjusted, movable: true, clocks };
+  });
+
+  return {
+    items,
+    slots: Array.from(owners.keys())
+      .sort((a, b) => a - b)
+      .map((clock) => ({
+        clock: toClock(clock),
+        dosageIndexes: [...(owners.get(clock) ?? [])].sort((a, b) => a - b)
+      })),
+    originalSlotCount: original.size
+  };
+}
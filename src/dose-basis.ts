@@ -0,0 +1,143 @@
+import { inferUnitFromContext } from "./context";
+import {
+  CanonicalCalculatedDose,
+  CanonicalDoseExpr,
+  DoseBasisUnit,
+  FhirRatio,
+  MedicationContext
+} from "./types";
+import { isDiscreteUnit } from "./unit-lexicon";
+import { parseStrengthIntoRatio } from "./utils/strength";
+import { convertValue, getUnitCategory } from "./utils/units";
+
+/** Smallest practical liquid measure for oral syringes and infusions. */
+const VOLUME_INCREMENT_ML = 0.1;
+
+/** Scored tablets are commonly split; other discrete units are given whole. */
+const SPLITTABLE_DISCRETE_UNITS = new Set(["tab", "tablet"]);
+
+function roundTo(value: number, increment: number): number {
+  return Number((Math.round(value / increment) * increment).toFixed(6));
+}
+
+/**
+ * Mosteller body surface area in m², rounded to two decimals.
+ */
+export function estimateBodySurfaceArea(weightKg: number, heightCm: number): number {
+  return Number(Math.sqrt((weightKg * heightCm) / 3600).toFixed(2));
+}
+
+/**
+ * Patient size for the requested basis, or undefined when the context lacks
+ * the anthropometrics to derive it.
+ */
+export function resolveDoseBasisAmount(
+  basisUnit: DoseBasisUnit,
+  context: MedicationContext | undefined
+): number | undefined {
+  const weight = context?.weightKg !== undefined && context.weightKg > 0 ? context.weightKg : undefined;
+  if (basisUnit === "kg") {
+    return weight;
+  }
+  if (context?.bodySurfaceAreaM2 !== undefined && context.bodySurfaceAreaM2 > 0) {
+    return context.bodySurfaceAreaM2;
+  }
+  const height = context?.heightCm !== undefined && context.heightCm > 0 ? context.heightCm : undefined;
+  return weight !== undefined && height !== undefined
+    ? estimateBodySurfaceArea(weight, height)
+    : undefined;
+}
+
+function resolveAdministrableStrength(context: MedicationContext | undefined): FhirRatio | undefined {
+  if (context?.strengthRatio) {
+    return context.strengthRatio;
+  }
+  if (context?.strengthQuantity) {
+    return {
+      numerator: context.strengthQuantity,
+      denominator: { value: 1, unit: inferUnitFromContext(context) ?? "unit" }
+    };
+  }
+  if (context?.strength) {
+    const ratio = parseStrengthIntoRatio(context.strength, context);
+    if (ratio?.denominator?.unit === "unit") {
+      return {
+        ...ratio,
+        denominator: { ...ratio.denominator, unit: inferUnitFromContext(context) ?? "unit" }
+      };
+    }
+    return ratio ?? undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Rounds an absolute dose so it can actually be measured out from the
+ * product: whole or half tablets, 0.1 mL of liquid, or two decimals when no
+ * strength is known.
+ */
+export function roundToAdministrableDose(
+  amount: number,
+  unit: string | undefined,
+  context: MedicationContext | undefined
+): number {
+  const strength = resolveAdministrableStrength(context);
+  const numeratorValue = strength?.numerator?.value;
+  const numeratorUnit = strength?.numerator?.unit;
+  const denominatorValue = strength?.denominator?.value ?? 1;
+  const denominatorUnit = strength?.denominator?.unit;
+  if (!unit || !numeratorValue || !numeratorUnit || !denominatorUnit || !denominatorValue) {
+    return roundTo(amount, 0.01);
+  }
+  const inNumeratorUnit = convertValue(amount, unit, numeratorUnit);
+  if (inNumeratorUnit === null) {
+    return roundTo(amount, 0.01);
+  }
+  let increment: number;
+  if (getUnitCategory(denominatorUnit) === "volume") {
+    increment = convertValue(VOLUME_INCREMENT_ML, "mL", denominatorUnit) ?? VOLUME_INCREMENT_ML;
+  } else if (denominatorUnit === "unit" || isDiscreteUnit(denominatorUnit)) {
+    increment = SPLITTABLE_DISCRETE_UNITS.has(denominatorUnit) ? 0.5 : 1;
+  } else {
+    return roundTo(amount, 0.01);
+  }
+  const administrable = roundTo((inNumeratorUnit * denominatorValue) / numeratorValue, increment);
+  const rounded = convertValue((administrable * numeratorValue) / denominatorValue, numeratorUnit, unit);
+  return rounded === null ? roundTo(amount, 0.01) : roundTo(rounded, 0.000001);
+}
+
+/**
+ * Resolves the absolute dose for a per-kg or per-m² dose. Returns a warning
+ * instead when the patient context cannot supply the basis.
+ */
+export function resolveCalculatedDose(
+  dose: CanonicalDoseExpr,
+  context: MedicationContext | undefined
+): { calculated?: CanonicalCalculatedDose; warning?: string } {
+  if (!dose.basisUnit) {
+    return {};
+  }
+  const basis = resolveDoseBasisAmount(dose.basisUnit, context);
+  if (basis === undefined) {
+    return {
+      warning: dose.basisUnit === "kg"
+        ? "Weight-based dose needs patient weight (context.weightKg) to calculate the absolute dose."
+        : "BSA-based dose needs patient BSA or weight and height (context.bodySurfaceAreaM2, or weightKg and heightCm) to calculate the absolute dose."
+    };
+  }
+  const scale = (value: number | undefined) =>
+    value === undefined ? undefined : roundToAdministrableDose(value * basis, dose.unit, context);
+  if (dose.range) {
+    const low = scale(dose.range.low);
+    const high = scale(dose.range.high);
+    // Rounding to the product strength can collapse a narrow range.
+    if (low !== undefined && low === high) {
+      return { calculated: { value: low, unit: dose.unit } };
+    }
+    return { calculated: { range: { low, high }, unit: dose.unit } };
+  }
+  if (dose.value !== undefined) {
+    return { calculated: { value: scale(dose.value), unit: dose.unit } };
+  }
+  return {};
+}
@@ -0,0 +1,198 @@
+import { normalizeLoosePhraseKey } from "./utils/text";
+import { objectEntries } from "./utils/object";
+import {
+  CanonicalEventAnchor,
+  ClinicalEventAnchorDefinition,
+  EventAnchorRelation,
+  EventCalendar,
+  FhirDayOfWeek,
+  FhirExtension,
+  FhirTiming
+} from "./types";
+
+export const TIMING_EVENT_ANCHOR_EXTENSION_URL = "urn:ezmedicationinput:timing-event-anchor";
+
+const EVENT_URL = "event";
+const RELATION_URL = "relation";
+const OFFSET_URL = "offset";
+const CLOCK_URL = "clock";
+const DURATION_URL = "duration";
+const DAY_OF_WEEK_URL = "dayOfWeek";
+
+const RELATIONS = new Set<string>([EventAnchorRelation.Before, EventAnchorRelation.After]);
+
+const DAYS_OF_WEEK = new Set<string>([
+  FhirDayOfWeek.Monday,
+  FhirDayOfWeek.Tuesday,
+  FhirDayOfWeek.Wednesday,
+  FhirDayOfWeek.Thursday,
+  FhirDayOfWeek.Friday,
+  FhirDayOfWeek.Saturday,
+  FhirDayOfWeek.Sunday
+]);
+
+/** `HH:mm` or `HH:mm:ss` as `HH:mm:ss`, or undefined when malformed. */
+function normalizeAnchorClock(clock: string | undefined): string | undefined {
+  const match = clock?.trim().match(/^([01]?[0-9]|2[0-3]):([0-5][0-9])(?::([0-5][0-9]))?$/);
+  if (!match) {
+    return undefined;
+  }
+  const hour = match[1].length === 1 ? `0${match[1]}` : match[1];
+  return `${hour}:${match[2]}:${match[3] ?? "00"}`;
+}
+
+/**
+ * Finds the anchor whose key, text, or alias matches `phrase`, returning it
+ * as a canonical anchor without a relation.
+ */
+export function lookupEventAnchor(
+  map: Record<string, ClinicalEventAnchorDefinition> | undefined,
+  phrase: string
+): CanonicalEventAnchor | undefined {
+  if (!map) {
+    return undefined;
+  }
+  const normalized = normalizeLoosePhraseKey(phrase);
+  if (!normalized) {
+    return undefined;
+  }
+  for (const [key, definition] of objectEntries(map)) {
+    const names = [key, ...(definition.text ? [definition.text] : []), ...(definition.aliases ?? [])];
+    if (!names.some((name) => normalizeLoosePhraseKey(name) === normalized)) {
+      continue;
+    }
+    const anchor: CanonicalEventAnchor = { text: definition.text ?? key };
+    if (definition.coding?.code) {
+      anchor.coding = { ...definition.coding };
+    }
+    const clock = normalizeAnchorClock(definition.clock);
+    if (clock) {
+      anchor.clock = clock;
+    }
+    if (definition.duration !== undefined && definition.duration > 0) {
+      anchor.duration = definition.duration;
+    }
+    const days = (definition.dayOfWeek ?? []).filter((day) => DAYS_OF_WEEK.has(day));
+    if (days.length) {
+      anchor.dayOfWeek = days;
+    }
+    return anchor;
+  }
+  return undefined;
+}
+
+/**
+ * Custom clinical events have no `EventTiming` code, so the anchor rides on
+ * `Timing.extension`: the event as a CodeableConcept, `before`/`after`, the
+ * offset in minutes, and the definition's usual clock, duration, and weekdays
+ * so schedules can be projected without a patient calendar.
+ */
+export function buildTimingEventAnchorExtension(anchor: CanonicalEventAnchor): FhirExtension {
+  const extension: FhirExtension[] = [
+    {
+      url: EVENT_URL,
+      valueCodeableConcept: anchor.coding
+        ? { coding: [{ ...anchor.coding }], text: anchor.text }
+        : { text: anchor.text }
+    }
+  ];
+  if (anchor.relation) {
+    extension.push({ url: RELATION_URL, valueCode: anchor.relation });
+  }
+  if (anchor.offset) {
+    extension.push({
+      url: OFFSET_URL,
+      valueQuantity: {
+        value: anchor.offset,
+        unit: "min",
+        system: "http://unitsofmeasure.org",
+        code: "min"
+      }
+    });
+  }
+  if (anchor.clock) {
+    extension.push({ url: CLOCK_URL, valueTime: anchor.clock });
+  }
+  if (anchor.duration) {
+    extension.push({
+      url: DURATION_URL,
+      valueQuantity: {
+        value: anchor.duration,
+        unit: "min",
+        system: "http://unitsofmeasure.org",
+        code: "min"
+      }
+    });
+  }
+  for (const day of anchor.dayOfWeek ?? []) {
+    extension.push({ url: DAY_OF_WEEK_URL, valueCode: day });
+  }
+  return { url: TIMING_EVENT_ANCHOR_EXTENSION_URL, extension };
+}
+
+/** Reads the anchor back from `Timing.extension`, or undefined when absent or unnamed. */
+export function parseTimingEventAnchorExtension(
+  timing: FhirTiming | undefined
+): CanonicalEventAnchor | undefined {
+  const extension = timing?.extension?.find((entry) => entry.url === TIMING_EVENT_ANCHOR_EXTENSION_URL);
+  if (!extension) {
+    return undefined;
+  }
+  const parts = extension.extension ?? [];
+  const part = (url: string) => parts.find((entry) => entry.url === url);
+  const concept = part(EVENT_URL)?.valueCodeableConcept;
+  const coding = concept?.coding?.[0];
+  const text = concept?.text ?? coding?.display ?? coding?.code;
+  if (!text) {
+    return undefined;
+  }
+  const anchor: CanonicalEventAnchor = { text };
+  if (coding?.code) {
+    anchor.coding = { ...coding };
+  }
+  const relation = part(RELATION_URL)?.valueCode;
+  if (relation && RELATIONS.has(relation)) {
+    anchor.relation = relation as EventAnchorRelation;
+  }
+  const offset = part(OFFSET_URL)?.valueQuantity?.value;
+  if (offset !== undefined && offset > 0) {
+    anchor.offset = offset;
+  }
+  const clock = normalizeAnchorClock(part(CLOCK_URL)?.valueTime);
+  if (clock) {
+    anchor.clock = clock;
+  }
+  const duration = part(DURATION_URL)?.valueQuantity?.value;
+  if (duration !== undefined && duration > 0) {
+    anchor.duration = duration;
+  }
+  const days = parts
+    .filter((entry) => entry.url === DAY_OF_WEEK_URL && entry.valueCode && DAYS_OF_WEEK.has(entry.valueCode))
+    .map((entry) => entry.valueCode as FhirDayOfWeek);
+  if (days.length) {
+    anchor.dayOfWeek = days;
+  }
+  return anchor;
+}
+
+/**
+ * Occurrences listed for the anchor in a patient calendar, matched on the
+ * anchor's code or text; undefined when the calendar has no entry for it.
+ */
+export function lookupEventCalendar(
+  calendar: EventCalendar | undefined,
+  anchor: CanonicalEventAnchor
+): Array<Date | string> | undefined {
+  if (!calendar) {
+    return undefined;
+  }
+  const names = [anchor.coding?.code, anchor.text]
+    .filter((name): name is string => Boolean(name))
+    .map((name) => normalizeLoosePhraseKey(name));
+  for (const [key, occurrences] of objectEntries(calendar)) {
+    if (names.indexOf(normalizeLoosePhraseKey(key)) !== -1) {
+      return occurrences;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,325 @@
+import { canonicalFromFhir } from "./fhir";
+import { formatCanonicalClause } from "./format";
+import { resolveSigLocalization, SigLocalization } from "./i18n";
+import { isAsNeeded } from "./schedule";
+import {
+  EventClockMap,
+  EventTiming,
+  FastingOptions,
+  FastingRemapItem,
+  FastingRemapReason,
+  FastingRemapResult,
+  FhirDosage,
+  FhirPeriodUnit,
+  FhirTiming,
+  FhirTimingRepeat,
+  ParseBatchResult,
+  RouteCode
+} from "./types";
+
+const MINUTES_PER_DAY = 24 * 60;
+const DEFAULT_MIN_SPACING_HOURS = 4;
+const CLOCK_PATTERN = /^([01]?[0-9]|2[0-3]):([0-5][0-9])(?::([0-5][0-9]))?$/;
+
+/**
+ * Codes that already fall after iftar, which is the evening meal during a
+ * fast, so `with dinner` and `at bedtime` doses need no remapping.
+ */
+const EVENING_WHEN_CODES = new Set<string>([
+  EventTiming.Dinner,
+  EventTiming["Before Dinner"],
+  EventTiming["After Dinner"],
+  EventTiming.Night,
+  EventTiming["Before Sleep"]
+]);
+
+/** Generic meal codes stand for three doses a day. */
+const MEAL_WHEN_CODES = new Set<string>([
+  EventTiming.Meal,
+  EventTiming["Before Meal"],
+  EventTiming["After Meal"]
+]);
+
+const UNIT_MINUTES: Record<string, number> = { s: 1 / 60, min: 1, h: 60 };
+
+type MealRelation = "before" | "with" | "after";
+
+/** Meal codes by relation; `order` places breakfast, lunch and dinner, generic codes have none. */
+const MEAL_CODE_RELATIONS: Record<string, { relation: MealRelation; order?: number }> = {
+  [EventTiming.Meal]: { relation: "with" },
+  [EventTiming["Before Meal"]]: { relation: "before" },
+  [EventTiming["After Meal"]]: { relation: "after" },
+  [EventTiming.Breakfast]: { relation: "with", order: 0 },
+  [EventTiming["Before Breakfast"]]: { relation: "before", order: 0 },
+  [EventTiming["After Breakfast"]]: { relation: "after", order: 0 },
+  [EventTiming.Lunch]: { relation: "with", order: 1 },
+  [EventTiming["Before Lunch"]]: { relation: "before", order: 1 },
+  [EventTiming["After Lunch"]]: { relation: "after", order: 1 },
+  [EventTiming.Dinner]: { relation: "with", order: 2 },
+  [EventTiming["Before Dinner"]]: { relation: "before", order: 2 },
+  [EventTiming["After Dinner"]]: { relation: "after", order: 2 }
+};
+
+/** Suhoor stands in for breakfast and iftar for dinner. */
+const SUHOOR_CODES: Record<MealRelation, EventTiming> = {
+  before: EventTiming["Before Breakfast"],
+  with: EventTiming.Breakfast,
+  after: EventTiming["After Breakfast"]
+};
+const IFTAR_CODES: Record<MealRelation, EventTiming> = {
+  before: EventTiming["Before Dinner"],
+  with: EventTiming.Dinner,
+  after: EventTiming["After Dinner"]
+};
+
+interface EatingWindow {
+  /** Minutes after midnight. */
+  iftar: number;
+  suhoor: number;
+  /** Minutes from iftar to suhoor, across midnight. */
+  length: number;
+}
+
+function parseClockMinutes(clock: string | undefined, label: string): number {
+  const match = clock?.trim().match(CLOCK_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid ${label} supplied to remapForFasting`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function formatClock(minutes: number): string {
+  const wrapped = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(wrapped / 60);
+  const rest = wrapped % 60;
+  return `${hours < 10 ? "0" : ""}${hours}:${rest < 10 ? "0" : ""}${rest}:00`;
+}
+
+function resolveEatingWindow(options: FastingOptions): EatingWindow {
+  const suhoorClock = options.suhoor ?? options.window?.start;
+  const iftarClock = options.iftar ?? options.window?.end;
+  if (suhoorClock === undefined || iftarClock === undefined) {
+    throw new Error("A fasting window or suhoor and iftar clocks must be supplied to remapForFasting");
+  }
+  const suhoor = parseClockMinutes(suhoorClock, "suhoor");
+  const iftar = parseClockMinutes(iftarClock, "iftar");
+  if (suhoor === iftar) {
+    throw new Error("suhoor and iftar cannot share a clock in remapForFasting");
+  }
+  return { iftar, suhoor, length: (suhoor - iftar + MINUTES_PER_DAY) % MINUTES_PER_DAY };
+}
+
+function isAfterIftar(minutes: number, window: EatingWindow): boolean {
+  return (minutes - window.iftar + MINUTES_PER_DAY) % MINUTES_PER_DAY <= window.length;
+}
+
+/** Oral doses, or doses without a route, are the ones that break a fast. */
+function breaksFast(dosage: FhirDosage): boolean {
+  const codes = dosage.route?.coding?.map((coding) => coding.code) ?? [];
+  return !codes.length || codes.some((code) => code === RouteCode["Oral route"]);
+}
+
+/**
+ * Doses per dosing day, or a reason the repeat cannot be laid out by day.
+ * Intervals of a day or more and weekly or monthly schedules give one dose
+ * on each dosing day.
+ */
+function resolveDailyDoses(repeat: FhirTimingRepeat): number | FastingRemapReason {
+  const { frequency, period, periodUnit } = repeat;
+  if (periodUnit && UNIT_MINUTES[periodUnit] !== undefined && period) {
+    const spacing = (period * UNIT_MINUTES[periodUnit]) / (frequency ?? 1);
+    if (spacing >= MINUTES_PER_DAY) {
+      return spacing % MINUTES_PER_DAY === 0 ? 1 : "irregularInterval";
+    }
+    return MINUTES_PER_DAY % spacing === 0 ? MINUTES_PER_DAY / spacing : "irregularInterval";
+  }
+  if (periodUnit === "d" && period && period > 1) {
+    return (frequency ?? 1) === 1 ? 1 : "irregularInterval";
+  }
+  if (periodUnit && periodUnit !== "d") {
+    return 1;
+  }
+  if (frequency) {
+    return frequency;
+  }
+  const whenCodes = (repeat.when ?? []).filter((code) => code !== EventTiming.Immediate);
+  const mealCount = whenCodes.some((code) => MEAL_WHEN_CODES.has(code)) ? 3 : 0;
+  const count = Math.max(whenCodes.length, repeat.timeOfDay?.length ?? 0, mealCount);
+  return count || "unscheduled";
+}
+
+function isAlreadyOutsideFast(repeat: FhirTimingRepeat, window: EatingWindow): boolean {
+  if (repeat.timeOfDay?.length) {
+    return repeat.timeOfDay.every((clock) => isAfterIftar(parseClockMinutes(clock, "timeOfDay"), window));
+  }
+  return Boolean(repeat.when?.length && repeat.when.every((code) => EVENING_WHEN_CODES.has(code)));
+}
+
+/**
+ * Clocks for `count` doses: one at iftar, or spread evenly from iftar to
+ * suhoor so the first and last doses go with the two meals.
+ */
+function layoutClocks(count: number, window: EatingWindow): string[] {
+  const clocks: string[] = [];
+  for (let index = 0; index < count; index += 1) {
+    const offset = count > 1 ? Math.round((window.length * index) / (count - 1)) : 0;
+    clocks.push(formatClock(window.iftar + offset));
+  }
+  return clocks.sort();
+}
+
+/**
+ * Meal codes for a schedule taken with meals: a breakfast dose goes with
+ * suhoor, any other single dose with iftar, and two doses with suhoor and
+ * iftar, each keeping its before/with/after relation.
+ * Undefined when no dose is tied to a meal, and `mealRelation` when the doses
+ * need more meals than the two, or mix meals with other events.
+ */
+function resolveMealCodes(repeat: FhirTimingRepeat, count: number): EventTiming[] | undefined | "mealRelation" {
+  const codes = (repeat.when ?? []).filter((code) => code !== EventTiming.Immediate);
+  const meals = codes.map((code) => MEAL_CODE_RELATIONS[code]);
+  if (!meals.some(Boolean)) {
+    return undefined;
+  }
+  if (meals.some((meal) => !meal)) {
+    return "mealRelation";
+  }
+  const generic = meals.filter((meal) => meal.order === undefined);
+  if (generic.length && (generic.length > 1 || generic.length < meals.length)) {
+    return "mealRelation";
+  }
+  const doses = generic.length
+    ? Array.from({ length: count }, () => generic[0])
+    : meals.sort((left, right) => (left.order as number) - (right.order as number));
+  if (doses.length > 2) {
+    return "mealRelation";
+  }
+  if (doses.length === 1) {
+    return [(doses[0].order === 0 ? SUHOOR_CODES : IFTAR_CODES)[doses[0].relation]];
+  }
+  return [SUHOOR_CODES[doses[0].relation], IFTAR_CODES[doses[1].relation]];
+}
+
+/**
+ * A daily schedule becomes `count` doses a day at the new clocks or meals;
+ * sparser ones (`q2d`, weekly) keep their period and only move. Meal offsets
+ * stay with meal codes; the timing code and ranges no longer describe the
+ * schedule, so they go.
+ */
+function remapTiming(
+  timing: FhirTiming,
+  count: number,
+  placement: Pick<FhirTimingRepeat, "when" | "timeOfDay">
+): FhirTiming {
+  const {
+    when: _when,
+    offset,
+    timeOfDay: _timeOfDay,
+    frequencyMax: _frequencyMax,
+    periodMax: _periodMax,
+    ...kept
+  } = timing.repeat ?? {};
+  const { code: _code, ...rest } = timing;
+  const repeat: FhirTimingRepeat = { ...kept, ...placement };
+  if (placement.when && offset !== undefined) {
+    repeat.offset = offset;
+  }
+  const daily =
+    !kept.periodUnit ||
+    UNIT_MINUTES[kept.periodUnit] !== undefined ||
+    (kept.periodUnit === FhirPeriodUnit.Day && (kept.period ?? 1) === 1);
+  if (daily) {
+    repeat.frequency = count;
+    repeat.period = 1;
+    repeat.periodUnit = FhirPeriodUnit.Day;
+  }
+  return { ...rest, repeat };
+}
+
+type DosageRemap = Omit<FastingRemapItem, "text">;
+
+function describe(
+  dosage: FhirDosage,
+  localization: SigLocalization | undefined,
+  options: FastingOptions
+): string {
+  return formatCanonicalClause(canonicalFromFhir(dosage), "long", localization, options);
+}
+
+function remapDosage(dosage: FhirDosage, window: EatingWindow, minSpacing: number): DosageRemap {
+  const keep = (status: "unchanged" | "unsafe", reason: FastingRemapReason): DosageRemap => ({
+    dosage,
+    status,
+    reason
+  });
+  if (isAsNeeded(dosage)) {
+    return keep("unchanged", "asNeeded");
+  }
+  if (!breaksFast(dosage)) {
+    return keep("unchanged", "route");
+  }
+  const timing = dosage.timing;
+  const repeat = timing?.repeat;
+  if (!timing || !repeat || timing.event?.length) {
+    return keep("unchanged", "unscheduled");
+  }
+  if (isAlreadyOutsideFast(repeat, window)) {
+    return keep("unchanged", "outsideFast");
+  }
+  const count = resolveDailyDoses(repeat);
+  if (typeof count !== "number") {
+    return keep(count === "unscheduled" ? "unchanged" : "unsafe", count);
+  }
+  if (count > 1 && window.length / (count - 1) < minSpacing) {
+    return keep("unsafe", "tooFrequent");
+  }
+  const meals = resolveMealCodes(repeat, count);
+  if (meals === "mealRelation") {
+    return keep("unsafe", meals);
+  }
+  const placement = meals ? { when: meals } : { timeOfDay: layoutClocks(count, window) };
+  return {
+    dosage: { ...dosage, timing: remapTiming(timing, meals?.length ?? count, placement) },
+    status: "remapped"
+  };
+}
+
+/**
+ * Moves oral doses out of a daytime fast, e.g. for Ramadan. Each day's doses
+ * are spread from iftar to suhoor, and doses taken with meals move to those
+ * two meals; a regimen whose doses would land closer than `minSpacingHours`
+ * (such as `q6h`) or that needs a third meal is flagged unsafe and kept as
+ * written. As-needed and non-oral dosages are left alone.
+ */
+export function remapForFasting(
+  dosage: FhirDosage | FhirDosage[] | ParseBatchResult,
+  options: FastingOptions
+): FastingRemapResult {
+  if (!options || typeof options !== "object") {
+    throw new Error("Options argument is required for remapForFasting");
+  }
+  const window = resolveEatingWindow(options);
+  const minSpacingHours = options.minSpacingHours ?? DEFAULT_MIN_SPACING_HOURS;
+  if (!Number.isFinite(minSpacingHours) || minSpacingHours <= 0) {
+    throw new Error("Invalid minSpacingHours supplied to remapForFasting");
+  }
+  const dosages = Array.isArray(dosage)
+    ? dosage
+    : "items" in dosage
+    ? dosage.items.map((item) => item.fhir)
+    : [dosage];
+  const localization = resolveSigLocalization(options.locale, options.i18n);
+  const items = dosages.map((entry) => {
+    const result = remapDosage(entry, window, minSpacingHours * 60);
+    const text = describe(result.dosage, localization, options);
+    // The dosage text has to follow its new schedule.
+    return result.status === "remapped"
+      ? { ...result, dosage: { ...result.dosage, text }, text }
+      : { ...result, text };
+  });
+  const eventClock: EventClockMap = {
+    [EventTiming.Breakfast]: formatClock(window.suhoor),
+    [EventTiming.Dinner]: formatClock(window.iftar)
+  };
+  return { items, safe: items.every((item) => item.status !== "unsafe"), eventClock };
+}
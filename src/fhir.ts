@@ -14,7 +14,21 @@ import { cloneExtensions, clonePrimitiveElement } from "./fhir-translations";
 import { formatCanonicalClause } from "./format";
 import { ParserState } from "./parser-state";
 import { joinCanonicalPrnReasonTexts } from "./prn";
+import {
+  buildSlidingScaleDoseAndRate,
+  isSlidingScaleDoseAndRate,
+  parseSlidingScaleDoseAndRate
+} from "./sliding-scale";
 import { parseSnomedFindingSitePostcoordinationCode } from "./snomed-postcoordination";
+import { buildTimingCycleExtension, parseTimingCycleExtension } from "./timing-cycle";
+import { buildTimingWhileAwakeExtension, isTimingWhileAwake } from "./timing-awake";
+import { buildUcumQuantity, readQuantityUnit, UCUM_SYSTEM } from "./ucum";
+import {
+  buildTimingCalendarExtensions,
+  parseTimingDayOfMonthExtensions,
+  parseTimingWeekdayOfMonthExtensions
+} from "./timing-calendar";
+import { buildTimingEventAnchorExtension, parseTimingEventAnchorExtension } from "./event-anchor";
 import {
   ROUTE_BY_SNOMED,
   ROUTE_SNOMED,
@@ -22,16 +36,26 @@ import {
   findPrnReasonDefinitionByCoding
 } from "./maps";
 import {
+  CanonicalDoseExpr,
   CanonicalDoseRange,
+  CanonicalMaxDoseExpr,
+  CanonicalMaxDosePerPeriod,
+  CanonicalMaxDoseQuantity,
+  CanonicalRateExpr,
   CanonicalSigClause,
   BodySiteSpatialRelation,
+  DoseBasisUnit,
   EventTiming,
   FhirCodeableConcept,
   FhirDosage,
+  FhirDosageR4,
+  FhirDoseAndRate,
   FhirPeriodUnit,
   FhirQuantity,
   FhirRange,
+  FhirRatio,
   FhirTimingRepeat,
+  FhirVersion,
   RouteCode,
   SNOMEDCTRouteCodes
 } from "./types";
@@ -39,7 +63,8 @@ import { objectValues } from "./utils/object";
 import { arrayIncludes } from "./utils/array";
 
 const SNOMED_SYSTEM = "http://snomed.info/sct";
-const UCUM_SYSTEM = "http://unitsofmeasure.org";
+const DOSE_RATE_TYPE_SYSTEM = "http://terminology.hl7.org/CodeSystem/dose-rate-type";
+const DOSE_BASIS_UNIT_PATTERN = /^(.+)\/(kg|m2)$/;
 type CodeableConceptCoding = NonNullable<FhirCodeableConcept["coding"]>[number];
 
 export interface FhirProjectionOptions {
@@ -49,6 +74,11 @@ export interface FhirProjectionOptions {
    * Dosage.site.coding while preserving the spatial-relation extension.
    */
   bodySitePostcoordination?: boolean;
+  /**
+   * Dosage shape to emit. Defaults to "R5". "R4" applies
+   * `projectFhirDosageToR4`; call it directly to also get its warnings.
+   */
+  fhirVersion?: FhirVersion;
 }
 
 function createEmptyCanonicalClause(rawText: string): CanonicalSigClause {
@@ -232,16 +262,10 @@ function buildFhirDoseRange(range: CanonicalDoseRange, unit: string | undefined)
   const fhirRange: FhirRange = {};
 
   if (range.low !== undefined) {
-    fhirRange.low = {
-      value: range.low,
-      unit
-    };
+    fhirRange.low = buildUcumQuantity(range.low, unit);
   }
   if (range.high !== undefined) {
-    fhirRange.high = {
-      value: range.high,
-      unit
-    };
+    fhirRange.high = buildUcumQuantity(range.high, unit);
   }
 
   if (!fhirRange.low && !fhirRange.high) {
@@ -251,6 +275,109 @@ function buildFhirDoseRange(range: CanonicalDoseRange, unit: string | undefined)
   return fhirRange;
 }
 
+type FhirDoseElement = Pick<FhirDoseAndRate, "doseQuantity" | "doseRange">;
+
+function buildFhirDoseElement(
+  dose: { value?: number; range?: CanonicalDoseRange },
+  unit: string | undefined
+): FhirDoseElement | undefined {
+  if (dose.range) {
+    const doseRange = buildFhirDoseRange(dose.range, unit);
+    return doseRange ? { doseRange } : undefined;
+  }
+  if (dose.value !== undefined) {
+    return { doseQuantity: buildUcumQuantity(dose.value, unit) };
+  }
+  return undefined;
+}
+
+function buildDoseRateType(code: "calculated" | "ordered"): FhirCodeableConcept {
+  return {
+    coding: [
+      {
+        system: DOSE_RATE_TYPE_SYSTEM,
+        code,
+        display: code === "calculated" ? "Calculated" : "Ordered"
+      }
+    ]
+  };
+}
+
+/**
+ * Per-kg and per-m² doses emit the calculated absolute dose first, so
+ * consumers reading `doseAndRate[0]` see an administrable amount, followed
+ * by the ordered dose whose unit keeps the basis (`mg/kg`).
+ */
+function buildFhirDoseAndRate(dose: CanonicalDoseExpr): FhirDoseAndRate[] {
+  if (!dose.basisUnit) {
+    const element = buildFhirDoseElement(dose, dose.unit);
+    return element ? [element] : [];
+  }
+  const entries: FhirDoseAndRate[] = [];
+  const calculated = dose.calculated
+    ? buildFhirDoseElement(dose.calculated, dose.calculated.unit)
+    : undefined;
+  if (calculated) {
+    entries.push({ type: buildDoseRateType("calculated"), ...calculated });
+  }
+  const ordered = buildFhirDoseElement(
+    dose,
+    dose.unit ? `${dose.unit}/${dose.basisUnit}` : undefined
+  );
+  if (ordered) {
+    entries.push({ type: buildDoseRateType("ordered"), ...ordered });
+  }
+  return entries;
+}
+
+function doseElementUnit(entry: FhirDoseAndRate): string | undefined {
+  return entry.doseQuantity
+    ? readQuantityUnit(entry.doseQuantity)
+    : readQuantityUnit(entry.doseRange?.low) ?? readQuantityUnit(entry.doseRange?.high);
+}
+
+/**
+ * Reads a per-kg or per-m² dose back from the ordered `doseAndRate` entry,
+ * pairing it with the calculated entry when present.
+ */
+function extractCanonicalBasisDose(
+  dosage: FhirDosage | FhirDosageR4
+): { dose?: CanonicalDoseExpr; warning?: string } {
+  const entries = dosage.doseAndRate ?? [];
+  const ordered = entries.find((entry) => DOSE_BASIS_UNIT_PATTERN.test(doseElementUnit(entry) ?? ""));
+  const match = ordered ? doseElementUnit(ordered)?.match(DOSE_BASIS_UNIT_PATTERN) : undefined;
+  if (!ordered || !match) {
+    return {};
+  }
+  const readElement = (
+    entry: FhirDoseAndRate
+  ): { value?: number; range?: CanonicalDoseRange; unit?: string; warning?: string } =>
+    entry.doseRange
+      ? extractCanonicalDoseRange(entry.doseRange)
+      : { value: entry.doseQuantity?.value, unit: readQuantityUnit(entry.doseQuantity) };
+  const orderedDose = readElement(ordered);
+  const calculatedEntry = entries.find(
+    (entry) =>
+      entry !== ordered &&
+      entry.type?.coding?.some(
+        (coding) => coding.system === DOSE_RATE_TYPE_SYSTEM && coding.code === "calculated"
+      )
+  );
+  const calculated = calculatedEntry ? readElement(calculatedEntry) : undefined;
+  return {
+    dose: {
+      value: orderedDose.value,
+      range: orderedDose.range,
+      unit: match[1],
+      basisUnit: match[2] as DoseBasisUnit,
+      calculated: calculated
+        ? { value: calculated.value, range: calculated.range, unit: calculated.unit }
+        : undefined
+    },
+    warning: orderedDose.warning
+  };
+}
+
 function describeDurationUnit(unit: FhirPeriodUnit, value: number | undefined): string {
   const plural = value !== 1;
   switch (unit) {
@@ -273,7 +400,7 @@ function describeDurationUnit(unit: FhirPeriodUnit, value: number | undefined):
   }
 }
 
-function buildFhirDurationQuantity(value: number, unit: FhirPeriodUnit): FhirQuantity {
+export function buildFhirDurationQuantity(value: number, unit: FhirPeriodUnit): FhirQuantity {
   return {
     value,
     unit: describeDurationUnit(unit, value),
@@ -293,7 +420,7 @@ function buildFhirBoundsRange(
   };
 }
 
-function parseFhirDurationUnit(quantity: FhirQuantity | undefined): FhirPeriodUnit | undefined {
+export function parseFhirDurationUnit(quantity: FhirQuantity | undefined): FhirPeriodUnit | undefined {
   const candidate = quantity?.code?.trim().toLowerCase() ?? quantity?.unit?.trim().toLowerCase();
   switch (candidate) {
     case "s":
@@ -384,8 +511,8 @@ function extractCanonicalDoseRange(
   range: FhirRange
 ): { range?: CanonicalDoseRange; unit?: string; warning?: string } {
   const canonicalRange: CanonicalDoseRange = {};
-  const lowUnit = range.low?.unit;
-  const highUnit = range.high?.unit;
+  const lowUnit = readQuantityUnit(range.low);
+  const highUnit = readQuantityUnit(range.high);
 
   if (range.low?.value !== undefined) {
     canonicalRange.low = range.low.value;
@@ -411,6 +538,173 @@ function extractCanonicalDoseRange(
   };
 }
 
+function formatRateUnit(rate: CanonicalRateExpr): string {
+  const period = rate.period !== undefined && rate.period !== 1
+    ? `(${rate.period}.${rate.periodUnit})`
+    : rate.periodUnit;
+  return [rate.unit ?? "1", rate.perWeightUnit, period]
+    .filter((part): part is string => Boolean(part))
+    .join("/");
+}
+
+/**
+ * Weight-based or multi-unit denominators project to rateRatio; plain flow
+ * rates such as 80 mL/h stay a single rateQuantity.
+ */
+function buildFhirRate(rate: CanonicalRateExpr): FhirDoseAndRate {
+  if (rate.range) {
+    const rateRange = buildFhirDoseRange(rate.range, formatRateUnit(rate));
+    return rateRange ? { rateRange } : {};
+  }
+  if (rate.value === undefined) {
+    return {};
+  }
+  if (rate.perWeightUnit || (rate.period !== undefined && rate.period !== 1)) {
+    return {
+      rateRatio: {
+        numerator: buildUcumQuantity(
+          rate.value,
+          rate.perWeightUnit ? `${rate.unit ?? "1"}/${rate.perWeightUnit}` : rate.unit
+        ),
+        denominator: buildFhirDurationQuantity(rate.period ?? 1, rate.periodUnit)
+      }
+    };
+  }
+  return {
+    rateQuantity: buildUcumQuantity(rate.value, formatRateUnit(rate))
+  };
+}
+
+function parseFhirRateUnit(
+  unitText: string | undefined
+): Omit<CanonicalRateExpr, "value" | "range"> | undefined {
+  const parts = unitText?.trim().split("/") ?? [];
+  if (parts.length < 2 || parts.length > 3) {
+    return undefined;
+  }
+  const periodMatch = parts[parts.length - 1].match(/^\(?([0-9]+(?:\.[0-9]+)?)?\.?([a-z]+)\)?$/i);
+  const periodUnit = periodMatch ? parseFhirDurationUnit({ unit: periodMatch[2] }) : undefined;
+  if (!periodMatch || !periodUnit) {
+    return undefined;
+  }
+  const period = periodMatch[1] ? Number(periodMatch[1]) : undefined;
+  return {
+    unit: parts[0] && parts[0] !== "1" ? parts[0] : undefined,
+    perWeightUnit: parts.length === 3 ? parts[1] : undefined,
+    period: period !== undefined && period !== 1 ? period : undefined,
+    periodUnit
+  };
+}
+
+function extractCanonicalRate(
+  doseAndRate: FhirDoseAndRate | undefined
+): { rate?: CanonicalRateExpr; warning?: string } {
+  if (doseAndRate?.rateRatio) {
+    const { numerator, denominator } = doseAndRate.rateRatio;
+    const periodUnit = parseFhirDurationUnit(denominator);
+    if (numerator?.value === undefined || !periodUnit) {
+      return {};
+    }
+    const numeratorParts = readQuantityUnit(numerator)?.split("/") ?? [];
+    const period = denominator?.value;
+    return {
+      rate: {
+        value: numerator.value,
+        unit: numeratorParts[0] || undefined,
+        perWeightUnit: numeratorParts[1] || undefined,
+        period: period !== undefined && period !== 1 ? period : undefined,
+        periodUnit
+      }
+    };
+  }
+  if (doseAndRate?.rateRange) {
+    const extracted = extractCanonicalDoseRange(doseAndRate.rateRange);
+    const unit = parseFhirRateUnit(extracted.unit);
+    if (!extracted.range || !unit) {
+      return {};
+    }
+    return {
+      rate: { ...unit, range: extracted.range },
+      warning: extracted.warning?.replace("doseRange", "rateRange")
+    };
+  }
+  const quantity = doseAndRate?.rateQuantity;
+  if (quantity?.value !== undefined) {
+    const unit = parseFhirRateUnit(readQuantityUnit(quantity));
+    return unit ? { rate: { ...unit, value: quantity.value } } : {};
+  }
+  return {};
+}
+
+function buildFhirMaxDoseQuantity(limit: CanonicalMaxDoseQuantity): FhirQuantity {
+  return buildUcumQuantity(limit.value, limit.unit);
+}
+
+/**
+ * Projects parsed caps onto the Dosage max-dose fields. Per-period caps are
+ * Ratios whose denominator is the window, e.g. 6 tab per 1 d.
+ */
+function applyFhirMaxDose(dosage: FhirDosage, maxDose: CanonicalMaxDoseExpr): void {
+  if (maxDose.perPeriod?.length) {
+    dosage.maxDosePerPeriod = maxDose.perPeriod.map((limit) => ({
+      numerator: buildFhirMaxDoseQuantity(limit),
+      denominator: buildFhirDurationQuantity(limit.period ?? 1, limit.periodUnit)
+    }));
+  }
+  if (maxDose.perAdministration) {
+    dosage.maxDosePerAdministration = buildFhirMaxDoseQuantity(maxDose.perAdministration);
+  }
+  if (maxDose.perLifetime) {
+    dosage.maxDosePerLifetime = buildFhirMaxDoseQuantity(maxDose.perLifetime);
+  }
+}
+
+function extractCanonicalMaxDoseQuantity(
+  quantity: FhirQuantity | undefined
+): CanonicalMaxDoseQuantity | undefined {
+  if (quantity?.value === undefined) {
+    return undefined;
+  }
+  const unit = readQuantityUnit(quantity);
+  return unit ? { value: quantity.value, unit } : { value: quantity.value };
+}
+
+function extractCanonicalMaxDose(dosage: FhirDosage | FhirDosageR4): CanonicalMaxDoseExpr | undefined {
+  const perPeriod: CanonicalMaxDosePerPeriod[] = [];
+  for (const ratio of listMaxDosePerPeriod(dosage)) {
+    const amount = extractCanonicalMaxDoseQuantity(ratio.numerator);
+    const periodUnit = parseFhirDurationUnit(ratio.denominator);
+    if (!amount || !periodUnit) {
+      continue;
+    }
+    const period = ratio.denominator?.value;
+    perPeriod.push({
+      ...amount,
+      period: period !== undefined && period !== 1 ? period : undefined,
+      periodUnit
+    });
+  }
+  const perAdministration = extractCanonicalMaxDoseQuantity(dosage.maxDosePerAdministration);
+  const perLifetime = extractCanonicalMaxDoseQuantity(dosage.maxDosePerLifetime);
+  if (!perPeriod.length && !perAdministration && !perLifetime) {
+    return undefined;
+  }
+  return {
+    perPeriod: perPeriod.length ? perPeriod : undefined,
+    perAdministration,
+    perLifetime
+  };
+}
+
+/**
+ * The entry holding the clause's own dose and rate; sliding-scale rows are
+ * read separately.
+ */
+function primaryDoseAndRate(dosage: FhirDosage | FhirDosageR4): FhirDoseAndRate | undefined {
+  const entry = dosage.doseAndRate?.[0];
+  return isSlidingScaleDoseAndRate(entry) ? undefined : entry;
+}
+
 function appendWarning(warnings: string[] | undefined, warning: string | undefined): string[] | undefined {
   if (!warning) {
     return warnings;
@@ -422,11 +716,76 @@ function appendWarning(warnings: string[] | undefined, warning: string | undefin
   return warnings;
 }
 
+/** PRN reasons from R5 `asNeededFor` or the single R4 `asNeededCodeableConcept`. */
+function readAsNeededConcepts(dosage: FhirDosage | FhirDosageR4): FhirCodeableConcept[] | undefined {
+  if ("asNeededFor" in dosage && dosage.asNeededFor?.length) {
+    return dosage.asNeededFor;
+  }
+  return "asNeededCodeableConcept" in dosage && dosage.asNeededCodeableConcept
+    ? [dosage.asNeededCodeableConcept]
+    : undefined;
+}
+
+/** Per-period caps as a list whether the Dosage holds an R5 list or one R4 Ratio. */
+function listMaxDosePerPeriod(dosage: FhirDosage | FhirDosageR4): FhirRatio[] {
+  const limits = dosage.maxDosePerPeriod;
+  if (!limits) {
+    return [];
+  }
+  return Array.isArray(limits) ? limits : [limits];
+}
+
+/**
+ * Down-converts an R5 Dosage to FHIR R4. R4 has one as-needed choice
+ * element, so a reason replaces `asNeededBoolean`; several reasons are merged
+ * into the text of one concept because their codings do not describe the
+ * same finding. R4 also allows only one `maxDosePerPeriod`, so the first cap
+ * is kept. Either loss is reported as a warning.
+ */
+export function projectFhirDosageToR4(dosage: FhirDosage): { dosage: FhirDosageR4; warnings: string[] } {
+  const { asNeededFor, maxDosePerPeriod, ...shared } = dosage;
+  const projected: FhirDosageR4 = { ...shared };
+  const warnings: string[] = [];
+  if (asNeededFor?.length) {
+    delete projected.asNeededBoolean;
+    if (asNeededFor.length === 1) {
+      projected.asNeededCodeableConcept = asNeededFor[0];
+    } else {
+      const text = joinCanonicalPrnReasonTexts(
+        asNeededFor.map((concept) => ({ text: getFallbackPrnReasonText(concept) }))
+      );
+      projected.asNeededCodeableConcept = text ? { text } : undefined;
+      warnings.push(
+        `FHIR R4 Dosage allows one as-needed reason; merged ${asNeededFor.length} reasons into asNeededCodeableConcept.text without their codings.`
+      );
+    }
+  }
+  if (maxDosePerPeriod?.length) {
+    projected.maxDosePerPeriod = maxDosePerPeriod[0];
+    if (maxDosePerPeriod.length > 1) {
+      warnings.push(
+        `FHIR R4 Dosage allows one maxDosePerPeriod; kept the first of ${maxDosePerPeriod.length} limits.`
+      );
+    }
+  }
+  return { dosage: projected, warnings };
+}
+
+export function canonicalToFhir(
+  clause: CanonicalSigClause,
+  textOverride: string | undefined,
+  options: FhirProjectionOptions & { fhirVersion: "R4" }
+): FhirDosageR4;
 export function canonicalToFhir(
   clause: CanonicalSigClause,
   textOverride?: string,
   options?: FhirProjectionOptions
-): FhirDosage {
+): FhirDosage;
+export function canonicalToFhir(
+  clause: CanonicalSigClause,
+  textOverride?: string,
+  options?: FhirProjectionOptions
+): FhirDosage | FhirDosageR4 {
   const dosage: FhirDosage = {};
   const repeat: FhirTimingRepeat = {};
   let hasRepeat = false;
@@ -481,6 +840,9 @@ export function canonicalToFhir(
   if (hasRepeat) {
     dosage.timing = { repeat };
   }
+  if (schedule?.event?.length) {
+    dosage.timing = { event: [...schedule.event], ...dosage.timing };
+  }
 
   if (schedule?.timingCode) {
     dosage.timing = dosage.timing ?? {};
@@ -490,23 +852,43 @@ export function canonicalToFhir(
     };
   }
 
-  if (clause.dose?.range) {
-    const doseRange = buildFhirDoseRange(clause.dose.range, clause.dose.unit);
-    if (doseRange) {
-      dosage.doseAndRate = [
-        {
-          doseRange
-        }
-      ];
+  const timingExtensions = buildTimingCalendarExtensions(schedule?.dayOfMonth, schedule?.weekdayOfMonth);
+  if (schedule?.cycle?.activeDays.length) {
+    timingExtensions.push(buildTimingCycleExtension(schedule.cycle));
+  }
+  if (schedule?.whileAwake) {
+    timingExtensions.push(buildTimingWhileAwakeExtension());
+  }
+  if (schedule?.anchor) {
+    timingExtensions.push(buildTimingEventAnchorExtension(schedule.anchor));
+  }
+  if (timingExtensions.length) {
+    dosage.timing = dosage.timing ?? {};
+    dosage.timing.extension = timingExtensions;
+  }
+
+  if (clause.dose) {
+    const doseAndRate = buildFhirDoseAndRate(clause.dose);
+    if (doseAndRate.length) {
+      dosage.doseAndRate = doseAndRate;
     }
-  } else if (clause.dose?.value !== undefined) {
+  }
+
+  if (clause.rate) {
+    const rate = buildFhirRate(clause.rate);
+    if (rate.rateQuantity || rate.rateRange || rate.rateRatio) {
+      dosage.doseAndRate = [{ ...(dosage.doseAndRate?.[0] ?? {}), ...rate }];
+    }
+  }
+
+  if (clause.maxDose) {
+    applyFhirMaxDose(dosage, clause.maxDose);
+  }
+
+  if (clause.slidingScale?.tiers.length) {
     dosage.doseAndRate = [
-      {
-        doseQuantity: {
-          value: clause.dose.value,
-          unit: clause.dose.unit
-        }
-      }
+      ...(dosage.doseAndRate ?? []),
+      ...buildSlidingScaleDoseAndRate(clause.slidingScale)
     ];
   }
 
@@ -609,7 +991,7 @@ export function canonicalToFhir(
     dosage.patientInstruction = clause.patientInstruction;
   }
 
-  return dosage;
+  return options?.fhirVersion === "R4" ? projectFhirDosageToR4(dosage).dosage : dosage;
 }
 
 export function toFhir(state: ParserState): FhirDosage {
@@ -618,7 +1000,7 @@ export function toFhir(state: ParserState): FhirDosage {
   return canonicalToFhir(clause);
 }
 
-export function canonicalFromFhir(dosage: FhirDosage): CanonicalSigClause {
+export function canonicalFromFhir(dosage: FhirDosage | FhirDosageR4): CanonicalSigClause {
   const rawText = dosage.text ?? "";
   const clause = createEmptyCanonicalClause(rawText);
   let routeCode: RouteCode | undefined;
@@ -670,8 +1052,19 @@ export function canonicalFromFhir(dosage: FhirDosage): CanonicalSigClause {
 
   const repeat = dosage.timing?.repeat;
   const timingBounds = extractCanonicalTimingBounds(repeat);
+  const cycle = parseTimingCycleExtension(dosage.timing);
+  const dayOfMonth = parseTimingDayOfMonthExtensions(dosage.timing);
+  const weekdayOfMonth = parseTimingWeekdayOfMonthExtensions(dosage.timing);
+  const anchor = parseTimingEventAnchorExtension(dosage.timing);
+  const whileAwake = isTimingWhileAwake(dosage.timing);
   if (
     dosage.timing?.code?.coding?.[0]?.code ||
+    cycle ||
+    whileAwake ||
+    dayOfMonth ||
+    weekdayOfMonth ||
+    anchor ||
+    dosage.timing?.event?.length ||
     repeat?.count !== undefined ||
     repeat?.boundsDuration ||
     repeat?.boundsRange ||
@@ -697,12 +1090,18 @@ export function canonicalFromFhir(dosage: FhirDosage): CanonicalSigClause {
       periodUnit: repeat?.periodUnit,
       dayOfWeek: repeat?.dayOfWeek ? [...repeat.dayOfWeek] : undefined,
       when: repeat?.when ? [...repeat.when] : undefined,
-      timeOfDay: repeat?.timeOfDay ? [...repeat.timeOfDay] : undefined
+      timeOfDay: repeat?.timeOfDay ? [...repeat.timeOfDay] : undefined,
+      dayOfMonth,
+      weekdayOfMonth,
+      cycle,
+      whileAwake: whileAwake || undefined,
+      event: dosage.timing?.event?.length ? [...dosage.timing.event] : undefined,
+      anchor
     };
     clause.warnings = appendWarning(clause.warnings, timingBounds.warning);
   }
 
-  const doseAndRate = dosage.doseAndRate?.[0];
+  const doseAndRate = primaryDoseAndRate(dosage);
   if (doseAndRate?.doseRange) {
     const extracted = extractCanonicalDoseRange(doseAndRate.doseRange);
     if (extracted.range) {
@@ -715,12 +1114,31 @@ export function canonicalFromFhir(dosage: FhirDosage): CanonicalSigClause {
   } else if (doseAndRate?.doseQuantity?.value !== undefined) {
     clause.dose = {
       value: doseAndRate.doseQuantity.value,
-      unit: doseAndRate.doseQuantity.unit
+      unit: readQuantityUnit(doseAndRate.doseQuantity)
     };
   }
+  const basisDose = extractCanonicalBasisDose(dosage);
+  if (basisDose.dose) {
+    clause.dose = basisDose.dose;
+    clause.warnings = appendWarning(clause.warnings, basisDose.warning);
+  }
+  const extractedRate = extractCanonicalRate(doseAndRate);
+  if (extractedRate.rate) {
+    clause.rate = extractedRate.rate;
+    clause.warnings = appendWarning(clause.warnings, extractedRate.warning);
+  }
+  const maxDose = extractCanonicalMaxDose(dosage);
+  if (maxDose) {
+    clause.maxDose = maxDose;
+  }
+  const slidingScale = parseSlidingScaleDoseAndRate(dosage.doseAndRate);
+  if (slidingScale) {
+    clause.slidingScale = slidingScale;
+  }
 
-  const prnReasons = dosage.asNeededFor?.length
-    ? dosage.asNeededFor.map((concept) => {
+  const asNeededConcepts = readAsNeededConcepts(dosage);
+  const prnReasons = asNeededConcepts?.length
+    ? asNeededConcepts.map((concept) => {
       const coding = concept.coding?.find((code) => Boolean(code.code));
       return {
         text: getFallbackPrnReasonText(concept),
@@ -782,7 +1200,7 @@ export function canonicalFromFhir(dosage: FhirDosage): CanonicalSigClause {
   return clause;
 }
 
-export function parserStateFromFhir(dosage: FhirDosage): ParserState {
+export function parserStateFromFhir(dosage: FhirDosage | FhirDosageR4): ParserState {
   const state = new ParserState(dosage.text ?? "", []);
   const timingBounds = extractCanonicalTimingBounds(dosage.timing?.repeat);
   state.timeOfDay = dosage.timing?.repeat?.timeOfDay
@@ -798,6 +1216,12 @@ export function parserStateFromFhir(dosage: FhirDosage): ParserState {
   state.period = dosage.timing?.repeat?.period;
   state.periodMax = dosage.timing?.repeat?.periodMax;
   state.periodUnit = dosage.timing?.repeat?.periodUnit;
+  state.cycle = parseTimingCycleExtension(dosage.timing);
+  state.whileAwake = isTimingWhileAwake(dosage.timing) || undefined;
+  state.dayOfMonth = parseTimingDayOfMonthExtensions(dosage.timing);
+  state.weekdayOfMonth = parseTimingWeekdayOfMonthExtensions(dosage.timing);
+  state.event = dosage.timing?.event?.length ? [...dosage.timing.event] : undefined;
+  state.anchor = parseTimingEventAnchorExtension(dosage.timing);
   state.routeText = dosage.route?.text;
   const siteCoding = selectPreferredSiteCoding(dosage.site);
   state.siteText = getFallbackSiteText(dosage.site);
@@ -806,8 +1230,12 @@ export function parserStateFromFhir(dosage: FhirDosage): ParserState {
   state.methodTextElement = clonePrimitiveElement(dosage.method?._text);
   state.patientInstruction = dosage.patientInstruction;
   state.asNeeded = dosage.asNeededBoolean;
-  if (dosage.asNeededFor?.length) {
-    const prnReasons = dosage.asNeededFor.map((concept) => {
+  const asNeededConcepts = readAsNeededConcepts(dosage);
+  if (asNeededConcepts?.length) {
+    if (state.asNeeded === undefined) {
+      state.asNeeded = true;
+    }
+    const prnReasons = asNeededConcepts.map((concept) => {
       const coding = selectFirstCodingWithCode(concept);
       return {
         text: getFallbackPrnReasonText(concept),
@@ -871,8 +1299,8 @@ export function parserStateFromFhir(dosage: FhirDosage): ParserState {
     };
   }
 
-  if (dosage.asNeededFor?.length === 1) {
-    const reasonCoding = selectFirstCodingWithCode(dosage.asNeededFor[0]);
+  if (asNeededConcepts?.length === 1) {
+    const reasonCoding = selectFirstCodingWithCode(asNeededConcepts[0]);
     if (reasonCoding?.code) {
       const defaultDef = findPrnReasonDefinitionByCoding(
         reasonCoding.system ?? SNOMED_SYSTEM,
@@ -929,7 +1357,7 @@ export function parserStateFromFhir(dosage: FhirDosage): ParserState {
   }
 
 
-  const doseAndRate = dosage.doseAndRate?.[0];
+  const doseAndRate = primaryDoseAndRate(dosage);
   if (doseAndRate?.doseRange) {
     const extracted = extractCanonicalDoseRange(doseAndRate.doseRange);
     if (extracted.range) {
@@ -944,10 +1372,29 @@ export function parserStateFromFhir(dosage: FhirDosage): ParserState {
     if (dose.value !== undefined) {
       state.dose = dose.value;
     }
-    if (dose.unit) {
-      state.unit = dose.unit;
+    const unit = readQuantityUnit(dose);
+    if (unit) {
+      state.unit = unit;
     }
   }
+  const basisDose = extractCanonicalBasisDose(dosage);
+  if (basisDose.dose) {
+    state.primaryClause.dose = basisDose.dose;
+    state.warnings = appendWarning(state.warnings, basisDose.warning) ?? state.warnings;
+  }
+  const extractedRate = extractCanonicalRate(doseAndRate);
+  if (extractedRate.rate) {
+    state.rate = extractedRate.rate;
+    state.warnings = appendWarning(state.warnings, extractedRate.warning) ?? state.warnings;
+  }
+  const maxDose = extractCanonicalMaxDose(dosage);
+  if (maxDose) {
+    state.maxDose = maxDose;
+  }
+  const slidingScale = parseSlidingScaleDoseAndRate(dosage.doseAndRate);
+  if (slidingScale) {
+    state.slidingScale = slidingScale;
+  }
 
   return state;
 }
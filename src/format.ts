@@ -3,13 +3,21 @@ import { ParserState } from "./parser-state";
 import type { SigLocalization, SigLongContext, SigShortContext } from "./i18n";
 import { getPreferredCanonicalPrnReasonText } from "./prn";
 import { resolveBodySitePhrase } from "./body-site-grammar";
+import { isInfusionRoute } from "./maps";
 import {
   AdviceArgumentRole,
   AdviceRelation,
   BodySiteSpatialRelation,
   CanonicalDoseExpr,
+  CanonicalEventAnchor,
+  CanonicalMaxDoseExpr,
+  CanonicalMaxDoseQuantity,
+  CanonicalRateExpr,
+  CanonicalScheduleCycle,
   CanonicalScheduleExpr,
   CanonicalSigClause,
+  CanonicalSlidingScaleExpr,
+  CanonicalSlidingScaleTier,
   EventTiming,
   FhirPeriodUnit,
   RouteCode
@@ -20,6 +28,9 @@ import {
   type MealTimingGroup,
   type TimingSummaryOptions
 } from "./timing-summary";
+import { formatCycleDays, groupCycleDays } from "./timing-cycle";
+import { calendarDaysCoverFrequency } from "./timing-calendar";
+import { readEventDateTime } from "./timing-event";
 
 const ROUTE_SHORT: Partial<Record<RouteCode, string>> = {
   [RouteCode["Oral route"]]: "PO",
@@ -227,6 +238,9 @@ function resolveMethodVerb(clause: CanonicalSigClause, grammar: RouteGrammar): s
   if (methodText) {
     return methodText;
   }
+  if (clause.rate && isInfusionRoute(clause.route?.code)) {
+    return "Infuse";
+  }
   return grammar.verb;
 }
 
@@ -446,10 +460,31 @@ function describeStandaloneOccurrenceCount(
   }
 }
 
+/**
+ * Renders a per-kg or per-m² dose followed by its calculated absolute dose,
+ * e.g. `15 mg/kg (300 mg)`.
+ */
+function formatBasisDose(
+  dose: CanonicalDoseExpr,
+  render: (dose: CanonicalDoseExpr | undefined) => string | undefined,
+  basisLabel: string
+): string | undefined {
+  const ordered = render({
+    value: dose.value,
+    range: dose.range,
+    unit: dose.unit ? `${dose.unit}/${basisLabel}` : undefined
+  });
+  const calculated = render(dose.calculated);
+  return ordered && calculated ? `${ordered} (${calculated})` : ordered;
+}
+
 function formatDoseShort(dose: CanonicalDoseExpr | undefined): string | undefined {
   if (!dose) {
     return undefined;
   }
+  if (dose.basisUnit) {
+    return formatBasisDose(dose, formatDoseShort, dose.basisUnit);
+  }
   if (dose.range) {
     if (dose.range.low !== undefined && dose.range.high !== undefined) {
       const base = `${stripTrailingZero(dose.range.low)}-${stripTrailingZero(dose.range.high)}`;
@@ -486,6 +521,9 @@ function formatDoseLong(dose: CanonicalDoseExpr | undefined): string | undefined
   if (!dose) {
     return undefined;
   }
+  if (dose.basisUnit) {
+    return formatBasisDose(dose, formatDoseLong, dose.basisUnit === "m2" ? "m²" : dose.basisUnit);
+  }
   if (dose.range) {
     if (dose.range.low !== undefined && dose.range.high !== undefined) {
       if (dose.unit) {
@@ -518,6 +556,174 @@ function formatDoseLong(dose: CanonicalDoseExpr | undefined): string | undefined
   return undefined;
 }
 
+function formatRateAmount(rate: CanonicalRateExpr, separator: string): string | undefined {
+  let amount: string | undefined;
+  if (rate.range?.low !== undefined && rate.range.high !== undefined) {
+    amount = `${stripTrailingZero(rate.range.low)}${separator}${stripTrailingZero(rate.range.high)}`;
+  } else if (rate.value !== undefined) {
+    amount = stripTrailingZero(rate.value);
+  }
+  if (amount === undefined) {
+    return undefined;
+  }
+  const unit = [rate.unit, rate.perWeightUnit].filter(Boolean).join("/");
+  return unit ? `${amount} ${unit}` : amount;
+}
+
+function formatRateShort(rate: CanonicalRateExpr | undefined): string | undefined {
+  if (!rate) {
+    return undefined;
+  }
+  const amount = formatRateAmount(rate, "-");
+  if (!amount) {
+    return undefined;
+  }
+  const period = rate.period !== undefined ? `${stripTrailingZero(rate.period)}${rate.periodUnit}` : rate.periodUnit;
+  return `@ ${amount}/${period}`;
+}
+
+function describePerPeriod(window: { period?: number; periodUnit: FhirPeriodUnit }): string {
+  const plural = window.period !== undefined && window.period !== 1;
+  let label: string;
+  switch (window.periodUnit) {
+    case FhirPeriodUnit.Second:
+      label = plural ? "seconds" : "second";
+      break;
+    case FhirPeriodUnit.Minute:
+      label = plural ? "minutes" : "minute";
+      break;
+    case FhirPeriodUnit.Hour:
+      label = plural ? "hours" : "hour";
+      break;
+    case FhirPeriodUnit.Day:
+      label = plural ? "days" : "day";
+      break;
+    case FhirPeriodUnit.Week:
+      label = plural ? "weeks" : "week";
+      break;
+    case FhirPeriodUnit.Month:
+      label = plural ? "months" : "month";
+      break;
+    default:
+      label = window.periodUnit;
+  }
+  return plural ? `${stripTrailingZero(window.period ?? 1)} ${label}` : label;
+}
+
+function formatRateLong(rate: CanonicalRateExpr | undefined): string | undefined {
+  if (!rate) {
+    return undefined;
+  }
+  const amount = formatRateAmount(rate, " to ");
+  if (!amount) {
+    return undefined;
+  }
+  return `at ${amount} per ${describePerPeriod(rate)}`;
+}
+
+function formatMaxDoseShort(maxDose: CanonicalMaxDoseExpr | undefined): string | undefined {
+  if (!maxDose) {
+    return undefined;
+  }
+  const amount = (limit: CanonicalMaxDoseQuantity) =>
+    limit.unit ? `${stripTrailingZero(limit.value)} ${limit.unit}` : stripTrailingZero(limit.value);
+  const parts: string[] = [];
+  if (maxDose.perAdministration) {
+    parts.push(`${amount(maxDose.perAdministration)}/dose`);
+  }
+  for (const limit of maxDose.perPeriod ?? []) {
+    const period = limit.period !== undefined ? `${stripTrailingZero(limit.period)}${limit.periodUnit}` : limit.periodUnit;
+    parts.push(`${amount(limit)}/${period}`);
+  }
+  if (maxDose.perLifetime) {
+    parts.push(`${amount(maxDose.perLifetime)}/lifetime`);
+  }
+  return parts.length ? `max ${parts.join(", ")}` : undefined;
+}
+
+function describeMaxDoseAmount(limit: CanonicalMaxDoseQuantity): string {
+  const unit = limit.unit ? pluralize(limit.unit, limit.value) : limit.value === 1 ? "dose" : "doses";
+  return `${stripTrailingZero(limit.value)} ${unit}`;
+}
+
+function formatMaxDoseLong(maxDose: CanonicalMaxDoseExpr | undefined): string | undefined {
+  if (!maxDose) {
+    return undefined;
+  }
+  const parts: string[] = [];
+  if (maxDose.perAdministration) {
+    parts.push(`${describeMaxDoseAmount(maxDose.perAdministration)} per dose`);
+  }
+  for (const limit of maxDose.perPeriod ?? []) {
+    parts.push(`${describeMaxDoseAmount(limit)} per ${describePerPeriod(limit)}`);
+  }
+  if (maxDose.perLifetime) {
+    parts.push(`${describeMaxDoseAmount(maxDose.perLifetime)} in a lifetime`);
+  }
+  return parts.length ? `Do not exceed ${parts.join(" or ")}.` : undefined;
+}
+
+const SLIDING_SCALE_OBSERVATION_SHORT: Record<string, string> = {
+  "blood glucose": "BG"
+};
+
+function formatSlidingScaleBoundShort(tier: CanonicalSlidingScaleTier): string {
+  if (tier.comparator) {
+    const value = tier.comparator === ">" || tier.comparator === ">=" ? tier.low : tier.high;
+    return `${tier.comparator}${stripTrailingZero(value ?? 0)}`;
+  }
+  return `${stripTrailingZero(tier.low ?? 0)}-${stripTrailingZero(tier.high ?? 0)}`;
+}
+
+function formatSlidingScaleShort(scale: CanonicalSlidingScaleExpr | undefined): string | undefined {
+  if (!scale?.tiers.length) {
+    return undefined;
+  }
+  const rows = scale.tiers.map((tier, index) => {
+    const bound = formatSlidingScaleBoundShort(tier);
+    const unit = index === 0 && scale.observationUnit ? ` ${scale.observationUnit}` : "";
+    const dose = tier.value === 0 ? "hold" : formatDoseShort({ value: tier.value, unit: tier.unit });
+    return `${bound}${unit} ${dose}`;
+  });
+  const observation = scale.observation
+    ? `${SLIDING_SCALE_OBSERVATION_SHORT[scale.observation] ?? scale.observation} `
+    : "";
+  return `sliding scale: ${observation}${rows.join(", ")}`;
+}
+
+function describeSlidingScaleBound(tier: CanonicalSlidingScaleTier, unit: string | undefined): string {
+  const amount = (value: number | undefined) =>
+    unit ? `${stripTrailingZero(value ?? 0)} ${unit}` : stripTrailingZero(value ?? 0);
+  switch (tier.comparator) {
+    case ">":
+      return `above ${amount(tier.low)}`;
+    case ">=":
+      return `${amount(tier.low)} or above`;
+    case "<":
+      return `below ${amount(tier.high)}`;
+    case "<=":
+      return `${amount(tier.high)} or below`;
+    default:
+      return `${stripTrailingZero(tier.low ?? 0)}-${amount(tier.high)}`;
+  }
+}
+
+/**
+ * Renders one line per row, e.g. `- 151-200 mg/dL: 2 U`, for the table that
+ * follows the long sentence.
+ */
+function formatSlidingScaleRowsLong(scale: CanonicalSlidingScaleExpr | undefined): string | undefined {
+  if (!scale?.tiers.length) {
+    return undefined;
+  }
+  return scale.tiers
+    .map((tier) => {
+      const dose = tier.value === 0 ? "hold" : formatDoseLong({ value: tier.value, unit: tier.unit });
+      return `- ${describeSlidingScaleBound(tier, scale.observationUnit)}: ${dose}`;
+    })
+    .join("\n");
+}
+
 function summarizeMealTimingGroup(group: MealTimingGroup): string {
   let relationText = "with";
   if (group.relation === "before") {
@@ -813,6 +1019,180 @@ function describeDayOfWeek(schedule: CanonicalScheduleExpr | undefined): string
   return days.length ? `on ${joinWithAnd(days)}` : undefined;
 }
 
+/** `1st`, `2nd`, `23rd`, or `last` for -1. */
+function formatOrdinal(value: number): string {
+  if (value === -1) {
+    return "last";
+  }
+  const lastTwo = value % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) {
+    return `${value}th`;
+  }
+  switch (value % 10) {
+    case 1:
+      return `${value}st`;
+    case 2:
+      return `${value}nd`;
+    case 3:
+      return `${value}rd`;
+    default:
+      return `${value}th`;
+  }
+}
+
+function hasCalendarDays(schedule: CanonicalScheduleExpr | undefined): boolean {
+  return Boolean(schedule?.dayOfMonth?.length || schedule?.weekdayOfMonth?.length);
+}
+
+function formatCalendarDaysShort(schedule: CanonicalScheduleExpr): string | undefined {
+  if (!hasCalendarDays(schedule)) {
+    return undefined;
+  }
+  const items: string[] = [];
+  for (const day of schedule.dayOfMonth ?? []) {
+    items.push(day === -1 ? "last day" : formatOrdinal(day));
+  }
+  for (const entry of schedule.weekdayOfMonth ?? []) {
+    items.push(`${formatOrdinal(entry.ordinal)} ${entry.day.charAt(0).toUpperCase()}${entry.day.slice(1, 3)}`);
+  }
+  return `${items.join(" & ")} of month`;
+}
+
+function describeCalendarDays(schedule: CanonicalScheduleExpr): string | undefined {
+  if (!hasCalendarDays(schedule)) {
+    return undefined;
+  }
+  const items: string[] = [];
+  for (const day of schedule.dayOfMonth ?? []) {
+    items.push(day === -1 ? "the last day" : `the ${formatOrdinal(day)}`);
+  }
+  for (const entry of schedule.weekdayOfMonth ?? []) {
+    items.push(`the ${formatOrdinal(entry.ordinal)} ${DAY_NAMES[entry.day] ?? entry.day}`);
+  }
+  const month = calendarDaysCoverFrequency(schedule) ? "each month" : "the month";
+  return `on ${joinWithAnd(items)} of ${month}`;
+}
+
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December"
+];
+
+function pad2(value: number): string {
+  return value < 10 ? `0${value}` : `${value}`;
+}
+
+/** `8:00 am` from `08:00:00`, or undefined for a malformed clock. */
+function formatClockLong(time: string): string | undefined {
+  const parts = time.split(":");
+  const hours = Number(parts[0]);
+  const minutes = Number(parts[1]);
+  if (!Number.isFinite(hours) || !Number.isFinite(minutes)) {
+    return undefined;
+  }
+  return `${hours % 12 || 12}:${pad2(minutes)}${hours < 12 ? " am" : " pm"}`;
+}
+
+/**
+ * Event dates as written, in wall-clock time: `2026-11-02 08:00`. Entries
+ * that are not FHIR dateTimes pass through unchanged.
+ */
+function formatEventsShort(schedule: CanonicalScheduleExpr): string | undefined {
+  if (!schedule.event?.length) {
+    return undefined;
+  }
+  return schedule.event
+    .map((event) => {
+      const parts = readEventDateTime(event);
+      if (!parts) {
+        return event;
+      }
+      const { year, month, day } = parts.date;
+      const date = `${year}-${pad2(month)}-${pad2(day)}`;
+      return parts.clock ? `${date} ${parts.clock.slice(0, 5)}` : date;
+    })
+    .join(",");
+}
+
+function describeEvents(schedule: CanonicalScheduleExpr): string | undefined {
+  if (!schedule.event?.length) {
+    return undefined;
+  }
+  const items = schedule.event.map((event) => {
+    const parts = readEventDateTime(event);
+    if (!parts) {
+      return event;
+    }
+    const { year, month, day } = parts.date;
+    const date = `${day} ${MONTH_NAMES[month - 1]} ${year}`;
+    const clock = parts.clock ? formatClockLong(parts.clock) : undefined;
+    return clock ? `${date} at ${clock}` : date;
+  });
+  return `on ${joinWithAnd(items)}`;
+}
+
+function formatAnchorShort(anchor: CanonicalEventAnchor | undefined): string | undefined {
+  if (!anchor) {
+    return undefined;
+  }
+  if (!anchor.relation) {
+    return `on ${anchor.text} days`;
+  }
+  if (!anchor.offset) {
+    return `${anchor.relation} ${anchor.text}`;
+  }
+  const offset = anchor.offset % 60 === 0
+    ? `${stripTrailingZero(anchor.offset / 60)} h`
+    : `${stripTrailingZero(anchor.offset)} min`;
+  return `${offset} ${anchor.relation} ${anchor.text}`;
+}
+
+function describeAnchor(anchor: CanonicalEventAnchor | undefined): string | undefined {
+  if (!anchor) {
+    return undefined;
+  }
+  if (!anchor.relation) {
+    return `on ${anchor.text} days`;
+  }
+  if (!anchor.offset) {
+    return `${anchor.relation} ${anchor.text}`;
+  }
+  const hours = anchor.offset / 60;
+  const offset = anchor.offset % 60 === 0
+    ? `${stripTrailingZero(hours)} ${hours === 1 ? "hour" : "hours"}`
+    : `${stripTrailingZero(anchor.offset)} ${anchor.offset === 1 ? "minute" : "minutes"}`;
+  return `${offset} ${anchor.relation} ${anchor.text}`;
+}
+
+function formatCycleShort(cycle: CanonicalScheduleCycle | undefined): string | undefined {
+  if (!cycle?.activeDays.length) {
+    return undefined;
+  }
+  const days = `D${formatCycleDays(cycle.activeDays)}`;
+  return cycle.length ? `${days} Q${cycle.length}D` : days;
+}
+
+function describeCycle(cycle: CanonicalScheduleCycle | undefined): string | undefined {
+  if (!cycle?.activeDays.length) {
+    return undefined;
+  }
+  const runs = groupCycleDays(cycle.activeDays).map(([low, high]) =>
+    low === high ? `${low}` : `${low}-${high}`
+  );
+  const days = `on ${cycle.activeDays.length === 1 ? "day" : "days"} ${joinWithAnd(runs)}`;
+  return cycle.length ? `${days} of each ${cycle.length}-day cycle` : days;
+}
+
 function formatDurationShort(schedule: CanonicalScheduleExpr): string | undefined {
   if (schedule.duration === undefined || !schedule.durationUnit) {
     return undefined;
@@ -905,8 +1285,14 @@ function formatShort(clause: CanonicalSigClause): string {
   } else if (routeText) {
     parts.push(routeText);
   }
+  const ratePart = formatRateShort(clause.rate);
+  if (ratePart) {
+    parts.push(ratePart);
+  }
   if (schedule.timingCode) {
     parts.push(schedule.timingCode);
+  } else if (calendarDaysCoverFrequency(schedule)) {
+    // The calendar days below carry the frequency.
   } else if (
     schedule.frequency !== undefined &&
     schedule.frequencyMax !== undefined &&
@@ -931,6 +1317,10 @@ function formatShort(clause: CanonicalSigClause): string {
   if (schedule.when?.length) {
     parts.push(schedule.when.join(" "));
   }
+  const anchorShort = formatAnchorShort(schedule.anchor);
+  if (anchorShort) {
+    parts.push(anchorShort);
+  }
   if (schedule.dayOfWeek?.length) {
     const days: string[] = [];
     for (const day of schedule.dayOfWeek) {
@@ -938,6 +1328,17 @@ function formatShort(clause: CanonicalSigClause): string {
     }
     parts.push(days.join(","));
   }
+  const calendarShort = formatCalendarDaysShort(schedule);
+  if (calendarShort) {
+    parts.push(calendarShort);
+  }
+  const cycleShort = formatCycleShort(schedule.cycle);
+  if (cycleShort) {
+    parts.push(cycleShort);
+  }
+  if (schedule.whileAwake) {
+    parts.push("while awake");
+  }
   if (schedule.timeOfDay?.length) {
     const times: string[] = [];
     for (const time of schedule.timeOfDay) {
@@ -945,6 +1346,10 @@ function formatShort(clause: CanonicalSigClause): string {
     }
     parts.push(times.join(","));
   }
+  const eventShort = formatEventsShort(schedule);
+  if (eventShort) {
+    parts.push(eventShort);
+  }
   if (schedule.count !== undefined) {
     parts.push(`x${stripTrailingZero(schedule.count)}`);
   }
@@ -960,6 +1365,14 @@ function formatShort(clause: CanonicalSigClause): string {
       parts.push("PRN");
     }
   }
+  const slidingScalePart = formatSlidingScaleShort(clause.slidingScale);
+  if (slidingScalePart) {
+    parts.push(slidingScalePart);
+  }
+  const maxDosePart = formatMaxDoseShort(clause.maxDose);
+  if (maxDosePart) {
+    parts.push(maxDosePart);
+  }
   return parts.filter(Boolean).join(" ");
 }
 
@@ -968,15 +1381,19 @@ function formatLong(clause: CanonicalSigClause, options?: TimingSummaryOptions):
   const grammar = resolveRouteGrammar(clause);
   const verb = resolveMethodVerb(clause, grammar);
   const explicitDosePart = formatDoseLong(clause.dose);
+  const ratePart = formatRateLong(clause.rate);
+  const slidingScaleRows = formatSlidingScaleRowsLong(clause.slidingScale);
   const dosePart = explicitDosePart ?? (
-    shouldUseGenericMedicationObject(clause) ? "the medication" : undefined
+    !ratePart && !slidingScaleRows && shouldUseGenericMedicationObject(clause)
+      ? "the medication"
+      : undefined
   );
   const sitePart = formatSite(clause, grammar);
   const routePart = shouldSuppressRoutePhrase(clause, grammar, verb)
     ? undefined
     : buildRoutePhrase(clause, grammar, Boolean(sitePart));
   const standaloneOccurrenceCount = describeStandaloneOccurrenceCount(schedule);
-  const frequencyPart =
+  const frequencyPart = calendarDaysCoverFrequency(schedule) ? undefined :
     describeFrequency(schedule) ??
     standaloneOccurrenceCount ??
     describeFrequencyCount(inferDailyOccurrenceCount(schedule, options));
@@ -984,23 +1401,21 @@ function formatLong(clause: CanonicalSigClause, options?: TimingSummaryOptions):
   if (schedule.timeOfDay?.length) {
     const timeStrings: string[] = [];
     for (const time of schedule.timeOfDay) {
-      const parts = time.split(":");
-      const hours = Number(parts[0]);
-      const minutes = Number(parts[1]);
-      if (!Number.isFinite(hours) || !Number.isFinite(minutes)) {
-        continue;
+      const clock = formatClockLong(time);
+      if (clock) {
+        timeStrings.push(clock);
       }
-      const isAm = hours < 12;
-      const displayHours = hours % 12 || 12;
-      const displayMinutes = minutes < 10 ? `0${minutes}` : `${minutes}`;
-      timeStrings.push(`${displayHours}:${displayMinutes}${isAm ? " am" : " pm"}`);
     }
     if (timeStrings.length) {
       eventParts.push(`at ${timeStrings.join(", ")}`);
     }
   }
   const timing = combineFrequencyAndEvents(frequencyPart, eventParts);
+  const eventDatePart = describeEvents(schedule);
+  const anchorPart = describeAnchor(schedule.anchor);
   const dayPart = describeDayOfWeek(schedule);
+  const calendarPart = describeCalendarDays(schedule);
+  const cyclePart = describeCycle(schedule.cycle);
   const countPart =
     schedule.count !== undefined && !standaloneOccurrenceCount
       ? `for ${stripTrailingZero(schedule.count)} ${schedule.count === 1 ? "dose" : "doses"}`
@@ -1016,15 +1431,33 @@ function formatLong(clause: CanonicalSigClause, options?: TimingSummaryOptions):
   if (routePart) {
     segments.push(routePart);
   }
+  if (ratePart) {
+    segments.push(ratePart);
+  }
   if (timing.frequency) {
     segments.push(timing.frequency);
   }
   if (timing.event) {
     segments.push(timing.event);
   }
+  if (schedule.whileAwake) {
+    segments.push("while awake");
+  }
+  if (anchorPart) {
+    segments.push(anchorPart);
+  }
+  if (eventDatePart) {
+    segments.push(eventDatePart);
+  }
   if (dayPart) {
     segments.push(dayPart);
   }
+  if (calendarPart) {
+    segments.push(calendarPart);
+  }
+  if (cyclePart) {
+    segments.push(cyclePart);
+  }
   if (countPart) {
     segments.push(countPart);
   }
@@ -1037,8 +1470,18 @@ function formatLong(clause: CanonicalSigClause, options?: TimingSummaryOptions):
   if (sitePart) {
     segments.push(sitePart);
   }
+  if (slidingScaleRows) {
+    const basis = clause.slidingScale?.observation
+      ? `according to ${clause.slidingScale.observation}`
+      : "per sliding scale";
+    segments.push(explicitDosePart ? `plus a correction dose ${basis}` : basis);
+  }
   const body = segments.filter(Boolean).join(" ").replace(/\s+/g, " ").trim();
   const instructionPhrases: string[] = [];
+  const maxDoseText = formatMaxDoseLong(clause.maxDose);
+  if (maxDoseText) {
+    instructionPhrases.push(maxDoseText);
+  }
   const instructionText = formatAdditionalInstructions(clause);
   if (instructionText) {
     instructionPhrases.push(instructionText);
@@ -1050,6 +1493,11 @@ function formatLong(clause: CanonicalSigClause, options?: TimingSummaryOptions):
     instructionPhrases.push(patientInstruction);
   }
   const trailingInstructionText = instructionPhrases.join(" ").trim() || undefined;
+  if (slidingScaleRows) {
+    const lead = body ? `${verb} ${body}:` : `${verb}:`;
+    const table = `${lead}\n${slidingScaleRows}`;
+    return trailingInstructionText ? `${table}\n${trailingInstructionText}` : table;
+  }
   if (!body) {
     if (!trailingInstructionText) {
       return `${verb}.`;
@@ -30,6 +30,10 @@ function countSynsemFeatures(sign: HpsgSign): number {
   if (head.method) count += 1;
   if (head.route) count += 1;
   if (head.dose) count += 1;
+  if (head.rate) count += 1;
+  if (head.maxDose) count += 1;
+  if (head.dispense) count += 1;
+  if (head.slidingScale) count += 1;
   if (head.schedule) count += 1;
   if (valence.site) count += 1;
   if (valence.prn) count += 1;
@@ -3,25 +3,37 @@ import { projectHpsgSignToState } from "./projection";
 import { HpsgGrammar, HpsgPhraseRule, HpsgSign } from "./signature";
 import { combineSigns } from "./unification";
 import {
+  calendarDayLexicalRule,
   compactIntervalRule,
   countAndDurationRule,
   countFrequencyRule,
+  cycleLexicalRule,
+  dayExclusionLexicalRule,
   dayRangeLexicalRule,
   eventTimingPhraseRule,
   multiplicativeDoseFrequencyRule,
+  periodLeadFrequencyRule,
   separatedIntervalRule,
   timeOfDayRule,
-  timingLexicalRule
+  timingLexicalRule,
+  whileAwakeLexicalRule
 } from "./rules/timing-rules";
+import { eventAnchorLexicalRule } from "./rules/event-anchor-rules";
+import { eventDateLexicalRule } from "./rules/event-rules";
+import { dispenseLexicalRule } from "./rules/dispense-rules";
+import { maxDoseLexicalRule } from "./rules/max-dose-rules";
 import { prnLexicalRule } from "./rules/prn-rules";
+import { slidingScaleLexicalRule } from "./rules/sliding-scale-rules";
 import { instructionLexicalRule, workflowLexicalRule } from "./rules/instruction-rules";
 import { bareSiteLexicalRule, siteLexicalRule } from "./rules/site-rules";
 import {
   connectorLexicalRule,
+  doseBasisLexicalRule,
   doseLexicalRule,
   fillerLexicalRule,
   methodLexicalRule,
   productLexicalRule,
+  rateLexicalRule,
   routeLexicalRule
 } from "./rules/core-rules";
 import { HpsgClauseContext } from "./rule-context";
@@ -39,11 +51,23 @@ function buildGrammar(context: HpsgClauseContext): HpsgGrammar<HpsgClauseContext
       productLexicalRule(),
       multiplicativeDoseFrequencyRule(),
       doseLexicalRule(),
+      doseBasisLexicalRule(),
+      rateLexicalRule(),
+      maxDoseLexicalRule(),
+      dispenseLexicalRule(),
+      slidingScaleLexicalRule(),
       compactIntervalRule(),
       separatedIntervalRule(),
       countFrequencyRule(),
+      periodLeadFrequencyRule(),
       eventTimingPhraseRule(),
       dayRangeLexicalRule(),
+      cycleLexicalRule(),
+      calendarDayLexicalRule(),
+      dayExclusionLexicalRule(),
+      whileAwakeLexicalRule(),
+      eventDateLexicalRule(),
+      eventAnchorLexicalRule(),
       timingLexicalRule(),
       countAndDurationRule(),
       timeOfDayRule(),
@@ -68,6 +92,10 @@ function hasUsefulAnalysis(sign: HpsgSign | undefined): sign is HpsgSign {
     head.method ||
     head.route ||
     head.dose ||
+    head.rate ||
+    head.maxDose ||
+    head.dispense ||
+    head.slidingScale ||
     head.schedule ||
     valence.site ||
     valence.prn ||
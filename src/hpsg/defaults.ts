@@ -6,13 +6,23 @@ import {
   ROUTE_TEXT
 } from "../maps";
 import { ParserState } from "../parser-state";
-import { EventTiming, FhirPeriodUnit, MedicationContext, ParseOptions, RouteCode } from "../types";
+import {
+  EventAnchorRelation,
+  EventTiming,
+  FhirPeriodUnit,
+  MedicationContext,
+  ParseOptions,
+  RouteCode
+} from "../types";
 import {
   enforceHouseholdUnitPolicy,
   isDiscreteUnit,
   normalizeUnit
 } from "../unit-lexicon";
 import { normalizeDosageForm } from "../context";
+import { resolveCalculatedDose } from "../dose-basis";
+import { formatZonedIso } from "../zoned-time";
+import { resolveReferenceDate } from "../timing-event";
 
 export interface HpsgDefaultConstraintDeps {
   setRoute: (state: ParserState, code: RouteCode, text?: string) => void;
@@ -172,7 +182,9 @@ function hasStructuredTiming(state: ParserState): boolean {
     state.timingCode !== undefined ||
     state.dayOfWeek.length ||
     state.when.length ||
-    state.timeOfDay?.length
+    state.timeOfDay?.length ||
+    state.event?.length ||
+    state.anchor
   );
 }
 
@@ -182,6 +194,23 @@ function addWarning(state: ParserState, warning: string): void {
   }
 }
 
+function applyDoseBasisCalculation(
+  state: ParserState,
+  context: MedicationContext | undefined
+): void {
+  const dose = state.primaryClause.dose;
+  if (!dose?.basisUnit) {
+    return;
+  }
+  const { calculated, warning } = resolveCalculatedDose(dose, context);
+  if (calculated) {
+    state.calculatedDose = calculated;
+  }
+  if (warning) {
+    addWarning(state, warning);
+  }
+}
+
 function applyCompletenessWarnings(state: ParserState): void {
   if (
     state.routeCode === RouteCode["Oral route"] &&
@@ -476,6 +505,52 @@ function applyWeeklyDefaultForDayFilters(state: ParserState): void {
   }
 }
 
+/**
+ * `stat` and `now` mean "at the time of ordering", so with a `referenceDate`
+ * they become a single dose at that instant. The instant is written in the
+ * `timeZone` option, or in UTC, which names the same instant. Without a
+ * `referenceDate` there is no instant to record, which is flagged.
+ */
+function applyReferenceEventDefault(state: ParserState, options: ParseOptions | undefined): void {
+  const reference = resolveReferenceDate(options?.referenceDate);
+  if (state.event?.length || state.when.indexOf(EventTiming.Immediate) === -1) {
+    return;
+  }
+  if (!reference) {
+    addWarning(state, "Immediate dose needs a referenceDate to be recorded as a Timing.event.");
+    return;
+  }
+  state.event = [formatZonedIso(reference, options?.timeZone ?? "UTC")];
+  if (state.count === undefined) {
+    state.count = 1;
+  }
+}
+
+/**
+ * Anchored doses are placed from the event's start clock, so flag anchors
+ * whose dose time cannot be worked out: a bare `after` on an event without a
+ * duration, and an event without a usual clock, whose date-only calendar
+ * entries are skipped.
+ */
+function applyEventAnchorWarnings(state: ParserState): void {
+  const anchor = state.anchor;
+  if (!anchor?.relation) {
+    return;
+  }
+  if (anchor.relation === EventAnchorRelation.After && !anchor.duration && !anchor.offset) {
+    addWarning(
+      state,
+      `Dose after ${anchor.text} needs an offset or an event duration to be scheduled.`
+    );
+  }
+  if (!anchor.clock) {
+    addWarning(
+      state,
+      `${anchor.text} has no usual clock; calendar entries without a time are not scheduled.`
+    );
+  }
+}
+
 export function applyHpsgDefaultConstraints(
   state: ParserState,
   tokens: readonly { lower: string; index: number }[],
@@ -489,5 +564,8 @@ export function applyHpsgDefaultConstraints(
   applyRouteSiteDefault(state);
   applyWeeklyDefaultForDayFilters(state);
   applySmartMealExpansion(state, options);
+  applyReferenceEventDefault(state, options);
+  applyEventAnchorWarnings(state);
+  applyDoseBasisCalculation(state, context);
   applyCompletenessWarnings(state);
 }
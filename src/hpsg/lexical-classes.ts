@@ -1,4 +1,4 @@
-import { EventTiming, FhirCoding, RouteCode } from "../types";
+import { EventTiming, FhirCoding, RouteCode, SlidingScaleComparator } from "../types";
 import source from "./lexical-classes.json";
 
 type MealRelation = "before" | "after" | "with";
@@ -112,6 +112,28 @@ function codingRecord(record: Record<string, FhirCoding>): Map<string, FhirCodin
   return map;
 }
 
+function collectTerms(value: unknown, terms: Set<string>): Set<string> {
+  if (typeof value === "string") {
+    terms.add(value);
+  } else if (Array.isArray(value)) {
+    for (const entry of value) {
+      collectTerms(entry, terms);
+    }
+  } else if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key in record) {
+      if (Object.prototype.hasOwnProperty.call(record, key)) {
+        terms.add(key);
+        collectTerms(record[key], terms);
+      }
+    }
+  }
+  return terms;
+}
+
+/** Every word and phrase the classes below mention, for word segmentation. */
+export const LEXICAL_CLASS_TERMS = collectTerms(source, new Set<string>());
+
 export const SITE_ANCHORS = setOf(source.siteAnchors);
 export const SITE_SELF_DISPLAY_ANCHORS = setOf(source.siteSelfDisplayAnchors);
 export const SITE_FILLERS = setOf(source.siteFillers);
@@ -162,6 +184,77 @@ export const PRODUCT_METHOD_TEXT = source.productMethodText as Record<string, Pa
 export const PRODUCT_METHOD_THAI = source.productMethodThai as Record<string, string>;
 export const COMPOUND_DOSE_UNITS = source.compoundDoseUnits as CompoundDoseUnit[];
 export const MILLION_DOSE_MULTIPLIER_TOKENS = setOf(source.millionDoseMultiplierTokens);
+export const RATE_LEAD_TOKENS = setOf(source.rateLeadTokens);
+export const RATE_SEPARATOR_TOKENS = setOf(source.rateSeparatorTokens);
+export const RATE_WEIGHT_BASIS_UNITS = setOf(source.rateWeightBasisUnits);
+export const DOSE_BASIS_UNITS = new Map<string, string>(stringEntries(source.doseBasisUnits));
+export const DOSE_BASIS_TRAILERS = setOf(source.doseBasisTrailers);
+export const RATE_PERIOD_UNITS = setOf(source.ratePeriodUnits);
+export const MAX_DOSE_LEAD_PHRASES = setOf(source.maxDoseLeadPhrases);
+export const MAX_DOSE_LEAD_FILLERS = setOf(source.maxDoseLeadFillers);
+export const MAX_DOSE_COUNT_NOUNS = setOf(source.maxDoseCountNouns);
+export const MAX_DOSE_PERIOD_SEPARATORS = setOf(source.maxDosePeriodSeparators);
+export const MAX_DOSE_PERIOD_FILLERS = setOf(source.maxDosePeriodFillers);
+export const MAX_DOSE_PERIOD_TRAILERS = setOf(source.maxDosePeriodTrailers);
+export const MAX_DOSE_ADMINISTRATION_TAILS = setOf(source.maxDoseAdministrationTails);
+export const MAX_DOSE_LIFETIME_TAILS = setOf(source.maxDoseLifetimeTails);
+export const DISPENSE_LEAD_PHRASES = setOf(source.dispenseLeadPhrases);
+export const DISPENSE_CONTAINER_UNITS = new Map<string, string>(
+  stringEntries(source.dispenseContainerUnits)
+);
+export const DISPENSE_REFILL_LEADS = setOf(source.dispenseRefillLeads);
+export const DISPENSE_NO_REFILL_PHRASES = setOf(source.dispenseNoRefillPhrases);
+export const DISPENSE_DAYS_SUPPLY_PHRASES = setOf(source.dispenseDaysSupplyPhrases);
+export const DISPENSE_NO_SUBSTITUTION_PHRASES = setOf(source.dispenseNoSubstitutionPhrases);
+export const DISPENSE_SUBSTITUTION_PHRASES = setOf(source.dispenseSubstitutionPhrases);
+export const SLIDING_SCALE_LEAD_FILLERS = setOf(source.slidingScaleLeadFillers);
+export const SLIDING_SCALE_HEADS = setOf(source.slidingScaleHeads);
+export const SLIDING_SCALE_HEAD_TRAILERS = setOf(source.slidingScaleHeadTrailers);
+export const SLIDING_SCALE_CONDITION_LEADS = setOf(source.slidingScaleConditionLeads);
+export const SLIDING_SCALE_OBSERVATIONS = new Map<string, string>(
+  stringEntries(source.slidingScaleObservations)
+);
+export const SLIDING_SCALE_OBSERVATION_UNITS = new Map<string, string>(
+  stringEntries(source.slidingScaleObservationUnits)
+);
+export const SLIDING_SCALE_COMPARATORS = new Map<string, SlidingScaleComparator>(
+  stringEntries(source.slidingScaleComparators).map(([token, comparator]) => [
+    token,
+    comparator as SlidingScaleComparator
+  ])
+);
+export const SLIDING_SCALE_RANGE_CONNECTORS = setOf(source.slidingScaleRangeConnectors);
+export const SLIDING_SCALE_DOSE_CONNECTORS = setOf(source.slidingScaleDoseConnectors);
+export const SLIDING_SCALE_HOLD_PHRASES = setOf(source.slidingScaleHoldPhrases);
+export const SLIDING_SCALE_TIER_SEPARATORS = setOf(source.slidingScaleTierSeparators);
+export const EVENT_MONTH_NAMES = numberRecord(source.eventMonthNames);
+export const EVENT_RELATIVE_DAYS = numberRecord(source.eventRelativeDays);
+export const EVENT_BUDDHIST_ERA_MARKERS = setOf(source.eventBuddhistEraMarkers);
+export const EVENT_COMMON_ERA_MARKERS = setOf(source.eventCommonEraMarkers);
+export const EVENT_DATE_LEADS = setOf(source.eventDateLeads);
+export const EVENT_CLOCK_LEADS = setOf(source.eventClockLeads);
+export const EVENT_SINGLE_DOSE_PHRASES = setOf(source.eventSingleDosePhrases);
+export const EVENT_ANCHOR_BEFORE_WORDS = setOf(source.eventAnchorBeforeWords);
+export const EVENT_ANCHOR_AFTER_WORDS = setOf(source.eventAnchorAfterWords);
+export const EVENT_ANCHOR_ARTICLES = setOf(source.eventAnchorArticles);
+export const EVENT_ANCHOR_DAY_LEADS = setOf(source.eventAnchorDayLeads);
+export const EVENT_ANCHOR_DAY_WORDS = setOf(source.eventAnchorDayWords);
+export const CALENDAR_ORDINALS = numberRecord(source.calendarOrdinals);
+export const CALENDAR_LEADS = setOf(source.calendarLeads);
+export const CALENDAR_DAY_WORDS = setOf(source.calendarDayWords);
+export const CALENDAR_MONTH_ARTICLES = setOf(source.calendarMonthArticles);
+export const CALENDAR_MONTH_WORDS = setOf(source.calendarMonthWords);
+export const CALENDAR_MONTHLY_WORDS = setOf(source.calendarMonthlyWords);
+export const CALENDAR_EXCLUSION_LEADS = setOf(source.calendarExclusionLeads);
+export const WHILE_AWAKE_PHRASES = setOf(source.whileAwakePhrases);
+export const TIMING_CYCLE_DAY_LIST_LEADS = setOf(source.timingCycleDayListLeads);
+export const TIMING_CYCLE_DAY_WORDS = setOf(source.timingCycleDayWords);
+export const TIMING_CYCLE_LIST_SEPARATORS = setOf(source.timingCycleListSeparators);
+export const TIMING_CYCLE_ACTIVE_WORDS = setOf(source.timingCycleActiveWords);
+export const TIMING_CYCLE_REST_WORDS = setOf(source.timingCycleRestWords);
+export const TIMING_CYCLE_PHASE_SEPARATORS = setOf(source.timingCyclePhaseSeparators);
+export const TIMING_CYCLE_NOUNS = setOf(source.timingCycleNouns);
+export const TIMING_CYCLE_LENGTH_FILLERS = setOf(source.timingCycleLengthFillers);
 export const SCHEDULE_UNIT_SEPARATOR_TOKENS = setOf(source.scheduleUnitSeparatorTokens);
 export const COMPACT_LIST_SEPARATORS = setOf(source.compactListSeparators);
 export const EVERY_INTERVAL_TOKENS_DATA = setOf(source.everyIntervalTokens);
@@ -171,6 +264,7 @@ export const FREQUENCY_SIMPLE_WORDS_DATA = numberRecord(source.frequencySimpleWo
 export const FREQUENCY_NUMBER_WORDS_DATA = numberRecord(source.frequencyNumberWords);
 export const FREQUENCY_TIMES_WORDS_DATA = setOf(source.frequencyTimesWords);
 export const FREQUENCY_CONNECTOR_WORDS_DATA = setOf(source.frequencyConnectorWords);
+export const FREQUENCY_PERIOD_LEADS_DATA = periodUnitRecord(source.frequencyPeriodLeads);
 export const FREQUENCY_ADVERB_UNITS_DATA = periodUnitRecord(source.frequencyAdverbUnits);
 export const INTERVAL_UNIT_TOKENS_DATA = periodUnitRecord(source.intervalUnitTokens);
 
@@ -181,6 +275,8 @@ export const POST_MERIDIEM_TOKENS = setOf(source.postMeridiemTokens);
 export const MERIDIEM_TOKENS = setOf(source.meridiemTokens);
 export const LIST_SEPARATORS = setOf(source.listSeparators);
 export const MEDICATION_OBJECT_FILLERS = setOf(source.medicationObjectFillers);
+export const DOSE_LEAD_FILLERS = setOf(source.doseLeadFillers);
+export const DOSE_NUMBER_WORDS = numberRecord(source.doseNumberWords);
 export const CLOCK_LEAD_TOKENS = setOf(source.clockLeadTokens);
 export const EVENT_PREPOSITIONS = setOf(source.eventPrepositions);
 export const EVENT_ARTICLE_TOKENS = setOf(source.eventArticleTokens);
@@ -189,6 +285,7 @@ export const MEAL_RELATION_BY_TOKEN = new Map<string, MealRelation>(
   stringEntries(source.mealRelationTokens).map(([token, relation]) => [token, relation as MealRelation])
 );
 export const MEAL_TIMING_BY_RELATION = mealTimingByRelation(source.mealTimingByRelation);
+export const MEAL_LIST_WORDS = eventTimingMap(source.mealListWords);
 export const SLEEP_EVENT_ALIASES = setOf(source.sleepEventAliases);
 export const WAKE_EVENT_ALIASES = setOf(source.wakeEventAliases);
 export const FOOD_EVENT_ALIASES = setOf(source.foodEventAliases);
@@ -206,5 +303,6 @@ export const EYE_SITE_ABBREVIATIONS = setOf(source.eyeSiteAbbreviations);
 export const NON_OCULAR_DOSE_UNITS = setOf(source.nonOcularDoseUnits);
 export const OCULAR_ROUTE_CODES = routeCodeSet(source.ocularRouteCodes);
 export const HARD_SEGMENT_BOUNDARY_TOKENS = setOf(source.hardSegmentBoundaryTokens);
+export const SEQUENTIAL_SEGMENT_CONNECTORS = setOf(source.sequentialSegmentConnectors);
 export const CLAUSE_LEAD_WORDS = setOf(source.clauseLeadWords);
 export const LATERAL_MODIFIER_WORDS = setOf(source.lateralModifierWords);
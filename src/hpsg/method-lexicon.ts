@@ -32,6 +32,32 @@ export const METHOD_ACTION_BY_VERB: Record<string, MethodAction> = {
   wash: MethodAction.Wash
 };
 
+/** Thai verbs read as the English verb they translate, so both yield the same method. */
+export const METHOD_VERB_ALIASES: Record<string, string> = {
+  กลืน: "swallow",
+  กิน: "take",
+  ดื่ม: "drink",
+  ถู: "rub",
+  ทา: "apply",
+  ทาน: "take",
+  นวด: "massage",
+  พ่น: "spray",
+  รับประทาน: "take",
+  ล้าง: "wash",
+  สระ: "shampoo",
+  สอด: "insert",
+  หยอด: "instill",
+  เหน็บ: "insert",
+  แต้ม: "dab",
+  ใช้: "use"
+};
+
+for (const alias in METHOD_VERB_ALIASES) {
+  if (Object.prototype.hasOwnProperty.call(METHOD_VERB_ALIASES, alias)) {
+    METHOD_ACTION_BY_VERB[alias] = METHOD_ACTION_BY_VERB[METHOD_VERB_ALIASES[alias]];
+  }
+}
+
 export const METHOD_CODING_BY_ACTION: Record<MethodAction, FhirCoding> = {
   [MethodAction.Administer]: {
     system: SNOMED_SYSTEM,
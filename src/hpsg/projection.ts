@@ -1,5 +1,5 @@
 import { ParserState, Token } from "../parser-state";
-import { EventTiming, FhirDayOfWeek, RouteCode } from "../types";
+import { EventTiming, FhirDayOfWeek, FhirPeriodUnit, RouteCode } from "../types";
 import { HpsgScheduleFeature, HpsgSign } from "./signature";
 
 export interface HpsgProjectionDeps {
@@ -11,6 +11,16 @@ export interface HpsgProjectionDeps {
   setRoute: (state: ParserState, code: RouteCode, text?: string) => void;
 }
 
+const WHOLE_WEEK: readonly FhirDayOfWeek[] = [
+  FhirDayOfWeek.Monday,
+  FhirDayOfWeek.Tuesday,
+  FhirDayOfWeek.Wednesday,
+  FhirDayOfWeek.Thursday,
+  FhirDayOfWeek.Friday,
+  FhirDayOfWeek.Saturday,
+  FhirDayOfWeek.Sunday
+];
+
 function applySchedule(
   state: ParserState,
   schedule: HpsgScheduleFeature,
@@ -54,6 +64,58 @@ function applySchedule(
   if (schedule.dayOfWeek) {
     deps.addDayOfWeekList(state, schedule.dayOfWeek);
   }
+  if (schedule.excludedDayOfWeek?.length) {
+    // `daily except Sunday` starts from the whole week; `weekdays except
+    // Wednesday` from the days already named.
+    const days = state.dayOfWeek;
+    if (!days.length) {
+      days.push(...WHOLE_WEEK);
+    }
+    for (let index = days.length - 1; index >= 0; index -= 1) {
+      if (schedule.excludedDayOfWeek.indexOf(days[index]) !== -1) {
+        days.splice(index, 1);
+      }
+    }
+  }
+  if (schedule.dayOfMonth?.length) {
+    state.dayOfMonth = schedule.dayOfMonth.slice().sort((left, right) => left - right);
+  }
+  if (schedule.weekdayOfMonth?.length) {
+    state.weekdayOfMonth = schedule.weekdayOfMonth.slice();
+  }
+  if (schedule.dayOfMonth?.length || schedule.weekdayOfMonth?.length) {
+    // Calendar days imply a monthly schedule unless one was written out.
+    if (state.period === undefined && state.periodUnit === undefined) {
+      state.period = 1;
+      state.periodUnit = FhirPeriodUnit.Month;
+    }
+    // `monthly on the 1st and 15th`: the days say more than the MO code.
+    if (state.timingCode === "MO") {
+      state.timingCode = undefined;
+    }
+    const perMonth = (schedule.dayOfMonth?.length ?? 0) + (schedule.weekdayOfMonth?.length ?? 0);
+    if (state.frequency === undefined && perMonth > 1) {
+      state.frequency = perMonth;
+    }
+  }
+  if (schedule.cycle) {
+    state.cycle = schedule.cycle;
+  }
+  if (schedule.whileAwake) {
+    state.whileAwake = true;
+  }
+  if (schedule.anchor && !state.anchor?.relation) {
+    state.anchor = schedule.anchor;
+  }
+  if (schedule.event?.length) {
+    const existing = state.event ? state.event.slice() : [];
+    for (const event of schedule.event) {
+      if (existing.indexOf(event) === -1) {
+        existing.push(event);
+      }
+    }
+    state.event = existing.sort();
+  }
   if (schedule.timeOfDay?.length) {
     const existing = state.timeOfDay ? state.timeOfDay.slice() : [];
     for (const time of schedule.timeOfDay) {
@@ -176,6 +238,49 @@ export function projectHpsgSignToState(
     if (dose.unit !== undefined) {
       state.unit = dose.unit;
     }
+    if (dose.basisUnit !== undefined) {
+      state.doseBasisUnit = dose.basisUnit;
+    }
+  }
+
+  const rate = sign.synsem.head.rate;
+  if (rate) {
+    state.rate = {
+      value: rate.value,
+      range: rate.range,
+      unit: rate.unit,
+      perWeightUnit: rate.perWeightUnit,
+      period: rate.period,
+      periodUnit: rate.periodUnit
+    };
+  }
+
+  const maxDose = sign.synsem.head.maxDose;
+  if (maxDose) {
+    state.maxDose = {
+      perPeriod: maxDose.perPeriod?.map((limit) => ({ ...limit })),
+      perAdministration: maxDose.perAdministration ? { ...maxDose.perAdministration } : undefined,
+      perLifetime: maxDose.perLifetime ? { ...maxDose.perLifetime } : undefined
+    };
+  }
+
+  const dispense = sign.synsem.head.dispense;
+  if (dispense) {
+    state.dispense = {
+      quantity: dispense.quantity ? { ...dispense.quantity } : undefined,
+      refills: dispense.refills,
+      daysSupply: dispense.daysSupply,
+      substitution: dispense.substitution ? { ...dispense.substitution } : undefined
+    };
+  }
+
+  const slidingScale = sign.synsem.head.slidingScale;
+  if (slidingScale) {
+    state.slidingScale = {
+      observation: slidingScale.observation,
+      observationUnit: slidingScale.observationUnit,
+      tiers: slidingScale.tiers.map((tier) => ({ ...tier }))
+    };
   }
 
   const schedule = sign.synsem.head.schedule;
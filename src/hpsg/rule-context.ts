@@ -132,6 +132,25 @@ export function tokensAvailable(
   return tokens;
 }
 
+/**
+ * Length of the longest phrase from `phrases` starting at `start`, trying up
+ * to `maxWords` tokens; 0 when none matches.
+ */
+export function phraseLengthAt(
+  context: HpsgClauseContext,
+  start: number,
+  phrases: ReadonlySet<string>,
+  maxWords: number
+): number {
+  for (let span = maxWords; span >= 1; span -= 1) {
+    const tokens = tokensAvailable(context, start, span);
+    if (tokens && phrases.has(tokens.map(normalizeTokenLower).join(" "))) {
+      return span;
+    }
+  }
+  return 0;
+}
+
 export function rangeFromTokens(tokens: Token[]): { start: number; end: number } | undefined {
   if (!tokens.length) {
     return undefined;
@@ -12,21 +12,28 @@ import {
 import { LexKind } from "../../lexer/token-types";
 import { Token } from "../../parser-state";
 import { resolveBodySitePhrase } from "../../body-site-grammar";
-import { RouteCode } from "../../types";
-import { normalizeUnit } from "../../unit-lexicon";
+import { DoseBasisUnit, FhirPeriodUnit, RouteCode } from "../../types";
+import { isDiscreteUnit, normalizeUnit } from "../../unit-lexicon";
 import { buildTranslationPrimitiveElement } from "../../fhir-translations";
-import { parseNumericRange } from "../timing-lexicon";
+import { mapRatePeriodUnit, parseNumericRange } from "../timing-lexicon";
 import {
   BODY_SITE_PARTITIVE_CONNECTORS,
   BODY_SITE_PARTITIVE_HEADS,
   CLOCK_LEAD_TOKENS,
   COMPOUND_DOSE_UNITS,
   CONNECTORS,
+  DOSE_BASIS_TRAILERS,
+  DOSE_BASIS_UNITS,
+  DOSE_LEAD_FILLERS,
+  DOSE_NUMBER_WORDS,
   LIST_SEPARATORS,
   MEDICATION_OBJECT_FILLERS,
   MILLION_DOSE_MULTIPLIER_TOKENS,
   PRODUCT_METHOD_TEXT,
   PRODUCT_METHOD_THAI,
+  RATE_LEAD_TOKENS,
+  RATE_SEPARATOR_TOKENS,
+  RATE_WEIGHT_BASIS_UNITS,
   ROUTE_BLOCKED_BY_FOLLOWING_PARTITIVE_HEADS,
   ROUTE_SITE_PREPOSITIONS
 } from "../lexical-classes";
@@ -34,6 +41,7 @@ import {
   cloneMethodCoding,
   METHOD_ACTION_BY_VERB,
   METHOD_CODING_BY_ACTION,
+  METHOD_VERB_ALIASES,
   MethodAction
 } from "../method-lexicon";
 import {
@@ -55,7 +63,8 @@ export function methodLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
     if (!tokens || !token) {
       return [];
     }
-    const verb = normalizeTokenLower(token);
+    const lower = normalizeTokenLower(token);
+    const verb = METHOD_VERB_ALIASES[lower] ?? lower;
     if (
       !METHOD_ACTION_BY_VERB[verb] ||
       (
@@ -223,7 +232,8 @@ function routePhraseCandidates(phrase: string): string[] {
 export function fillerLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
   return lexicalRule("hpsg.lex.filler.medicationObject", (context, start) => {
     const token = tokensAvailable(context, start, 1)?.[0];
-    if (!token || !MEDICATION_OBJECT_FILLERS.has(normalizeTokenLower(token))) {
+    const lower = token ? normalizeTokenLower(token) : "";
+    if (!token || (!MEDICATION_OBJECT_FILLERS.has(lower) && !DOSE_LEAD_FILLERS.has(lower))) {
       return [];
     }
     return [
@@ -315,6 +325,13 @@ function unitAfter(context: HpsgClauseContext, start: number): { unit: string; t
   return undefined;
 }
 
+/** A trailing half after the unit, as in Thai `1 เม็ดครึ่ง` (one and a half tablets). */
+function fractionAfter(context: HpsgClauseContext, start: number): Token | undefined {
+  const token = tokensAvailable(context, start, 1)?.[0];
+  const value = token ? DOSE_NUMBER_WORDS[normalizeTokenLower(token)] : undefined;
+  return value !== undefined && value < 1 ? token : undefined;
+}
+
 export function doseLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
   return lexicalRule("hpsg.lex.dose", (context, start) => {
     const tokens = tokensAvailable(context, start, 1);
@@ -370,6 +387,26 @@ export function doseLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
         })
       ];
     }
+    const wordValue = DOSE_NUMBER_WORDS[lower];
+    if (wordValue !== undefined) {
+      const unit = unitAfter(context, start + 1);
+      if (!unit) {
+        return [];
+      }
+      return [
+        lexicalSign({
+          type: "dose-sign",
+          rule: "hpsg.lex.dose.word",
+          tokens: [...tokens, ...unit.tokens],
+          synsem: {
+            head: { dose: { value: wordValue, unit: unit.unit } },
+            valence: {},
+            cont: { clauseKind: "administration" }
+          },
+          score: 8
+        })
+      ];
+    }
     if (token.kind !== LexKind.Number || token.value === undefined) {
       const timesMatch = lower.match(/^([0-9]+(?:\.[0-9]+)?)[x*]$/);
       if (!timesMatch) {
@@ -415,15 +452,16 @@ export function doseLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
       ];
     }
     const unit = unitAfter(context, start + 1);
+    const fraction = unit ? fractionAfter(context, start + 1 + unit.tokens.length) : undefined;
     return [
       lexicalSign({
         type: "dose-sign",
         rule: "hpsg.lex.dose.numeric",
-        tokens: unit ? [...tokens, ...unit.tokens] : tokens,
+        tokens: unit ? [...tokens, ...unit.tokens, ...(fraction ? [fraction] : [])] : tokens,
         synsem: {
           head: {
             dose: {
-              value: token.value,
+              value: fraction ? token.value + DOSE_NUMBER_WORDS[normalizeTokenLower(fraction)] : token.value,
               unit: unit?.unit
             }
           },
@@ -436,6 +474,223 @@ export function doseLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
   });
 }
 
+type RateUnitMatch = {
+  unit: string;
+  perWeightUnit?: string;
+  period?: number;
+  periodUnit: FhirPeriodUnit;
+  tokens: Token[];
+};
+
+/**
+ * Reads a rate unit such as `mL/hr`, `units/kg/hr`, `mcg/kg/min` or
+ * `mL per hour`. The amount must be a measurable unit so discrete counts like
+ * `2 tabs per day` keep their frequency reading.
+ */
+function rateUnitAfter(context: HpsgClauseContext, start: number): RateUnitMatch | undefined {
+  const maxSpan = Math.min(5, context.limit - start);
+  for (let span = maxSpan; span >= 1; span -= 1) {
+    const tokens = tokensAvailable(context, start, span);
+    if (!tokens) {
+      continue;
+    }
+    const parts: string[] = [""];
+    for (const token of tokens) {
+      const lower = normalizeTokenLower(token);
+      if (RATE_SEPARATOR_TOKENS.has(lower)) {
+        parts.push("");
+        continue;
+      }
+      const pieces = lower.split("/");
+      parts[parts.length - 1] = `${parts[parts.length - 1]} ${pieces[0]}`.trim();
+      for (const piece of pieces.slice(1)) {
+        parts.push(piece);
+      }
+    }
+    if (parts.length < 2 || parts.length > 3 || parts.some((part) => !part)) {
+      continue;
+    }
+    const unit = normalizeUnit(parts[0], context.options);
+    if (!unit || isDiscreteUnit(unit)) {
+      continue;
+    }
+    const perWeightUnit = parts.length === 3 ? parts[1] : undefined;
+    if (perWeightUnit !== undefined && !RATE_WEIGHT_BASIS_UNITS.has(perWeightUnit)) {
+      continue;
+    }
+    const periodMatch = parts[parts.length - 1].match(/^([0-9]+(?:\.[0-9]+)?)?\s*([a-z]+)$/);
+    const periodUnit = periodMatch ? mapRatePeriodUnit(periodMatch[2]) : undefined;
+    if (!periodMatch || !periodUnit) {
+      continue;
+    }
+    const period = periodMatch[1] ? parseFloat(periodMatch[1]) : undefined;
+    return {
+      unit,
+      perWeightUnit,
+      period: period !== undefined && period !== 1 ? period : undefined,
+      periodUnit,
+      tokens
+    };
+  }
+  return undefined;
+}
+
+export function rateLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
+  return lexicalRule("hpsg.lex.rate", (context, start) => {
+    let cursor = start;
+    while (
+      cursor < context.limit &&
+      cursor - start < 4 &&
+      context.tokens[cursor] &&
+      !context.state.consumed.has(context.tokens[cursor].index) &&
+      RATE_LEAD_TOKENS.has(normalizeTokenLower(context.tokens[cursor]))
+    ) {
+      cursor += 1;
+    }
+    const amount = tokensAvailable(context, cursor, 1)?.[0];
+    if (!amount) {
+      return [];
+    }
+    const lower = normalizeTokenLower(amount);
+    const range = parseNumericRange(lower);
+    const value = range || amount.kind !== LexKind.Number ? undefined : amount.value;
+    if (!range && value === undefined) {
+      return [];
+    }
+    const unit = rateUnitAfter(context, cursor + 1);
+    if (!unit) {
+      return [];
+    }
+    return [
+      lexicalSign({
+        type: "rate-sign",
+        rule: "hpsg.lex.rate",
+        tokens: [...context.tokens.slice(start, cursor), amount, ...unit.tokens],
+        synsem: {
+          head: {
+            rate: {
+              value,
+              range,
+              unit: unit.unit,
+              perWeightUnit: unit.perWeightUnit,
+              period: unit.period,
+              periodUnit: unit.periodUnit
+            }
+          },
+          valence: {},
+          cont: { clauseKind: "administration" }
+        },
+        score: 10
+      })
+    ];
+  });
+}
+
+type DoseBasisMatch = {
+  unit: string;
+  basisUnit: DoseBasisUnit;
+};
+
+/**
+ * Splits `mg/kg`, `mg/kg/dose` or `mg/m2` into the amount unit and its body
+ * basis. Discrete units are rejected since `tab/kg` is not a real order.
+ */
+function parseDoseBasisParts(parts: string[], context: HpsgClauseContext): DoseBasisMatch | undefined {
+  if (parts.length < 2 || parts.length > 3 || parts.some((part) => !part)) {
+    return undefined;
+  }
+  const unit = normalizeUnit(parts[0], context.options);
+  const basisUnit = DOSE_BASIS_UNITS.get(parts[1]) as DoseBasisUnit | undefined;
+  if (!unit || isDiscreteUnit(unit) || !basisUnit) {
+    return undefined;
+  }
+  if (parts.length === 3 && !DOSE_BASIS_TRAILERS.has(parts[2])) {
+    return undefined;
+  }
+  return { unit, basisUnit };
+}
+
+function doseBasisUnitAfter(
+  context: HpsgClauseContext,
+  start: number
+): (DoseBasisMatch & { tokens: Token[] }) | undefined {
+  const maxSpan = Math.min(5, context.limit - start);
+  for (let span = maxSpan; span >= 1; span -= 1) {
+    const tokens = tokensAvailable(context, start, span);
+    if (!tokens) {
+      continue;
+    }
+    const parts: string[] = [""];
+    for (const token of tokens) {
+      const lower = normalizeTokenLower(token);
+      if (RATE_SEPARATOR_TOKENS.has(lower)) {
+        parts.push("");
+        continue;
+      }
+      const pieces = lower.split("/");
+      parts[parts.length - 1] = `${parts[parts.length - 1]} ${pieces[0]}`.trim();
+      for (const piece of pieces.slice(1)) {
+        parts.push(piece);
+      }
+    }
+    const match = parseDoseBasisParts(parts, context);
+    if (match) {
+      return { ...match, tokens };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Weight- and BSA-normalized doses such as `15 mg/kg`, `10-15 mg/kg/dose`,
+ * `75 mg/m2` or the compact `75mg/m2`.
+ */
+export function doseBasisLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
+  return lexicalRule("hpsg.lex.dose.basis", (context, start) => {
+    const amount = tokensAvailable(context, start, 1)?.[0];
+    if (!amount) {
+      return [];
+    }
+    const lower = normalizeTokenLower(amount);
+    let value: number | undefined;
+    let range: ReturnType<typeof parseNumericRange>;
+    let match: (DoseBasisMatch & { tokens: Token[] }) | undefined;
+    const compact = lower.match(/^([0-9]+(?:\.[0-9]+)?)([^0-9./][^/]*)\/(.+)$/);
+    if (compact) {
+      const basis = parseDoseBasisParts([compact[2], ...compact[3].split("/")], context);
+      value = parseFloat(compact[1]);
+      match = basis ? { ...basis, tokens: [] } : undefined;
+    } else {
+      range = parseNumericRange(lower);
+      value = range || amount.kind !== LexKind.Number ? undefined : amount.value;
+      match = range || value !== undefined ? doseBasisUnitAfter(context, start + 1) : undefined;
+    }
+    if (!match) {
+      return [];
+    }
+    return [
+      lexicalSign({
+        type: "dose-sign",
+        rule: "hpsg.lex.dose.basis",
+        tokens: [amount, ...match.tokens],
+        synsem: {
+          head: {
+            dose: {
+              value,
+              range,
+              unit: match.unit,
+              basisUnit: match.basisUnit
+            }
+          },
+          valence: {},
+          cont: { clauseKind: "administration" }
+        },
+        score: 10
+      })
+    ];
+  });
+}
+
 function isClockDoseContext(context: HpsgClauseContext, start: number, lower: string): boolean {
   if (!isClockLikeLower(lower)) {
     return false;
@@ -0,0 +1,246 @@
+import { LexKind } from "../../lexer/token-types";
+import { Token } from "../../parser-state";
+import { normalizeUnit } from "../../unit-lexicon";
+import {
+  DISPENSE_CONTAINER_UNITS,
+  DISPENSE_DAYS_SUPPLY_PHRASES,
+  DISPENSE_LEAD_PHRASES,
+  DISPENSE_NO_REFILL_PHRASES,
+  DISPENSE_NO_SUBSTITUTION_PHRASES,
+  DISPENSE_REFILL_LEADS,
+  DISPENSE_SUBSTITUTION_PHRASES
+} from "../lexical-classes";
+import {
+  HpsgClauseContext,
+  lexicalRule,
+  normalizeTokenLower,
+  tokensAvailable
+} from "../rule-context";
+import { HpsgDispenseFeature, HpsgLexicalRule, lexicalSign } from "../signature";
+
+const MAX_PHRASE_WORDS = 3;
+// Prescribers run the lead and the count together: `#60`, `qty:30`, `RF2`.
+const COMPACT_QUANTITY = /^(?:#|(?:disp|dispense|qty|quantity):?#?)([0-9]+(?:\.[0-9]+)?)$/;
+const COMPACT_REFILLS = /^(?:rf|rfl|refills?):?x?([0-9]+)$/;
+const COMPACT_DAW = /^daw:?([0-9])$/;
+const COMPACT_DAYS_SUPPLY = /^ds:?([0-9]+)$/;
+const DAYS_COUNT = /^([0-9]+)-?days?$/;
+const TIMES_COUNT = /^x([0-9]+)$/;
+const NUMERIC_WORD = /^[0-9]+(?:\.[0-9]+)?$/;
+
+interface DispenseMatch {
+  dispense: HpsgDispenseFeature;
+  length: number;
+}
+
+/** Lower-cased word with a trailing colon dropped, so `disp:` reads as `disp`. */
+function wordAt(context: HpsgClauseContext, index: number): string | undefined {
+  const token = tokensAvailable(context, index, 1)?.[0];
+  return token ? normalizeTokenLower(token).replace(/:$/, "") : undefined;
+}
+
+function phraseLengthAt(
+  context: HpsgClauseContext,
+  start: number,
+  phrases: ReadonlySet<string>
+): number {
+  for (let span = MAX_PHRASE_WORDS; span >= 1; span -= 1) {
+    const words: string[] = [];
+    for (let offset = 0; offset < span; offset += 1) {
+      const word = wordAt(context, start + offset);
+      if (!word) {
+        break;
+      }
+      words.push(word);
+    }
+    if (words.length === span && phrases.has(words.join(" "))) {
+      return span;
+    }
+  }
+  return 0;
+}
+
+/** A number token, or a word that is a number once its dots are trimmed (`2.`). */
+function numberAt(context: HpsgClauseContext, index: number): number | undefined {
+  const token = tokensAvailable(context, index, 1)?.[0];
+  if (token?.kind === LexKind.Number) {
+    return token.value;
+  }
+  const word = wordAt(context, index);
+  return word && NUMERIC_WORD.test(word) ? parseFloat(word) : undefined;
+}
+
+function countAt(context: HpsgClauseContext, index: number): number | undefined {
+  const value = numberAt(context, index);
+  return value !== undefined && Number.isInteger(value) ? value : undefined;
+}
+
+/**
+ * Reads `#30`, `# 30`, `qty:30`, `disp 30 tabs` and `#1 tube`. A bare count
+ * has no unit; a following dose unit or container noun becomes the unit.
+ */
+function matchQuantity(context: HpsgClauseContext, start: number): DispenseMatch | undefined {
+  let cursor = start + phraseLengthAt(context, start, DISPENSE_LEAD_PHRASES);
+  const hasLead = cursor > start;
+  let value: number | undefined;
+  const compact = wordAt(context, cursor)?.match(COMPACT_QUANTITY);
+  if (compact) {
+    value = parseFloat(compact[1]);
+    cursor += 1;
+  } else {
+    if (wordAt(context, cursor) === "#") {
+      cursor += 1;
+    } else if (!hasLead) {
+      return undefined;
+    }
+    value = numberAt(context, cursor);
+    if (value === undefined) {
+      return undefined;
+    }
+    cursor += 1;
+  }
+  const unitWord = wordAt(context, cursor);
+  const unit = unitWord
+    ? normalizeUnit(unitWord, context.options) ?? DISPENSE_CONTAINER_UNITS.get(unitWord)
+    : undefined;
+  if (unit) {
+    cursor += 1;
+  }
+  return { dispense: { quantity: { value, unit } }, length: cursor - start };
+}
+
+/** Reads `refills x2`, `RF2`, `refill: 2`, `2 refills` and `no refills`. */
+function matchRefills(context: HpsgClauseContext, start: number): DispenseMatch | undefined {
+  const noRefillLength = phraseLengthAt(context, start, DISPENSE_NO_REFILL_PHRASES);
+  if (noRefillLength) {
+    return { dispense: { refills: 0 }, length: noRefillLength };
+  }
+  const compact = wordAt(context, start)?.match(COMPACT_REFILLS);
+  if (compact) {
+    return { dispense: { refills: parseInt(compact[1], 10) }, length: 1 };
+  }
+  const leading = countAt(context, start);
+  if (leading !== undefined) {
+    const noun = wordAt(context, start + 1);
+    return noun && DISPENSE_REFILL_LEADS.has(noun)
+      ? { dispense: { refills: leading }, length: 2 }
+      : undefined;
+  }
+  const lead = wordAt(context, start);
+  if (!lead || !DISPENSE_REFILL_LEADS.has(lead)) {
+    return undefined;
+  }
+  const times = wordAt(context, start + 1)?.match(TIMES_COUNT);
+  if (times) {
+    return { dispense: { refills: parseInt(times[1], 10) }, length: 2 };
+  }
+  const cursor = wordAt(context, start + 1) === "x" ? start + 2 : start + 1;
+  const refills = countAt(context, cursor);
+  return refills !== undefined
+    ? { dispense: { refills }, length: cursor + 1 - start }
+    : undefined;
+}
+
+/**
+ * Reads `30 day supply`, `30-day supply`, `days supply: 30` and `DS: 30`.
+ * A bare `DS` is also "double strength", so it needs a colon or a number
+ * run into it.
+ */
+function matchDaysSupply(context: HpsgClauseContext, start: number): DispenseMatch | undefined {
+  const token = tokensAvailable(context, start, 1)?.[0];
+  if (!token) {
+    return undefined;
+  }
+  const lower = normalizeTokenLower(token);
+  const compact = lower.match(COMPACT_DAYS_SUPPLY);
+  if (compact) {
+    return { dispense: { daysSupply: parseInt(compact[1], 10) }, length: 1 };
+  }
+  if (lower === "ds:") {
+    const days = countAt(context, start + 1);
+    return days !== undefined ? { dispense: { daysSupply: days }, length: 2 } : undefined;
+  }
+  const hyphenated = lower.match(DAYS_COUNT);
+  if (hyphenated && wordAt(context, start + 1) === "supply") {
+    return { dispense: { daysSupply: parseInt(hyphenated[1], 10) }, length: 2 };
+  }
+  const leading = countAt(context, start);
+  if (leading !== undefined) {
+    const phraseLength = phraseLengthAt(context, start + 1, DISPENSE_DAYS_SUPPLY_PHRASES);
+    return phraseLength
+      ? { dispense: { daysSupply: leading }, length: 1 + phraseLength }
+      : undefined;
+  }
+  const leadLength = phraseLengthAt(context, start, DISPENSE_DAYS_SUPPLY_PHRASES);
+  const days = leadLength ? countAt(context, start + leadLength) : undefined;
+  if (days === undefined) {
+    return undefined;
+  }
+  const unitLength = /^days?$/.test(wordAt(context, start + leadLength + 1) ?? "") ? 1 : 0;
+  return { dispense: { daysSupply: days }, length: leadLength + 1 + unitLength };
+}
+
+/**
+ * Reads `DAW`, `DAW1`, `DAW 0`, `dispense as written` and `generic ok`. A DAW
+ * code of 0 is the only one that still allows substitution.
+ */
+function matchSubstitution(context: HpsgClauseContext, start: number): DispenseMatch | undefined {
+  const compact = wordAt(context, start)?.match(COMPACT_DAW);
+  if (compact) {
+    const dawCode = parseInt(compact[1], 10);
+    return { dispense: { substitution: { allowed: dawCode === 0, dawCode } }, length: 1 };
+  }
+  const forbidLength = phraseLengthAt(context, start, DISPENSE_NO_SUBSTITUTION_PHRASES);
+  if (forbidLength) {
+    const dawCode =
+      forbidLength === 1 && wordAt(context, start) === "daw" ? countAt(context, start + 1) : undefined;
+    if (dawCode !== undefined && dawCode <= 9) {
+      return { dispense: { substitution: { allowed: dawCode === 0, dawCode } }, length: 2 };
+    }
+    return { dispense: { substitution: { allowed: false } }, length: forbidLength };
+  }
+  const allowLength = phraseLengthAt(context, start, DISPENSE_SUBSTITUTION_PHRASES);
+  return allowLength
+    ? { dispense: { substitution: { allowed: true } }, length: allowLength }
+    : undefined;
+}
+
+function matchDispense(context: HpsgClauseContext, start: number): DispenseMatch | undefined {
+  return (
+    matchDaysSupply(context, start) ??
+    matchQuantity(context, start) ??
+    matchRefills(context, start) ??
+    matchSubstitution(context, start)
+  );
+}
+
+/**
+ * Whether dispensing details such as `#30`, `RF2` or `DAW` start at `start`,
+ * so free-text consumers like PRN reasons can stop before them.
+ */
+export function startsDispense(context: HpsgClauseContext, start: number): boolean {
+  return Boolean(matchDispense(context, start));
+}
+
+export function dispenseLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
+  return lexicalRule("hpsg.lex.dispense", (context, start) => {
+    const match = matchDispense(context, start);
+    if (!match) {
+      return [];
+    }
+    const tokens: Token[] = context.tokens.slice(start, start + match.length);
+    return [
+      lexicalSign({
+        type: "dispense-sign",
+        rule: "hpsg.lex.dispense",
+        tokens,
+        synsem: {
+          head: { dispense: match.dispense },
+          valence: {},
+          cont: {}
+        },
+        score: 12 + tokens.length
+      })
+    ];
+  });
+}
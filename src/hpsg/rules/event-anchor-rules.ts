@@ -0,0 +1,166 @@
+import { lookupEventAnchor } from "../../event-anchor";
+import { LexKind } from "../../lexer/token-types";
+import { CanonicalEventAnchor, EventAnchorRelation, FhirPeriodUnit } from "../../types";
+import {
+  EVENT_ANCHOR_AFTER_WORDS,
+  EVENT_ANCHOR_ARTICLES,
+  EVENT_ANCHOR_BEFORE_WORDS,
+  EVENT_ANCHOR_DAY_LEADS,
+  EVENT_ANCHOR_DAY_WORDS
+} from "../lexical-classes";
+import {
+  HpsgClauseContext,
+  joinTokenText,
+  lexicalRule,
+  normalizeTokenLower,
+  phraseLengthAt,
+  tokensAvailable
+} from "../rule-context";
+import { HpsgLexicalRule, HpsgSign, lexicalSign } from "../signature";
+import { mapIntervalUnit } from "../timing-lexicon";
+
+const MAX_RELATION_WORDS = 2;
+const MAX_ANCHOR_WORDS = 4;
+
+interface AnchorMatch {
+  anchor: CanonicalEventAnchor;
+  end: number;
+}
+
+/** Longest registered anchor phrase starting at `start`. */
+function anchorAt(context: HpsgClauseContext, start: number): AnchorMatch | undefined {
+  const map = context.options?.eventAnchorMap;
+  if (!map) {
+    return undefined;
+  }
+  for (let span = MAX_ANCHOR_WORDS; span >= 1; span -= 1) {
+    const tokens = tokensAvailable(context, start, span);
+    const anchor = tokens ? lookupEventAnchor(map, joinTokenText(tokens)) : undefined;
+    if (anchor) {
+      return { anchor, end: start + span };
+    }
+  }
+  return undefined;
+}
+
+/** Reads `30 min` or `1 hr` as minutes. */
+function offsetAt(context: HpsgClauseContext, start: number): { minutes: number; end: number } | undefined {
+  const tokens = tokensAvailable(context, start, 2);
+  const value = tokens?.[0].kind === LexKind.Number ? tokens[0].value : undefined;
+  if (!tokens || value === undefined || value <= 0) {
+    return undefined;
+  }
+  const unit = mapIntervalUnit(normalizeTokenLower(tokens[1]));
+  if (unit === FhirPeriodUnit.Minute) {
+    return { minutes: value, end: start + 2 };
+  }
+  if (unit === FhirPeriodUnit.Hour) {
+    return { minutes: value * 60, end: start + 2 };
+  }
+  return undefined;
+}
+
+/**
+ * Relation written onto the anchor without a space, as Thai does
+ * (`หลังฟอกไต`) and as in `predialysis`.
+ */
+function gluedAnchorAt(
+  context: HpsgClauseContext,
+  start: number
+): { anchor: CanonicalEventAnchor; relation: EventAnchorRelation } | undefined {
+  const token = tokensAvailable(context, start, 1)?.[0];
+  if (!token) {
+    return undefined;
+  }
+  const lower = normalizeTokenLower(token);
+  const candidates: Array<[ReadonlySet<string>, EventAnchorRelation]> = [
+    [EVENT_ANCHOR_BEFORE_WORDS, EventAnchorRelation.Before],
+    [EVENT_ANCHOR_AFTER_WORDS, EventAnchorRelation.After]
+  ];
+  for (const [words, relation] of candidates) {
+    for (const word of Array.from(words)) {
+      if (lower.length > word.length && lower.indexOf(word) === 0) {
+        const anchor = lookupEventAnchor(context.options?.eventAnchorMap, lower.slice(word.length));
+        if (anchor) {
+          return { anchor, relation };
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+function anchorSign(
+  context: HpsgClauseContext,
+  rule: string,
+  start: number,
+  end: number,
+  anchor: CanonicalEventAnchor
+): HpsgSign {
+  const tokens = context.tokens.slice(start, end);
+  return lexicalSign({
+    type: "schedule-sign",
+    rule,
+    tokens,
+    synsem: {
+      head: { schedule: { anchor } },
+      valence: {},
+      cont: { clauseKind: "administration" }
+    },
+    score: 14 + tokens.length
+  });
+}
+
+/**
+ * Doses timed against an institution's clinical events from
+ * `ParseOptions.eventAnchorMap`: `1 hr before procedure`, `after dialysis`,
+ * and the day restriction `on HD days`.
+ */
+export function eventAnchorLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
+  return lexicalRule("hpsg.lex.schedule.anchor", (context, start) => {
+    if (!context.options?.eventAnchorMap) {
+      return [];
+    }
+    const signs: HpsgSign[] = [];
+
+    const offset = offsetAt(context, start);
+    let cursor = offset?.end ?? start;
+    const before = phraseLengthAt(context, cursor, EVENT_ANCHOR_BEFORE_WORDS, MAX_RELATION_WORDS);
+    const after = before ? 0 : phraseLengthAt(context, cursor, EVENT_ANCHOR_AFTER_WORDS, MAX_RELATION_WORDS);
+    if (before || after) {
+      cursor += before || after;
+      const article = tokensAvailable(context, cursor, 1)?.[0];
+      if (article && EVENT_ANCHOR_ARTICLES.has(normalizeTokenLower(article))) {
+        cursor += 1;
+      }
+      const match = anchorAt(context, cursor);
+      if (match) {
+        const anchor: CanonicalEventAnchor = {
+          ...match.anchor,
+          relation: before ? EventAnchorRelation.Before : EventAnchorRelation.After
+        };
+        if (offset) {
+          anchor.offset = offset.minutes;
+        }
+        signs.push(anchorSign(context, "hpsg.lex.schedule.anchor.relative", start, match.end, anchor));
+      }
+    } else {
+      const glued = gluedAnchorAt(context, cursor);
+      if (glued) {
+        const anchor: CanonicalEventAnchor = { ...glued.anchor, relation: glued.relation };
+        if (offset) {
+          anchor.offset = offset.minutes;
+        }
+        signs.push(anchorSign(context, "hpsg.lex.schedule.anchor.relative", start, cursor + 1, anchor));
+      }
+    }
+
+    const lead = phraseLengthAt(context, start, EVENT_ANCHOR_DAY_LEADS, MAX_RELATION_WORDS);
+    const days = anchorAt(context, start + lead);
+    const dayWord = days ? phraseLengthAt(context, days.end, EVENT_ANCHOR_DAY_WORDS, 2) : 0;
+    if (days && dayWord) {
+      signs.push(anchorSign(context, "hpsg.lex.schedule.anchor.days", start, days.end + dayWord, days.anchor));
+    }
+    return signs;
+  });
+}
@@ -0,0 +1,219 @@
+import { isValidDateLiteral, parseDateLiteral, toGregorianYear } from "../../lexer/lex";
+import { DateLiteral, LexKind } from "../../lexer/token-types";
+import { Token } from "../../parser-state";
+import { buildEventDateTime, localEventDate, resolveReferenceDate } from "../../timing-event";
+import {
+  EVENT_BUDDHIST_ERA_MARKERS,
+  EVENT_CLOCK_LEADS,
+  EVENT_COMMON_ERA_MARKERS,
+  EVENT_DATE_LEADS,
+  EVENT_MONTH_NAMES,
+  EVENT_RELATIVE_DAYS,
+  EVENT_SINGLE_DOSE_PHRASES
+} from "../lexical-classes";
+import {
+  HpsgClauseContext,
+  lexicalRule,
+  normalizeTokenLower,
+  parseClockToken,
+  phraseLengthAt,
+  tokensAvailable
+} from "../rule-context";
+import { HpsgLexicalRule, lexicalSign } from "../signature";
+
+const MAX_PHRASE_WORDS = 2;
+const EVENT_DATE_SCORE = 12;
+// Outscores a bare date joined with a separate time-of-day sign, so the clock
+// lands on the event instead of `Timing.repeat.timeOfDay`.
+const EVENT_CLOCK_SCORE = 30;
+
+interface DateMatch {
+  date: DateLiteral;
+  end: number;
+}
+
+interface ClockMatch {
+  clock: string;
+  end: number;
+}
+
+function tokenAt(context: HpsgClauseContext, index: number): Token | undefined {
+  return tokensAvailable(context, index, 1)?.[0];
+}
+
+function lowerAt(context: HpsgClauseContext, index: number): string {
+  const token = tokenAt(context, index);
+  return token ? normalizeTokenLower(token) : "";
+}
+
+function recordValue(record: Record<string, number>, key: string): number | undefined {
+  const value = record[key];
+  return typeof value === "number" ? value : undefined;
+}
+
+function numberAt(context: HpsgClauseContext, index: number): number | undefined {
+  const token = tokenAt(context, index);
+  return token?.kind === LexKind.Number && token.value !== undefined && Number.isInteger(token.value)
+    ? token.value
+    : undefined;
+}
+
+/** Reads a year with an optional era marker before it: `2026`, `พ.ศ. 2569`. */
+function yearAt(
+  context: HpsgClauseContext,
+  start: number
+): { year: number; end: number } | undefined {
+  const marker = lowerAt(context, start);
+  const buddhistEra = EVENT_BUDDHIST_ERA_MARKERS.has(marker)
+    ? true
+    : EVENT_COMMON_ERA_MARKERS.has(marker)
+    ? false
+    : undefined;
+  const cursor = buddhistEra === undefined ? start : start + 1;
+  const year = numberAt(context, cursor);
+  if (year === undefined || year < 1000) {
+    return undefined;
+  }
+  return { year: toGregorianYear(year, buddhistEra), end: cursor + 1 };
+}
+
+/** The parse's reference day, known only with both `referenceDate` and `timeZone`. */
+interface EventReference {
+  instant: Date;
+  timeZone: string;
+}
+
+function resolveEventReference(context: HpsgClauseContext): EventReference | undefined {
+  const instant = resolveReferenceDate(context.options?.referenceDate);
+  const timeZone = context.options?.timeZone;
+  return instant && timeZone ? { instant, timeZone } : undefined;
+}
+
+/**
+ * Reads a date: a literal (`2026-11-02`, `2/11/2569`), a relative day
+ * (`today`, `พรุ่งนี้`), `2 Nov 2026`, `2 พ.ย. 2569`, or `Nov 2, 2026`.
+ * Relative days, and written-out dates without a year, need `reference` and
+ * are left unread without it.
+ */
+function dateAt(
+  context: HpsgClauseContext,
+  start: number,
+  reference: EventReference | undefined
+): DateMatch | undefined {
+  const token = tokenAt(context, start);
+  if (!token) {
+    return undefined;
+  }
+  const lower = normalizeTokenLower(token);
+  if (token.kind === LexKind.Date) {
+    const date = parseDateLiteral(lower);
+    return date ? { date, end: start + 1 } : undefined;
+  }
+  const relative = recordValue(EVENT_RELATIVE_DAYS, lower);
+  if (relative !== undefined) {
+    return reference
+      ? { date: localEventDate(reference.instant, reference.timeZone, relative), end: start + 1 }
+      : undefined;
+  }
+  let day: number | undefined;
+  let month: number | undefined;
+  let cursor: number;
+  const leadingDay = numberAt(context, start);
+  if (leadingDay !== undefined) {
+    month = recordValue(EVENT_MONTH_NAMES, lowerAt(context, start + 1));
+    day = leadingDay;
+    cursor = start + 2;
+  } else {
+    month = recordValue(EVENT_MONTH_NAMES, lower);
+    day = numberAt(context, start + 1);
+    cursor = start + 2;
+    if (lowerAt(context, cursor) === "," && yearAt(context, cursor + 1)) {
+      cursor += 1;
+    }
+  }
+  if (month === undefined || day === undefined) {
+    return undefined;
+  }
+  const year = yearAt(context, cursor);
+  if (!year && !reference) {
+    return undefined;
+  }
+  const date = {
+    year: year ? year.year : localEventDate(reference!.instant, reference!.timeZone).year,
+    month,
+    day
+  };
+  if (!isValidDateLiteral(date)) {
+    return undefined;
+  }
+  return { date, end: year?.end ?? cursor };
+}
+
+/**
+ * Whether an event date, optionally led by `on` or `วันที่`, starts at
+ * `index`, so site and instruction phrases stop before it.
+ */
+export function startsEventDate(context: HpsgClauseContext, index: number): boolean {
+  const start = EVENT_DATE_LEADS.has(lowerAt(context, index)) ? index + 1 : index;
+  return Boolean(dateAt(context, start, resolveEventReference(context)));
+}
+
+function clockAt(context: HpsgClauseContext, start: number): ClockMatch | undefined {
+  const cursor = EVENT_CLOCK_LEADS.has(lowerAt(context, start)) ? start + 1 : start;
+  const parsed = parseClockToken(tokenAt(context, cursor), tokenAt(context, cursor + 1));
+  return parsed ? { clock: parsed.value, end: cursor + parsed.tokens.length } : undefined;
+}
+
+/**
+ * One-off administrations on a stated date: `single dose on 2026-11-02
+ * 08:00`, `at 14:00 today`, `tomorrow 8am`, or `2 พ.ย. 2569 เวลา 08:00`. The
+ * date becomes a `Timing.event` entry zoned to the `timeZone` parse option.
+ * Without a time zone the event stays a bare date and a written clock is
+ * left to `Timing.repeat.timeOfDay`, which schedules read in their own zone.
+ */
+export function eventDateLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
+  return lexicalRule("hpsg.lex.schedule.event", (context, start) => {
+    const timeZone = context.options?.timeZone;
+    const reference = resolveEventReference(context);
+    let cursor = start;
+    const singleDose = phraseLengthAt(context, cursor, EVENT_SINGLE_DOSE_PHRASES, MAX_PHRASE_WORDS);
+    cursor += singleDose;
+
+    let clock: ClockMatch | undefined;
+    let date: DateMatch | undefined;
+    const leadEnd = EVENT_DATE_LEADS.has(lowerAt(context, cursor)) ? cursor + 1 : cursor;
+    date = dateAt(context, leadEnd, reference);
+    if (date) {
+      clock = timeZone ? clockAt(context, date.end) : undefined;
+    } else {
+      clock = timeZone ? clockAt(context, cursor) : undefined;
+      if (!clock) {
+        return [];
+      }
+      const dateStart = EVENT_DATE_LEADS.has(lowerAt(context, clock.end)) ? clock.end + 1 : clock.end;
+      date = dateAt(context, dateStart, reference);
+    }
+    if (!date) {
+      return [];
+    }
+    const event = buildEventDateTime(date.date, clock?.clock, timeZone);
+    if (!event) {
+      return [];
+    }
+    const end = Math.max(date.end, clock?.end ?? 0);
+    const tokens = context.tokens.slice(start, end);
+    return [
+      lexicalSign({
+        type: "schedule-sign",
+        rule: "hpsg.lex.schedule.event",
+        tokens,
+        synsem: {
+          head: { schedule: singleDose ? { event: [event], count: 1 } : { event: [event] } },
+          valence: {},
+          cont: { clauseKind: "administration" }
+        },
+        score: (clock ? EVENT_CLOCK_SCORE : EVENT_DATE_SCORE) + tokens.length
+      })
+    ];
+  });
+}
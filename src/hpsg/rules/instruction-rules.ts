@@ -22,6 +22,7 @@ import {
   rangeFromTokens
 } from "../rule-context";
 import { HpsgLexicalRule, lexicalSign } from "../signature";
+import { startsDispense } from "./dispense-rules";
 import { isScheduleLead } from "./timing-rules";
 
 const INSTRUCTION_PREDICATES = ["take", "apply", "use"] as const;
@@ -197,6 +198,12 @@ export function instructionLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
       if (bodyTokens.length && isScheduleLead(context, cursor)) {
         break;
       }
+      if (startsDispense(context, cursor)) {
+        if (!bodyTokens.length) {
+          return [];
+        }
+        break;
+      }
       bodyTokens.push(token);
     }
     if (!bodyTokens.length) {
@@ -0,0 +1,215 @@
+import { LexKind } from "../../lexer/token-types";
+import { Token } from "../../parser-state";
+import { FhirPeriodUnit } from "../../types";
+import { normalizeUnit } from "../../unit-lexicon";
+import { mapFrequencyAdverb, mapIntervalUnit } from "../timing-lexicon";
+import {
+  MAX_DOSE_ADMINISTRATION_TAILS,
+  MAX_DOSE_COUNT_NOUNS,
+  MAX_DOSE_LEAD_FILLERS,
+  MAX_DOSE_LEAD_PHRASES,
+  MAX_DOSE_LIFETIME_TAILS,
+  MAX_DOSE_PERIOD_FILLERS,
+  MAX_DOSE_PERIOD_SEPARATORS,
+  MAX_DOSE_PERIOD_TRAILERS
+} from "../lexical-classes";
+import {
+  HpsgClauseContext,
+  lexicalRule,
+  normalizeTokenLower,
+  tokensAvailable
+} from "../rule-context";
+import { HpsgLexicalRule, HpsgMaxDoseFeature, lexicalSign } from "../signature";
+
+const MAX_PHRASE_WORDS = 4;
+
+interface MaxDoseWindow {
+  period?: number;
+  periodUnit: FhirPeriodUnit;
+  tokens: Token[];
+}
+
+function phraseLengthAt(
+  context: HpsgClauseContext,
+  start: number,
+  phrases: ReadonlySet<string>
+): number {
+  for (let span = MAX_PHRASE_WORDS; span >= 1; span -= 1) {
+    const tokens = tokensAvailable(context, start, span);
+    if (tokens && phrases.has(tokens.map(normalizeTokenLower).join(" "))) {
+      return span;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Reads a window written as one word, e.g. `day`, `24h` or `24-hour`.
+ */
+function parseWindowText(lower: string): Omit<MaxDoseWindow, "tokens"> | undefined {
+  const match = lower.match(/^([0-9]+(?:\.[0-9]+)?)?-?([a-z]+)$/);
+  const periodUnit = match ? mapIntervalUnit(match[2]) : undefined;
+  if (!match || !periodUnit) {
+    return undefined;
+  }
+  const period = match[1] ? parseFloat(match[1]) : undefined;
+  return {
+    period: period !== undefined && period !== 1 ? period : undefined,
+    periodUnit
+  };
+}
+
+function windowAfter(context: HpsgClauseContext, start: number): MaxDoseWindow | undefined {
+  let cursor = start;
+  const tokens: Token[] = [];
+  const filler = tokensAvailable(context, cursor, 1)?.[0];
+  if (filler && MAX_DOSE_PERIOD_FILLERS.has(normalizeTokenLower(filler))) {
+    tokens.push(filler);
+    cursor += 1;
+  }
+  const head = tokensAvailable(context, cursor, 1)?.[0];
+  if (!head) {
+    return undefined;
+  }
+  let window: Omit<MaxDoseWindow, "tokens"> | undefined;
+  const unitToken = tokensAvailable(context, cursor + 1, 1)?.[0];
+  const unitWindow = unitToken ? parseWindowText(normalizeTokenLower(unitToken)) : undefined;
+  if (head.kind === LexKind.Number && head.value !== undefined && unitToken && unitWindow && unitWindow.period === undefined) {
+    window = {
+      period: head.value !== 1 ? head.value : undefined,
+      periodUnit: unitWindow.periodUnit
+    };
+    tokens.push(head, unitToken);
+    cursor += 2;
+  } else {
+    window = parseWindowText(normalizeTokenLower(head));
+    if (!window) {
+      return undefined;
+    }
+    tokens.push(head);
+    cursor += 1;
+  }
+  const trailer = tokensAvailable(context, cursor, 1)?.[0];
+  if (trailer && MAX_DOSE_PERIOD_TRAILERS.has(normalizeTokenLower(trailer))) {
+    tokens.push(trailer);
+  }
+  return { ...window, tokens };
+}
+
+/**
+ * Whether a max-dose lead phrase such as `max` or `do not exceed` starts at
+ * `start`, so free-text consumers like PRN reasons can stop before it.
+ */
+export function startsMaxDoseLimit(context: HpsgClauseContext, start: number): boolean {
+  return phraseLengthAt(context, start, MAX_DOSE_LEAD_PHRASES) > 0;
+}
+
+export function maxDoseLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
+  return lexicalRule("hpsg.lex.maxDose", (context, start) => {
+    const leadLength = phraseLengthAt(context, start, MAX_DOSE_LEAD_PHRASES);
+    if (!leadLength) {
+      return [];
+    }
+    let cursor = start + leadLength;
+    let adverbUnit: FhirPeriodUnit | undefined;
+    while (cursor < context.limit) {
+      const token = tokensAvailable(context, cursor, 1)?.[0];
+      const lower = token ? normalizeTokenLower(token) : "";
+      if (MAX_DOSE_LEAD_FILLERS.has(lower)) {
+        cursor += 1;
+        continue;
+      }
+      const adverb = adverbUnit ? undefined : mapFrequencyAdverb(lower);
+      if (adverb) {
+        adverbUnit = adverb;
+        cursor += 1;
+        continue;
+      }
+      break;
+    }
+
+    const amount = tokensAvailable(context, cursor, 1)?.[0];
+    if (!amount || amount.kind !== LexKind.Number || amount.value === undefined) {
+      return [];
+    }
+    const value = amount.value;
+    cursor += 1;
+
+    let unit: string | undefined;
+    let slashWindow: string | undefined;
+    const unitToken = tokensAvailable(context, cursor, 1)?.[0];
+    if (unitToken) {
+      const [unitText, ...rest] = normalizeTokenLower(unitToken).split("/");
+      const normalized = unitText ? normalizeUnit(unitText, context.options) : undefined;
+      if (normalized || MAX_DOSE_COUNT_NOUNS.has(unitText)) {
+        unit = normalized;
+        slashWindow = rest.length === 1 ? rest[0] : undefined;
+        if (rest.length > 1 || (rest.length === 1 && !slashWindow)) {
+          return [];
+        }
+        cursor += 1;
+      } else if (!unitText && rest.length === 1) {
+        slashWindow = rest[0];
+        cursor += 1;
+      }
+    }
+
+    const consumed = context.tokens.slice(start, cursor);
+    const quantity = { value, unit };
+    let maxDose: HpsgMaxDoseFeature | undefined;
+    if (slashWindow !== undefined) {
+      const window = parseWindowText(slashWindow);
+      if (!window) {
+        return [];
+      }
+      maxDose = { perPeriod: [{ ...quantity, ...window }] };
+    } else {
+      const administrationLength = phraseLengthAt(context, cursor, MAX_DOSE_ADMINISTRATION_TAILS);
+      const lifetimeLength = administrationLength
+        ? 0
+        : phraseLengthAt(context, cursor, MAX_DOSE_LIFETIME_TAILS);
+      const separatorLength = administrationLength || lifetimeLength
+        ? 0
+        : phraseLengthAt(context, cursor, MAX_DOSE_PERIOD_SEPARATORS);
+      const window = separatorLength ? windowAfter(context, cursor + separatorLength) : undefined;
+      const trailingAdverb = tokensAvailable(context, cursor, 1)?.[0];
+      const trailingAdverbUnit = trailingAdverb
+        ? mapFrequencyAdverb(normalizeTokenLower(trailingAdverb))
+        : undefined;
+      if (administrationLength) {
+        consumed.push(...context.tokens.slice(cursor, cursor + administrationLength));
+        maxDose = { perAdministration: quantity };
+      } else if (lifetimeLength) {
+        consumed.push(...context.tokens.slice(cursor, cursor + lifetimeLength));
+        maxDose = { perLifetime: quantity };
+      } else if (window) {
+        consumed.push(...context.tokens.slice(cursor, cursor + separatorLength), ...window.tokens);
+        maxDose = {
+          perPeriod: [{ ...quantity, period: window.period, periodUnit: window.periodUnit }]
+        };
+      } else if (trailingAdverb && trailingAdverbUnit) {
+        consumed.push(trailingAdverb);
+        maxDose = { perPeriod: [{ ...quantity, periodUnit: trailingAdverbUnit }] };
+      } else if (adverbUnit) {
+        maxDose = { perPeriod: [{ ...quantity, periodUnit: adverbUnit }] };
+      }
+    }
+    if (!maxDose) {
+      return [];
+    }
+
+    return [
+      lexicalSign({
+        type: "max-dose-sign",
+        rule: "hpsg.lex.maxDose",
+        tokens: consumed,
+        synsem: {
+          head: { maxDose },
+          valence: {},
+          cont: { clauseKind: "administration" }
+        },
+        score: 12 + consumed.length
+      })
+    ];
+  });
+}
@@ -47,7 +47,9 @@ import {
   tokensAvailable
 } from "../rule-context";
 import { HpsgLexicalRule, lexicalSign } from "../signature";
-import { isScheduleLead } from "./timing-rules";
+import { isScheduleLead, startsWhileAwake } from "./timing-rules";
+import { startsDispense } from "./dispense-rules";
+import { startsMaxDoseLimit } from "./max-dose-rules";
 import { productRouteHint } from "./product-route";
 
 function prnReasonBoundary(lower: string, context: HpsgClauseContext): boolean {
@@ -449,7 +451,13 @@ export function prnLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
       }
       if (
         !PRN_REASON_COORDINATORS.has(lower) &&
-        (prnReasonBoundary(lower, context) || (reasonTokens.length > 0 && isScheduleLead(context, cursor))) &&
+        (
+          prnReasonBoundary(lower, context) ||
+          startsMaxDoseLimit(context, cursor) ||
+          startsDispense(context, cursor) ||
+          (reasonTokens.length > 0 && startsWhileAwake(context, cursor)) ||
+          (reasonTokens.length > 0 && isScheduleLead(context, cursor))
+        ) &&
         !isKnownPrnReasonText(lower)
       ) {
         break;
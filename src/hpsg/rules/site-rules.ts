@@ -23,9 +23,14 @@ import {
 } from "../timing-lexicon";
 import {
   BODY_SITE_FEATURE_SCORE_BONUS,
+  CALENDAR_DAY_WORDS,
+  CALENDAR_MONTH_ARTICLES,
+  CALENDAR_MONTHLY_WORDS,
+  CALENDAR_ORDINALS,
   DURATION_LEAD_TOKENS,
   EXTERNAL_SITE_LOCATIVE_PREFIXES,
   EYE_SITE_ABBREVIATIONS,
+  MEAL_RELATION_BY_TOKEN,
   NON_OCULAR_DOSE_UNITS,
   NON_SITE_ANCHORED_PHRASES,
   OCULAR_ROUTE_CODES,
@@ -34,7 +39,8 @@ import {
   SITE_ANCHORS,
   SITE_DISPLAY_FILLERS,
   SITE_ROUTE_HINTS_ALLOWED_IN_GRAMMAR,
-  SITE_SELF_DISPLAY_ANCHORS
+  SITE_SELF_DISPLAY_ANCHORS,
+  TIMING_CYCLE_LIST_SEPARATORS
 } from "../lexical-classes";
 import { METHOD_ACTION_BY_VERB } from "../method-lexicon";
 import {
@@ -49,7 +55,10 @@ import {
   tokensAvailable
 } from "../rule-context";
 import { HpsgLexicalRule, HpsgSign, lexicalSign } from "../signature";
+import { startsEventDate } from "./event-rules";
 import { productRouteHint } from "./product-route";
+import { startsDispense } from "./dispense-rules";
+import { isScheduleLead } from "./timing-rules";
 
 function siteBoundary(lower: string, context: HpsgClauseContext): boolean {
   const siteLike = Boolean(resolveBodySitePhrase(lower, context.options?.siteCodeMap, {
@@ -80,6 +89,34 @@ function siteBoundary(lower: string, context: HpsgClauseContext): boolean {
   );
 }
 
+/**
+ * True for an ordinal that starts a calendar day rather than a site, as in
+ * `on the 1st`, `on the 1st and 15th`, or `on the 2nd Tuesday`; `on the 2nd
+ * toe` stays a site.
+ */
+function startsCalendarDay(context: HpsgClauseContext, index: number): boolean {
+  const token = context.tokens[index];
+  const lower = token ? normalizeTokenLower(token) : "";
+  if (!/^[0-9]+(?:st|nd|rd|th)$/.test(lower) && typeof CALENDAR_ORDINALS[lower] !== "number") {
+    return false;
+  }
+  const next = index + 1 < context.limit ? context.tokens[index + 1] : undefined;
+  if (!next) {
+    return true;
+  }
+  const nextLower = normalizeTokenLower(next);
+  return (
+    siteBoundary(nextLower, context) ||
+    isScheduleLead(context, index + 1) ||
+    MEAL_RELATION_BY_TOKEN.has(nextLower) ||
+    CALENDAR_DAY_WORDS.has(nextLower) ||
+    CALENDAR_MONTH_ARTICLES.has(nextLower) ||
+    CALENDAR_MONTHLY_WORDS.has(nextLower) ||
+    TIMING_CYCLE_LIST_SEPARATORS.has(nextLower) ||
+    Boolean(getDayOfWeekMeaning(next))
+  );
+}
+
 function trimBraceRange(
   input: string,
   range: { start: number; end: number } | undefined
@@ -213,7 +250,12 @@ export function siteLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
       if (candidate.kind === LexKind.Number) {
         break;
       }
-      if (getDayOfWeekMeaning(candidate)) {
+      if (
+        getDayOfWeekMeaning(candidate) ||
+        startsCalendarDay(context, cursor) ||
+        startsEventDate(context, cursor) ||
+        startsDispense(context, cursor)
+      ) {
         break;
       }
       if (siteBoundary(candidateLower, context)) {
@@ -0,0 +1,330 @@
+import { LexKind } from "../../lexer/token-types";
+import { Token } from "../../parser-state";
+import { CanonicalSlidingScaleTier, SlidingScaleComparator } from "../../types";
+import { normalizeUnit } from "../../unit-lexicon";
+import {
+  SLIDING_SCALE_COMPARATORS,
+  SLIDING_SCALE_CONDITION_LEADS,
+  SLIDING_SCALE_DOSE_CONNECTORS,
+  SLIDING_SCALE_HEAD_TRAILERS,
+  SLIDING_SCALE_HEADS,
+  SLIDING_SCALE_HOLD_PHRASES,
+  SLIDING_SCALE_LEAD_FILLERS,
+  SLIDING_SCALE_OBSERVATION_UNITS,
+  SLIDING_SCALE_OBSERVATIONS,
+  SLIDING_SCALE_RANGE_CONNECTORS,
+  SLIDING_SCALE_TIER_SEPARATORS
+} from "../lexical-classes";
+import {
+  HpsgClauseContext,
+  lexicalRule,
+  normalizeTokenLower,
+  tokensAvailable
+} from "../rule-context";
+import { HpsgLexicalRule, lexicalSign } from "../signature";
+
+const MAX_PHRASE_WORDS = 2;
+const NUMBER_PATTERN = /^[0-9]+(?:\.[0-9]+)?$/;
+
+interface TierCondition {
+  low?: number;
+  high?: number;
+  comparator?: SlidingScaleComparator;
+  end: number;
+}
+
+interface TierMatch {
+  tier: CanonicalSlidingScaleTier;
+  observation?: string;
+  observationUnit?: string;
+  end: number;
+}
+
+/**
+ * Lowercase token text without the `:` that often trails a row bound or the
+ * scale heading (`scale:`, `151-200:`).
+ */
+function bareLower(token: Token): string {
+  return normalizeTokenLower(token).replace(/:+$/, "");
+}
+
+function endsWithColon(token: Token): boolean {
+  return /:$/.test(token.lower);
+}
+
+function tokenAt(context: HpsgClauseContext, index: number): Token | undefined {
+  return tokensAvailable(context, index, 1)?.[0];
+}
+
+function numberAt(context: HpsgClauseContext, index: number): number | undefined {
+  const token = tokenAt(context, index);
+  if (!token) {
+    return undefined;
+  }
+  if (token.kind === LexKind.Number && token.value !== undefined) {
+    return token.value;
+  }
+  const lower = bareLower(token);
+  return NUMBER_PATTERN.test(lower) ? parseFloat(lower) : undefined;
+}
+
+function phraseAt<T>(
+  context: HpsgClauseContext,
+  start: number,
+  lookup: (phrase: string) => T | undefined
+): { value: T; length: number } | undefined {
+  for (let span = MAX_PHRASE_WORDS; span >= 1; span -= 1) {
+    const tokens = tokensAvailable(context, start, span);
+    if (!tokens) {
+      continue;
+    }
+    const value = lookup(tokens.map(bareLower).join(" "));
+    if (value !== undefined) {
+      return { value, length: span };
+    }
+  }
+  return undefined;
+}
+
+function inSet(values: ReadonlySet<string>): (phrase: string) => true | undefined {
+  return (phrase) => (values.has(phrase) ? true : undefined);
+}
+
+/**
+ * Returns the index after a scale heading such as `per sliding scale:` or
+ * `according to the correction scale below`, or `start` when none is present.
+ */
+function slidingScaleLeadEnd(context: HpsgClauseContext, start: number): number {
+  let cursor = start;
+  while (cursor < context.limit) {
+    const token = tokenAt(context, cursor);
+    if (!token || !SLIDING_SCALE_LEAD_FILLERS.has(bareLower(token))) {
+      break;
+    }
+    cursor += 1;
+  }
+  const head = phraseAt(context, cursor, inSet(SLIDING_SCALE_HEADS));
+  if (!head) {
+    return start;
+  }
+  cursor += head.length;
+  if (endsWithColon(context.tokens[cursor - 1])) {
+    return cursor;
+  }
+  while (cursor < context.limit) {
+    const token = tokenAt(context, cursor);
+    if (!token || !SLIDING_SCALE_HEAD_TRAILERS.has(bareLower(token))) {
+      break;
+    }
+    cursor += 1;
+    if (endsWithColon(token)) {
+      break;
+    }
+  }
+  const colon = tokenAt(context, cursor);
+  if (colon && colon.original === ":") {
+    cursor += 1;
+  }
+  return cursor;
+}
+
+/**
+ * Reads a row bound: `151-200`, `151 to 200`, `>300`, `> 300`, `over 300`,
+ * or `300+`.
+ */
+function conditionAt(context: HpsgClauseContext, start: number): TierCondition | undefined {
+  const token = tokenAt(context, start);
+  if (!token) {
+    return undefined;
+  }
+  const lower = bareLower(token);
+  if (token.kind === LexKind.NumberRange && token.low !== undefined && token.high !== undefined) {
+    return { low: token.low, high: token.high, end: start + 1 };
+  }
+  const compactRange = lower.match(/^([0-9]+(?:\.[0-9]+)?)[-–]([0-9]+(?:\.[0-9]+)?)$/);
+  if (compactRange) {
+    return { low: parseFloat(compactRange[1]), high: parseFloat(compactRange[2]), end: start + 1 };
+  }
+  const compactComparator = lower.match(/^(>=|<=|>|<|≥|≤)([0-9]+(?:\.[0-9]+)?)$/);
+  if (compactComparator) {
+    return boundFor(
+      SLIDING_SCALE_COMPARATORS.get(compactComparator[1]),
+      parseFloat(compactComparator[2]),
+      start + 1
+    );
+  }
+  const openEnded = lower.match(/^([0-9]+(?:\.[0-9]+)?)\+$/);
+  if (openEnded) {
+    return { low: parseFloat(openEnded[1]), comparator: ">=", end: start + 1 };
+  }
+  const comparator = phraseAt(context, start, (phrase) => SLIDING_SCALE_COMPARATORS.get(phrase));
+  if (comparator) {
+    const value = numberAt(context, start + comparator.length);
+    return value === undefined
+      ? undefined
+      : boundFor(comparator.value, value, start + comparator.length + 1);
+  }
+  const low = numberAt(context, start);
+  const connector = tokenAt(context, start + 1);
+  if (
+    low !== undefined &&
+    connector?.original === "+" &&
+    connector.sourceStart === token.sourceEnd
+  ) {
+    return { low, comparator: ">=", end: start + 2 };
+  }
+  const high = numberAt(context, start + 2);
+  if (
+    low !== undefined &&
+    high !== undefined &&
+    connector &&
+    !endsWithColon(token) &&
+    SLIDING_SCALE_RANGE_CONNECTORS.has(bareLower(connector))
+  ) {
+    return { low, high, end: start + 3 };
+  }
+  return undefined;
+}
+
+function boundFor(
+  comparator: SlidingScaleComparator | undefined,
+  value: number,
+  end: number
+): TierCondition | undefined {
+  if (!comparator) {
+    return undefined;
+  }
+  return comparator === ">" || comparator === ">="
+    ? { low: value, comparator, end }
+    : { high: value, comparator, end };
+}
+
+/**
+ * Reads one row: optional `if`/`when` and observation (`bg`), the bound,
+ * an optional bound unit (`mg/dL`), an optional connector (`:`, `give`), and
+ * the dose or a hold phrase.
+ */
+function tierAt(context: HpsgClauseContext, start: number): TierMatch | undefined {
+  let cursor = start;
+  const lead = tokenAt(context, cursor);
+  const hasConditionLead = Boolean(lead && SLIDING_SCALE_CONDITION_LEADS.has(bareLower(lead)));
+  if (hasConditionLead) {
+    cursor += 1;
+  }
+  const observation = phraseAt(context, cursor, (phrase) => SLIDING_SCALE_OBSERVATIONS.get(phrase));
+  if (observation) {
+    cursor += observation.length;
+  } else if (hasConditionLead) {
+    return undefined;
+  }
+  const condition = conditionAt(context, cursor);
+  if (!condition) {
+    return undefined;
+  }
+  cursor = condition.end;
+  let observationUnit: string | undefined;
+  const unitToken = tokenAt(context, cursor);
+  if (unitToken && !endsWithColon(context.tokens[cursor - 1])) {
+    observationUnit = SLIDING_SCALE_OBSERVATION_UNITS.get(bareLower(unitToken));
+    if (observationUnit) {
+      cursor += 1;
+    }
+  }
+  const connector = tokenAt(context, cursor);
+  if (connector && SLIDING_SCALE_DOSE_CONNECTORS.has(bareLower(connector) || connector.original)) {
+    cursor += 1;
+  }
+
+  let value: number | undefined;
+  let unit: string | undefined;
+  const hold = phraseAt(context, cursor, inSet(SLIDING_SCALE_HOLD_PHRASES));
+  if (hold) {
+    value = 0;
+    cursor += hold.length;
+  } else {
+    value = numberAt(context, cursor);
+    if (value === undefined) {
+      return undefined;
+    }
+    cursor += 1;
+    const doseUnitToken = tokenAt(context, cursor);
+    unit = doseUnitToken ? normalizeUnit(bareLower(doseUnitToken), context.options) : undefined;
+    if (unit) {
+      cursor += 1;
+    }
+  }
+  return {
+    tier: {
+      low: condition.low,
+      high: condition.high,
+      comparator: condition.comparator,
+      value,
+      unit
+    },
+    observation: observation?.value,
+    observationUnit,
+    end: cursor
+  };
+}
+
+function separatorLength(context: HpsgClauseContext, start: number): number {
+  const token = tokenAt(context, start);
+  return token && SLIDING_SCALE_TIER_SEPARATORS.has(token.original.toLowerCase()) ? 1 : 0;
+}
+
+/**
+ * Fills in the dose unit on rows that omit it (`151-200 2u, 201-250 4`) from
+ * the nearest row that states one.
+ */
+function shareTierUnits(tiers: CanonicalSlidingScaleTier[]): void {
+  let unit = tiers.find((tier) => tier.unit)?.unit;
+  for (const tier of tiers) {
+    if (tier.unit) {
+      unit = tier.unit;
+    } else if (unit) {
+      tier.unit = unit;
+    }
+  }
+}
+
+export function slidingScaleLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
+  return lexicalRule("hpsg.lex.slidingScale", (context, start) => {
+    const leadEnd = slidingScaleLeadEnd(context, start);
+    let cursor = leadEnd;
+    let observation: string | undefined;
+    let observationUnit: string | undefined;
+    const tiers: CanonicalSlidingScaleTier[] = [];
+    while (cursor < context.limit) {
+      const separator = tiers.length ? separatorLength(context, cursor) : 0;
+      const match = tierAt(context, cursor + separator);
+      if (!match) {
+        break;
+      }
+      observation = observation ?? match.observation;
+      observationUnit = observationUnit ?? match.observationUnit;
+      tiers.push(match.tier);
+      cursor = match.end;
+    }
+    // Without a heading, an observation word is what keeps `1-2 tabs` from
+    // reading as a one-row scale.
+    if (!tiers.length || (leadEnd === start && !observation)) {
+      return [];
+    }
+    shareTierUnits(tiers);
+
+    const consumed = context.tokens.slice(start, cursor);
+    return [
+      lexicalSign({
+        type: "sliding-scale-sign",
+        rule: "hpsg.lex.slidingScale",
+        tokens: consumed,
+        synsem: {
+          head: { slidingScale: { observation, observationUnit, tiers } },
+          valence: {},
+          cont: { clauseKind: "administration" }
+        },
+        score: 12 + consumed.length
+      })
+    ];
+  });
+}
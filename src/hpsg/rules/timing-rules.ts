@@ -7,7 +7,13 @@ import {
 import { getDayOfWeekMeaning, TokenWordClass } from "../../lexer/meaning";
 import { LexKind } from "../../lexer/token-types";
 import { Token } from "../../parser-state";
-import { EventTiming, FhirDayOfWeek, FhirPeriodUnit } from "../../types";
+import {
+  CanonicalScheduleCycle,
+  CanonicalWeekdayOfMonth,
+  EventTiming,
+  FhirDayOfWeek,
+  FhirPeriodUnit
+} from "../../types";
 import {
   EVERY_INTERVAL_TOKENS,
   COUNT_MARKER_TOKENS,
@@ -18,12 +24,20 @@ import {
   buildDurationScheduleFeature,
   buildPeriodScheduleFeature,
   mapFrequencyAdverb,
+  mapFrequencyPeriodLead,
   mapIntervalUnit,
   normalizePeriodRange,
   normalizePeriodValue,
   parseNumericRange
 } from "../timing-lexicon";
 import {
+  CALENDAR_DAY_WORDS,
+  CALENDAR_EXCLUSION_LEADS,
+  CALENDAR_LEADS,
+  CALENDAR_MONTH_ARTICLES,
+  CALENDAR_MONTH_WORDS,
+  CALENDAR_MONTHLY_WORDS,
+  CALENDAR_ORDINALS,
   CLOCK_LEAD_TOKENS,
   COMPACT_LIST_SEPARATORS,
   DAY_RANGE_CONNECTORS,
@@ -33,12 +47,22 @@ import {
   FIXED_EVENT_PHRASES,
   FOOD_EVENT_ALIASES,
   LIST_SEPARATORS,
+  MEAL_LIST_WORDS,
   MEAL_RELATION_BY_TOKEN,
   MEAL_TIMING_BY_RELATION,
   RANGE_CONNECTORS,
   SCHEDULE_UNIT_SEPARATOR_TOKENS,
   SLEEP_EVENT_ALIASES,
-  WAKE_EVENT_ALIASES
+  TIMING_CYCLE_ACTIVE_WORDS,
+  TIMING_CYCLE_DAY_LIST_LEADS,
+  TIMING_CYCLE_DAY_WORDS,
+  TIMING_CYCLE_LENGTH_FILLERS,
+  TIMING_CYCLE_LIST_SEPARATORS,
+  TIMING_CYCLE_NOUNS,
+  TIMING_CYCLE_PHASE_SEPARATORS,
+  TIMING_CYCLE_REST_WORDS,
+  WAKE_EVENT_ALIASES,
+  WHILE_AWAKE_PHRASES
 } from "../lexical-classes";
 import {
   HpsgClauseContext,
@@ -51,6 +75,7 @@ import {
   tokensAvailable
 } from "../rule-context";
 import { HpsgLexicalRule, HpsgSign, lexicalSign } from "../signature";
+import { startsEventDate } from "./event-rules";
 
 function timingCodeForDailyFrequency(value: number): string | undefined {
   switch (value) {
@@ -478,6 +503,84 @@ export function countFrequencyRule(): HpsgLexicalRule<HpsgClauseContext> {
   });
 }
 
+interface FrequencyCountMatch {
+  value: number;
+  max?: number;
+  end: number;
+}
+
+function frequencyCountAt(context: HpsgClauseContext, start: number): FrequencyCountMatch | undefined {
+  const token = tokensAvailable(context, start, 1)?.[0];
+  if (!token) {
+    return undefined;
+  }
+  const lower = normalizeTokenLower(token);
+  if (token.kind === LexKind.NumberRange && token.low !== undefined && token.high !== undefined) {
+    return { value: token.low, max: token.high, end: start + 1 };
+  }
+  const value = FREQUENCY_NUMBER_WORDS[lower] ?? (token.kind === LexKind.Number ? token.value : undefined);
+  if (value === undefined || value <= 0) {
+    return undefined;
+  }
+  const connector = tokensAvailable(context, start + 1, 2);
+  if (
+    connector &&
+    RANGE_CONNECTORS.has(normalizeTokenLower(connector[0])) &&
+    connector[1].kind === LexKind.Number &&
+    connector[1].value !== undefined &&
+    connector[1].value > value
+  ) {
+    return { value, max: connector[1].value, end: start + 3 };
+  }
+  return { value, end: start + 1 };
+}
+
+/**
+ * Counts written after their period, as Thai does: `วันละ 3 ครั้ง`,
+ * `วันละครั้ง`, `สัปดาห์ละ 2 ครั้ง`, `วันละ 1 ถึง 2 ครั้ง`.
+ */
+export function periodLeadFrequencyRule(): HpsgLexicalRule<HpsgClauseContext> {
+  return lexicalRule("hpsg.lex.schedule.periodLeadFrequency", (context, start) => {
+    const lead = tokensAvailable(context, start, 1)?.[0];
+    const periodUnit = lead ? mapFrequencyPeriodLead(normalizeTokenLower(lead)) : undefined;
+    if (!lead || !periodUnit) {
+      return [];
+    }
+    const count = frequencyCountAt(context, start + 1) ?? { value: 1, end: start + 1 };
+    const times = tokensAvailable(context, count.end, 1)?.[0];
+    if (!times || !FREQUENCY_TIMES_WORDS.has(normalizeTokenLower(times))) {
+      return [];
+    }
+    const normalizedPeriod = normalizePeriodValue(1, periodUnit);
+    return [
+      lexicalSign({
+        type: "schedule-sign",
+        rule: "hpsg.lex.schedule.periodLeadFrequency",
+        tokens: context.tokens.slice(start, count.end + 1),
+        synsem: {
+          head: {
+            schedule: {
+              frequency: count.value,
+              frequencyMax: count.max,
+              period: normalizedPeriod.value,
+              periodUnit: normalizedPeriod.unit,
+              timingCode:
+                count.max === undefined &&
+                normalizedPeriod.value === 1 &&
+                normalizedPeriod.unit === FhirPeriodUnit.Day
+                  ? timingCodeForDailyFrequency(count.value)
+                  : undefined
+            }
+          },
+          valence: {},
+          cont: { clauseKind: "administration" }
+        },
+        score: 12
+      })
+    ];
+  });
+}
+
 export function timingLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
   return lexicalRule("hpsg.lex.schedule.timing", (context, start) => {
     const token = tokensAvailable(context, start, 1)?.[0];
@@ -584,6 +687,76 @@ function mealRelationFromToken(lower: string): "before" | "after" | "with" | und
   return MEAL_RELATION_BY_TOKEN.get(lower);
 }
 
+function mealRelationFromTiming(when: EventTiming | undefined): "before" | "after" | "with" | undefined {
+  const relations: Array<"before" | "after" | "with"> = ["before", "after", "with"];
+  return when ? relations.find((relation) => mealTimingForRelation(relation, EventTiming.Meal) === when) : undefined;
+}
+
+/**
+ * Meals listed after the relation they share, as on Thai labels:
+ * `หลังอาหาร เช้า เย็น` is after breakfast and after dinner.
+ */
+function mealListSign(context: HpsgClauseContext, start: number): HpsgSign | undefined {
+  const first = tokensAvailable(context, start, 1)?.[0];
+  if (!first) {
+    return undefined;
+  }
+  const firstLower = normalizeTokenLower(first);
+  let relation = mealRelationFromTiming(EVENT_TIMING_TOKENS[firstLower]);
+  let cursor = start + 1;
+  if (!relation) {
+    const food = tokensAvailable(context, start + 1, 1)?.[0];
+    relation = food && FOOD_EVENT_ALIASES.has(normalizeTokenLower(food))
+      ? mealRelationFromToken(firstLower)
+      : undefined;
+    cursor = start + 2;
+  }
+  if (!relation) {
+    return undefined;
+  }
+  const when: EventTiming[] = [];
+  let end = cursor;
+  while (cursor < context.limit) {
+    const token = tokensAvailable(context, cursor, 1)?.[0];
+    if (!token) {
+      break;
+    }
+    const lower = normalizeTokenLower(token);
+    const meal = MEAL_LIST_WORDS.get(lower);
+    const combined = meal ? mealTimingForRelation(relation, meal) : undefined;
+    if (combined) {
+      if (when.indexOf(combined) === -1) {
+        when.push(combined);
+      }
+      cursor += 1;
+      end = cursor;
+      continue;
+    }
+    if (when.length && (LIST_SEPARATORS.has(lower) || DAY_RANGE_CONNECTORS.has(lower))) {
+      cursor += 1;
+      continue;
+    }
+    break;
+  }
+  if (!when.length) {
+    return undefined;
+  }
+  const tokens = context.tokens.slice(start, end);
+  return lexicalSign({
+    type: "schedule-sign",
+    rule: "hpsg.lex.schedule.eventPhrase.mealList",
+    tokens,
+    synsem: {
+      head: { schedule: { when } },
+      valence: {},
+      cont: { clauseKind: "administration" }
+    },
+    // Alone, `เช้า` and `เย็น` are morning and evening; the list has to
+    // outscore reading each word as its own event timing.
+    score: 8 * tokens.length
+  });
+}
+
 export function eventTimingPhraseRule(): HpsgLexicalRule<HpsgClauseContext> {
   return lexicalRule("hpsg.lex.schedule.eventPhrase", (context, start) => {
     const first = tokensAvailable(context, start, 1)?.[0];
@@ -715,6 +888,11 @@ export function eventTimingPhraseRule(): HpsgLexicalRule<HpsgClauseContext> {
       );
     }
 
+    const mealList = mealListSign(context, start);
+    if (mealList) {
+      signs.push(mealList);
+    }
+
     return signs;
   });
 }
@@ -831,6 +1009,517 @@ export function dayRangeLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
   });
 }
 
+/** Highest cycle day accepted in a day list; longer cycles are not clinical. */
+const MAX_CYCLE_DAY = 366;
+
+function cycleTokenAt(context: HpsgClauseContext, index: number): Token | undefined {
+  return tokensAvailable(context, index, 1)?.[0];
+}
+
+function cycleLowerAt(context: HpsgClauseContext, index: number): string {
+  const token = cycleTokenAt(context, index);
+  return token ? normalizeTokenLower(token) || token.original : "";
+}
+
+/** Converts a span such as `3 weeks` to days; other units are not cycle units. */
+function cycleSpanInDays(value: number, unitLower: string): number | undefined {
+  const unit = mapIntervalUnit(unitLower);
+  if (!Number.isInteger(value) || value <= 0) {
+    return undefined;
+  }
+  if (unit === FhirPeriodUnit.Day) {
+    return value;
+  }
+  return unit === FhirPeriodUnit.Week ? value * 7 : undefined;
+}
+
+function isCycleDay(value: number | undefined): value is number {
+  return value !== undefined && Number.isInteger(value) && value >= 1 && value <= MAX_CYCLE_DAY;
+}
+
+function addCycleDays(days: Set<number>, low: number | undefined, high: number | undefined): boolean {
+  if (!isCycleDay(low) || !isCycleDay(high) || high < low) {
+    return false;
+  }
+  for (let day = low; day <= high; day += 1) {
+    days.add(day);
+  }
+  return true;
+}
+
+/**
+ * Reads one day-list item at `index`: `1-14`, `8`, or `1 to 5`. Returns the
+ * index after the item, or undefined.
+ */
+function cycleDayItemAt(
+  context: HpsgClauseContext,
+  index: number,
+  days: Set<number>
+): number | undefined {
+  const token = cycleTokenAt(context, index);
+  if (!token) {
+    return undefined;
+  }
+  if (token.kind === LexKind.NumberRange) {
+    return addCycleDays(days, token.low, token.high) ? index + 1 : undefined;
+  }
+  if (token.kind !== LexKind.Number || !isCycleDay(token.value)) {
+    return undefined;
+  }
+  const connector = cycleLowerAt(context, index + 1);
+  const high = cycleTokenAt(context, index + 2);
+  if (
+    RANGE_CONNECTORS.has(connector) &&
+    high?.kind === LexKind.Number &&
+    addCycleDays(days, token.value, high.value)
+  ) {
+    return index + 3;
+  }
+  days.add(token.value);
+  return index + 1;
+}
+
+/** Continues a day list (`, 8, 15` or `and 8`) from `index`. */
+function cycleDayListTailAt(context: HpsgClauseContext, index: number, days: Set<number>): number {
+  let cursor = index;
+  while (TIMING_CYCLE_LIST_SEPARATORS.has(cycleLowerAt(context, cursor))) {
+    const next = cycleDayItemAt(context, cursor + 1, days);
+    if (next === undefined) {
+      break;
+    }
+    cursor = next;
+  }
+  return cursor;
+}
+
+/**
+ * Reads the active days of a cycle: `days 1-14`, `on days 1, 8, 15`, or the
+ * compact `d1-14`.
+ */
+function cycleDayListAt(
+  context: HpsgClauseContext,
+  start: number
+): { days: number[]; end: number; marked: boolean } | undefined {
+  let cursor = start;
+  const marked = TIMING_CYCLE_DAY_LIST_LEADS.has(cycleLowerAt(context, cursor));
+  if (marked) {
+    cursor += 1;
+  }
+  const days = new Set<number>();
+  const compact = cycleLowerAt(context, cursor).match(/^d([0-9]+)(?:-([0-9]+))?$/);
+  if (compact) {
+    const low = parseInt(compact[1], 10);
+    if (!addCycleDays(days, low, compact[2] ? parseInt(compact[2], 10) : low)) {
+      return undefined;
+    }
+    cursor += 1;
+  } else if (TIMING_CYCLE_DAY_WORDS.has(cycleLowerAt(context, cursor))) {
+    const next = cycleDayItemAt(context, cursor + 1, days);
+    if (next === undefined) {
+      return undefined;
+    }
+    cursor = next;
+  } else {
+    return undefined;
+  }
+  cursor = cycleDayListTailAt(context, cursor, days);
+  return {
+    days: Array.from(days).sort((left, right) => left - right),
+    end: cursor,
+    marked: marked || Boolean(compact)
+  };
+}
+
+/**
+ * Reads the cycle length after a day list: `q21d`, `every 28 days`,
+ * `of a 28-day cycle`, or `of each 21 day cycle`.
+ */
+function cycleLengthAt(
+  context: HpsgClauseContext,
+  start: number
+): { length: number; end: number } | undefined {
+  let cursor = start;
+  let named = false;
+  while (cursor < context.limit) {
+    const lower = cycleLowerAt(context, cursor);
+    const compact = lower.match(/^q([0-9]+)([a-z]+)$/);
+    if (compact) {
+      const length = cycleSpanInDays(parseInt(compact[1], 10), compact[2]);
+      return length ? { length, end: cursor + 1 } : undefined;
+    }
+    const value = cycleTokenAt(context, cursor + 1);
+    if (EVERY_INTERVAL_TOKENS.has(lower) && value?.kind === LexKind.Number && value.value !== undefined) {
+      const length = cycleSpanInDays(value.value, cycleLowerAt(context, cursor + 2));
+      return length ? { length, end: cursor + 3 } : undefined;
+    }
+    const hyphenated = lower.match(/^([0-9]+)-([a-z]+)$/);
+    const token = cycleTokenAt(context, cursor);
+    const spanEnd = hyphenated ? cursor + 1 : cursor + 2;
+    const length = hyphenated
+      ? cycleSpanInDays(parseInt(hyphenated[1], 10), hyphenated[2])
+      : token?.kind === LexKind.Number && token.value !== undefined
+        ? cycleSpanInDays(token.value, cycleLowerAt(context, cursor + 1))
+        : undefined;
+    if (length) {
+      // A bare `28 days` after a day list is only a cycle length when it is
+      // called one.
+      if (TIMING_CYCLE_NOUNS.has(cycleLowerAt(context, spanEnd))) {
+        return { length, end: spanEnd + 1 };
+      }
+      return named ? { length, end: spanEnd } : undefined;
+    }
+    if (TIMING_CYCLE_NOUNS.has(lower)) {
+      named = true;
+    } else if (!TIMING_CYCLE_LENGTH_FILLERS.has(lower)) {
+      return undefined;
+    }
+    cursor += 1;
+  }
+  return undefined;
+}
+
+/** Reads `21 days` or `for 21 days`, in days. */
+function cycleSpanAt(
+  context: HpsgClauseContext,
+  start: number,
+  defaultUnit?: string
+): { days: number; unit: string; end: number } | undefined {
+  const cursor = DURATION_LEAD_TOKENS.has(cycleLowerAt(context, start)) ? start + 1 : start;
+  const value = cycleTokenAt(context, cursor);
+  if (value?.kind !== LexKind.Number || value.value === undefined) {
+    return undefined;
+  }
+  const unit = cycleLowerAt(context, cursor + 1);
+  const days = cycleSpanInDays(value.value, unit);
+  if (days) {
+    return { days, unit, end: cursor + 2 };
+  }
+  const implied = defaultUnit ? cycleSpanInDays(value.value, defaultUnit) : undefined;
+  return implied ? { days: implied, unit: defaultUnit as string, end: cursor + 1 } : undefined;
+}
+
+/**
+ * Reads an on/off regimen: `21 days on, 7 days off`, `3 weeks on 1 week off`,
+ * or `on for 21 days, off for 7 days`.
+ */
+function cycleOnOffAt(
+  context: HpsgClauseContext,
+  start: number
+): { cycle: CanonicalScheduleCycle; end: number } | undefined {
+  let cursor = start;
+  const leadingOn = TIMING_CYCLE_ACTIVE_WORDS.has(cycleLowerAt(context, cursor));
+  const active = cycleSpanAt(context, leadingOn ? cursor + 1 : cursor);
+  if (!active) {
+    return undefined;
+  }
+  cursor = active.end;
+  if (!leadingOn) {
+    if (!TIMING_CYCLE_ACTIVE_WORDS.has(cycleLowerAt(context, cursor))) {
+      return undefined;
+    }
+    cursor += 1;
+  }
+  if (TIMING_CYCLE_PHASE_SEPARATORS.has(cycleLowerAt(context, cursor))) {
+    cursor += 1;
+  }
+  let rest: { days: number; end: number } | undefined;
+  if (leadingOn) {
+    if (!TIMING_CYCLE_REST_WORDS.has(cycleLowerAt(context, cursor))) {
+      return undefined;
+    }
+    rest = cycleSpanAt(context, cursor + 1, active.unit);
+  } else {
+    const span = cycleSpanAt(context, cursor, active.unit);
+    rest = span && TIMING_CYCLE_REST_WORDS.has(cycleLowerAt(context, span.end))
+      ? { days: span.days, end: span.end + 1 }
+      : undefined;
+  }
+  if (!rest) {
+    return undefined;
+  }
+  const activeDays: number[] = [];
+  for (let day = 1; day <= active.days; day += 1) {
+    activeDays.push(day);
+  }
+  return { cycle: { length: active.days + rest.days, activeDays }, end: rest.end };
+}
+
+export function cycleLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
+  return lexicalRule("hpsg.lex.schedule.cycle", (context, start) => {
+    let match = cycleOnOffAt(context, start);
+    let rule = "hpsg.lex.schedule.cycle.onOff";
+    if (!match) {
+      const dayList = cycleDayListAt(context, start);
+      if (!dayList) {
+        return [];
+      }
+      const length = cycleLengthAt(context, dayList.end);
+      const lastDay = dayList.days[dayList.days.length - 1];
+      // Without a cycle length, `days 2` could be the tail of `for 5 days`;
+      // only an explicit `on days ...` or `d1-14` stands alone. `day 15 of
+      // each month` is a calendar day rather than a cycle.
+      if (
+        (!length && (!dayList.marked || calendarMonthTailAt(context, dayList.end) !== undefined)) ||
+        (length && lastDay > length.length)
+      ) {
+        return [];
+      }
+      match = {
+        cycle: length ? { length: length.length, activeDays: dayList.days } : { activeDays: dayList.days },
+        end: length?.end ?? dayList.end
+      };
+      rule = "hpsg.lex.schedule.cycle.dayList";
+    }
+    const tokens = context.tokens.slice(start, match.end);
+    return [
+      lexicalSign({
+        type: "schedule-sign",
+        rule,
+        tokens,
+        synsem: {
+          head: { schedule: { cycle: match.cycle } },
+          valence: {},
+          cont: { clauseKind: "administration" }
+        },
+        score: 12 + tokens.length
+      })
+    ];
+  });
+}
+
+/** Days of a month run to 31; -1 stands for the last one. */
+const MAX_DAY_OF_MONTH = 31;
+const MAX_WEEKDAY_OF_MONTH = 5;
+
+function calendarOrdinalAt(context: HpsgClauseContext, index: number): number | undefined {
+  const lower = cycleLowerAt(context, index);
+  const numeric = lower.match(/^([0-9]+)(?:st|nd|rd|th)$/);
+  if (numeric) {
+    return parseInt(numeric[1], 10);
+  }
+  const word = CALENDAR_ORDINALS[lower];
+  return typeof word === "number" ? word : undefined;
+}
+
+/** Reads `1st`, `1st and 15th`, or `first & third`. */
+function calendarOrdinalListAt(
+  context: HpsgClauseContext,
+  start: number
+): { values: number[]; end: number } | undefined {
+  const first = calendarOrdinalAt(context, start);
+  if (first === undefined) {
+    return undefined;
+  }
+  const values = [first];
+  let cursor = start + 1;
+  while (TIMING_CYCLE_LIST_SEPARATORS.has(cycleLowerAt(context, cursor))) {
+    const next = calendarOrdinalAt(context, cursor + 1);
+    if (next === undefined) {
+      break;
+    }
+    values.push(next);
+    cursor += 2;
+  }
+  return { values, end: cursor };
+}
+
+/** Returns the index after `of every month`, `each month`, or `monthly`. */
+function calendarMonthTailAt(context: HpsgClauseContext, start: number): number | undefined {
+  if (CALENDAR_MONTHLY_WORDS.has(cycleLowerAt(context, start))) {
+    return start + 1;
+  }
+  let cursor = start;
+  while (CALENDAR_MONTH_ARTICLES.has(cycleLowerAt(context, cursor))) {
+    cursor += 1;
+  }
+  return cursor > start && CALENDAR_MONTH_WORDS.has(cycleLowerAt(context, cursor))
+    ? cursor + 1
+    : undefined;
+}
+
+function isOrdinalInRange(value: number, max: number): boolean {
+  return value === -1 || (value >= 1 && value <= max);
+}
+
+interface CalendarDayMatch {
+  schedule: { dayOfMonth?: number[]; weekdayOfMonth?: CanonicalWeekdayOfMonth[] };
+  rule: string;
+  end: number;
+}
+
+/**
+ * Reads `on the 1st of every month`, `on the 1st and 15th`, `day 15 of each
+ * month`, `every 2nd Tuesday`, or `last Friday of the month`.
+ */
+function calendarDayAt(context: HpsgClauseContext, start: number): CalendarDayMatch | undefined {
+  let cursor = start;
+  let ledByOn = false;
+  while (CALENDAR_LEADS.has(cycleLowerAt(context, cursor))) {
+    ledByOn = ledByOn || TIMING_CYCLE_DAY_LIST_LEADS.has(cycleLowerAt(context, cursor));
+    cursor += 1;
+  }
+  let ordinals = calendarOrdinalListAt(context, cursor);
+  let dayWordFirst = false;
+  if (!ordinals && CALENDAR_DAY_WORDS.has(cycleLowerAt(context, cursor))) {
+    const value = cycleTokenAt(context, cursor + 1);
+    if (value?.kind === LexKind.Number && value.value !== undefined) {
+      ordinals = { values: [value.value], end: cursor + 2 };
+      dayWordFirst = true;
+    }
+  }
+  if (!ordinals) {
+    return undefined;
+  }
+  cursor = ordinals.end;
+  const weekday = dayWordFirst ? undefined : getDayOfWeekMeaning(cycleTokenAt(context, cursor));
+  if (weekday?.length === 1) {
+    if (!ordinals.values.every((value) => isOrdinalInRange(value, MAX_WEEKDAY_OF_MONTH))) {
+      return undefined;
+    }
+    return {
+      schedule: {
+        weekdayOfMonth: ordinals.values.map((ordinal) => ({ ordinal, day: weekday[0] }))
+      },
+      rule: "hpsg.lex.schedule.weekdayOfMonth",
+      end: calendarMonthTailAt(context, cursor + 1) ?? cursor + 1
+    };
+  }
+  if (!dayWordFirst && CALENDAR_DAY_WORDS.has(cycleLowerAt(context, cursor))) {
+    cursor += 1;
+  }
+  const tail = calendarMonthTailAt(context, cursor);
+  // Without `of the month`, only `on the 15th` reads as a calendar day;
+  // `every 2nd day` is an interval.
+  if (tail === undefined && (!ledByOn || cursor !== ordinals.end || dayWordFirst)) {
+    return undefined;
+  }
+  if (
+    !ordinals.values.every((value) => isOrdinalInRange(value, MAX_DAY_OF_MONTH)) ||
+    (tail === undefined && ordinals.values.indexOf(-1) !== -1)
+  ) {
+    return undefined;
+  }
+  return {
+    schedule: { dayOfMonth: ordinals.values },
+    rule: "hpsg.lex.schedule.dayOfMonth",
+    end: tail ?? cursor
+  };
+}
+
+export function calendarDayLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
+  return lexicalRule("hpsg.lex.schedule.calendarDay", (context, start) => {
+    const match = calendarDayAt(context, start);
+    if (!match) {
+      return [];
+    }
+    const tokens = context.tokens.slice(start, match.end);
+    return [
+      lexicalSign({
+        type: "schedule-sign",
+        rule: match.rule,
+        tokens,
+        synsem: {
+          head: { schedule: match.schedule },
+          valence: {},
+          cont: { clauseKind: "administration" }
+        },
+        score: 12 + tokens.length
+      })
+    ];
+  });
+}
+
+/** Weekday exclusions: `except Wednesday`, `not on weekends`, `excluding Sat and Sun`. */
+export function dayExclusionLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
+  return lexicalRule("hpsg.lex.schedule.dayExclusion", (context, start) => {
+    let cursor = start;
+    for (let span = 3; span >= 1; span -= 1) {
+      const phrase = (tokensAvailable(context, start, span) ?? []).map(normalizeTokenLower).join(" ");
+      if (phrase && CALENDAR_EXCLUSION_LEADS.has(phrase)) {
+        cursor = start + span;
+        break;
+      }
+    }
+    if (cursor === start) {
+      return [];
+    }
+    const excluded: FhirDayOfWeek[] = [];
+    while (cursor < context.limit) {
+      const days = getDayOfWeekMeaning(cycleTokenAt(context, cursor));
+      if (!days?.length) {
+        break;
+      }
+      excluded.push(...days);
+      cursor += 1;
+      const separator = cycleLowerAt(context, cursor);
+      if (
+        (LIST_SEPARATORS.has(separator) || TIMING_CYCLE_LIST_SEPARATORS.has(separator)) &&
+        getDayOfWeekMeaning(cycleTokenAt(context, cursor + 1))?.length
+      ) {
+        cursor += 1;
+      }
+    }
+    if (!excluded.length) {
+      return [];
+    }
+    const tokens = context.tokens.slice(start, cursor);
+    return [
+      lexicalSign({
+        type: "schedule-sign",
+        rule: "hpsg.lex.schedule.dayExclusion",
+        tokens,
+        synsem: {
+          head: { schedule: { excludedDayOfWeek: excluded } },
+          valence: {},
+          cont: { clauseKind: "administration" }
+        },
+        score: 10 + tokens.length
+      })
+    ];
+  });
+}
+
+/** `while awake`, `during the day`, `except overnight`: keeps doses to waking hours. */
+function matchWhileAwake(context: HpsgClauseContext, start: number): Token[] | undefined {
+  for (let span = 3; span >= 1; span -= 1) {
+    const tokens = tokensAvailable(context, start, span);
+    if (tokens && WHILE_AWAKE_PHRASES.has(tokens.map(normalizeTokenLower).join(" "))) {
+      return tokens;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether a `while awake` qualifier starts at `start`, so PRN reasons stop
+ * before it instead of reading `pain while awake` as the reason.
+ */
+export function startsWhileAwake(context: HpsgClauseContext, start: number): boolean {
+  return Boolean(matchWhileAwake(context, start));
+}
+
+export function whileAwakeLexicalRule(): HpsgLexicalRule<HpsgClauseContext> {
+  return lexicalRule("hpsg.lex.schedule.whileAwake", (context, start) => {
+    const tokens = matchWhileAwake(context, start);
+    if (!tokens) {
+      return [];
+    }
+    return [
+      lexicalSign({
+        type: "schedule-sign",
+        rule: "hpsg.lex.schedule.whileAwake",
+        tokens,
+        synsem: {
+          head: { schedule: { whileAwake: true } },
+          valence: {},
+          cont: { clauseKind: "administration" }
+        },
+        score: 12 + tokens.length
+      })
+    ];
+  });
+}
+
 export function countAndDurationRule(): HpsgLexicalRule<HpsgClauseContext> {
   return lexicalRule("hpsg.lex.schedule.limit", (context, start) => {
     const token = tokensAvailable(context, start, 1)?.[0];
@@ -1050,9 +1739,12 @@ export function isScheduleLead(context: HpsgClauseContext, index: number): boole
     FREQUENCY_SIMPLE_WORDS[lower] !== undefined ||
     FREQUENCY_NUMBER_WORDS[lower] !== undefined ||
     mapFrequencyAdverb(lower) ||
+    mapFrequencyPeriodLead(lower) ||
     mapIntervalUnit(lower) ||
     getDayOfWeekMeaning(token) ||
-    isClockLikeLower(lower)
+    isClockLikeLower(lower) ||
+    calendarDayAt(context, index) ||
+    startsEventDate(context, index)
   ) {
     return true;
   }
@@ -1,19 +1,34 @@
 import { lexInput } from "../lexer/lex";
 import { annotateLexTokens } from "../lexer/meaning";
+import { LexKind } from "../lexer/token-types";
 import { Token } from "../parser-state";
 import { parseAdditionalInstructions } from "../advice";
 import { AdviceForce } from "../types";
 import {
   CLAUSE_LEAD_WORDS,
+  DISPENSE_REFILL_LEADS,
+  EVENT_MONTH_NAMES,
   HARD_SEGMENT_BOUNDARY_TOKENS,
   LATERAL_MODIFIER_WORDS,
-  MERIDIEM_TOKENS
+  MERIDIEM_TOKENS,
+  SEQUENTIAL_SEGMENT_CONNECTORS,
+  SLIDING_SCALE_COMPARATORS,
+  SLIDING_SCALE_CONDITION_LEADS,
+  SLIDING_SCALE_HEADS,
+  SLIDING_SCALE_OBSERVATIONS,
+  TIMING_CYCLE_DAY_WORDS,
+  TIMING_CYCLE_LIST_SEPARATORS,
+  TIMING_CYCLE_PHASE_SEPARATORS,
+  TIMING_CYCLE_REST_WORDS
 } from "./lexical-classes";
+import { mapIntervalUnit } from "./timing-lexicon";
 
 export interface HpsgSigSegment {
   text: string;
   start: number;
   end: number;
+  /** Set when the segment opens a new phase after a connector such as `then`. */
+  sequential?: boolean;
 }
 
 function isBoundaryToken(token: Token): boolean {
@@ -66,6 +81,10 @@ function isCommaClauseBoundary(input: string, tokens: Token[], index: number): b
   ) {
     return false;
   }
+  // `, 2 refills` belongs to the order, not a new dose.
+  if (/^\d/.test(lower) && following && DISPENSE_REFILL_LEADS.has(following.replace(/:$/, ""))) {
+    return false;
+  }
   if (/^\d/.test(lower)) {
     return true;
   }
@@ -99,11 +118,161 @@ function isSlashClauseBoundary(tokens: Token[], index: number): boolean {
   return /^\d/.test(lower) || CLAUSE_LEAD_WORDS.has(lower);
 }
 
+/**
+ * Returns how many tokens form a sequential connector (`then`, `followed by`,
+ * `แล้ว`) at `index`, or 0. The connector only splits when both sides carry an
+ * amount, so `shake well then instill 1 drop` and `leave on for 10 minutes then
+ * rinse` stay single clauses.
+ */
+function sequentialConnectorLength(tokens: Token[], index: number, segmentStart: number): number {
+  const hasPriorAmount = tokens
+    .slice(0, index)
+    .some((token) => token.sourceStart >= segmentStart && token.kind === LexKind.Number);
+  if (!hasPriorAmount) {
+    return 0;
+  }
+  for (let span = 2; span >= 1; span -= 1) {
+    const words = tokens.slice(index, index + span);
+    if (words.length !== span) {
+      continue;
+    }
+    const phrase = words.map((token) => token.lower.replace(/[.,;:]/g, "")).join(" ");
+    if (!SEQUENTIAL_SEGMENT_CONNECTORS.has(phrase)) {
+      continue;
+    }
+    const next = tokens[index + span];
+    const lower = next?.lower.replace(/[.,;:]/g, "") ?? "";
+    if (!/^\d/.test(lower) && !CLAUSE_LEAD_WORDS.has(lower)) {
+      continue;
+    }
+    for (let cursor = index + span; cursor < tokens.length; cursor += 1) {
+      const token = tokens[cursor];
+      if (/^[,;]$/.test(token.original) || isBoundaryToken(token)) {
+        break;
+      }
+      if (token.kind === LexKind.Number) {
+        return span;
+      }
+    }
+  }
+  return 0;
+}
+
+function scaleWordAt(tokens: Token[], index: number): string {
+  return tokens[index]?.lower.replace(/[.,;:]+$/g, "") ?? "";
+}
+
+function startsSlidingScaleTier(tokens: Token[], index: number): boolean {
+  const lower = scaleWordAt(tokens, index);
+  return (
+    /^(?:[<>≤≥]=?)?[0-9]/.test(lower) ||
+    SLIDING_SCALE_COMPARATORS.has(lower) ||
+    SLIDING_SCALE_OBSERVATIONS.has(lower) ||
+    SLIDING_SCALE_CONDITION_LEADS.has(lower)
+  );
+}
+
+/** `250+` written as an open-ended sliding-scale bound rather than a boundary. */
+function isOpenEndedBoundMarker(tokens: Token[], index: number): boolean {
+  const token = tokens[index];
+  const previous = tokens[index - 1];
+  return (
+    token?.original === "+" &&
+    previous?.kind === LexKind.Number &&
+    previous.sourceEnd === token.sourceStart
+  );
+}
+
+/**
+ * Whether a sliding-scale table opens at `index`, either with a heading
+ * (`sliding scale`) or an observation followed by a row bound (`bg >300`).
+ */
+function opensSlidingScale(tokens: Token[], index: number): boolean {
+  const lower = scaleWordAt(tokens, index);
+  const pair = `${lower} ${scaleWordAt(tokens, index + 1)}`;
+  if (SLIDING_SCALE_HEADS.has(lower) || SLIDING_SCALE_HEADS.has(pair)) {
+    return true;
+  }
+  if (SLIDING_SCALE_OBSERVATIONS.has(pair)) {
+    return /^(?:[<>≤≥]=?)?[0-9]/.test(scaleWordAt(tokens, index + 2));
+  }
+  return (
+    SLIDING_SCALE_OBSERVATIONS.has(lower) &&
+    (/^(?:[<>≤≥]=?)?[0-9]/.test(scaleWordAt(tokens, index + 1)) ||
+      SLIDING_SCALE_COMPARATORS.has(scaleWordAt(tokens, index + 1)))
+  );
+}
+
+function isCycleDayLead(lower: string): boolean {
+  return TIMING_CYCLE_DAY_WORDS.has(lower) || /^d[0-9]+(?:-[0-9]+)?$/.test(lower);
+}
+
+/** Whether the separator at `index` joins calendar days, as in `on the 1st, 15th`. */
+function continuesCalendarDays(tokens: Token[], index: number): boolean {
+  return (
+    TIMING_CYCLE_LIST_SEPARATORS.has(tokens[index]?.original ?? "") &&
+    tokens[index - 1]?.kind === LexKind.Ordinal &&
+    tokens[index + 1]?.kind === LexKind.Ordinal
+  );
+}
+
+/** Whether the comma at `index` sits inside a written date, as in `Nov 2, 2026`. */
+function continuesEventDate(tokens: Token[], index: number): boolean {
+  const year = tokens[index + 1];
+  return (
+    tokens[index]?.original === "," &&
+    tokens[index - 1]?.kind === LexKind.Number &&
+    typeof EVENT_MONTH_NAMES[scaleWordAt(tokens, index - 2)] === "number" &&
+    year?.kind === LexKind.Number &&
+    year.value !== undefined &&
+    year.value >= 1000
+  );
+}
+
+/**
+ * Whether the separator at `index` sits inside a treatment cycle: between the
+ * spans of `21 days on, 7 days off` or inside the day list `days 1, 8, 15`.
+ */
+function continuesTimingCycle(tokens: Token[], index: number): boolean {
+  const lower = scaleWordAt(tokens, index) || tokens[index]?.original || "";
+  if (TIMING_CYCLE_PHASE_SEPARATORS.has(lower)) {
+    if (
+      tokens[index + 1]?.kind === LexKind.Number &&
+      mapIntervalUnit(scaleWordAt(tokens, index + 2)) &&
+      TIMING_CYCLE_REST_WORDS.has(scaleWordAt(tokens, index + 3))
+    ) {
+      return true;
+    }
+  }
+  if (!TIMING_CYCLE_LIST_SEPARATORS.has(lower) || tokens[index + 1]?.kind !== LexKind.Number) {
+    return false;
+  }
+  if (isCycleDayLead(scaleWordAt(tokens, index - 1))) {
+    return true;
+  }
+  let cursor = index - 1;
+  while (cursor >= 0) {
+    const token = tokens[cursor];
+    const word = scaleWordAt(tokens, cursor) || token.original;
+    if (token.kind === LexKind.Number || token.kind === LexKind.NumberRange) {
+      cursor -= 1;
+      continue;
+    }
+    if (cursor < index - 1 && TIMING_CYCLE_LIST_SEPARATORS.has(word)) {
+      cursor -= 1;
+      continue;
+    }
+    return cursor < index - 1 && isCycleDayLead(word);
+  }
+  return false;
+}
+
 function pushSegment(
   segments: HpsgSigSegment[],
   input: string,
   start: number,
-  end: number
+  end: number,
+  sequential = false
 ): void {
   let trimmedStart = start;
   let trimmedEnd = end;
@@ -119,7 +288,8 @@ function pushSegment(
   segments.push({
     text: input.slice(trimmedStart, trimmedEnd),
     start: trimmedStart,
-    end: trimmedEnd
+    end: trimmedEnd,
+    ...(sequential ? { sequential } : {})
   });
 }
 
@@ -127,6 +297,8 @@ export function parseSigSegments(input: string): HpsgSigSegment[] {
   const tokens = annotateLexTokens(lexInput(input));
   const segments: HpsgSigSegment[] = [];
   let start = 0;
+  let sequential = false;
+  let slidingScale = false;
   let parenDepth = 0;
   let scannedOffset = 0;
 
@@ -158,6 +330,38 @@ export function parseSigSegments(input: string): HpsgSigSegment[] {
       scannedOffset = token.sourceEnd;
       continue;
     }
+    if (!slidingScale && opensSlidingScale(tokens, index)) {
+      slidingScale = true;
+    }
+    // Rows of a sliding scale are comma-separated but belong to one clause.
+    if (
+      slidingScale &&
+      (!isBoundaryToken(token) || isOpenEndedBoundMarker(tokens, index)) &&
+      startsSlidingScaleTier(tokens, index + 1)
+    ) {
+      scannedOffset = token.sourceEnd;
+      continue;
+    }
+    if (
+      continuesTimingCycle(tokens, index) ||
+      continuesCalendarDays(tokens, index) ||
+      continuesEventDate(tokens, index)
+    ) {
+      scannedOffset = token.sourceEnd;
+      continue;
+    }
+    const connectorLength = sequentialConnectorLength(tokens, index, start);
+    if (connectorLength) {
+      const previous = tokens[index - 1];
+      const end = previous && /^[,;]$/.test(previous.original) ? previous.sourceStart : token.sourceStart;
+      pushSegment(segments, input, start, end, sequential);
+      index += connectorLength - 1;
+      start = tokens[index].sourceEnd;
+      scannedOffset = start;
+      sequential = true;
+      slidingScale = false;
+      continue;
+    }
     const isBoundary =
       isBoundaryToken(token) ||
       isCommaClauseBoundary(input, tokens, index) ||
@@ -166,12 +370,14 @@ export function parseSigSegments(input: string): HpsgSigSegment[] {
       scannedOffset = token.sourceEnd;
       continue;
     }
-    pushSegment(segments, input, start, token.sourceStart);
+    pushSegment(segments, input, start, token.sourceStart, sequential);
+    sequential = false;
+    slidingScale = false;
     start = token.sourceEnd;
     scannedOffset = token.sourceEnd;
   }
 
-  pushSegment(segments, input, start, input.length);
+  pushSegment(segments, input, start, input.length, sequential);
   if (segments.length) {
     return segments;
   }
@@ -1,7 +1,14 @@
 import {
   CanonicalDoseRange,
   CanonicalAdditionalInstructionExpr,
+  CanonicalEventAnchor,
+  CanonicalMaxDosePerPeriod,
+  CanonicalMaxDoseQuantity,
+  CanonicalScheduleCycle,
+  CanonicalSlidingScaleTier,
+  CanonicalWeekdayOfMonth,
   BodySiteSpatialRelation,
+  DoseBasisUnit,
   EventTiming,
   FhirCoding,
   FhirDayOfWeek,
@@ -22,6 +29,10 @@ export type HpsgType =
   | "route-sign"
   | "site-sign"
   | "dose-sign"
+  | "rate-sign"
+  | "max-dose-sign"
+  | "dispense-sign"
+  | "sliding-scale-sign"
   | "schedule-sign"
   | "prn-sign"
   | "instruction-sign"
@@ -73,6 +84,36 @@ export interface HpsgDoseFeature {
   value?: number;
   range?: CanonicalDoseRange;
   unit?: string;
+  basisUnit?: DoseBasisUnit;
+}
+
+export interface HpsgRateFeature {
+  value?: number;
+  range?: CanonicalDoseRange;
+  unit?: string;
+  perWeightUnit?: string;
+  period?: number;
+  periodUnit: FhirPeriodUnit;
+}
+
+export interface HpsgMaxDoseFeature {
+  perPeriod?: CanonicalMaxDosePerPeriod[];
+  perAdministration?: CanonicalMaxDoseQuantity;
+  perLifetime?: CanonicalMaxDoseQuantity;
+}
+
+/** Dispensing details kept apart from the Dosage, e.g. `#30` or `refills x2`. */
+export interface HpsgDispenseFeature {
+  quantity?: { value: number; unit?: string };
+  refills?: number;
+  daysSupply?: number;
+  substitution?: { allowed: boolean; dawCode?: number };
+}
+
+export interface HpsgSlidingScaleFeature {
+  observation?: string;
+  observationUnit?: string;
+  tiers: CanonicalSlidingScaleTier[];
 }
 
 export interface HpsgScheduleFeature {
@@ -89,6 +130,14 @@ export interface HpsgScheduleFeature {
   when?: EventTiming[];
   dayOfWeek?: FhirDayOfWeek[];
   timeOfDay?: string[];
+  dayOfMonth?: number[];
+  weekdayOfMonth?: CanonicalWeekdayOfMonth[];
+  /** Weekdays removed by `except ...`, applied once the clause is projected. */
+  excludedDayOfWeek?: FhirDayOfWeek[];
+  cycle?: CanonicalScheduleCycle;
+  whileAwake?: boolean;
+  event?: string[];
+  anchor?: CanonicalEventAnchor;
 }
 
 export interface HpsgSynsem {
@@ -96,6 +145,10 @@ export interface HpsgSynsem {
     method?: HpsgMethodFeature;
     route?: HpsgRouteFeature;
     dose?: HpsgDoseFeature;
+    rate?: HpsgRateFeature;
+    maxDose?: HpsgMaxDoseFeature;
+    dispense?: HpsgDispenseFeature;
+    slidingScale?: HpsgSlidingScaleFeature;
     schedule?: HpsgScheduleFeature;
   };
   valence: {
@@ -8,9 +8,11 @@ import {
   FREQUENCY_ADVERB_UNITS_DATA,
   FREQUENCY_CONNECTOR_WORDS_DATA,
   FREQUENCY_NUMBER_WORDS_DATA,
+  FREQUENCY_PERIOD_LEADS_DATA,
   FREQUENCY_SIMPLE_WORDS_DATA,
   FREQUENCY_TIMES_WORDS_DATA,
-  INTERVAL_UNIT_TOKENS_DATA
+  INTERVAL_UNIT_TOKENS_DATA,
+  RATE_PERIOD_UNITS
 } from "./lexical-classes";
 import { HpsgScheduleFeature } from "./signature";
 
@@ -38,6 +40,12 @@ const INTERVAL_UNITS = new Map<string, FhirPeriodUnit>(
     .filter((entry): entry is readonly [string, FhirPeriodUnit] => Boolean(entry[1]))
 );
 
+const FREQUENCY_PERIOD_LEADS = new Map<string, FhirPeriodUnit>(
+  Array.from(FREQUENCY_PERIOD_LEADS_DATA.entries())
+    .map(([token, label]) => [token, mapPeriodUnitLabel(label)] as const)
+    .filter((entry): entry is readonly [string, FhirPeriodUnit] => Boolean(entry[1]))
+);
+
 export function normalizePeriodValue(value: number, unit: FhirPeriodUnit): {
   value: number;
   unit: FhirPeriodUnit;
@@ -179,10 +187,20 @@ export function mapIntervalUnit(token: string):
     : undefined;
 }
 
+export function mapRatePeriodUnit(token: string): FhirPeriodUnit | undefined {
+  const label = INTERVAL_UNIT_TOKENS_DATA.get(token);
+  return label && RATE_PERIOD_UNITS.has(label) ? mapPeriodUnitLabel(label) : undefined;
+}
+
 export function mapFrequencyAdverb(token: string): FhirPeriodUnit | undefined {
   return FREQUENCY_ADVERB_UNITS.get(token);
 }
 
+/** Period named by a lead that precedes the count, as in Thai `วันละ 3 ครั้ง`. */
+export function mapFrequencyPeriodLead(token: string): FhirPeriodUnit | undefined {
+  return FREQUENCY_PERIOD_LEADS.get(token);
+}
+
 export function parseNumericRange(
   token: string
 ): { low: number; high: number } | undefined {
@@ -1,5 +1,8 @@
 import {
   HpsgDoseFeature,
+  HpsgMaxDoseFeature,
+  HpsgDispenseFeature,
+  HpsgRateFeature,
   HpsgMethodFeature,
   HpsgRouteFeature,
   HpsgScheduleFeature,
@@ -10,7 +13,13 @@ import {
   HpsgInstructionFeature,
   HpsgSynsem
 } from "./signature";
-import { BodySiteSpatialRelation, FhirCoding, PrnReasonLookupRequest, RouteCode } from "../types";
+import {
+  BodySiteSpatialRelation,
+  CanonicalMaxDoseQuantity,
+  FhirCoding,
+  PrnReasonLookupRequest,
+  RouteCode
+} from "../types";
 
 export interface HpsgUnificationContext {
   normalizeSiteText(text: string): string;
@@ -256,6 +265,39 @@ function mergeDose(
   if (!sameOptionalScalar(left.unit, right.unit)) {
     return undefined;
   }
+  if (!sameOptionalScalar(left.basisUnit, right.basisUnit)) {
+    return undefined;
+  }
+  if (
+    left.range &&
+    right.range &&
+    (left.range.low !== right.range.low || left.range.high !== right.range.high)
+  ) {
+    return undefined;
+  }
+  return {
+    value: mergeOptionalScalar(left.value, right.value),
+    range: mergeOptionalScalar(left.range, right.range),
+    unit: mergeOptionalScalar(left.unit, right.unit),
+    basisUnit: mergeOptionalScalar(left.basisUnit, right.basisUnit)
+  };
+}
+
+function mergeRate(
+  left: HpsgRateFeature | undefined,
+  right: HpsgRateFeature | undefined
+): HpsgRateFeature | undefined {
+  if (!left) return right;
+  if (!right) return left;
+  if (
+    !sameOptionalScalar(left.value, right.value) ||
+    !sameOptionalScalar(left.unit, right.unit) ||
+    !sameOptionalScalar(left.perWeightUnit, right.perWeightUnit) ||
+    !sameOptionalScalar(left.period, right.period) ||
+    left.periodUnit !== right.periodUnit
+  ) {
+    return undefined;
+  }
   if (
     left.range &&
     right.range &&
@@ -266,7 +308,69 @@ function mergeDose(
   return {
     value: mergeOptionalScalar(left.value, right.value),
     range: mergeOptionalScalar(left.range, right.range),
-    unit: mergeOptionalScalar(left.unit, right.unit)
+    unit: mergeOptionalScalar(left.unit, right.unit),
+    perWeightUnit: mergeOptionalScalar(left.perWeightUnit, right.perWeightUnit),
+    period: mergeOptionalScalar(left.period, right.period),
+    periodUnit: left.periodUnit
+  };
+}
+
+function sameMaxDoseQuantity(
+  left: CanonicalMaxDoseQuantity | undefined,
+  right: CanonicalMaxDoseQuantity | undefined
+): boolean {
+  return !left || !right || (left.value === right.value && left.unit === right.unit);
+}
+
+function mergeMaxDose(
+  left: HpsgMaxDoseFeature | undefined,
+  right: HpsgMaxDoseFeature | undefined
+): HpsgMaxDoseFeature | undefined {
+  if (!left) return right;
+  if (!right) return left;
+  if (
+    !sameMaxDoseQuantity(left.perAdministration, right.perAdministration) ||
+    !sameMaxDoseQuantity(left.perLifetime, right.perLifetime)
+  ) {
+    return undefined;
+  }
+  const perPeriod = [...(left.perPeriod ?? [])];
+  for (const limit of right.perPeriod ?? []) {
+    if (
+      perPeriod.some((existing) =>
+        existing.period === limit.period && existing.periodUnit === limit.periodUnit
+      )
+    ) {
+      return undefined;
+    }
+    perPeriod.push(limit);
+  }
+  return {
+    perPeriod: perPeriod.length ? perPeriod : undefined,
+    perAdministration: left.perAdministration ?? right.perAdministration,
+    perLifetime: left.perLifetime ?? right.perLifetime
+  };
+}
+
+function mergeDispense(
+  left: HpsgDispenseFeature | undefined,
+  right: HpsgDispenseFeature | undefined
+): HpsgDispenseFeature | undefined {
+  if (!left) return right;
+  if (!right) return left;
+  if (
+    (left.quantity && right.quantity) ||
+    (left.substitution && right.substitution) ||
+    !sameOptionalScalar(left.refills, right.refills) ||
+    !sameOptionalScalar(left.daysSupply, right.daysSupply)
+  ) {
+    return undefined;
+  }
+  return {
+    quantity: left.quantity ?? right.quantity,
+    refills: mergeOptionalScalar(left.refills, right.refills),
+    daysSupply: mergeOptionalScalar(left.daysSupply, right.daysSupply),
+    substitution: left.substitution ?? right.substitution
   };
 }
 
@@ -285,6 +389,23 @@ function appendUnique<T>(left: T[] | undefined, right: T[] | undefined): T[] | u
   return result.length ? result : undefined;
 }
 
+/**
+ * `after dialysis` and `on HD days` name the same anchor; two different
+ * anchors, or two different relations to one, cannot combine.
+ */
+function anchorsConflict(
+  left: HpsgScheduleFeature["anchor"],
+  right: HpsgScheduleFeature["anchor"]
+): boolean {
+  if (!left || !right) {
+    return false;
+  }
+  return (
+    left.text !== right.text ||
+    Boolean(left.relation && right.relation && (left.relation !== right.relation || left.offset !== right.offset))
+  );
+}
+
 function mergeSchedule(
   left: HpsgScheduleFeature | undefined,
   right: HpsgScheduleFeature | undefined
@@ -301,7 +422,9 @@ function mergeSchedule(
     !sameOptionalScalar(left.frequencyMax, right.frequencyMax) ||
     !sameOptionalScalar(left.period, right.period) ||
     !sameOptionalScalar(left.periodMax, right.periodMax) ||
-    !sameOptionalScalar(left.periodUnit, right.periodUnit)
+    !sameOptionalScalar(left.periodUnit, right.periodUnit) ||
+    (left.cycle && right.cycle) ||
+    anchorsConflict(left.anchor, right.anchor)
   ) {
     return undefined;
   }
@@ -318,7 +441,14 @@ function mergeSchedule(
     periodUnit: mergeOptionalScalar(left.periodUnit, right.periodUnit),
     when: appendUnique(left.when, right.when),
     dayOfWeek: appendUnique(left.dayOfWeek, right.dayOfWeek),
-    timeOfDay: appendUnique(left.timeOfDay, right.timeOfDay)
+    timeOfDay: appendUnique(left.timeOfDay, right.timeOfDay),
+    dayOfMonth: appendUnique(left.dayOfMonth, right.dayOfMonth),
+    weekdayOfMonth: appendUnique(left.weekdayOfMonth, right.weekdayOfMonth),
+    excludedDayOfWeek: appendUnique(left.excludedDayOfWeek, right.excludedDayOfWeek),
+    cycle: left.cycle ?? right.cycle,
+    whileAwake: left.whileAwake || right.whileAwake || undefined,
+    event: appendUnique(left.event, right.event),
+    anchor: left.anchor?.relation ? left.anchor : right.anchor ?? left.anchor
   };
 }
 
@@ -339,6 +469,21 @@ export function unifySynsem(
   if (dose === undefined && left.head.dose && right.head.dose) {
     return undefined;
   }
+  const rate = mergeRate(left.head.rate, right.head.rate);
+  if (rate === undefined && left.head.rate && right.head.rate) {
+    return undefined;
+  }
+  const maxDose = mergeMaxDose(left.head.maxDose, right.head.maxDose);
+  if (maxDose === undefined && left.head.maxDose && right.head.maxDose) {
+    return undefined;
+  }
+  const dispense = mergeDispense(left.head.dispense, right.head.dispense);
+  if (dispense === undefined && left.head.dispense && right.head.dispense) {
+    return undefined;
+  }
+  if (left.head.slidingScale && right.head.slidingScale) {
+    return undefined;
+  }
   const schedule = mergeSchedule(left.head.schedule, right.head.schedule);
   if (schedule === undefined && left.head.schedule && right.head.schedule) {
     return undefined;
@@ -357,6 +502,10 @@ export function unifySynsem(
       method,
       route,
       dose,
+      rate,
+      maxDose,
+      dispense,
+      slidingScale: left.head.slidingScale ?? right.head.slidingScale,
       schedule
     },
     valence: {
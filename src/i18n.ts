@@ -11,12 +11,23 @@ import {
   AdviceArgumentRole,
   AdviceRelation,
   BodySiteSpatialRelation,
+  CanonicalCalculatedDose,
   CanonicalDoseExpr,
+  CanonicalEventAnchor,
   CanonicalPrnReasonExpr,
+  CanonicalMaxDoseExpr,
+  CanonicalMaxDoseQuantity,
+  CanonicalRateExpr,
+  CanonicalScheduleCycle,
   CanonicalScheduleExpr,
   CanonicalSigClause,
+  CanonicalSlidingScaleExpr,
+  CanonicalSlidingScaleTier,
+  DoseBasisUnit,
+  EventAnchorRelation,
   EventTiming,
   FhirPeriodUnit,
+  MarLabels,
   RouteCode
 } from "./types";
 import {
@@ -25,6 +36,12 @@ import {
   type MealTimingGroup,
   type TimingSummaryOptions
 } from "./timing-summary";
+import { formatCycleDays, groupCycleDays } from "./timing-cycle";
+import { calendarDaysCoverFrequency } from "./timing-calendar";
+import { readEventDateTime } from "./timing-event";
+import { BUDDHIST_ERA_OFFSET } from "./lexer/lex";
+import { createSigLocalizationFromPack, SigLocalePack } from "./locale-pack";
+import { ZH_LOCALE_PACK } from "./locales/zh";
 
 export interface SigFormatContext {
   readonly style: "short" | "long";
@@ -47,6 +64,8 @@ export interface SigLocalization {
   readonly locale: string;
   formatShort?(context: SigShortContext): string;
   formatLong?(context: SigLongContext): string;
+  /** Headings of rendered MARs; missing ones stay English. */
+  marLabels?: Partial<MarLabels>;
 }
 
 export interface SigLocalizationConfig
@@ -113,7 +132,11 @@ export function resolveSigLocalization(
     result.formatLong = config.formatLong;
   }
 
-  if (!result.formatShort && !result.formatLong) {
+  if (base?.marLabels || inherited?.marLabels || config?.marLabels) {
+    result.marLabels = { ...base?.marLabels, ...inherited?.marLabels, ...config?.marLabels };
+  }
+
+  if (!result.formatShort && !result.formatLong && !result.marLabels) {
     return base ?? inherited ?? result;
   }
 
@@ -126,6 +149,13 @@ registerSigLocalization({
   formatLong: ({ defaultText }) => defaultText
 });
 
+/** Registers a declarative locale pack as that locale's long-text formatter. */
+export function registerSigLocalePack(pack: SigLocalePack): void {
+  registerSigLocalization(createSigLocalizationFromPack(pack));
+}
+
+registerSigLocalePack(ZH_LOCALE_PACK);
+
 export type SigTranslation = SigLocalization;
 export type SigTranslationConfig = SigLocalizationConfig;
 
@@ -142,6 +172,7 @@ export function resolveSigTranslation(
 function createThaiLocalization(): SigLocalization {
   return {
     locale: "th",
+    marLabels: { medication: "ยา", instructions: "วิธีใช้", date: "วันที่", asNeeded: "ใช้เมื่อจำเป็น" },
     formatShort: ({ clause }) => formatShortThai(clause),
     formatLong: ({
       clause,
@@ -226,6 +257,8 @@ const TH_TIMES_PER_DAY: Record<number, string> = {
 const SLOWLY_QUALIFIER_CODE = "419443000";
 const EMPTY_STOMACH_QUALIFIER_CODE = "717154004";
 
+const WHILE_AWAKE_THAI = "ขณะตื่น";
+
 export const THAI_SITE_TRANSLATIONS: Record<string, string> = {
   eye: "ตา",
   eyes: "ตา",
@@ -792,10 +825,55 @@ function grammarFromRouteTextThai(text: string | undefined): ThaiRouteGrammar |
   return undefined;
 }
 
+const DOSE_BASIS_THAI: Record<DoseBasisUnit, { short: string; long: string }> = {
+  kg: { short: "กก.", long: "กิโลกรัม" },
+  m2: { short: "ตร.ม.", long: "ตารางเมตร" }
+};
+
+/**
+ * Amount-only rendering for the calculated part of a per-kg or per-m² dose,
+ * e.g. `300 มก.`, so long text does not repeat `ครั้งละ`.
+ */
+function formatCalculatedDoseThai(
+  dose: CanonicalCalculatedDose | undefined,
+  style: "short" | "long"
+): string | undefined {
+  const high = dose?.range?.high ?? dose?.value;
+  const amount = dose?.range?.low !== undefined && dose.range.high !== undefined
+    ? `${stripTrailingZero(dose.range.low)}${style === "short" ? "-" : " ถึง "}${stripTrailingZero(dose.range.high)}`
+    : high !== undefined
+      ? stripTrailingZero(high)
+      : undefined;
+  if (amount === undefined) {
+    return undefined;
+  }
+  return dose?.unit ? `${amount} ${formatUnitThai(dose.unit, high ?? 0, style)}` : amount;
+}
+
+function formatBasisDoseThai(
+  dose: CanonicalDoseExpr,
+  render: (dose: CanonicalDoseExpr | undefined) => string | undefined,
+  style: "short" | "long"
+): string | undefined {
+  const basisUnit = dose.basisUnit as DoseBasisUnit;
+  const ordered = render({
+    value: dose.value,
+    range: dose.range,
+    unit: dose.unit
+      ? `${formatUnitThai(dose.unit, dose.value ?? 0, style)}/${DOSE_BASIS_THAI[basisUnit][style]}`
+      : undefined
+  });
+  const calculated = formatCalculatedDoseThai(dose.calculated, style);
+  return ordered && calculated ? `${ordered} (${calculated})` : ordered;
+}
+
 function formatDoseThaiShort(dose: CanonicalDoseExpr | undefined): string | undefined {
   if (!dose) {
     return undefined;
   }
+  if (dose.basisUnit) {
+    return formatBasisDoseThai(dose, formatDoseThaiShort, "short");
+  }
   if (dose.range) {
     if (dose.range.low !== undefined && dose.range.high !== undefined) {
       const base = `${stripTrailingZero(dose.range.low)}-${stripTrailingZero(dose.range.high)}`;
@@ -832,6 +910,9 @@ function formatDoseThaiLong(dose: CanonicalDoseExpr | undefined): string | undef
   if (!dose) {
     return undefined;
   }
+  if (dose.basisUnit) {
+    return formatBasisDoseThai(dose, formatDoseThaiLong, "long");
+  }
   if (dose.range) {
     if (dose.range.low !== undefined && dose.range.high !== undefined) {
       if (dose.unit) {
@@ -873,6 +954,134 @@ function formatDoseThaiLong(dose: CanonicalDoseExpr | undefined): string | undef
   return undefined;
 }
 
+function formatRateThai(
+  rate: CanonicalRateExpr | undefined,
+  style: "short" | "long"
+): string | undefined {
+  if (!rate) {
+    return undefined;
+  }
+  const separator = style === "short" ? "-" : " ถึง ";
+  let amount: string | undefined;
+  let magnitude = 1;
+  if (rate.range?.low !== undefined && rate.range.high !== undefined) {
+    amount = `${stripTrailingZero(rate.range.low)}${separator}${stripTrailingZero(rate.range.high)}`;
+    magnitude = rate.range.high;
+  } else if (rate.value !== undefined) {
+    amount = stripTrailingZero(rate.value);
+    magnitude = rate.value;
+  }
+  if (amount === undefined) {
+    return undefined;
+  }
+  const unit = rate.unit ? formatUnitThai(rate.unit, magnitude, style) : undefined;
+  const quantity = [amount, [unit, rate.perWeightUnit].filter(Boolean).join("/")]
+    .filter(Boolean)
+    .join(" ");
+  const periodValue = rate.period !== undefined ? stripTrailingZero(rate.period) : undefined;
+  if (style === "short") {
+    return `@ ${quantity}/${periodValue ?? ""}${rate.periodUnit}`;
+  }
+  return `ในอัตรา ${quantity} ต่อ${describePerPeriodThai(rate.period, rate.periodUnit)}`;
+}
+
+function describePerPeriodThai(period: number | undefined, unit: FhirPeriodUnit): string {
+  let label: string;
+  switch (unit) {
+    case FhirPeriodUnit.Second:
+      label = "วินาที";
+      break;
+    case FhirPeriodUnit.Minute:
+      label = "นาที";
+      break;
+    case FhirPeriodUnit.Hour:
+      label = "ชั่วโมง";
+      break;
+    case FhirPeriodUnit.Day:
+      label = "วัน";
+      break;
+    case FhirPeriodUnit.Week:
+      label = "สัปดาห์";
+      break;
+    case FhirPeriodUnit.Month:
+      label = "เดือน";
+      break;
+    default:
+      label = unit;
+  }
+  return period !== undefined && period !== 1 ? ` ${stripTrailingZero(period)} ${label}` : label;
+}
+
+function formatMaxDoseThai(
+  maxDose: CanonicalMaxDoseExpr | undefined,
+  style: "short" | "long"
+): string | undefined {
+  if (!maxDose) {
+    return undefined;
+  }
+  const amount = (limit: CanonicalMaxDoseQuantity) =>
+    `${stripTrailingZero(limit.value)} ${limit.unit ? formatUnitThai(limit.unit, limit.value, style) : "ครั้ง"}`;
+  const per = style === "short" ? "/" : " ต่อ";
+  const parts: string[] = [];
+  if (maxDose.perAdministration) {
+    parts.push(`${amount(maxDose.perAdministration)}${per}ครั้ง`);
+  }
+  for (const limit of maxDose.perPeriod ?? []) {
+    const period = describePerPeriodThai(limit.period, limit.periodUnit);
+    parts.push(`${amount(limit)}${style === "short" ? `/${period.trim()}` : ` ต่อ${period}`}`);
+  }
+  if (maxDose.perLifetime) {
+    parts.push(`${amount(maxDose.perLifetime)} ตลอดชีวิต`);
+  }
+  if (!parts.length) {
+    return undefined;
+  }
+  return style === "short" ? `ไม่เกิน ${parts.join(", ")}` : `ห้ามใช้เกิน ${parts.join(" หรือ ")}.`;
+}
+
+const SLIDING_SCALE_OBSERVATION_THAI: Record<string, string> = {
+  "blood glucose": "ระดับน้ำตาลในเลือด"
+};
+
+function describeSlidingScaleBoundThai(
+  tier: CanonicalSlidingScaleTier,
+  unit: string | undefined
+): string {
+  const amount = (value: number | undefined) =>
+    unit ? `${stripTrailingZero(value ?? 0)} ${unit}` : stripTrailingZero(value ?? 0);
+  switch (tier.comparator) {
+    case ">":
+      return `มากกว่า ${amount(tier.low)}`;
+    case ">=":
+      return `ตั้งแต่ ${amount(tier.low)} ขึ้นไป`;
+    case "<":
+      return `น้อยกว่า ${amount(tier.high)}`;
+    case "<=":
+      return `ไม่เกิน ${amount(tier.high)}`;
+    default:
+      return `${stripTrailingZero(tier.low ?? 0)}-${amount(tier.high)}`;
+  }
+}
+
+function formatSlidingScaleThai(
+  scale: CanonicalSlidingScaleExpr | undefined,
+  style: "short" | "long"
+): string | undefined {
+  if (!scale?.tiers.length) {
+    return undefined;
+  }
+  const rows = scale.tiers.map((tier) => {
+    const dose = tier.value === 0
+      ? "งดยา"
+      : style === "short"
+        ? formatDoseThaiShort({ value: tier.value, unit: tier.unit })
+        : formatDoseThaiLong({ value: tier.value, unit: tier.unit });
+    const bound = describeSlidingScaleBoundThai(tier, scale.observationUnit);
+    return style === "short" ? `${bound} ${dose}` : `- ${bound}: ${dose}`;
+  });
+  return style === "short" ? `ตามตาราง: ${rows.join(", ")}` : rows.join("\n");
+}
+
 function formatUnitThai(unit: string, _value: number, style: "short" | "long"): string {
   const lower = unit.toLowerCase();
   const mapping: Record<string, { short: string; long: string }> = {
@@ -1410,6 +1619,125 @@ function describeDayOfWeekThai(schedule: CanonicalScheduleExpr | undefined): str
   return days.length ? `ใน${joinWithAndThai(days)}` : undefined;
 }
 
+function formatCalendarDaysThai(
+  schedule: CanonicalScheduleExpr,
+  style: "short" | "long"
+): string | undefined {
+  const items: string[] = [];
+  for (const day of schedule.dayOfMonth ?? []) {
+    items.push(day === -1 ? "วันสุดท้าย" : `วันที่ ${day}`);
+  }
+  for (const entry of schedule.weekdayOfMonth ?? []) {
+    const name = DAY_NAMES_THAI[entry.day] ?? entry.day;
+    items.push(entry.ordinal === -1 ? `${name}สุดท้าย` : `${name}ที่ ${entry.ordinal}`);
+  }
+  if (!items.length) {
+    return undefined;
+  }
+  if (style === "short") {
+    return `${items.join(",")} ของเดือน`;
+  }
+  return `ใน${joinWithAndThai(items)} ของ${calendarDaysCoverFrequency(schedule) ? "ทุกเดือน" : "เดือน"}`;
+}
+
+const MONTH_NAMES_THAI = [
+  "มกราคม",
+  "กุมภาพันธ์",
+  "มีนาคม",
+  "เมษายน",
+  "พฤษภาคม",
+  "มิถุนายน",
+  "กรกฎาคม",
+  "สิงหาคม",
+  "กันยายน",
+  "ตุลาคม",
+  "พฤศจิกายน",
+  "ธันวาคม"
+];
+
+const MONTH_ABBREVIATIONS_THAI = [
+  "ม.ค.",
+  "ก.พ.",
+  "มี.ค.",
+  "เม.ย.",
+  "พ.ค.",
+  "มิ.ย.",
+  "ก.ค.",
+  "ส.ค.",
+  "ก.ย.",
+  "ต.ค.",
+  "พ.ย.",
+  "ธ.ค."
+];
+
+/** Event dates in Buddhist-era years: `2 พ.ย. 2569 08:00` or `วันที่ 2 พฤศจิกายน 2569 เวลา 08:00`. */
+function formatEventsThai(
+  schedule: CanonicalScheduleExpr,
+  style: "short" | "long"
+): string | undefined {
+  if (!schedule.event?.length) {
+    return undefined;
+  }
+  const items = schedule.event.map((event) => {
+    const parts = readEventDateTime(event);
+    if (!parts) {
+      return event;
+    }
+    const { year, month, day } = parts.date;
+    const monthName = (style === "short" ? MONTH_ABBREVIATIONS_THAI : MONTH_NAMES_THAI)[month - 1];
+    const date = `${day} ${monthName} ${year + BUDDHIST_ERA_OFFSET}`;
+    const clock = parts.clock?.slice(0, 5);
+    if (style === "short") {
+      return clock ? `${date} ${clock}` : date;
+    }
+    return clock ? `วันที่ ${date} เวลา ${clock}` : `วันที่ ${date}`;
+  });
+  return style === "short" ? items.join(",") : joinWithAndThai(items);
+}
+
+const ANCHOR_RELATION_THAI: Record<EventAnchorRelation, string> = {
+  [EventAnchorRelation.Before]: "ก่อน",
+  [EventAnchorRelation.After]: "หลัง"
+};
+
+/** `หลังฟอกไต`, `ก่อน procedure 1 ชั่วโมง`, or `ในวันที่มีฟอกไต`. */
+function formatAnchorThai(anchor: CanonicalEventAnchor | undefined): string | undefined {
+  if (!anchor) {
+    return undefined;
+  }
+  // Thai anchor names join their lead word; others keep a space.
+  const name = /^[\u0E00-\u0E7F]/.test(anchor.text) ? anchor.text : ` ${anchor.text}`;
+  if (!anchor.relation) {
+    return `ในวันที่มี${name}`;
+  }
+  const phrase = `${ANCHOR_RELATION_THAI[anchor.relation]}${name}`;
+  if (!anchor.offset) {
+    return phrase;
+  }
+  const offset = anchor.offset % 60 === 0
+    ? `${stripTrailingZero(anchor.offset / 60)} ชั่วโมง`
+    : `${stripTrailingZero(anchor.offset)} นาที`;
+  return `${phrase} ${offset}`;
+}
+
+function formatCycleThai(
+  cycle: CanonicalScheduleCycle | undefined,
+  style: "short" | "long"
+): string | undefined {
+  if (!cycle?.activeDays.length) {
+    return undefined;
+  }
+  if (style === "short") {
+    const days = `D${formatCycleDays(cycle.activeDays)}`;
+    return cycle.length ? `${days} Q${cycle.length}D` : days;
+  }
+  const runs = groupCycleDays(cycle.activeDays).map(([low, high]) =>
+    low === high ? `${low}` : `${low}-${high}`
+  );
+  const days = `ในวันที่ ${joinWithAndThai(runs)}`;
+  return cycle.length ? `${days} ของทุกรอบ ${cycle.length} วัน` : days;
+}
+
 function formatDurationShortThai(schedule: CanonicalScheduleExpr): string | undefined {
   if (schedule.duration === undefined || !schedule.durationUnit) {
     return undefined;
@@ -1526,9 +1854,15 @@ function formatShortThai(clause: CanonicalSigClause): string {
   } else if (clause.route?.text) {
     parts.push(clause.route.text);
   }
-  const timing = describeFrequencyThai(schedule);
+  const rate = formatRateThai(clause.rate, "short");
+  if (rate) {
+    parts.push(rate);
+  }
+  const timing = calendarDaysCoverFrequency(schedule) ? undefined : describeFrequencyThai(schedule);
   if (timing) {
     parts.push(timing);
+  } else if (calendarDaysCoverFrequency(schedule)) {
+    // The calendar days below carry the frequency.
   } else if (schedule.timingCode) {
     parts.push(schedule.timingCode);
   } else if (schedule.period && schedule.periodUnit) {
@@ -1543,6 +1877,10 @@ function formatShortThai(clause: CanonicalSigClause): string {
   if (events.length) {
     parts.push(events.join(" "));
   }
+  const anchor = formatAnchorThai(schedule.anchor);
+  if (anchor) {
+    parts.push(anchor);
+  }
   if (schedule.timeOfDay?.length) {
     const times: string[] = [];
     for (const time of schedule.timeOfDay) {
@@ -1557,6 +1895,21 @@ function formatShortThai(clause: CanonicalSigClause): string {
     }
     parts.push(days.join(","));
   }
+  const calendarDays = formatCalendarDaysThai(schedule, "short");
+  if (calendarDays) {
+    parts.push(calendarDays);
+  }
+  const cycle = formatCycleThai(schedule.cycle, "short");
+  if (cycle) {
+    parts.push(cycle);
+  }
+  if (schedule.whileAwake) {
+    parts.push(WHILE_AWAKE_THAI);
+  }
+  const eventDates = formatEventsThai(schedule, "short");
+  if (eventDates) {
+    parts.push(eventDates);
+  }
   if (schedule.count !== undefined) {
     parts.push(`x${stripTrailingZero(schedule.count)}`);
   }
@@ -1568,6 +1921,14 @@ function formatShortThai(clause: CanonicalSigClause): string {
   if (asNeeded) {
     parts.push(asNeeded);
   }
+  const slidingScale = formatSlidingScaleThai(clause.slidingScale, "short");
+  if (slidingScale) {
+    parts.push(slidingScale);
+  }
+  const maxDose = formatMaxDoseThai(clause.maxDose, "short");
+  if (maxDose) {
+    parts.push(maxDose);
+  }
   return parts.filter(Boolean).join(" ");
 }
 
@@ -1596,7 +1957,7 @@ function formatLongThai(
     ? undefined
     : buildRoutePhraseThai(clause, grammar, Boolean(sitePart));
   const standaloneOccurrenceCount = describeStandaloneOccurrenceCountThai(schedule);
-  const frequencyPart =
+  const frequencyPart = calendarDaysCoverFrequency(schedule) ? undefined :
     describeFrequencyThai(schedule) ??
     standaloneOccurrenceCount ??
     describeFrequencyCountThai(inferDailyOccurrenceCount(schedule, options));
@@ -1619,7 +1980,11 @@ function formatLongThai(
     }
   }
   const timing = combineFrequencyAndEventsThai(frequencyPart, eventParts);
+  const eventDatePart = formatEventsThai(schedule, "long");
+  const anchorPart = formatAnchorThai(schedule.anchor);
   const dayPart = describeDayOfWeekThai(schedule);
+  const calendarPart = formatCalendarDaysThai(schedule, "long");
+  const cyclePart = formatCycleThai(schedule.cycle, "long");
   const countPart =
     schedule.count !== undefined && !standaloneOccurrenceCount
       ? `จำนวน ${stripTrailingZero(schedule.count)} ครั้ง`
@@ -1642,15 +2007,34 @@ function formatLongThai(
   if (siteFirst && sitePart) {
     segments.push(sitePart);
   }
+  const ratePart = formatRateThai(clause.rate, "long");
+  if (ratePart) {
+    segments.push(ratePart);
+  }
   if (timing.frequency) {
     segments.push(timing.frequency);
   }
   if (timing.event) {
     segments.push(timing.event);
   }
+  if (schedule.whileAwake) {
+    segments.push(WHILE_AWAKE_THAI);
+  }
+  if (anchorPart) {
+    segments.push(anchorPart);
+  }
+  if (eventDatePart) {
+    segments.push(eventDatePart);
+  }
   if (dayPart) {
     segments.push(dayPart);
   }
+  if (calendarPart) {
+    segments.push(calendarPart);
+  }
+  if (cyclePart) {
+    segments.push(cyclePart);
+  }
   if (countPart) {
     segments.push(countPart);
   }
@@ -1663,8 +2047,20 @@ function formatLongThai(
   if (!siteFirst && sitePart) {
     segments.push(sitePart);
   }
+  const slidingScaleRows = formatSlidingScaleThai(clause.slidingScale, "long");
+  if (slidingScaleRows) {
+    const observation = clause.slidingScale?.observation;
+    const basis = observation
+      ? `ตาม${SLIDING_SCALE_OBSERVATION_THAI[observation] ?? observation}`
+      : "ตามตารางปรับขนาดยา";
+    segments.push(explicitDosePart ? `และปรับเพิ่ม${basis}` : basis);
+  }
   const body = segments.filter(Boolean).join(" ").replace(/\s+/g, " ").trim();
   const instructionPhrases: string[] = [];
+  const maxDoseText = formatMaxDoseThai(clause.maxDose, "long");
+  if (maxDoseText) {
+    instructionPhrases.push(maxDoseText);
+  }
   const instructionText = formatAdditionalInstructionsThai(clause);
   if (instructionText) {
     instructionPhrases.push(instructionText);
@@ -1676,6 +2072,10 @@ function formatLongThai(
     instructionPhrases.push(patientInstruction);
   }
   const trailingInstructionText = instructionPhrases.join(" ").trim() || undefined;
+  if (slidingScaleRows) {
+    const table = `${joinThaiVerbAndBody(verb, body)}:\n${slidingScaleRows}`;
+    return trailingInstructionText ? `${table}\n${trailingInstructionText}` : table;
+  }
   const baseSentence = `${joinThaiVerbAndBody(verb, body)}.`;
   if (!body) {
     return trailingInstructionText ? `${baseSentence} ${trailingInstructionText}` : baseSentence;
@@ -1,5 +1,5 @@
 import { formatCanonicalClause } from "./format";
-import { canonicalFromFhir, canonicalToFhir } from "./fhir";
+import { canonicalFromFhir, canonicalToFhir, projectFhirDosageToR4 } from "./fhir";
 import { shiftCanonicalSigClauses } from "./ir";
 import { resolveSigLocalization } from "./i18n";
 import { ParserState } from "./parser-state";
@@ -13,11 +13,19 @@ import {
   tokenize
 } from "./parser";
 import { parseSigSegments } from "./hpsg/segmenter";
+import {
+  applySequenceNumber,
+  assignSequenceBounds,
+  prefixSequenceConnector,
+  trimPhaseEnd
+} from "./sequence";
 import { cloneBodySiteSpatialRelation } from "./body-site-spatial";
 import { cloneExtensions } from "./fhir-translations";
+import { deepEqual } from "./utils/object";
 import {
   BodySiteCode,
   FhirDosage,
+  FhirDosageR4,
   FhirTimingRepeat,
   FormatBatchOptions,
   FormatOptions,
@@ -26,6 +34,7 @@ import {
   LintResult,
   ParseBatchResult,
   ParseBatchSegmentMeta,
+  ParseDispenseMeta,
   ParseOptions,
   ParseResult,
   CanonicalSigClause,
@@ -33,7 +42,24 @@ import {
 } from "./types";
 export { suggestSig } from "./suggest";
 export * from "./types";
-export { nextDueDoses, calculateTotalUnits } from "./schedule";
+export {
+  nextDueDoses,
+  nextDueAdministrations,
+  buildMarGrid,
+  calculateTotalUnits,
+  calculateDaysSupply
+} from "./schedule";
+export { analyzeAdherence } from "./adherence";
+export { planTimeZoneTransition } from "./time-zone-transition";
+export { buildCompliancePack } from "./compliance-pack";
+export { renderMarText, renderMarCsv, renderMarHtml } from "./mar";
+export { buildTaperRegimen, describeTaperRegimen } from "./taper";
+export { remapForFasting } from "./fasting";
+export { consolidateAdministrationTimes } from "./consolidation";
+export { buildMedicationRequest, buildMedicationStatement } from "./medication-resource";
+export { canonicalToFhir, projectFhirDosageToR4 } from "./fhir";
+export { UCUM_CODE_BY_UNIT, UCUM_SYSTEM, getUcumCode, getUnitFromUcumCode } from "./ucum";
+export type { FhirProjectionOptions } from "./fhir";
 export { parseStrength, parseStrengthIntoRatio } from "./utils/strength";
 export {
   buildBodySiteTopographicalModifierCoding,
@@ -66,6 +92,34 @@ export {
   cloneBodySiteSpatialRelation,
   parseBodySiteSpatialRelationExtension
 } from "./body-site-spatial";
+export {
+  SLIDING_SCALE_CONDITION_EXTENSION_URL,
+  buildSlidingScaleDoseAndRate,
+  isSlidingScaleDoseAndRate,
+  parseSlidingScaleDoseAndRate
+} from "./sliding-scale";
+export {
+  TIMING_EVENT_ANCHOR_EXTENSION_URL,
+  buildTimingEventAnchorExtension,
+  parseTimingEventAnchorExtension
+} from "./event-anchor";
+export {
+  TIMING_CYCLE_EXTENSION_URL,
+  buildTimingCycleExtension,
+  parseTimingCycleExtension
+} from "./timing-cycle";
+export {
+  TIMING_WHILE_AWAKE_EXTENSION_URL,
+  buildTimingWhileAwakeExtension,
+  isTimingWhileAwake
+} from "./timing-awake";
+export {
+  TIMING_DAY_OF_MONTH_EXTENSION_URL,
+  TIMING_WEEKDAY_OF_MONTH_EXTENSION_URL,
+  buildTimingCalendarExtensions,
+  parseTimingDayOfMonthExtensions,
+  parseTimingWeekdayOfMonthExtensions
+} from "./timing-calendar";
 export {
   SNOMED_CT_FINDING_SITE_ATTRIBUTE_CODE,
   SNOMED_CT_FINDING_SITE_ATTRIBUTE_DISPLAY,
@@ -95,6 +149,7 @@ export {
 } from "./snomed-postcoordination";
 export {
   getRegisteredSigLocalizations,
+  registerSigLocalePack,
   registerSigLocalization,
   resolveSigLocalization,
   resolveSigTranslation
@@ -105,6 +160,9 @@ export type {
   SigTranslation,
   SigTranslationConfig
 } from "./i18n";
+export { createSigLocalizationFromPack } from "./locale-pack";
+export type { SigLocaleForms, SigLocalePack, SigLocaleRoute, SigLocaleSegment } from "./locale-pack";
+export { ZH_LOCALE_PACK } from "./locales/zh";
 export {
   DEFAULT_BODY_SITE_SNOMED,
   DEFAULT_BODY_SITE_SNOMED_SOURCE,
@@ -204,7 +262,7 @@ function expandMealDashSegment(
   const expanded = values
     .map((value, index) => ({ value, event: events[index] }))
     .filter(({ value }) => value > 0)
-    .map(({ value, event }) => {
+    .map(({ value, event }, index) => {
       const text = [formatMealDashAmount(value), ...suffixTokens, event]
         .filter((part) => part && part.trim().length > 0)
         .join(" ")
@@ -213,7 +271,8 @@ function expandMealDashSegment(
       return {
         text,
         start: segment.start,
-        end: segment.end
+        end: segment.end,
+        ...(segment.sequential && index === 0 ? { sequential: true } : {})
       };
     })
     .filter((item) => item.text.length > 0);
@@ -247,53 +306,25 @@ function toSegmentMeta(segments: ReturnType<typeof parseSigSegments>): ParseBatc
 }
 
 /**
- * Deep equality helper for plain JSON-like parser output objects.
+ * Numbers the phases of a sequential sig (`... then ...`). Segments before the
+ * first connector form phase 1; plain sigs stay unnumbered.
  *
- * @param left Left-side value.
- * @param right Right-side value.
- * @returns `true` when both values are structurally equal.
+ * @param segments Parsed segments in source order.
+ * @returns Sequence number per segment, or `undefined` when not sequential.
  */
-function deepEqual(left: unknown, right: unknown): boolean {
-  if (left === right) {
-    return true;
-  }
-  if (left === null || right === null) {
-    return left === right;
-  }
-  if (Array.isArray(left) || Array.isArray(right)) {
-    if (!Array.isArray(left) || !Array.isArray(right)) {
-      return false;
-    }
-    if (left.length !== right.length) {
-      return false;
-    }
-    for (let i = 0; i < left.length; i += 1) {
-      if (!deepEqual(left[i], right[i])) {
-        return false;
-      }
-    }
-    return true;
+function resolveSegmentSequences(
+  segments: ReturnType<typeof parseSigSegments>
+): Array<number | undefined> {
+  if (!segments.some((segment) => segment.sequential)) {
+    return segments.map(() => undefined);
   }
-  if (typeof left !== "object" || typeof right !== "object") {
-    return false;
-  }
-
-  const leftRecord = left as Record<string, unknown>;
-  const rightRecord = right as Record<string, unknown>;
-  const leftKeys = Object.keys(leftRecord).filter((key) => leftRecord[key] !== undefined);
-  const rightKeys = Object.keys(rightRecord).filter((key) => rightRecord[key] !== undefined);
-  if (leftKeys.length !== rightKeys.length) {
-    return false;
-  }
-  for (const key of leftKeys) {
-    if (!Object.prototype.hasOwnProperty.call(rightRecord, key)) {
-      return false;
+  let sequence = 1;
+  return segments.map((segment, index) => {
+    if (segment.sequential && index > 0) {
+      sequence += 1;
     }
-    if (!deepEqual(leftRecord[key], rightRecord[key])) {
-      return false;
-    }
-  }
-  return true;
+    return sequence;
+  });
 }
 
 /**
@@ -355,6 +386,9 @@ function canMergeTimingOnly(base: ParseResult, next: ParseResult): boolean {
   if (!baseRepeat || !nextRepeat) {
     return false;
   }
+  if (base.sequence !== next.sequence) {
+    return false;
+  }
   if (!isMergeableAnchorRepeat(baseRepeat) || !isMergeableAnchorRepeat(nextRepeat)) {
     return false;
   }
@@ -396,6 +430,29 @@ function uniqueStrings<T extends string>(values: T[]): T[] {
   return output;
 }
 
+/**
+ * Combines dispensing details from separate clauses; the first clause to
+ * mention a quantity, refill count, days supply or substitution flag wins.
+ */
+function mergeDispenseMeta(
+  base: ParseDispenseMeta | undefined,
+  next: ParseDispenseMeta | undefined
+): ParseDispenseMeta | undefined {
+  if (!base || !next) {
+    return base ?? next;
+  }
+  const quantity = base.quantity ?? next.quantity;
+  const refills = base.refills ?? next.refills;
+  const daysSupply = base.daysSupply ?? next.daysSupply;
+  const substitution = base.substitution ?? next.substitution;
+  return {
+    ...(quantity ? { quantity } : {}),
+    ...(refills !== undefined ? { refills } : {}),
+    ...(daysSupply !== undefined ? { daysSupply } : {}),
+    ...(substitution ? { substitution } : {})
+  };
+}
+
 /**
  * Merges two parse results that are known to be timing-compatible.
  *
@@ -432,6 +489,7 @@ function mergeParseResults(base: ParseResult, next: ParseResult, options?: Parse
     shortText,
     longText,
     warnings: uniqueStrings([...(base.warnings ?? []), ...(next.warnings ?? [])]),
+    ...(base.sequence !== undefined ? { sequence: base.sequence } : {}),
     meta: {
       ...base.meta,
       consumedTokens: uniqueStrings([...(base.meta.consumedTokens ?? []), ...(next.meta.consumedTokens ?? [])]),
@@ -442,7 +500,8 @@ function mergeParseResults(base: ParseResult, next: ParseResult, options?: Parse
         clauses: [...base.meta.canonical.clauses, ...next.meta.canonical.clauses]
       },
       siteLookups: [...(base.meta.siteLookups ?? []), ...(next.meta.siteLookups ?? [])],
-      prnReasonLookups: [...(base.meta.prnReasonLookups ?? []), ...(next.meta.prnReasonLookups ?? [])]
+      prnReasonLookups: [...(base.meta.prnReasonLookups ?? []), ...(next.meta.prnReasonLookups ?? [])],
+      dispense: mergeDispenseMeta(base.meta.dispense, next.meta.dispense)
     }
   };
 }
@@ -468,6 +527,14 @@ function appendParseResult(
   items.push(next);
 }
 
+function collectDispenseMeta(results: ParseResult[]): ParseDispenseMeta | undefined {
+  let dispense: ParseDispenseMeta | undefined;
+  for (const result of results) {
+    dispense = mergeDispenseMeta(dispense, result.meta.dispense);
+  }
+  return dispense;
+}
+
 function collectCanonicalClauses(results: ParseResult[]): ParseResult["meta"]["canonical"]["clauses"] {
   const clauses: ParseResult["meta"]["canonical"]["clauses"] = [];
   for (const result of results) {
@@ -476,25 +543,74 @@ function collectCanonicalClauses(results: ParseResult[]): ParseResult["meta"]["c
   return clauses;
 }
 
-export function parseSig(input: string, options?: ParseOptions): ParseBatchResult {
+/**
+ * Down-converts a parsed item's Dosage to FHIR R4, adding the projection's
+ * warnings to the item's own.
+ */
+function projectParseResultToR4(result: ParseResult): ParseResult<FhirDosageR4> {
+  const projected = projectFhirDosageToR4(result.fhir);
+  return {
+    ...result,
+    fhir: projected.dosage,
+    warnings: uniqueStrings([...result.warnings, ...projected.warnings])
+  };
+}
+
+function projectParseBatchToR4(batch: ParseBatchResult): ParseBatchResult<FhirDosageR4> {
+  const projected = projectFhirDosageToR4(batch.fhir);
+  return {
+    ...batch,
+    items: batch.items.map(projectParseResultToR4),
+    fhir: projected.dosage,
+    warnings: uniqueStrings([...batch.warnings, ...projected.warnings])
+  };
+}
+
+function projectLintBatchToR4(batch: LintBatchResult): LintBatchResult<FhirDosageR4> {
+  return {
+    ...batch,
+    items: batch.items.map((item) => ({ ...item, result: projectParseResultToR4(item.result) })),
+    result: projectParseResultToR4(batch.result)
+  };
+}
+
+export function parseSig(
+  input: string,
+  options: ParseOptions & { fhirVersion: "R4" }
+): ParseBatchResult<FhirDosageR4>;
+export function parseSig(input: string, options?: ParseOptions): ParseBatchResult;
+export function parseSig(
+  input: string,
+  options?: ParseOptions
+): ParseBatchResult | ParseBatchResult<FhirDosageR4> {
   const segments = expandMealDashSegments(parseSigSegments(input), options);
+  const sequences = resolveSegmentSequences(segments);
   const carry: SegmentCarry = {};
   const results: ParseResult[] = [];
 
-  for (const segment of segments) {
+  for (const [index, segment] of segments.entries()) {
     const state = parseClauseState(segment.text, options);
+    if (results.length && isDispenseOnlyState(state)) {
+      foldDispenseState(results[results.length - 1], state);
+      continue;
+    }
     applyCarryForward(state, carry);
     applyPrnReasonCoding(state, options);
     applySiteCoding(state, options);
     const result = buildParseResult(state, options);
     rebaseParseResult(result, input, segment.start);
+    const sequence = sequences[index];
+    if (sequence !== undefined) {
+      applySequenceNumber(result, sequence);
+    }
     appendParseResult(results, result, options);
     updateCarryForward(carry, state);
   }
+  assignSequenceBounds(results);
 
   const primary = resolvePrimaryParseResult(results, input, options);
 
-  return {
+  const batch: ParseBatchResult = {
     input,
     count: results.length,
     items: results,
@@ -509,23 +625,42 @@ export function parseSig(input: string, options?: ParseOptions): ParseBatchResul
           ? collectCanonicalClauses(results)
           : primary.meta.canonical.clauses
       },
+      dispense: collectDispenseMeta(results),
       segments: toSegmentMeta(segments)
     }
   };
+  return options?.fhirVersion === "R4" ? projectParseBatchToR4(batch) : batch;
 }
 
-export function lintSig(input: string, options?: ParseOptions): LintBatchResult {
+export function lintSig(
+  input: string,
+  options: ParseOptions & { fhirVersion: "R4" }
+): LintBatchResult<FhirDosageR4>;
+export function lintSig(input: string, options?: ParseOptions): LintBatchResult;
+export function lintSig(
+  input: string,
+  options?: ParseOptions
+): LintBatchResult | LintBatchResult<FhirDosageR4> {
   const segments = expandMealDashSegments(parseSigSegments(input), options);
+  const sequences = resolveSegmentSequences(segments);
   const carry: SegmentCarry = {};
   const results: LintResult[] = [];
 
-  for (const segment of segments) {
+  for (const [index, segment] of segments.entries()) {
     const state = parseClauseState(segment.text, options);
+    if (results.length && isDispenseOnlyState(state)) {
+      foldDispenseState(results[results.length - 1].result, state);
+      continue;
+    }
     applyCarryForward(state, carry);
     applyPrnReasonCoding(state, options);
     applySiteCoding(state, options);
     const result = buildParseResult(state, options);
     rebaseParseResult(result, input, segment.start);
+    const sequence = sequences[index];
+    if (sequence !== undefined) {
+      applySequenceNumber(result, sequence);
+    }
     const groups = findUnparsedTokenGroups(state);
     const issues: LintIssue[] = groups.map((group) => {
       const shiftedRange = shiftRange(group.range, segment.start);
@@ -548,10 +683,11 @@ export function lintSig(input: string, options?: ParseOptions): LintBatchResult
     results.push({ result, issues });
     updateCarryForward(carry, state);
   }
+  assignSequenceBounds(results.map((item) => item.result));
 
   const primary = resolvePrimaryLintResult(results, input, options);
 
-  return {
+  const batch: LintBatchResult = {
     input,
     count: results.length,
     items: results,
@@ -561,30 +697,46 @@ export function lintSig(input: string, options?: ParseOptions): LintBatchResult
       segments: toSegmentMeta(segments)
     }
   };
+  return options?.fhirVersion === "R4" ? projectLintBatchToR4(batch) : batch;
 }
 
+export function parseSigAsync(
+  input: string,
+  options: ParseOptions & { fhirVersion: "R4" }
+): Promise<ParseBatchResult<FhirDosageR4>>;
+export function parseSigAsync(input: string, options?: ParseOptions): Promise<ParseBatchResult>;
 export async function parseSigAsync(
   input: string,
   options?: ParseOptions
-): Promise<ParseBatchResult> {
+): Promise<ParseBatchResult | ParseBatchResult<FhirDosageR4>> {
   const segments = expandMealDashSegments(parseSigSegments(input), options);
+  const sequences = resolveSegmentSequences(segments);
   const carry: SegmentCarry = {};
   const results: ParseResult[] = [];
 
-  for (const segment of segments) {
+  for (const [index, segment] of segments.entries()) {
     const state = parseClauseState(segment.text, options);
+    if (results.length && isDispenseOnlyState(state)) {
+      foldDispenseState(results[results.length - 1], state);
+      continue;
+    }
     applyCarryForward(state, carry);
     await applyPrnReasonCodingAsync(state, options);
     await applySiteCodingAsync(state, options);
     const result = buildParseResult(state, options);
     rebaseParseResult(result, input, segment.start);
+    const sequence = sequences[index];
+    if (sequence !== undefined) {
+      applySequenceNumber(result, sequence);
+    }
     appendParseResult(results, result, options);
     updateCarryForward(carry, state);
   }
+  assignSequenceBounds(results);
 
   const primary = resolvePrimaryParseResult(results, input, options);
 
-  return {
+  const batch: ParseBatchResult = {
     input,
     count: results.length,
     items: results,
@@ -599,13 +751,15 @@ export async function parseSigAsync(
           ? collectCanonicalClauses(results)
           : primary.meta.canonical.clauses
       },
+      dispense: collectDispenseMeta(results),
       segments: toSegmentMeta(segments)
     }
   };
+  return options?.fhirVersion === "R4" ? projectParseBatchToR4(batch) : batch;
 }
 
 export function formatSig(
-  dosage: FhirDosage,
+  dosage: FhirDosage | FhirDosageR4,
   style: "short" | "long" = "short",
   options?: FormatOptions
 ): string {
@@ -621,10 +775,19 @@ export function formatSigBatch(
 ): string {
   const separator = options?.separator ?? ", ";
   const formatted: string[] = [];
+  let previousSequence: number | undefined;
   for (const dosage of dosages) {
     const text = formatSig(dosage, style, options);
     if (text.trim()) {
-      formatted.push(text);
+      const startsPhase =
+        previousSequence !== undefined &&
+        dosage.sequence !== undefined &&
+        dosage.sequence > previousSequence;
+      if (startsPhase) {
+        formatted[formatted.length - 1] = trimPhaseEnd(formatted[formatted.length - 1]);
+      }
+      formatted.push(startsPhase ? prefixSequenceConnector(text, style, options?.locale) : text);
+      previousSequence = dosage.sequence;
     }
   }
   return formatted.join(separator);
@@ -635,16 +798,30 @@ export function formatParseBatch(
   style: "short" | "long" = "short",
   separator = ", "
 ): string {
-  const texts = batch.items
-    .map((item) => (style === "short" ? item.shortText : item.longText))
-    .filter((text) => typeof text === "string" && text.trim().length > 0);
+  const texts: string[] = [];
+  let previousSequence: number | undefined;
+  for (const item of batch.items) {
+    const text = style === "short" ? item.shortText : item.longText;
+    if (typeof text !== "string" || text.trim().length === 0) {
+      continue;
+    }
+    const startsPhase =
+      previousSequence !== undefined &&
+      item.sequence !== undefined &&
+      item.sequence > previousSequence;
+    if (startsPhase) {
+      texts[texts.length - 1] = trimPhaseEnd(texts[texts.length - 1]);
+    }
+    texts.push(startsPhase ? prefixSequenceConnector(text, style) : text);
+    previousSequence = item.sequence;
+  }
   return texts.join(separator);
 }
 
-export function fromFhirDosage(
-  dosage: FhirDosage,
+export function fromFhirDosage<TDosage extends FhirDosage | FhirDosageR4 = FhirDosage>(
+  dosage: TDosage,
   options?: FormatOptions
-): ParseResult {
+): ParseResult<TDosage> {
   const clause = canonicalFromFhir(dosage);
   const localization = resolveSigLocalization(options?.locale, options?.i18n);
   const shortText = formatCanonicalClause(clause, "short", localization, options);
@@ -719,7 +896,7 @@ function cloneBodySiteCoding(coding?: {
 
 function buildNormalizedMetaFromClause(
   clause: CanonicalSigClause,
-  fhir?: FhirDosage
+  fhir?: FhirDosage | FhirDosageR4
 ): ParseResult["meta"]["normalized"] {
   const additionalInstructions = clause.additionalInstructions?.length
     ? clause.additionalInstructions.map((instruction) => ({
@@ -768,6 +945,31 @@ function buildNormalizedMetaFromClause(
   };
 }
 
+function cloneDispenseMeta(dispense: ParseDispenseMeta): ParseDispenseMeta {
+  return {
+    ...(dispense.quantity
+      ? {
+        quantity: {
+          value: dispense.quantity.value,
+          ...(dispense.quantity.unit ? { unit: dispense.quantity.unit } : {})
+        }
+      }
+      : {}),
+    ...(dispense.refills !== undefined ? { refills: dispense.refills } : {}),
+    ...(dispense.daysSupply !== undefined ? { daysSupply: dispense.daysSupply } : {}),
+    ...(dispense.substitution
+      ? {
+        substitution: {
+          allowed: dispense.substitution.allowed,
+          ...(dispense.substitution.dawCode !== undefined
+            ? { dawCode: dispense.substitution.dawCode }
+            : {})
+        }
+      }
+      : {})
+  };
+}
+
 function buildParseResult(
   state: ReturnType<typeof parseClauseState>,
   options?: ParseOptions
@@ -844,11 +1046,36 @@ function buildParseResult(
         clauses: canonicalClauses
       },
       siteLookups,
-      prnReasonLookups
+      prnReasonLookups,
+      dispense: state.dispense ? cloneDispenseMeta(state.dispense) : undefined
     }
   };
 }
 
+const DISPENSE_ONLY_RULES = new Set([
+  "hpsg.lex.dispense",
+  "hpsg.lex.connector",
+  "hpsg.phrase.unify-adjacent"
+]);
+
+/**
+ * Whether a segment holds nothing but dispensing details, like a trailing
+ * `Refills: 2` line. Such a segment belongs to the order, not a new dosage.
+ */
+function isDispenseOnlyState(internal: ParserState): boolean {
+  return (
+    internal.dispense !== undefined &&
+    internal.tokens.every((token) => internal.consumed.has(token.index)) &&
+    (internal.primaryClause.evidence ?? []).every((evidence) => DISPENSE_ONLY_RULES.has(evidence.rule))
+  );
+}
+
+function foldDispenseState(result: ParseResult, internal: ParserState): void {
+  if (internal.dispense) {
+    result.meta.dispense = mergeDispenseMeta(result.meta.dispense, cloneDispenseMeta(internal.dispense));
+  }
+}
+
 function applyCarryForward(internal: ParserState, carry: SegmentCarry): void {
   if (!internal.routeCode && !internal.routeText) {
     if (carry.routeCode) {
@@ -233,6 +233,9 @@ export function shiftCanonicalSigClauses(
 
     shiftEvidenceSpans(clause.evidence);
     shiftEvidenceSpans(clause.dose?.evidence);
+    shiftEvidenceSpans(clause.rate?.evidence);
+    shiftEvidenceSpans(clause.maxDose?.evidence);
+    shiftEvidenceSpans(clause.slidingScale?.evidence);
     shiftEvidenceSpans(clause.route?.evidence);
     shiftEvidenceSpans(clause.site?.evidence);
     shiftEvidenceSpans(clause.schedule?.evidence);
@@ -1,6 +1,7 @@
 import { DAY_OF_WEEK_TOKENS } from "../maps";
-import { LexKind, LexToken, SurfaceToken, SurfaceTokenKind } from "./token-types";
+import { DateLiteral, LexKind, LexToken, SurfaceToken, SurfaceTokenKind } from "./token-types";
 import { scanSurfaceTokens } from "./surface";
+import { normalizeThaiDigits, segmentThaiSurface } from "./thai";
 
 const PER_SLASH_UNITS = new Set([
   "d",
@@ -27,6 +28,59 @@ const PER_SLASH_UNITS = new Set([
 const COMPACT_DISCRETE_UNITS_PATTERN =
   /^(tab|tabs|tablet|tablets|cap|caps|capsule|capsules|mg|mcg|ml|g|drops|drop|puff|puffs|spray|sprays|patch|patches)$/i;
 
+/** Thai Buddhist-era years run 543 ahead of the Gregorian calendar. */
+export const BUDDHIST_ERA_OFFSET = 543;
+/** Four-digit years at or above this are read as Buddhist era (2569 BE = 2026). */
+const BUDDHIST_ERA_THRESHOLD = 2400;
+
+/**
+ * Converts a written year to the Gregorian calendar. Buddhist-era years are
+ * recognized by size unless `buddhistEra` says so explicitly (`พ.ศ.`).
+ */
+export function toGregorianYear(year: number, buddhistEra?: boolean): number {
+  if (buddhistEra ?? year >= BUDDHIST_ERA_THRESHOLD) {
+    return year - BUDDHIST_ERA_OFFSET;
+  }
+  return year;
+}
+
+export function isValidDateLiteral(date: DateLiteral): boolean {
+  if (date.month < 1 || date.month > 12 || date.day < 1) {
+    return false;
+  }
+  return date.day <= new Date(Date.UTC(date.year, date.month, 0)).getUTCDate();
+}
+
+/**
+ * Reads a one-token date: ISO `2026-11-02`, or day-first `2/11/2026`,
+ * `02-11-2569`, `2.11.2026`. A day-first date whose middle part cannot be a
+ * month (`11/25/2026`) is read month-first instead.
+ */
+export function parseDateLiteral(text: string): DateLiteral | undefined {
+  const iso = text.match(/^([0-9]{4})-([0-9]{1,2})-([0-9]{1,2})$/);
+  let year: number;
+  let month: number;
+  let day: number;
+  if (iso) {
+    year = parseInt(iso[1], 10);
+    month = parseInt(iso[2], 10);
+    day = parseInt(iso[3], 10);
+  } else {
+    const dayFirst = text.match(/^([0-9]{1,2})([/.-])([0-9]{1,2})\2([0-9]{4})$/);
+    if (!dayFirst) {
+      return undefined;
+    }
+    day = parseInt(dayFirst[1], 10);
+    month = parseInt(dayFirst[3], 10);
+    year = parseInt(dayFirst[4], 10);
+    if (month > 12 && day <= 12) {
+      [day, month] = [month, day];
+    }
+  }
+  const date = { year: toGregorianYear(year), month, day };
+  return isValidDateLiteral(date) ? date : undefined;
+}
+
 function classifyLexKind(value: string): {
   kind: LexKind;
   value?: number;
@@ -48,6 +102,10 @@ function classifyLexKind(value: string): {
     };
   }
 
+  if (parseDateLiteral(lower)) {
+    return { kind: LexKind.Date };
+  }
+
   if (/^[0-9]+(?:st|nd|rd|th)$/i.test(lower)) {
     return { kind: LexKind.Ordinal };
   }
@@ -502,7 +560,8 @@ function pushTextToken(output: LexToken[], surface: SurfaceToken, input: string)
   pushSplitParts(output, surface, splitCompactToken(surface.original), input);
 }
 
-export function lexInput(input: string): LexToken[] {
+export function lexInput(source: string): LexToken[] {
+  const input = normalizeThaiDigits(source);
   const surfaces = scanSurfaceTokens(input);
   const output: LexToken[] = [];
   let index = 0;
@@ -574,7 +633,12 @@ export function lexInput(input: string): LexToken[] {
       continue;
     }
 
-    pushTextToken(output, current, input);
+    const thaiParts = segmentThaiSurface(current.original);
+    if (thaiParts) {
+      pushSplitParts(output, current, thaiParts, input);
+    } else {
+      pushTextToken(output, current, input);
+    }
     index += 1;
   }
 
@@ -122,7 +122,23 @@ const ADMINISTRATION_METHOD_WORDS = new Set([
   "instill",
   "reapply",
   "wash",
-  "shampoo"
+  "shampoo",
+  "รับประทาน",
+  "ทาน",
+  "กิน",
+  "ดื่ม",
+  "กลืน",
+  "ทา",
+  "ถู",
+  "นวด",
+  "แต้ม",
+  "ล้าง",
+  "สระ",
+  "พ่น",
+  "หยอด",
+  "สอด",
+  "เหน็บ",
+  "ใช้"
 ]);
 
 const ADMINISTRATION_ROUTE_HINTS: Record<string, RouteCode> = {
@@ -137,7 +153,18 @@ const ADMINISTRATION_ROUTE_HINTS: Record<string, RouteCode> = {
   shampoo: RouteCode["Topical route"],
   take: RouteCode["Oral route"],
   drink: RouteCode["Oral route"],
-  swallow: RouteCode["Oral route"]
+  swallow: RouteCode["Oral route"],
+  รับประทาน: RouteCode["Oral route"],
+  ทาน: RouteCode["Oral route"],
+  กิน: RouteCode["Oral route"],
+  ดื่ม: RouteCode["Oral route"],
+  กลืน: RouteCode["Oral route"],
+  ทา: RouteCode["Topical route"],
+  ถู: RouteCode["Topical route"],
+  นวด: RouteCode["Topical route"],
+  แต้ม: RouteCode["Topical route"],
+  ล้าง: RouteCode["Topical route"],
+  สระ: RouteCode["Topical route"]
 };
 
 const COUNT_KEYWORDS = new Set([
@@ -0,0 +1,141 @@
+import {
+  DAY_OF_WEEK_TOKENS,
+  DEFAULT_BODY_SITE_SNOMED,
+  DEFAULT_PRN_REASON_DEFINITIONS,
+  DEFAULT_ROUTE_SYNONYMS,
+  DEFAULT_UNIT_SYNONYMS,
+  EVENT_TIMING_TOKENS,
+  TIMING_ABBREVIATIONS
+} from "../maps";
+import { LEXICAL_CLASS_TERMS } from "../hpsg/lexical-classes";
+import { METHOD_VERB_ALIASES } from "../hpsg/method-lexicon";
+
+const THAI_CHAR = /[\u0E00-\u0E7F]/;
+const THAI_DIGIT = /[\u0E50-\u0E59]/g;
+const THAI_DIGIT_ZERO = 0x0e50;
+// Single letters are weekday abbreviations; letting them split words would
+// carve unknown text into nonsense.
+const MIN_WORD_LENGTH = 2;
+const SEGMENTABLE_SURFACE = /^(?:[\u0E00-\u0E7F]+|[0-9]+(?:\.[0-9]+)?|[a-z]+|-)+\.?$/;
+const SURFACE_RUN = /[\u0E00-\u0E7F]+|[0-9]+(?:\.[0-9]+)?|[a-z]+|-/g;
+
+let vocabulary: { words: Set<string>; maxLength: number } | undefined;
+
+/** Rewrites Thai digits (๐-๙) as ASCII digits; the length is unchanged. */
+export function normalizeThaiDigits(input: string): string {
+  return input.replace(THAI_DIGIT, (digit) =>
+    String.fromCharCode(48 + digit.charCodeAt(0) - THAI_DIGIT_ZERO)
+  );
+}
+
+export function hasThaiText(value: string): boolean {
+  return THAI_CHAR.test(value);
+}
+
+function addThaiWords(words: Set<string>, keys: Iterable<string>): void {
+  for (const key of Array.from(keys)) {
+    for (const word of key.toLowerCase().split(/\s+/)) {
+      const trimmed = word.replace(/\.+$/, "");
+      if (trimmed.length >= MIN_WORD_LENGTH && hasThaiText(trimmed)) {
+        words.add(trimmed);
+      }
+    }
+  }
+}
+
+function thaiVocabulary(): { words: Set<string>; maxLength: number } {
+  if (vocabulary) {
+    return vocabulary;
+  }
+  const words = new Set<string>();
+  addThaiWords(words, LEXICAL_CLASS_TERMS);
+  addThaiWords(words, Object.keys(DEFAULT_UNIT_SYNONYMS));
+  addThaiWords(words, Object.keys(DEFAULT_ROUTE_SYNONYMS));
+  addThaiWords(words, Object.keys(EVENT_TIMING_TOKENS));
+  addThaiWords(words, Object.keys(TIMING_ABBREVIATIONS));
+  addThaiWords(words, Object.keys(DAY_OF_WEEK_TOKENS));
+  addThaiWords(words, Object.keys(DEFAULT_BODY_SITE_SNOMED));
+  addThaiWords(words, Object.keys(DEFAULT_PRN_REASON_DEFINITIONS));
+  addThaiWords(words, Object.keys(METHOD_VERB_ALIASES));
+  let maxLength = 0;
+  words.forEach((word) => {
+    maxLength = Math.max(maxLength, word.length);
+  });
+  vocabulary = { words, maxLength };
+  return vocabulary;
+}
+
+/**
+ * Splits a run of Thai letters into the fewest known words, preferring the
+ * longer word first on ties. Returns undefined unless the words cover the
+ * whole run, so unfamiliar text stays intact.
+ */
+function segmentThaiRun(run: string): string[] | undefined {
+  const { words, maxLength } = thaiVocabulary();
+  const pieces: Array<number | undefined> = new Array(run.length + 1);
+  const next: number[] = new Array(run.length + 1);
+  pieces[run.length] = 0;
+  for (let start = run.length - 1; start >= 0; start -= 1) {
+    for (let end = Math.min(run.length, start + maxLength); end >= start + MIN_WORD_LENGTH; end -= 1) {
+      const rest = pieces[end];
+      if (rest === undefined || !words.has(run.slice(start, end))) {
+        continue;
+      }
+      const current = pieces[start];
+      if (current === undefined || rest + 1 < current) {
+        pieces[start] = rest + 1;
+        next[start] = end;
+      }
+    }
+  }
+  if (pieces[0] === undefined) {
+    return undefined;
+  }
+  const segments: string[] = [];
+  for (let cursor = 0; cursor < run.length; cursor = next[cursor]) {
+    segments.push(run.slice(cursor, next[cursor]));
+  }
+  return segments;
+}
+
+/**
+ * Thai is written without spaces between words, so `ครั้งละ1เม็ดวันละ3ครั้ง`
+ * arrives as one surface. Splits such a surface into known words and the
+ * numbers between them; returns undefined when the surface is already a
+ * single word or holds text the vocabulary cannot account for.
+ */
+export function segmentThaiSurface(surface: string): string[] | undefined {
+  const lower = surface.toLowerCase();
+  if (!hasThaiText(lower) || !SEGMENTABLE_SURFACE.test(lower)) {
+    return undefined;
+  }
+  const trailingDot = lower.endsWith(".");
+  const { words } = thaiVocabulary();
+  if (words.has(trailingDot ? lower.slice(0, -1) : lower)) {
+    return undefined;
+  }
+  const parts: string[] = [];
+  for (const run of lower.match(SURFACE_RUN) ?? []) {
+    if (!hasThaiText(run)) {
+      parts.push(run);
+      continue;
+    }
+    const segments = segmentThaiRun(run);
+    if (!segments) {
+      return undefined;
+    }
+    parts.push(...segments);
+  }
+  if (parts.length < 2) {
+    return undefined;
+  }
+  if (trailingDot) {
+    parts[parts.length - 1] += ".";
+  }
+  let offset = 0;
+  return parts.map((part) => {
+    const original = surface.slice(offset, offset + part.length);
+    offset += part.length;
+    return original;
+  });
+}
@@ -10,6 +10,7 @@ export enum LexKind {
   NumberRange = "NUMBER_RANGE",
   Ordinal = "ORDINAL",
   TimeLike = "TIME_LIKE",
+  Date = "DATE",
   Separator = "SEPARATOR",
   Punctuation = "PUNCTUATION"
 }
@@ -37,3 +38,10 @@ export interface LexToken {
   sourceText?: string;
   derived?: true;
 }
+
+/** Calendar date read from a literal such as `2026-11-02` or `2/11/2569`. */
+export interface DateLiteral {
+  year: number;
+  month: number;
+  day: number;
+}
@@ -0,0 +1,752 @@
+import { findAdditionalInstructionDefinitionByCoding } from "./advice";
+import { findPrnReasonDefinitionByCoding, isInfusionRoute } from "./maps";
+import type { SigLocalization } from "./i18n";
+import {
+  CanonicalDoseExpr,
+  CanonicalEventAnchor,
+  CanonicalMaxDoseExpr,
+  CanonicalMaxDoseQuantity,
+  CanonicalPrnReasonExpr,
+  CanonicalRateExpr,
+  CanonicalScheduleCycle,
+  CanonicalScheduleExpr,
+  CanonicalSigClause,
+  CanonicalSlidingScaleExpr,
+  CanonicalSlidingScaleTier,
+  EventAnchorRelation,
+  EventTiming,
+  FhirPeriodUnit,
+  MarLabels,
+  RouteCode
+} from "./types";
+import {
+  getMealTimingGroup,
+  inferDailyOccurrenceCount,
+  type TimingSummaryOptions
+} from "./timing-summary";
+import { groupCycleDays } from "./timing-cycle";
+import { calendarDaysCoverFrequency } from "./timing-calendar";
+import { readEventDateTime } from "./timing-event";
+
+/**
+ * A word with distinct singular and plural spellings, or one spelling for
+ * languages that do not inflect for number.
+ */
+export type SigLocaleForms = string | { one: string; other: string };
+
+/** Parts of the long sentence, placed by `SigLocalePack.sentence.order`. */
+export type SigLocaleSegment =
+  | "verb"
+  | "dose"
+  | "route"
+  | "site"
+  | "rate"
+  | "frequency"
+  | "event"
+  | "whileAwake"
+  | "anchor"
+  | "eventDate"
+  | "dayOfWeek"
+  | "calendar"
+  | "cycle"
+  | "count"
+  | "duration"
+  | "asNeeded"
+  | "slidingScale";
+
+export interface SigLocaleRoute {
+  /** Verb for the route, e.g. `口服`; it wins over the method verb. */
+  verb?: string;
+  /** Route phrase for the `route` segment, e.g. `by mouth`. */
+  phrase?: string;
+  /** Replaces the verb when a site is present, e.g. `滴入{site}`. */
+  withSite?: string;
+}
+
+/**
+ * Declarative description of how a language phrases a sig. Templates fill
+ * `{name}` placeholders; lookups keyed by English text use lower case.
+ */
+export interface SigLocalePack {
+  locale: string;
+  sentence: {
+    order: SigLocaleSegment[];
+    /** Between segments of the main sentence. */
+    separator: string;
+    /** Closes each sentence, e.g. `.` or `。`. */
+    end: string;
+    /** Between the main sentence and trailing instruction sentences. */
+    between: string;
+  };
+  list: {
+    /** Between all but the last two items. */
+    separator: string;
+    /** Before the last item, e.g. ` and ` or `和`. */
+    and: string;
+    /** Before the last alternative, e.g. ` or ` or `或`. */
+    or: string;
+  };
+  /** `{low}` to `{high}` for ranges of numbers. */
+  range: string;
+  /** A count of `{unit}`, e.g. `{n} {unit}` or `{n}{unit}`. */
+  quantity: string;
+  periods: Record<FhirPeriodUnit, SigLocaleForms>;
+  verbs: {
+    default: string;
+    /** Used for rated intravenous orders. */
+    infuse?: string;
+    /** Keyed by the English method text, e.g. `take`. */
+    methods?: Record<string, string>;
+  };
+  routes?: Partial<Record<RouteCode, SigLocaleRoute>>;
+  dose: {
+    /** Whole dose segment, e.g. `每次{dose}`. */
+    template: string;
+    /** `{value}` with its `{unit}`. */
+    amount: string;
+    atLeast: string;
+    upTo: string;
+    /** Weight- or BSA-based dose with its calculated amount. */
+    calculated: string;
+    /** Object used when the sig has no dose, e.g. `the medication`. */
+    medication?: string;
+  };
+  /** Keyed by the canonical unit in lower case, e.g. `tab`, `drop`. */
+  units?: Record<string, SigLocaleForms>;
+  frequency: {
+    perDay: string;
+    perDayRange: string;
+    /** Overrides for common daily counts, e.g. `{ "2": "twice daily" }`. */
+    perDayNamed?: Record<string, string>;
+    /** `{amount}` is a period such as `6 hours`. */
+    every: string;
+    /** Once per week, month or year: `{unit}` is the singular period. */
+    oncePer: string;
+    everyOtherDay: string;
+    once: string;
+    times: string;
+  };
+  when: Partial<Record<EventTiming, string>>;
+  meals: {
+    breakfast: string;
+    lunch: string;
+    dinner: string;
+    before: string;
+    after: string;
+    with: string;
+  };
+  /** Clock times, `{times}` being `HH:mm` values. */
+  timeOfDay: string;
+  days: Record<string, string>;
+  dayOfWeek: string;
+  calendar: {
+    day: string;
+    lastDay: string;
+    weekday: string;
+    lastWeekday: string;
+    /** The days recur every month. */
+    everyMonth: string;
+    /** The days pick out occurrences of a longer interval. */
+    month: string;
+  };
+  cycle: {
+    days: string;
+    withLength: string;
+  };
+  events: {
+    date: string;
+    dateTime: string;
+    template: string;
+    /** Added to the Gregorian year, e.g. 543 for Buddhist-era years. */
+    yearOffset?: number;
+    /** Month names for `{monthName}`, January first. */
+    months?: string[];
+  };
+  anchor: {
+    before: string;
+    after: string;
+    beforeOffset: string;
+    afterOffset: string;
+    days: string;
+  };
+  /** `while awake` qualifier of the schedule. */
+  whileAwake: string;
+  count: string;
+  duration: string;
+  asNeeded: string;
+  asNeededFor: string;
+  /** Keyed by SNOMED code or English reason text. */
+  prnReasons?: Record<string, string>;
+  site: string;
+  /** Keyed by SNOMED code or English site text. */
+  sites?: Record<string, string>;
+  /** Laterality templates applied to `left …`/`right …`/`both …` sites. */
+  siteSides?: { left: string; right: string; both: string };
+  rate: string;
+  maxDose: {
+    template: string;
+    perAdministration: string;
+    perPeriod: string;
+    perLifetime: string;
+  };
+  slidingScale: {
+    basis: string;
+    defaultBasis: string;
+    correction: string;
+    /** Closes the sentence that introduces the table. */
+    lead: string;
+    row: string;
+    hold: string;
+    above: string;
+    atLeast: string;
+    below: string;
+    atMost: string;
+    between: string;
+    observations?: Record<string, string>;
+  };
+  /** Keyed by SNOMED code or English instruction text. */
+  advice?: Record<string, string>;
+  /** Headings of rendered MARs. */
+  marLabels?: Partial<MarLabels>;
+}
+
+const DAILY_TIMING_CODES: Record<string, CanonicalScheduleExpr> = {
+  QD: { frequency: 1, period: 1, periodUnit: FhirPeriodUnit.Day },
+  BID: { frequency: 2, period: 1, periodUnit: FhirPeriodUnit.Day },
+  TID: { frequency: 3, period: 1, periodUnit: FhirPeriodUnit.Day },
+  QID: { frequency: 4, period: 1, periodUnit: FhirPeriodUnit.Day },
+  QOD: { period: 2, periodUnit: FhirPeriodUnit.Day },
+  Q6H: { period: 6, periodUnit: FhirPeriodUnit.Hour },
+  Q8H: { period: 8, periodUnit: FhirPeriodUnit.Hour },
+  WK: { period: 1, periodUnit: FhirPeriodUnit.Week },
+  MO: { period: 1, periodUnit: FhirPeriodUnit.Month }
+};
+
+function fill(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = values[name];
+    return value === undefined ? match : String(value);
+  });
+}
+
+function pickForm(forms: SigLocaleForms, value: number): string {
+  if (typeof forms === "string") {
+    return forms;
+  }
+  return Math.abs(value) === 1 ? forms.one : forms.other;
+}
+
+function lookup(map: Record<string, string> | undefined, ...keys: Array<string | undefined>): string | undefined {
+  if (!map) {
+    return undefined;
+  }
+  for (const key of keys) {
+    const normalized = key?.trim().toLowerCase();
+    if (normalized && map[normalized] !== undefined) {
+      return map[normalized];
+    }
+  }
+  return undefined;
+}
+
+function joinList(pack: SigLocalePack, parts: string[], conjunction = pack.list.and): string {
+  if (parts.length <= 1) {
+    return parts[0] ?? "";
+  }
+  return `${parts.slice(0, -1).join(pack.list.separator)}${conjunction}${parts[parts.length - 1]}`;
+}
+
+function numberText(pack: SigLocalePack, low: number, high?: number): string {
+  if (high === undefined || high === low) {
+    return stripTrailingZero(low);
+  }
+  return fill(pack.range, { low: stripTrailingZero(low), high: stripTrailingZero(high) });
+}
+
+function periodQuantity(pack: SigLocalePack, unit: FhirPeriodUnit, low: number, high?: number): string {
+  return fill(pack.quantity, {
+    n: numberText(pack, low, high),
+    unit: pickForm(pack.periods[unit] ?? unit, high ?? low)
+  });
+}
+
+/** `小时` for a single unit, otherwise `2小时`. */
+function perPeriodText(pack: SigLocalePack, window: { period?: number; periodUnit: FhirPeriodUnit }): string {
+  if (window.period === undefined || window.period === 1) {
+    return pickForm(pack.periods[window.periodUnit] ?? window.periodUnit, 1);
+  }
+  return periodQuantity(pack, window.periodUnit, window.period);
+}
+
+function unitText(pack: SigLocalePack, unit: string, value: number): string {
+  const forms = pack.units?.[unit.toLowerCase()];
+  return forms ? pickForm(forms, value) : unit;
+}
+
+function formatAmount(pack: SigLocalePack, value: string, unit: string | undefined, count: number): string {
+  if (!unit) {
+    return value;
+  }
+  return fill(pack.dose.amount, { value, unit: unitText(pack, unit, count) });
+}
+
+function formatDose(pack: SigLocalePack, dose: CanonicalDoseExpr | undefined): string | undefined {
+  if (!dose) {
+    return undefined;
+  }
+  if (dose.basisUnit) {
+    const ordered = formatDose(pack, {
+      value: dose.value,
+      range: dose.range,
+      unit: dose.unit ? `${dose.unit}/${dose.basisUnit === "m2" ? "m²" : dose.basisUnit}` : undefined
+    });
+    const calculated = formatDose(pack, dose.calculated);
+    return ordered && calculated ? fill(pack.dose.calculated, { ordered, calculated }) : ordered;
+  }
+  const { range } = dose;
+  if (range?.low !== undefined && range.high !== undefined) {
+    return formatAmount(pack, numberText(pack, range.low, range.high), dose.unit, range.high);
+  }
+  if (range?.low !== undefined) {
+    return fill(pack.dose.atLeast, { value: formatAmount(pack, stripTrailingZero(range.low), dose.unit, range.low) });
+  }
+  if (range?.high !== undefined) {
+    return fill(pack.dose.upTo, { value: formatAmount(pack, stripTrailingZero(range.high), dose.unit, range.high) });
+  }
+  if (dose.value !== undefined) {
+    return formatAmount(pack, stripTrailingZero(dose.value), dose.unit, dose.value);
+  }
+  return undefined;
+}
+
+function describeFrequency(pack: SigLocalePack, schedule: CanonicalScheduleExpr): string | undefined {
+  const { frequency, frequencyMax, period, periodMax, periodUnit } = schedule;
+  const templates = pack.frequency;
+  if (frequency && periodUnit === FhirPeriodUnit.Day && (!period || period === 1)) {
+    if (frequencyMax !== undefined && frequencyMax !== frequency) {
+      return fill(templates.perDayRange, {
+        low: stripTrailingZero(frequency),
+        high: stripTrailingZero(frequencyMax)
+      });
+    }
+    return templates.perDayNamed?.[String(frequency)] ?? fill(templates.perDay, { n: stripTrailingZero(frequency) });
+  }
+  if (periodUnit && period) {
+    const ranged = periodMax !== undefined && periodMax !== period;
+    if (periodUnit === FhirPeriodUnit.Day && period === 2 && !ranged) {
+      return templates.everyOtherDay;
+    }
+    if (
+      period === 1 &&
+      !ranged &&
+      (periodUnit === FhirPeriodUnit.Week || periodUnit === FhirPeriodUnit.Month || periodUnit === FhirPeriodUnit.Year)
+    ) {
+      return fill(templates.oncePer, { unit: pickForm(pack.periods[periodUnit], 1) });
+    }
+    if (periodUnit !== FhirPeriodUnit.Day || period !== 1) {
+      return fill(templates.every, { amount: periodQuantity(pack, periodUnit, period, ranged ? periodMax : undefined) });
+    }
+  }
+  const coded = schedule.timingCode ? DAILY_TIMING_CODES[schedule.timingCode.toUpperCase()] : undefined;
+  if (coded) {
+    return describeFrequency(pack, coded);
+  }
+  if (frequency && periodUnit === undefined && period === undefined) {
+    return frequency === 1 ? templates.once : fill(templates.times, { n: stripTrailingZero(frequency) });
+  }
+  return undefined;
+}
+
+function describeStandaloneCount(pack: SigLocalePack, schedule: CanonicalScheduleExpr): string | undefined {
+  const count = schedule.count;
+  if (!count || count <= 0) {
+    return undefined;
+  }
+  if (
+    schedule.frequency !== undefined ||
+    schedule.frequencyMax !== undefined ||
+    schedule.period !== undefined ||
+    schedule.periodMax !== undefined ||
+    schedule.periodUnit !== undefined ||
+    schedule.dayOfWeek?.length ||
+    schedule.when?.length ||
+    schedule.timeOfDay?.length ||
+    schedule.duration !== undefined ||
+    schedule.durationMax !== undefined ||
+    schedule.durationUnit !== undefined ||
+    schedule.timingCode
+  ) {
+    return undefined;
+  }
+  return count === 1 ? pack.frequency.once : fill(pack.frequency.times, { n: stripTrailingZero(count) });
+}
+
+function collectWhenPhrases(
+  pack: SigLocalePack,
+  schedule: CanonicalScheduleExpr,
+  options?: TimingSummaryOptions
+): string[] {
+  const unique = Array.from(new Set(schedule.when ?? []));
+  const has = (...codes: EventTiming[]) => codes.some((code) => unique.indexOf(code) !== -1);
+  const filtered = unique.filter((code) => {
+    if (code === EventTiming["After Meal"]) {
+      return !has(EventTiming["After Breakfast"], EventTiming["After Lunch"], EventTiming["After Dinner"]);
+    }
+    if (code === EventTiming["Before Meal"]) {
+      return !has(EventTiming["Before Breakfast"], EventTiming["Before Lunch"], EventTiming["Before Dinner"]);
+    }
+    if (code === EventTiming.Meal) {
+      return !has(EventTiming.Breakfast, EventTiming.Lunch, EventTiming.Dinner);
+    }
+    return true;
+  });
+  const group = getMealTimingGroup(filtered, options);
+  const grouped = new Set<EventTiming>(group?.codes ?? []);
+  const phrases: string[] = [];
+  let insertedGroup = false;
+  for (const code of filtered) {
+    if (group && grouped.has(code)) {
+      if (!insertedGroup) {
+        const meals = joinList(pack, group.meals.map((meal) => pack.meals[meal]));
+        phrases.push(fill(pack.meals[group.relation], { meals }));
+        insertedGroup = true;
+      }
+      continue;
+    }
+    phrases.push(pack.when[code] ?? code);
+  }
+  if (schedule.timeOfDay?.length) {
+    const times = schedule.timeOfDay.map((time) => time.slice(0, 5));
+    phrases.push(fill(pack.timeOfDay, { times: joinList(pack, times) }));
+  }
+  return phrases;
+}
+
+function describeDayOfWeek(pack: SigLocalePack, schedule: CanonicalScheduleExpr): string | undefined {
+  const days = (schedule.dayOfWeek ?? []).map((day) => pack.days[day] ?? day);
+  return days.length ? fill(pack.dayOfWeek, { days: joinList(pack, days) }) : undefined;
+}
+
+function describeCalendarDays(pack: SigLocalePack, schedule: CanonicalScheduleExpr): string | undefined {
+  const items: string[] = [];
+  for (const day of schedule.dayOfMonth ?? []) {
+    items.push(day === -1 ? pack.calendar.lastDay : fill(pack.calendar.day, { n: day }));
+  }
+  for (const entry of schedule.weekdayOfMonth ?? []) {
+    const day = pack.days[entry.day] ?? entry.day;
+    items.push(
+      entry.ordinal === -1
+        ? fill(pack.calendar.lastWeekday, { day })
+        : fill(pack.calendar.weekday, { n: entry.ordinal, day })
+    );
+  }
+  if (!items.length) {
+    return undefined;
+  }
+  const template = calendarDaysCoverFrequency(schedule) ? pack.calendar.everyMonth : pack.calendar.month;
+  return fill(template, { days: joinList(pack, items) });
+}
+
+function describeCycle(pack: SigLocalePack, cycle: CanonicalScheduleCycle | undefined): string | undefined {
+  if (!cycle?.activeDays.length) {
+    return undefined;
+  }
+  const runs = groupCycleDays(cycle.activeDays).map(([low, high]) => (low === high ? `${low}` : `${low}-${high}`));
+  const days = fill(pack.cycle.days, { days: joinList(pack, runs) });
+  return cycle.length ? fill(pack.cycle.withLength, { days, length: cycle.length }) : days;
+}
+
+function describeEvents(pack: SigLocalePack, schedule: CanonicalScheduleExpr): string | undefined {
+  if (!schedule.event?.length) {
+    return undefined;
+  }
+  const items = schedule.event.map((event) => {
+    const parts = readEventDateTime(event);
+    if (!parts) {
+      return event;
+    }
+    const { year, month, day } = parts.date;
+    const date = fill(pack.events.date, {
+      year: year + (pack.events.yearOffset ?? 0),
+      month,
+      monthName: pack.events.months?.[month - 1] ?? month,
+      day
+    });
+    return parts.clock ? fill(pack.events.dateTime, { date, clock: parts.clock.slice(0, 5) }) : date;
+  });
+  return fill(pack.events.template, { events: joinList(pack, items) });
+}
+
+function describeAnchor(pack: SigLocalePack, anchor: CanonicalEventAnchor | undefined): string | undefined {
+  if (!anchor) {
+    return undefined;
+  }
+  if (!anchor.relation) {
+    return fill(pack.anchor.days, { event: anchor.text });
+  }
+  const before = anchor.relation === EventAnchorRelation.Before;
+  if (!anchor.offset) {
+    return fill(before ? pack.anchor.before : pack.anchor.after, { event: anchor.text });
+  }
+  const offset = anchor.offset % 60 === 0
+    ? periodQuantity(pack, FhirPeriodUnit.Hour, anchor.offset / 60)
+    : periodQuantity(pack, FhirPeriodUnit.Minute, anchor.offset);
+  return fill(before ? pack.anchor.beforeOffset : pack.anchor.afterOffset, { event: anchor.text, offset });
+}
+
+function describeDuration(pack: SigLocalePack, schedule: CanonicalScheduleExpr): string | undefined {
+  if (schedule.duration === undefined || !schedule.durationUnit) {
+    return undefined;
+  }
+  return fill(pack.duration, {
+    amount: periodQuantity(pack, schedule.durationUnit, schedule.duration, schedule.durationMax)
+  });
+}
+
+function describeRate(pack: SigLocalePack, rate: CanonicalRateExpr | undefined): string | undefined {
+  if (!rate) {
+    return undefined;
+  }
+  let value: string | undefined;
+  if (rate.range?.low !== undefined && rate.range.high !== undefined) {
+    value = numberText(pack, rate.range.low, rate.range.high);
+  } else if (rate.value !== undefined) {
+    value = stripTrailingZero(rate.value);
+  }
+  if (value === undefined) {
+    return undefined;
+  }
+  const unit = [rate.unit, rate.perWeightUnit].filter(Boolean).join("/");
+  const amount = unit ? fill(pack.dose.amount, { value, unit }) : value;
+  return fill(pack.rate, { amount, period: perPeriodText(pack, rate) });
+}
+
+function describeMaxDose(pack: SigLocalePack, maxDose: CanonicalMaxDoseExpr | undefined): string | undefined {
+  if (!maxDose) {
+    return undefined;
+  }
+  const amount = (limit: CanonicalMaxDoseQuantity) =>
+    formatAmount(pack, stripTrailingZero(limit.value), limit.unit ?? "dose", limit.value);
+  const limits: string[] = [];
+  if (maxDose.perAdministration) {
+    limits.push(fill(pack.maxDose.perAdministration, { amount: amount(maxDose.perAdministration) }));
+  }
+  for (const limit of maxDose.perPeriod ?? []) {
+    limits.push(fill(pack.maxDose.perPeriod, { amount: amount(limit), period: perPeriodText(pack, limit) }));
+  }
+  if (maxDose.perLifetime) {
+    limits.push(fill(pack.maxDose.perLifetime, { amount: amount(maxDose.perLifetime) }));
+  }
+  if (!limits.length) {
+    return undefined;
+  }
+  return `${fill(pack.maxDose.template, { limits: joinList(pack, limits, pack.list.or) })}${pack.sentence.end}`;
+}
+
+function describeSlidingScaleBound(
+  pack: SigLocalePack,
+  tier: CanonicalSlidingScaleTier,
+  unit: string | undefined
+): string {
+  const value = (amount: number | undefined) => formatAmount(pack, stripTrailingZero(amount ?? 0), unit, amount ?? 0);
+  const templates = pack.slidingScale;
+  switch (tier.comparator) {
+    case ">":
+      return fill(templates.above, { value: value(tier.low) });
+    case ">=":
+      return fill(templates.atLeast, { value: value(tier.low) });
+    case "<":
+      return fill(templates.below, { value: value(tier.high) });
+    case "<=":
+      return fill(templates.atMost, { value: value(tier.high) });
+    default:
+      return fill(templates.between, { low: stripTrailingZero(tier.low ?? 0), high: value(tier.high) });
+  }
+}
+
+function formatSlidingScaleRows(pack: SigLocalePack, scale: CanonicalSlidingScaleExpr | undefined): string | undefined {
+  if (!scale?.tiers.length) {
+    return undefined;
+  }
+  return scale.tiers
+    .map((tier) =>
+      fill(pack.slidingScale.row, {
+        bound: describeSlidingScaleBound(pack, tier, scale.observationUnit),
+        dose: tier.value === 0 ? pack.slidingScale.hold : formatDose(pack, { value: tier.value, unit: tier.unit }) ?? ""
+      })
+    )
+    .join("\n");
+}
+
+function translatePrnReason(pack: SigLocalePack, reason: CanonicalPrnReasonExpr): string | undefined {
+  const coding = reason.coding;
+  const definition = coding?.code
+    ? findPrnReasonDefinitionByCoding(coding.system ?? "http://snomed.info/sct", coding.code.split(":")[0])
+    : undefined;
+  return (
+    definition?.i18n?.[pack.locale] ??
+    lookup(pack.prnReasons, coding?.code?.split(":")[0], definition?.text, reason.text, coding?.display) ??
+    reason.text ??
+    coding?.display
+  );
+}
+
+function describeAsNeeded(pack: SigLocalePack, clause: CanonicalSigClause): string | undefined {
+  if (!clause.prn?.enabled) {
+    return undefined;
+  }
+  const reasons = clause.prn.reasons?.length ? clause.prn.reasons : clause.prn.reason ? [clause.prn.reason] : [];
+  const texts = reasons
+    .map((reason) => translatePrnReason(pack, reason))
+    .filter((text): text is string => Boolean(text));
+  return texts.length
+    ? fill(pack.asNeededFor, { reason: joinList(pack, texts, pack.list.or) })
+    : pack.asNeeded;
+}
+
+function translateSite(pack: SigLocalePack, text: string, code: string | undefined): string {
+  const direct = lookup(pack.sites, code, text);
+  if (direct || !pack.siteSides) {
+    return direct ?? text;
+  }
+  const match = text.trim().toLowerCase().match(/^(left|right|both) (.+)$/);
+  const base = match ? lookup(pack.sites, match[2]) : undefined;
+  return match && base ? fill(pack.siteSides[match[1] as "left" | "right" | "both"], { site: base }) : text;
+}
+
+function describeSite(pack: SigLocalePack, clause: CanonicalSigClause): string | undefined {
+  const site = clause.site;
+  const text = site?.text?.trim() || site?.coding?.display?.trim();
+  if (!text) {
+    return undefined;
+  }
+  const lower = text.toLowerCase();
+  const routeCode = clause.route?.code;
+  if (routeCode === RouteCode["Per rectum"] && (lower === "rectum" || lower === "rectal")) {
+    return undefined;
+  }
+  if (routeCode === RouteCode["Per vagina"] && (lower === "vagina" || lower === "vaginal")) {
+    return undefined;
+  }
+  return translateSite(pack, text, site?.coding?.code);
+}
+
+function describeAdditionalInstructions(pack: SigLocalePack, clause: CanonicalSigClause): string | undefined {
+  const phrases: string[] = [];
+  for (const instruction of clause.additionalInstructions ?? []) {
+    const code = instruction.coding?.code;
+    const definition = code
+      ? findAdditionalInstructionDefinitionByCoding(instruction.coding?.system ?? "http://snomed.info/sct", code)
+      : undefined;
+    const text =
+      definition?.i18n?.[pack.locale] ??
+      lookup(pack.advice, code, instruction.text, definition?.text) ??
+      instruction.text ??
+      instruction.coding?.display;
+    if (text?.trim()) {
+      phrases.push(text.trim());
+    }
+  }
+  return phrases.length ? phrases.map((phrase) => closeSentence(pack, phrase)).join(pack.sentence.between) : undefined;
+}
+
+function closeSentence(pack: SigLocalePack, text: string): string {
+  return /[.!?。！？]$/.test(text) ? text : `${text}${pack.sentence.end}`;
+}
+
+function formatLongFromPack(
+  pack: SigLocalePack,
+  clause: CanonicalSigClause,
+  options?: TimingSummaryOptions
+): string {
+  const schedule = clause.schedule ?? {};
+  const route = clause.route?.code ? pack.routes?.[clause.route.code] : undefined;
+  const method = clause.method?.text ? lookup(pack.verbs.methods, clause.method.text) : undefined;
+  const infuse = clause.rate && isInfusionRoute(clause.route?.code)
+    ? pack.verbs.infuse
+    : undefined;
+  const site = describeSite(pack, clause);
+  const siteVerb = site && route?.withSite ? fill(route.withSite, { site }) : undefined;
+  const explicitDose = formatDose(pack, clause.dose);
+  const rate = describeRate(pack, clause.rate);
+  const slidingScaleRows = formatSlidingScaleRows(pack, clause.slidingScale);
+  const standaloneCount = describeStandaloneCount(pack, schedule);
+  const frequency = calendarDaysCoverFrequency(schedule)
+    ? undefined
+    : describeFrequency(pack, schedule) ??
+      standaloneCount ??
+      (() => {
+        const count = inferDailyOccurrenceCount(schedule, options);
+        return count ? describeFrequency(pack, { frequency: count, period: 1, periodUnit: FhirPeriodUnit.Day }) : undefined;
+      })();
+  const events = collectWhenPhrases(pack, schedule, options);
+  const doseText = explicitDose ?? (!rate && !slidingScaleRows ? pack.dose.medication : undefined);
+  let slidingScale: string | undefined;
+  if (slidingScaleRows) {
+    const observation = clause.slidingScale?.observation;
+    const basis = observation
+      ? fill(pack.slidingScale.basis, {
+          observation: lookup(pack.slidingScale.observations, observation) ?? observation
+        })
+      : pack.slidingScale.defaultBasis;
+    slidingScale = explicitDose ? fill(pack.slidingScale.correction, { basis }) : basis;
+  }
+
+  const segments: Record<SigLocaleSegment, string | undefined> = {
+    verb: siteVerb ?? route?.verb ?? infuse ?? method ?? pack.verbs.default,
+    dose: doseText ? fill(pack.dose.template, { dose: doseText }) : undefined,
+    route: route?.phrase,
+    site: siteVerb ? undefined : site ? fill(pack.site, { site }) : undefined,
+    rate,
+    frequency,
+    event: events.length ? joinList(pack, events) : undefined,
+    whileAwake: schedule.whileAwake ? pack.whileAwake : undefined,
+    anchor: describeAnchor(pack, schedule.anchor),
+    eventDate: describeEvents(pack, schedule),
+    dayOfWeek: describeDayOfWeek(pack, schedule),
+    calendar: describeCalendarDays(pack, schedule),
+    cycle: describeCycle(pack, schedule.cycle),
+    count: schedule.count !== undefined && !standaloneCount
+      ? fill(pack.count, { n: stripTrailingZero(schedule.count) })
+      : undefined,
+    duration: describeDuration(pack, schedule),
+    asNeeded: describeAsNeeded(pack, clause),
+    slidingScale
+  };
+  const body = pack.sentence.order
+    .map((name) => segments[name])
+    .filter((segment): segment is string => Boolean(segment))
+    .join(pack.sentence.separator);
+
+  const trailing = [
+    describeMaxDose(pack, clause.maxDose),
+    describeAdditionalInstructions(pack, clause),
+    clause.patientInstruction?.trim() ? closeSentence(pack, clause.patientInstruction.trim()) : undefined
+  ].filter((text): text is string => Boolean(text));
+  if (slidingScaleRows) {
+    const table = `${body}${pack.slidingScale.lead}\n${slidingScaleRows}`;
+    return trailing.length ? `${table}\n${trailing.join(pack.sentence.between)}` : table;
+  }
+  return [`${body}${pack.sentence.end}`, ...trailing].join(pack.sentence.between);
+}
+
+/**
+ * Builds a localization whose long text and MAR headings come from `pack`.
+ * Short text stays the shared abbreviated form.
+ */
+export function createSigLocalizationFromPack(pack: SigLocalePack): SigLocalization {
+  return {
+    locale: pack.locale,
+    formatLong: ({ clause, groupMealTimingsByRelation, includeTimesPerDaySummary }) =>
+      formatLongFromPack(pack, clause, { groupMealTimingsByRelation, includeTimesPerDaySummary }),
+    ...(pack.marLabels ? { marLabels: { ...pack.marLabels } } : {})
+  };
+}
+
+function stripTrailingZero(value: number): string {
+  const text = value.toString();
+  if (text.includes(".")) {
+    return text.replace(/\.0+$/, "").replace(/0+$/, "");
+  }
+  return text;
+}
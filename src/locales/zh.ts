@@ -0,0 +1,327 @@
+import type { SigLocalePack } from "../locale-pack";
+import { EventTiming, FhirPeriodUnit, RouteCode } from "../types";
+
+/** Simplified Chinese phrasing in the style of a dispensing label. */
+export const ZH_LOCALE_PACK: SigLocalePack = {
+  locale: "zh",
+  sentence: {
+    order: [
+      "verb",
+      "route",
+      "dose",
+      "rate",
+      "frequency",
+      "event",
+      "whileAwake",
+      "anchor",
+      "eventDate",
+      "dayOfWeek",
+      "calendar",
+      "cycle",
+      "count",
+      "duration",
+      "asNeeded",
+      "site",
+      "slidingScale"
+    ],
+    separator: "，",
+    end: "。",
+    between: ""
+  },
+  list: { separator: "、", and: "和", or: "或" },
+  range: "{low}至{high}",
+  quantity: "{n}{unit}",
+  periods: {
+    [FhirPeriodUnit.Second]: "秒",
+    [FhirPeriodUnit.Minute]: "分钟",
+    [FhirPeriodUnit.Hour]: "小时",
+    [FhirPeriodUnit.Day]: "天",
+    [FhirPeriodUnit.Week]: "周",
+    [FhirPeriodUnit.Month]: "个月",
+    [FhirPeriodUnit.Year]: "年"
+  },
+  verbs: {
+    default: "使用",
+    infuse: "静脉输注",
+    methods: {
+      take: "服用",
+      swallow: "吞服",
+      drink: "饮用",
+      chew: "嚼服",
+      apply: "涂抹",
+      rub: "揉擦",
+      massage: "按摩",
+      dab: "点涂",
+      use: "使用",
+      instill: "滴入",
+      inject: "注射",
+      insert: "塞入",
+      spray: "喷",
+      inhale: "吸入",
+      wash: "清洗",
+      shampoo: "洗发",
+      rinse: "漱口",
+      gargle: "含漱"
+    }
+  },
+  routes: {
+    [RouteCode["Oral route"]]: { verb: "口服" },
+    [RouteCode["Sublingual route"]]: { verb: "舌下含服" },
+    [RouteCode["Buccal route"]]: { verb: "口腔含服" },
+    [RouteCode["Respiratory tract route (qualifier value)"]]: { verb: "吸入" },
+    [RouteCode["Nasal route"]]: { verb: "喷鼻", withSite: "喷入{site}" },
+    [RouteCode["Topical route"]]: { verb: "外用", withSite: "外用，涂于{site}" },
+    [RouteCode["Transdermal route"]]: { verb: "经皮贴敷", withSite: "贴于{site}" },
+    [RouteCode["Subcutaneous route"]]: { verb: "皮下注射", withSite: "于{site}皮下注射" },
+    [RouteCode["Intramuscular route"]]: { verb: "肌内注射", withSite: "于{site}肌内注射" },
+    [RouteCode["Intravenous route"]]: { verb: "静脉注射" },
+    [RouteCode["Per rectum"]]: { verb: "直肠给药" },
+    [RouteCode["Per vagina"]]: { verb: "阴道给药" },
+    [RouteCode["Ophthalmic route"]]: { verb: "滴眼", withSite: "滴入{site}" },
+    [RouteCode["Otic route"]]: { verb: "滴耳", withSite: "滴入{site}" },
+    [RouteCode["Intravitreal route (qualifier value)"]]: { verb: "玻璃体内注射", withSite: "{site}玻璃体内注射" }
+  },
+  dose: {
+    template: "每次{dose}",
+    amount: "{value}{unit}",
+    atLeast: "至少{value}",
+    upTo: "最多{value}",
+    calculated: "{ordered}（{calculated}）"
+  },
+  units: {
+    tab: "片",
+    tablet: "片",
+    cap: "粒",
+    capsule: "粒",
+    drop: "滴",
+    puff: "揿",
+    spray: "喷",
+    patch: "贴",
+    suppository: "枚",
+    sachet: "袋",
+    ampule: "支",
+    vial: "瓶",
+    tsp: "茶匙",
+    tbsp: "汤匙",
+    application: "次",
+    dose: "剂",
+    u: "单位"
+  },
+  frequency: {
+    perDay: "每日{n}次",
+    perDayRange: "每日{low}至{high}次",
+    every: "每{amount}1次",
+    oncePer: "每{unit}1次",
+    everyOtherDay: "隔日1次",
+    once: "1次",
+    times: "{n}次"
+  },
+  when: {
+    [EventTiming["Before Sleep"]]: "睡前",
+    [EventTiming["Before Meal"]]: "饭前",
+    [EventTiming["Before Breakfast"]]: "早餐前",
+    [EventTiming["Before Lunch"]]: "午餐前",
+    [EventTiming["Before Dinner"]]: "晚餐前",
+    [EventTiming["After Meal"]]: "饭后",
+    [EventTiming["After Breakfast"]]: "早餐后",
+    [EventTiming["After Lunch"]]: "午餐后",
+    [EventTiming["After Dinner"]]: "晚餐后",
+    [EventTiming.Meal]: "随餐",
+    [EventTiming.Breakfast]: "随早餐",
+    [EventTiming.Lunch]: "随午餐",
+    [EventTiming.Dinner]: "随晚餐",
+    [EventTiming.Morning]: "早上",
+    [EventTiming["Early Morning"]]: "清晨",
+    [EventTiming["Late Morning"]]: "上午",
+    [EventTiming.Noon]: "中午",
+    [EventTiming.Afternoon]: "下午",
+    [EventTiming["Early Afternoon"]]: "午后",
+    [EventTiming["Late Afternoon"]]: "傍晚前",
+    [EventTiming.Evening]: "晚上",
+    [EventTiming["Early Evening"]]: "傍晚",
+    [EventTiming["Late Evening"]]: "深夜",
+    [EventTiming.Night]: "夜间",
+    [EventTiming.Wake]: "起床后",
+    [EventTiming["After Sleep"]]: "睡醒后",
+    [EventTiming.Immediate]: "立即"
+  },
+  meals: {
+    breakfast: "早餐",
+    lunch: "午餐",
+    dinner: "晚餐",
+    before: "{meals}前",
+    after: "{meals}后",
+    with: "随{meals}"
+  },
+  timeOfDay: "于{times}",
+  days: {
+    mon: "周一",
+    tue: "周二",
+    wed: "周三",
+    thu: "周四",
+    fri: "周五",
+    sat: "周六",
+    sun: "周日"
+  },
+  dayOfWeek: "于{days}",
+  calendar: {
+    day: "{n}日",
+    lastDay: "最后一天",
+    weekday: "第{n}个{day}",
+    lastWeekday: "最后一个{day}",
+    everyMonth: "于每月{days}",
+    month: "于当月{days}"
+  },
+  cycle: {
+    days: "于第{days}天",
+    withLength: "{days}，每{length}天为一个周期"
+  },
+  events: {
+    date: "{year}年{month}月{day}日",
+    dateTime: "{date} {clock}",
+    template: "于{events}"
+  },
+  anchor: {
+    before: "{event}前",
+    after: "{event}后",
+    beforeOffset: "{event}前{offset}",
+    afterOffset: "{event}后{offset}",
+    days: "于{event}日"
+  },
+  whileAwake: "仅限清醒时",
+  count: "共{n}次",
+  duration: "连用{amount}",
+  asNeeded: "必要时使用",
+  asNeededFor: "{reason}时使用",
+  prnReasons: {
+    "22253000": "疼痛",
+    "25064002": "头痛",
+    "37796009": "偏头痛",
+    "161891005": "背痛",
+    "279039007": "腰痛",
+    "57676002": "关节痛",
+    "68962001": "肌肉痛",
+    "301354004": "耳痛",
+    "267102003": "咽痛",
+    "29857009": "胸痛",
+    "266599000": "痛经",
+    "55300003": "抽筋",
+    "45352006": "痉挛",
+    "422587007": "恶心",
+    "422400008": "呕吐",
+    "62315008": "腹泻",
+    "16331000": "烧心",
+    "21522001": "腹痛",
+    "249504006": "胀气",
+    "49727002": "咳嗽",
+    "386661006": "发热",
+    "56018004": "喘息",
+    "76067001": "打喷嚏",
+    "43116000": "湿疹",
+    "9014002": "银屑病",
+    "126485001": "荨麻疹",
+    "162290004": "眼干",
+    "703630003": "眼红",
+    "41652007": "眼痛",
+    "52475004": "皮肤干燥",
+    "49650001": "排尿疼痛",
+    "70153002": "痔疮",
+    "48694002": "焦虑",
+    "225624000": "惊恐发作",
+    "404640003": "头晕",
+    "399153001": "眩晕",
+    "7011001": "幻觉",
+    "231494001": "躁狂",
+    "162014002": "口干",
+    "80313002": "心悸",
+    itching: "瘙痒",
+    itch: "瘙痒",
+    sleep: "失眠",
+    insomnia: "失眠",
+    constipation: "便秘",
+    dyspnea: "呼吸困难",
+    "shortness of breath": "气短",
+    agitation: "烦躁"
+  },
+  site: "用于{site}",
+  sites: {
+    eye: "眼",
+    "both eyes": "双眼",
+    ear: "耳",
+    "both ears": "双耳",
+    nostril: "鼻孔",
+    nostrils: "双侧鼻孔",
+    nose: "鼻",
+    arm: "上臂",
+    "upper arm": "上臂",
+    leg: "腿",
+    thigh: "大腿",
+    knee: "膝部",
+    hand: "手",
+    foot: "足",
+    abdomen: "腹部",
+    "affected area": "患处",
+    "affected areas": "患处",
+    skin: "皮肤",
+    face: "面部",
+    scalp: "头皮",
+    back: "背部",
+    chest: "胸部",
+    buttock: "臀部",
+    mouth: "口腔",
+    throat: "咽喉"
+  },
+  siteSides: { left: "左{site}", right: "右{site}", both: "双侧{site}" },
+  rate: "速度为每{period}{amount}",
+  maxDose: {
+    template: "{limits}",
+    perAdministration: "每次不超过{amount}",
+    perPeriod: "每{period}不超过{amount}",
+    perLifetime: "终生累计不超过{amount}"
+  },
+  slidingScale: {
+    basis: "根据{observation}调整",
+    defaultBasis: "按剂量表调整",
+    correction: "另{basis}追加剂量",
+    lead: "：",
+    row: "- {bound}：{dose}",
+    hold: "暂停给药",
+    above: "高于{value}",
+    atLeast: "{value}及以上",
+    below: "低于{value}",
+    atMost: "{value}及以下",
+    between: "{low}-{high}",
+    observations: { "blood glucose": "血糖" }
+  },
+  advice: {
+    "225758001": "饭后服用",
+    "311504000": "随餐或饭后服用",
+    "311500009": "饭前服用",
+    "311501008": "饭前半小时至一小时服用",
+    "311502001": "饭前一小时或空腹服用",
+    "717154004": "空腹服用",
+    "419303009": "用大量水送服",
+    "417995008": "服用前用水溶解或混合",
+    "419822006": "避免饮酒",
+    "418639000": "可能引起嗜睡",
+    "418954008": "可能引起嗜睡，如受影响请勿驾驶",
+    "418914006": "可能引起嗜睡，避免驾驶或饮酒",
+    "418071006": "可能引起次日嗜睡，避免驾驶或饮酒",
+    "428579001": "谨慎使用",
+    "418849000": "请遵照随药附带的书面说明",
+    "419439004": "注意易燃，远离火源",
+    "418521000": "避免阳光或紫外线灯照射",
+    "418693002": "整片吞服，勿压碎或咀嚼",
+    "418991002": "含服或嚼碎后吞服",
+    "420883007": "薄涂",
+    "419125005": "充分涂抹",
+    "419443000": "缓慢给药",
+    "419529008": "置于舌下含化",
+    "421298005": "含漱后吞服",
+    "422152000": "清洗",
+    "421257003": "塞入",
+    "421538008": "滴入",
+    "420606003": "洗发"
+  },
+  marLabels: { medication: "药品", instructions: "用法", date: "日期", asNeeded: "必要时使用" }
+};
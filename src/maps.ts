@@ -82,6 +82,20 @@ export const ROUTE_BY_SNOMED = objectFromEntries(
   ROUTE_SNOMED_ENTRIES.map(([routeCode, meta]) => [meta.code, routeCode])
 ) as Record<SNOMEDCTRouteCodes, RouteCode>;
 
+/** Routes a rate is infused through, so rate-only sigs read "infuse". */
+const INFUSION_ROUTE_CODES = new Set<RouteCode>([
+  RouteCode["Intravenous route"],
+  RouteCode["Intravenous central route (qualifier value)"],
+  RouteCode["Intravenous peripheral route (qualifier value)"],
+  RouteCode["Intra-arterial route"],
+  RouteCode["Intraosseous route (qualifier value)"],
+  RouteCode["Epidural route (qualifier value)"]
+]);
+
+export function isInfusionRoute(code: RouteCode | undefined): boolean {
+  return code !== undefined && INFUSION_ROUTE_CODES.has(code);
+}
+
 export interface RouteSynonym {
   code: RouteCode;
   text: string;
@@ -169,6 +183,7 @@ export const DEFAULT_ROUTE_SYNONYMS: Record<string, RouteSynonym> = (() => {
   registerVariants("in", RouteCode["Nasal route"]);
   registerVariants("intranasal", RouteCode["Nasal route"]);
   registerVariants("nasal", RouteCode["Nasal route"]);
+  registerVariants("nasal cannula", RouteCode["Nasal route"]);
   registerVariants("top", RouteCode["Topical route"]);
   registerVariants("topical", RouteCode["Topical route"]);
   registerVariants("td", RouteCode["Transdermal route"]);
@@ -189,6 +204,21 @@ export const DEFAULT_ROUTE_SYNONYMS: Record<string, RouteSynonym> = (() => {
   registerVariants("intravitreal", RouteCode["Intravitreal route (qualifier value)"]);
   registerVariants("intravitreal injection", RouteCode["Intravitreal route (qualifier value)"]);
   registerVariants("ivt", RouteCode["Intravitreal route (qualifier value)"]);
+  registerVariants("ทางปาก", RouteCode["Oral route"]);
+  registerVariants("อมใต้ลิ้น", RouteCode["Sublingual route"]);
+  registerVariants("ใต้ลิ้น", RouteCode["Sublingual route"]);
+  registerVariants("สูด", RouteCode["Respiratory tract route (qualifier value)"]);
+  registerVariants("สูดพ่น", RouteCode["Respiratory tract route (qualifier value)"]);
+  registerVariants("ทางหลอดเลือดดำ", RouteCode["Intravenous route"]);
+  registerVariants("ฉีดเข้าหลอดเลือดดำ", RouteCode["Intravenous route"]);
+  registerVariants("ฉีดเข้ากล้าม", RouteCode["Intramuscular route"]);
+  registerVariants("ฉีดเข้ากล้ามเนื้อ", RouteCode["Intramuscular route"]);
+  registerVariants("ฉีดใต้ผิวหนัง", RouteCode["Subcutaneous route"]);
+  registerVariants("ทางจมูก", RouteCode["Nasal route"]);
+  registerVariants("ภายนอก", RouteCode["Topical route"]);
+  registerVariants("ใช้ภายนอก", RouteCode["Topical route"]);
+  registerVariants("ทางทวารหนัก", RouteCode["Per rectum"]);
+  registerVariants("ทางช่องคลอด", RouteCode["Per vagina"]);
 
   for (const [routeCode, meta] of ROUTE_SNOMED_ENTRIES) {
     const display = meta.display.toLowerCase();
@@ -1431,6 +1461,10 @@ const STATIC_UNIT_SYNONYMS: UnitSynonymMap = {
   "i.u": "IU",
   "i.u.": "IU",
   ius: "IU",
+  meq: "mEq",
+  meqs: "mEq",
+  milliequivalent: "mEq",
+  milliequivalents: "mEq",
   tab: "tab",
   tabs: "tab",
   tablet: "tab",
@@ -1475,6 +1509,26 @@ const STATIC_UNIT_SYNONYMS: UnitSynonymMap = {
   "tbs.": "tbsp",
   tablespoon: "tbsp",
   tablespoons: "tbsp",
+  เม็ด: "tab",
+  แคปซูล: "cap",
+  ช้อนชา: "tsp",
+  ช้อนโต๊ะ: "tbsp",
+  หยด: "drop",
+  พัฟ: "puff",
+  พ่น: "spray",
+  แผ่น: "patch",
+  แผ่นแปะ: "patch",
+  ยาเหน็บ: "suppository",
+  มล: "mL",
+  "มล.": "mL",
+  มิลลิลิตร: "mL",
+  ซีซี: "mL",
+  มก: "mg",
+  "มก.": "mg",
+  มิลลิกรัม: "mg",
+  ไมโครกรัม: "mcg",
+  กรัม: "g",
+  ยูนิต: "U",
 };
 
 export const DEFAULT_UNIT_SYNONYMS: Record<string, string> = (() => {
@@ -1592,6 +1646,7 @@ export const TIMING_ABBREVIATIONS: Record<string, FrequencyDescriptor> = {
   pm: { code: "PM", when: [EventTiming.Evening] },
   qam: { code: "QAM", when: [EventTiming.Morning] },
   qpm: { code: "QPM", when: [EventTiming.Evening] },
+  วันเว้นวัน: { code: "QOD", period: 2, periodUnit: FhirPeriodUnit.Day },
   bld: {
     code: "BLD",
     when: [EventTiming.Meal],
@@ -1660,7 +1715,41 @@ export const EVENT_TIMING_TOKENS: Record<string, EventTiming> = {
   sleep: EventTiming["Before Sleep"],
   wake: EventTiming.Wake,
   waking: EventTiming.Wake,
-  stat: EventTiming.Immediate
+  stat: EventTiming.Immediate,
+  now: EventTiming.Immediate,
+  ก่อนนอน: EventTiming["Before Sleep"],
+  ก่อนอาหาร: EventTiming["Before Meal"],
+  ก่อนอาหารเช้า: EventTiming["Before Breakfast"],
+  ก่อนอาหารกลางวัน: EventTiming["Before Lunch"],
+  ก่อนอาหารเที่ยง: EventTiming["Before Lunch"],
+  ก่อนอาหารเย็น: EventTiming["Before Dinner"],
+  หลังอาหาร: EventTiming["After Meal"],
+  หลังอาหารเช้า: EventTiming["After Breakfast"],
+  หลังอาหารกลางวัน: EventTiming["After Lunch"],
+  หลังอาหารเที่ยง: EventTiming["After Lunch"],
+  หลังอาหารเย็น: EventTiming["After Dinner"],
+  พร้อมอาหาร: EventTiming.Meal,
+  พร้อมอาหารเช้า: EventTiming.Breakfast,
+  พร้อมอาหารกลางวัน: EventTiming.Lunch,
+  พร้อมอาหารเย็น: EventTiming.Dinner,
+  อาหาร: EventTiming.Meal,
+  อาหารเช้า: EventTiming.Breakfast,
+  อาหารกลางวัน: EventTiming.Lunch,
+  อาหารเที่ยง: EventTiming.Lunch,
+  อาหารเย็น: EventTiming.Dinner,
+  เช้า: EventTiming.Morning,
+  ตอนเช้า: EventTiming.Morning,
+  เช้าตรู่: EventTiming["Early Morning"],
+  เที่ยง: EventTiming.Noon,
+  ตอนเที่ยง: EventTiming.Noon,
+  บ่าย: EventTiming.Afternoon,
+  ตอนบ่าย: EventTiming.Afternoon,
+  เย็น: EventTiming.Evening,
+  ตอนเย็น: EventTiming.Evening,
+  กลางคืน: EventTiming.Night,
+  ตอนกลางคืน: EventTiming.Night,
+  หลังตื่นนอน: EventTiming.Wake,
+  ทันที: EventTiming.Immediate
 };
 
 const MEAL_KEYWORD_ENTRIES: Array<
@@ -0,0 +1,186 @@
+import { canonicalFromFhir } from "./fhir";
+import { formatCanonicalClause } from "./format";
+import { resolveSigLocalization, SigLocalization } from "./i18n";
+import { FhirDosage, MarCell, MarGrid, MarLabels, MarRenderOptions, MarRow } from "./types";
+
+/** Headings used where the localization does not translate them. */
+const DEFAULT_MAR_LABELS: MarLabels = {
+  medication: "Medication",
+  instructions: "Instructions",
+  date: "Date",
+  asNeeded: "As needed"
+};
+
+/** Shown in a slot whose administration has no dose, e.g. a bare `apply bid`. */
+const GIVEN_MARK = "✓";
+
+interface MarTableLine {
+  /** True on the first line of a row, which carries its label and instructions. */
+  first: boolean;
+  cells: string[];
+}
+
+interface MarTable {
+  header: string[];
+  lines: MarTableLine[];
+}
+
+function resolveMarLabels(
+  localization: SigLocalization | undefined,
+  options: MarRenderOptions | undefined
+): MarLabels {
+  return { ...DEFAULT_MAR_LABELS, ...localization?.marLabels, ...options?.labels };
+}
+
+/** `08:00` for whole minutes, the full `HH:mm:ss` otherwise. */
+function formatSlot(clock: string): string {
+  return clock.endsWith(":00") ? clock.slice(0, 5) : clock;
+}
+
+function formatDose(
+  cell: MarCell,
+  localization: SigLocalization | undefined,
+  options: MarRenderOptions | undefined
+): string {
+  if (!cell.doseQuantity && !cell.doseRange) {
+    return GIVEN_MARK;
+  }
+  const dosage: FhirDosage = {
+    doseAndRate: [cell.doseQuantity ? { doseQuantity: cell.doseQuantity } : { doseRange: cell.doseRange }]
+  };
+  return formatCanonicalClause(canonicalFromFhir(dosage), "short", localization, options) || GIVEN_MARK;
+}
+
+function formatInstructions(
+  row: MarRow,
+  localization: SigLocalization | undefined,
+  options: MarRenderOptions | undefined
+): string {
+  return row.dosages
+    .map((dosage) =>
+      formatCanonicalClause(canonicalFromFhir(dosage), options?.style ?? "short", localization, options)
+    )
+    .filter((text) => text.trim())
+    .join("; ");
+}
+
+/**
+ * Availability windows of a PRN row as `HH:mm-HH:mm`. A window that runs to
+ * midnight ends at `24:00` so a full day reads `00:00-24:00`.
+ */
+function formatAvailability(row: MarRow, date: string): string {
+  return row.availability
+    .filter((window) => window.date === date)
+    .map((window) => {
+      const end = window.end.slice(0, 10) === date ? window.end.slice(11, 16) : "24:00";
+      return `${window.start.slice(11, 16)}-${end}`;
+    })
+    .join(", ");
+}
+
+/**
+ * Flattens a grid into one line per row and date, the layout shared by every
+ * renderer. The as-needed column is only added when some row has windows.
+ */
+function buildMarTable(grid: MarGrid, options: MarRenderOptions | undefined): MarTable {
+  const localization = resolveSigLocalization(options?.locale, options?.i18n);
+  const labels = resolveMarLabels(localization, options);
+  const hasAvailability = grid.rows.some((row) => row.availability.length > 0);
+  const header = [
+    labels.medication,
+    labels.instructions,
+    labels.date,
+    ...grid.slots.map(formatSlot),
+    ...(hasAvailability ? [labels.asNeeded] : [])
+  ];
+  const lines: MarTableLine[] = [];
+  for (const row of grid.rows) {
+    const instructions = formatInstructions(row, localization, options);
+    grid.dates.forEach((date, index) => {
+      const doses = grid.slots.map((slot) =>
+        row.cells
+          .filter((cell) => cell.date === date && cell.clock === slot)
+          .map((cell) => formatDose(cell, localization, options))
+          .join(" + ")
+      );
+      lines.push({
+        first: index === 0,
+        cells: [
+          row.label,
+          instructions,
+          date,
+          ...doses,
+          ...(hasAvailability ? [formatAvailability(row, date)] : [])
+        ]
+      });
+    });
+  }
+  return { header, lines };
+}
+
+/**
+ * Renders a MAR grid as a fixed-width text table. The label and instructions
+ * are printed on the first date of each medication only.
+ */
+export function renderMarText(grid: MarGrid, options?: MarRenderOptions): string {
+  const { header, lines } = buildMarTable(grid, options);
+  const rows = [
+    header,
+    ...lines.map((line) => (line.first ? line.cells : ["", "", ...line.cells.slice(2)]))
+  ];
+  const widths = header.map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  const format = (row: string[]) =>
+    row
+      .map((text, column) => `${text}${" ".repeat(widths[column] - text.length)}`)
+      .join(" | ")
+      .replace(/\s+$/, "");
+  return [
+    format(header),
+    widths.map((width) => "-".repeat(width)).join("-|-"),
+    ...rows.slice(1).map(format)
+  ].join("\n");
+}
+
+function escapeCsv(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Renders a MAR grid as CSV, one record per medication and date. */
+export function renderMarCsv(grid: MarGrid, options?: MarRenderOptions): string {
+  const { header, lines } = buildMarTable(grid, options);
+  return [header, ...lines.map((line) => line.cells)]
+    .map((row) => row.map(escapeCsv).join(","))
+    .join("\n");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Renders a MAR grid as an HTML table. The label and instructions cells span
+ * every date of their medication; styling is left to the `mar` class.
+ */
+export function renderMarHtml(grid: MarGrid, options?: MarRenderOptions): string {
+  const { header, lines } = buildMarTable(grid, options);
+  const span = grid.dates.length > 1 ? ` rowspan="${grid.dates.length}"` : "";
+  const body = lines.map((line) => {
+    const shared = line.first
+      ? line.cells.slice(0, 2).map((text) => `<th scope="row"${span}>${escapeHtml(text)}</th>`)
+      : [];
+    const cells = line.cells.slice(2).map((text) => `<td>${escapeHtml(text)}</td>`);
+    return `<tr>${[...shared, ...cells].join("")}</tr>`;
+  });
+  return [
+    '<table class="mar">',
+    `<thead><tr>${header.map((text) => `<th scope="col">${escapeHtml(text)}</th>`).join("")}</tr></thead>`,
+    "<tbody>",
+    ...body,
+    "</tbody>",
+    "</table>"
+  ].join("\n");
+}
@@ -0,0 +1,244 @@
+import { buildFhirDurationQuantity } from "./fhir";
+import { calculateTotalUnits } from "./schedule";
+import { resolveRegimenDuration } from "./sequence";
+import {
+  FhirCodeableReference,
+  FhirDosage,
+  FhirMedication,
+  FhirMedicationIngredient,
+  FhirMedicationRequest,
+  FhirMedicationRequestDispenseRequest,
+  FhirMedicationRequestSubstitution,
+  FhirMedicationStatement,
+  FhirPeriodUnit,
+  FhirQuantity,
+  MedicationRequestOptions,
+  MedicationResourceOptions,
+  MedicationStatementOptions,
+  ParseBatchResult
+} from "./types";
+import { buildUcumQuantity, readQuantityUnit } from "./ucum";
+import { parseStrength } from "./utils/strength";
+
+const CONTAINED_MEDICATION_ID = "medication";
+
+type IngredientStrength = Pick<
+  FhirMedicationIngredient,
+  "strengthRatio" | "strengthQuantity" | "strengthCodeableConcept"
+>;
+
+/**
+ * The batch's dosages in order. Items outside a `then` chain run
+ * concurrently, so they all share sequence 1.
+ */
+function collectDosages(batch: ParseBatchResult, builder: string): FhirDosage[] {
+  if (!batch.items.length) {
+    throw new Error(`A sig with at least one dosage must be supplied to ${builder}`);
+  }
+  return batch.items.map((item) => ({ ...item.fhir, sequence: item.sequence ?? 1 }));
+}
+
+function formatDateTime(value: Date | string, label: string, builder: string): string {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${label} supplied to ${builder}`);
+  }
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function resolveIngredientStrength(options: MedicationResourceOptions): IngredientStrength | undefined {
+  const context = options.context;
+  if (context?.strengthRatio) {
+    return { strengthRatio: context.strengthRatio };
+  }
+  if (context?.strengthQuantity) {
+    return { strengthQuantity: context.strengthQuantity };
+  }
+  if (context?.strengthCodeableConcept) {
+    return { strengthCodeableConcept: context.strengthCodeableConcept };
+  }
+  if (!context?.strength) {
+    return undefined;
+  }
+  const parsed = parseStrength(context.strength, context);
+  if (parsed.strengthRatio) {
+    return { strengthRatio: parsed.strengthRatio };
+  }
+  return parsed.strengthQuantity ? { strengthQuantity: parsed.strengthQuantity } : undefined;
+}
+
+/**
+ * R5 references the product through a CodeableReference. A bare code is
+ * enough unless strength or form is known; those only fit on a Medication,
+ * which is contained so the resource stays self-describing.
+ */
+function buildMedicationReference(options: MedicationResourceOptions): {
+  medication: FhirCodeableReference;
+  contained?: FhirMedication[];
+} {
+  const strength = resolveIngredientStrength(options);
+  const dosageForm = options.context?.dosageForm?.trim();
+  if (!strength && !dosageForm) {
+    return { medication: { concept: options.medication } };
+  }
+  const contained: FhirMedication = {
+    resourceType: "Medication",
+    id: CONTAINED_MEDICATION_ID,
+    code: options.medication,
+    ...(dosageForm ? { doseForm: { text: dosageForm } } : {}),
+    ...(strength
+      ? { ingredient: [{ item: { concept: options.medication }, isActive: true, ...strength }] }
+      : {})
+  };
+  return {
+    medication: { reference: { reference: `#${CONTAINED_MEDICATION_ID}` } },
+    contained: [contained]
+  };
+}
+
+/** The dose unit every dosage shares, used for a bare `#30`. */
+function sharedDoseUnit(dosages: FhirDosage[]): string | undefined {
+  const units = new Set(
+    dosages.map((dosage) => readQuantityUnit(dosage.doseAndRate?.[0]?.doseQuantity))
+  );
+  if (units.size !== 1) {
+    return undefined;
+  }
+  return units.values().next().value;
+}
+
+/**
+ * The calculated quantity, or undefined when `authoredOn` or a time zone is
+ * missing and the supply window cannot be counted.
+ */
+function calculateDispenseQuantity(
+  dosages: FhirDosage[],
+  duration: { value: number; unit: FhirPeriodUnit },
+  options: MedicationRequestOptions
+): FhirQuantity | undefined {
+  const timeZone = options.timeZone ?? options.config?.timeZone;
+  if (options.authoredOn === undefined || !timeZone) {
+    return undefined;
+  }
+  const { totalUnits, totalContainers } = calculateTotalUnits({
+    ...options,
+    timeZone,
+    from: options.authoredOn,
+    orderedAt: options.orderedAt ?? options.authoredOn,
+    dosage: dosages,
+    durationValue: duration.value,
+    durationUnit: duration.unit
+  });
+  const containerValue = options.context?.containerValue;
+  const doseUnit = sharedDoseUnit(dosages);
+  if (totalContainers !== undefined && containerValue) {
+    return buildUcumQuantity(totalContainers * containerValue, options.context?.containerUnit ?? doseUnit);
+  }
+  return totalUnits > 0 ? buildUcumQuantity(totalUnits, doseUnit) : undefined;
+}
+
+/**
+ * The supply window: explicit options first, then a `30 day supply` on the
+ * sig, then the length of the regimen itself.
+ */
+function resolveSupplyDuration(
+  batch: ParseBatchResult,
+  options: MedicationRequestOptions
+): { value: number; unit: FhirPeriodUnit } | undefined {
+  if (options.durationValue !== undefined && options.durationUnit) {
+    return { value: options.durationValue, unit: options.durationUnit };
+  }
+  const daysSupply = batch.meta.dispense?.daysSupply;
+  if (daysSupply) {
+    return { value: daysSupply, unit: FhirPeriodUnit.Day };
+  }
+  return resolveRegimenDuration(batch.items);
+}
+
+/**
+ * Quantity written on the sig (`#60`, `disp 30 tabs`) wins; otherwise the
+ * supply window is run through `calculateTotalUnits`. Without `authoredOn`
+ * or a time zone to count from, the quantity and supply duration are left
+ * out.
+ */
+function buildDispenseRequest(
+  batch: ParseBatchResult,
+  dosages: FhirDosage[],
+  options: MedicationRequestOptions
+): FhirMedicationRequestDispenseRequest | undefined {
+  const dispense = batch.meta.dispense;
+  const window = resolveSupplyDuration(batch, options);
+  const written = dispense?.quantity
+    ? buildUcumQuantity(dispense.quantity.value, dispense.quantity.unit ?? sharedDoseUnit(dosages))
+    : undefined;
+  const countable = options.authoredOn !== undefined && Boolean(options.timeZone ?? options.config?.timeZone);
+  const duration = written || countable ? window : undefined;
+  const quantity = written ?? (duration ? calculateDispenseQuantity(dosages, duration, options) : undefined);
+  const request: FhirMedicationRequestDispenseRequest = {
+    ...(dispense?.refills !== undefined ? { numberOfRepeatsAllowed: dispense.refills } : {}),
+    ...(quantity ? { quantity } : {}),
+    ...(duration ? { expectedSupplyDuration: buildFhirDurationQuantity(duration.value, duration.unit) } : {})
+  };
+  return Object.keys(request).length ? request : undefined;
+}
+
+function buildSubstitution(batch: ParseBatchResult): FhirMedicationRequestSubstitution | undefined {
+  const substitution = batch.meta.dispense?.substitution;
+  return substitution ? { allowedBoolean: substitution.allowed } : undefined;
+}
+
+/**
+ * Wraps a parsed sig into a FHIR R5 MedicationRequest. Every parsed item
+ * becomes a `dosageInstruction`, `#30`, `RF2` or `30 day supply` on the sig
+ * fill the `dispenseRequest`, and `DAW` or `generic ok` sets `substitution`.
+ */
+export function buildMedicationRequest(
+  batch: ParseBatchResult,
+  options: MedicationRequestOptions
+): FhirMedicationRequest {
+  const builder = "buildMedicationRequest";
+  const dosageInstruction = collectDosages(batch, builder);
+  const { medication, contained } = buildMedicationReference(options);
+  const dispenseRequest = buildDispenseRequest(batch, dosageInstruction, options);
+  const substitution = buildSubstitution(batch);
+  return {
+    resourceType: "MedicationRequest",
+    ...(options.id ? { id: options.id } : {}),
+    ...(contained ? { contained } : {}),
+    status: options.status ?? "active",
+    intent: options.intent ?? "order",
+    medication,
+    subject: options.subject,
+    ...(options.authoredOn !== undefined
+      ? { authoredOn: formatDateTime(options.authoredOn, "authoredOn", builder) }
+      : {}),
+    dosageInstruction,
+    ...(dispenseRequest ? { dispenseRequest } : {}),
+    ...(substitution ? { substitution } : {})
+  };
+}
+
+/**
+ * Wraps a parsed sig into a FHIR R5 MedicationStatement, e.g. for a
+ * medication history entry. Dispensing details are not part of a statement.
+ */
+export function buildMedicationStatement(
+  batch: ParseBatchResult,
+  options: MedicationStatementOptions
+): FhirMedicationStatement {
+  const builder = "buildMedicationStatement";
+  const dosage = collectDosages(batch, builder);
+  const { medication, contained } = buildMedicationReference(options);
+  return {
+    resourceType: "MedicationStatement",
+    ...(options.id ? { id: options.id } : {}),
+    ...(contained ? { contained } : {}),
+    status: options.status ?? "recorded",
+    medication,
+    subject: options.subject,
+    ...(options.dateAsserted !== undefined
+      ? { dateAsserted: formatDateTime(options.dateAsserted, "dateAsserted", builder) }
+      : {}),
+    dosage
+  };
+}
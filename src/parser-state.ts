@@ -4,14 +4,23 @@ import { cloneExtensions, clonePrimitiveElement } from "./fhir-translations";
 import {
   CanonicalAdditionalInstructionExpr,
   BodySiteSpatialRelation,
+  CanonicalCalculatedDose,
   CanonicalDoseRange,
+  CanonicalEventAnchor,
   CanonicalPrnReasonExpr,
+  CanonicalMaxDoseExpr,
+  CanonicalScheduleCycle,
+  CanonicalSlidingScaleExpr,
+  CanonicalRateExpr,
   CanonicalSigClause,
+  CanonicalWeekdayOfMonth,
+  DoseBasisUnit,
   EventTiming,
   FhirCoding,
   FhirDayOfWeek,
   FhirPrimitiveElement,
   FhirPeriodUnit,
+  ParseDispenseMeta,
   PrnReasonLookupRequest,
   PrnReasonSuggestion,
   RouteCode,
@@ -47,6 +56,7 @@ export class ParserState {
   prnReasonLookups: PrnReasonLookupDetail[];
   methodVerb?: string;
   productFormKey?: string;
+  dispense?: ParseDispenseMeta;
   clauses: CanonicalSigClause[];
   private clause: CanonicalSigClause;
 
@@ -108,6 +118,46 @@ export class ParserState {
     this.ensureDose().unit = value;
   }
 
+  get doseBasisUnit(): DoseBasisUnit | undefined {
+    return this.clause.dose?.basisUnit;
+  }
+
+  set doseBasisUnit(value: DoseBasisUnit | undefined) {
+    this.ensureDose().basisUnit = value;
+  }
+
+  get calculatedDose(): CanonicalCalculatedDose | undefined {
+    return this.clause.dose?.calculated;
+  }
+
+  set calculatedDose(value: CanonicalCalculatedDose | undefined) {
+    this.ensureDose().calculated = value;
+  }
+
+  get rate(): CanonicalRateExpr | undefined {
+    return this.clause.rate;
+  }
+
+  set rate(value: CanonicalRateExpr | undefined) {
+    this.clause.rate = value;
+  }
+
+  get maxDose(): CanonicalMaxDoseExpr | undefined {
+    return this.clause.maxDose;
+  }
+
+  set maxDose(value: CanonicalMaxDoseExpr | undefined) {
+    this.clause.maxDose = value;
+  }
+
+  get slidingScale(): CanonicalSlidingScaleExpr | undefined {
+    return this.clause.slidingScale;
+  }
+
+  set slidingScale(value: CanonicalSlidingScaleExpr | undefined) {
+    this.clause.slidingScale = value;
+  }
+
   get routeCode(): RouteCode | undefined {
     return this.clause.route?.code;
   }
@@ -273,6 +323,54 @@ export class ParserState {
     this.ensureSchedule().timeOfDay = value;
   }
 
+  get dayOfMonth(): number[] | undefined {
+    return this.clause.schedule?.dayOfMonth;
+  }
+
+  set dayOfMonth(value: number[] | undefined) {
+    this.ensureSchedule().dayOfMonth = value;
+  }
+
+  get weekdayOfMonth(): CanonicalWeekdayOfMonth[] | undefined {
+    return this.clause.schedule?.weekdayOfMonth;
+  }
+
+  set weekdayOfMonth(value: CanonicalWeekdayOfMonth[] | undefined) {
+    this.ensureSchedule().weekdayOfMonth = value;
+  }
+
+  get cycle(): CanonicalScheduleCycle | undefined {
+    return this.clause.schedule?.cycle;
+  }
+
+  set cycle(value: CanonicalScheduleCycle | undefined) {
+    this.ensureSchedule().cycle = value;
+  }
+
+  get whileAwake(): boolean | undefined {
+    return this.clause.schedule?.whileAwake;
+  }
+
+  set whileAwake(value: boolean | undefined) {
+    this.ensureSchedule().whileAwake = value;
+  }
+
+  get event(): string[] | undefined {
+    return this.clause.schedule?.event;
+  }
+
+  set event(value: string[] | undefined) {
+    this.ensureSchedule().event = value;
+  }
+
+  get anchor(): CanonicalEventAnchor | undefined {
+    return this.clause.schedule?.anchor;
+  }
+
+  set anchor(value: CanonicalEventAnchor | undefined) {
+    this.ensureSchedule().anchor = value;
+  }
+
   get timingCode(): string | undefined {
     return this.clause.schedule?.timingCode;
   }
@@ -272,6 +272,9 @@ function cleanupClause(state: ParserState): void {
     if (!schedule.dayOfWeek?.length) delete schedule.dayOfWeek;
     if (!schedule.when?.length) delete schedule.when;
     if (!schedule.timeOfDay?.length) delete schedule.timeOfDay;
+    if (!schedule.dayOfMonth?.length) delete schedule.dayOfMonth;
+    if (!schedule.weekdayOfMonth?.length) delete schedule.weekdayOfMonth;
+    if (!schedule.event?.length) delete schedule.event;
     if (
       schedule.count === undefined &&
       schedule.duration === undefined &&
@@ -285,7 +288,13 @@ function cleanupClause(state: ParserState): void {
       schedule.timingCode === undefined &&
       !schedule.dayOfWeek &&
       !schedule.when &&
-      !schedule.timeOfDay
+      !schedule.timeOfDay &&
+      !schedule.dayOfMonth &&
+      !schedule.weekdayOfMonth &&
+      !schedule.cycle &&
+      !schedule.whileAwake &&
+      !schedule.event &&
+      !schedule.anchor
     ) {
       delete clause.schedule;
     }
@@ -1,4 +1,13 @@
 import {
+  AdministrationSource,
+  CanonicalEventAnchor,
+  CanonicalScheduleCycle,
+  CanonicalWeekdayOfMonth,
+  ConsolidationConstraint,
+  DaysSupplyOptions,
+  DaysSupplyResult,
+  DueAdministration,
+  EventAnchorRelation,
   EventTiming,
   EventClockMap,
   FhirDosage,
@@ -7,16 +16,43 @@ import {
   FhirTiming,
   FhirTimingRepeat,
   FrequencyFallbackTimes,
+  MarAvailability,
+  MarCell,
+  MarEntry,
+  MarGrid,
+  MarGridOptions,
+  MarRow,
   MealOffsetMap,
+  MedicationContext,
   NextDueDoseConfig,
   NextDueDoseOptions,
+  ParseBatchResult,
   TotalUnitsOptions,
-  TotalUnitsResult
+  TotalUnitsResult,
+  WakeWindow
 } from "./types";
 import { parseAdditionalInstructions } from "./advice";
+import {
+  groupCycleDays,
+  parseTimingCycleExtension,
+  TIMING_CYCLE_EXTENSION_URL
+} from "./timing-cycle";
+import {
+  parseTimingDayOfMonthExtensions,
+  parseTimingWeekdayOfMonthExtensions
+} from "./timing-calendar";
+import {
+  lookupEventCalendar,
+  parseTimingEventAnchorExtension,
+  TIMING_EVENT_ANCHOR_EXTENSION_URL
+} from "./event-anchor";
+import { isTimingWhileAwake, TIMING_WHILE_AWAKE_EXTENSION_URL } from "./timing-awake";
+import { EVENT_DATE_TIME_PATTERN } from "./timing-event";
 import { arrayIncludes } from "./utils/array";
-import { getUnitCategory, convertValue } from "./utils/units";
+import { convertValue } from "./utils/units";
 import { parseStrengthIntoRatio } from "./utils/strength";
+import { readQuantityUnit } from "./ucum";
+import { formatZonedIso, getTimeParts, makeZonedDate, pad } from "./zoned-time";
 
 /**
  * Default institution times used when a dosage only specifies frequency without
@@ -44,69 +80,18 @@ const DEFAULT_FREQUENCY_DEFAULTS: Required<FrequencyFallbackTimes> = {
 const SECONDS_PER_MINUTE = 60;
 const MINUTES_PER_DAY = 24 * 60;
 
-/** Caches expensive Intl.DateTimeFormat objects per time zone. */
-const dateTimeFormatCache = new Map<string, Intl.DateTimeFormat>();
 /** Separate cache for weekday formatting to avoid rebuilding formatters. */
 const weekdayFormatCache = new Map<string, Intl.DateTimeFormat>();
 
-interface TimeParts {
-  year: number;
-  month: number;
-  day: number;
-  hour: number;
-  minute: number;
-  second: number;
-}
-
 interface ExpandedTime {
   time: string;
   dayShift: number;
 }
 
-interface DateTimeFormatPart {
-  type: string;
-  value: string;
-}
-
-interface IntlDateTimeFormatOptionsExtended extends Intl.DateTimeFormatOptions {
-  calendar?: string;
-  numberingSystem?: string;
-}
-
-interface DateTimeFormatWithParts extends Intl.DateTimeFormat {
-  formatToParts?: (date: Date) => DateTimeFormatPart[];
-}
-
-/** Simple zero-padding helper for numeric components. */
-function pad(value: number, length = 2): string {
-  const absolute = Math.abs(value);
-  let output = absolute.toString();
-  while (output.length < length) {
-    output = `0${output}`;
-  }
-  return value < 0 ? `-${output}` : output;
-}
-
-function formatToParts(formatter: Intl.DateTimeFormat, date: Date): DateTimeFormatPart[] {
-  const withParts = formatter as DateTimeFormatWithParts;
-  if (typeof withParts.formatToParts === "function") {
-    return withParts.formatToParts(date);
-  }
-  const iso = date.toISOString();
-  return [
-    { type: "year", value: iso.slice(0, 4) },
-    { type: "month", value: iso.slice(5, 7) },
-    { type: "day", value: iso.slice(8, 10) },
-    { type: "hour", value: iso.slice(11, 13) },
-    { type: "minute", value: iso.slice(14, 16) },
-    { type: "second", value: iso.slice(17, 19) }
-  ];
-}
-
 /**
  * Normalizes HH:mm or HH:mm:ss clocks into a consistent HH:mm:ss string.
  */
-function normalizeClock(clock: string): string {
+export function normalizeClock(clock: string): string {
   const parts = clock.split(":");
   if (parts.length < 2 || parts.length > 3) {
     throw new Error(`Invalid clock value: ${clock}`);
@@ -135,28 +120,6 @@ function normalizeClock(clock: string): string {
   return `${pad(hour)}:${pad(minute)}:${pad(second)}`;
 }
 
-/** Retrieves (and caches) an Intl formatter for calendar components. */
-function getDateTimeFormat(timeZone: string): Intl.DateTimeFormat {
-  let formatter = dateTimeFormatCache.get(timeZone);
-  if (!formatter) {
-    const options: IntlDateTimeFormatOptionsExtended = {
-      timeZone,
-      calendar: "iso8601",
-      numberingSystem: "latn",
-      hour12: false,
-      year: "numeric",
-      month: "2-digit",
-      day: "2-digit",
-      hour: "2-digit",
-      minute: "2-digit",
-      second: "2-digit"
-    };
-    formatter = new Intl.DateTimeFormat("en-CA", options);
-    dateTimeFormatCache.set(timeZone, formatter);
-  }
-  return formatter;
-}
-
 /** Retrieves (and caches) a formatter for weekday lookups. */
 function getWeekdayFormat(timeZone: string): Intl.DateTimeFormat {
   let formatter = weekdayFormatCache.get(timeZone);
@@ -170,122 +133,6 @@ function getWeekdayFormat(timeZone: string): Intl.DateTimeFormat {
   return formatter;
 }
 
-/**
- * Extracts calendar components for a Date interpreted within the supplied time
- * zone.
- */
-function getTimeParts(date: Date, timeZone: string): TimeParts {
-  const formatter = getDateTimeFormat(timeZone);
-  const parts: Partial<TimeParts> = {};
-  const rawParts = formatToParts(formatter, date);
-  for (const part of rawParts) {
-    if (part.type === "literal") {
-      continue;
-    }
-    if (part.type === "year") {
-      parts.year = Number(part.value);
-    } else if (part.type === "month") {
-      parts.month = Number(part.value);
-    } else if (part.type === "day") {
-      parts.day = Number(part.value);
-    } else if (part.type === "hour") {
-      parts.hour = Number(part.value);
-    } else if (part.type === "minute") {
-      parts.minute = Number(part.value);
-    } else if (part.type === "second") {
-      parts.second = Number(part.value);
-    }
-  }
-  if (parts.hour === 24) {
-    // Some locales express midnight as 24:00 of the previous day. Nudge the
-    // instant forward slightly so we can capture the correct calendar date and
-    // reset the hour component back to zero.
-    const forward = new Date(date.getTime() + 60 * 1000);
-    const forwardParts = formatToParts(formatter, forward);
-    for (const part of forwardParts) {
-      if (part.type === "literal") {
-        continue;
-      }
-      if (part.type === "year") {
-        parts.year = Number(part.value);
-      } else if (part.type === "month") {
-        parts.month = Number(part.value);
-      } else if (part.type === "day") {
-        parts.day = Number(part.value);
-      }
-    }
-    parts.hour = 0;
-    parts.minute = parts.minute ?? 0;
-    parts.second = parts.second ?? 0;
-  }
-  if (
-    parts.year === undefined ||
-    parts.month === undefined ||
-    parts.day === undefined ||
-    parts.hour === undefined ||
-    parts.minute === undefined ||
-    parts.second === undefined
-  ) {
-    throw new Error("Unable to resolve time parts for provided date");
-  }
-  return parts as TimeParts;
-}
-
-/** Calculates the time-zone offset in minutes for a given instant. */
-function getOffset(date: Date, timeZone: string): number {
-  const { year, month, day, hour, minute, second } = getTimeParts(date, timeZone);
-  const zonedTime = Date.UTC(year, month - 1, day, hour, minute, second);
-  return (zonedTime - date.getTime()) / (SECONDS_PER_MINUTE * 1000);
-}
-
-/**
- * Renders an ISO-8601 string that reflects the provided time zone instead of
- * defaulting to UTC.
- */
-function formatZonedIso(date: Date, timeZone: string): string {
-  const { year, month, day, hour, minute, second } = getTimeParts(date, timeZone);
-  const offsetMinutes = getOffset(date, timeZone);
-  const offsetSign = offsetMinutes >= 0 ? "+" : "-";
-  const absoluteOffset = Math.abs(offsetMinutes);
-  const offsetHours = Math.floor(absoluteOffset / SECONDS_PER_MINUTE);
-  const offsetRemainder = absoluteOffset % SECONDS_PER_MINUTE;
-  return `${pad(year, 4)}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}:${pad(second)}${offsetSign}${pad(offsetHours)}:${pad(offsetRemainder)}`;
-}
-
-/**
- * Builds a Date representing a local wall-clock time in the target time zone.
- */
-function makeZonedDate(
-  timeZone: string,
-  year: number,
-  month: number,
-  day: number,
-  hour: number,
-  minute: number,
-  second: number
-): Date | null {
-  const initialUtc = Date.UTC(year, month - 1, day, hour, minute, second);
-  let candidate = new Date(initialUtc);
-  let offset = getOffset(candidate, timeZone);
-  candidate = new Date(initialUtc - offset * SECONDS_PER_MINUTE * 1000);
-  const recalculatedOffset = getOffset(candidate, timeZone);
-  if (recalculatedOffset !== offset) {
-    candidate = new Date(initialUtc - recalculatedOffset * SECONDS_PER_MINUTE * 1000);
-  }
-  const parts = getTimeParts(candidate, timeZone);
-  if (
-    parts.year !== year ||
-    parts.month !== month ||
-    parts.day !== day ||
-    parts.hour !== hour ||
-    parts.minute !== minute ||
-    parts.second !== second
-  ) {
-    return null;
-  }
-  return candidate;
-}
-
 /** Convenience wrapper around makeZonedDate for day-level math. */
 function makeZonedDateFromDay(base: Date, timeZone: string, clock: string): Date | null {
   const { year, month, day } = getTimeParts(base, timeZone);
@@ -297,7 +144,7 @@ function makeZonedDateFromDay(base: Date, timeZone: string, clock: string): Date
 }
 
 /** Returns a Date pinned to the start of the local day. */
-function startOfLocalDay(date: Date, timeZone: string): Date {
+export function startOfLocalDay(date: Date, timeZone: string): Date {
   const { year, month, day } = getTimeParts(date, timeZone);
   const zoned = makeZonedDate(timeZone, year, month, day, 0, 0, 0);
   if (!zoned) {
@@ -396,7 +243,7 @@ function isDateAlignedToPeriodCycle(
 }
 
 /** Parses arbitrary string/Date inputs into a valid Date instance. */
-function coerceDate(value: Date | string, label: string): Date {
+export function coerceDate(value: Date | string, label: string): Date {
   const date = value instanceof Date ? value : new Date(value);
   if (Number.isNaN(date.getTime())) {
     throw new Error(`Invalid ${label} supplied to nextDueDoses`);
@@ -871,9 +718,587 @@ function resolveFrequencyClocks(
 
 /**
  * Produces the next dose timestamps in ascending order according to the
- * provided configuration and dosage metadata.
+ * provided configuration and dosage metadata. Arrays of dosages are treated as
+ * concurrent unless they carry `sequence` numbers, in which case each phase
+ * starts once the previous one has run its course.
  */
 export function nextDueDoses(
+  dosage: FhirDosage | FhirDosage[] | ParseBatchResult,
+  options: NextDueDoseOptions
+): string[] {
+  if (!Array.isArray(dosage) && !("items" in dosage)) {
+    return nextDueDosesSingle(dosage, options);
+  }
+  const dosages = Array.isArray(dosage) ? dosage : dosage.items.map((item) => item.fhir);
+  const collected = new Map<string, number>();
+  for (const due of collectDueTimes(dosages, options)) {
+    collected.set(due.iso, due.time);
+  }
+  return Array.from(collected.entries())
+    .sort((left, right) => left[1] - right[1])
+    .map(([iso]) => iso)
+    .slice(0, options.limit ?? 10);
+}
+
+interface DueTime {
+  iso: string;
+  time: number;
+  dosageIndex: number;
+  /** Start of the phase the dose belongs to, used as its interval baseline. */
+  phaseStart: Date;
+}
+
+/**
+ * Due times of every dosage in an array, laid out phase by phase. Each dosage
+ * contributes up to `limit` times; callers sort and trim the union.
+ */
+function collectDueTimes(dosages: FhirDosage[], options: NextDueDoseOptions): DueTime[] {
+  if (!options || typeof options !== "object") {
+    throw new Error("Options argument is required for nextDueDoses");
+  }
+  if (options.from === undefined) {
+    throw new Error("The 'from' option is required for nextDueDoses");
+  }
+  const limit = options.limit ?? 10;
+  if (!Number.isFinite(limit) || limit <= 0) {
+    return [];
+  }
+  const from = coerceDate(options.from, "from");
+  const indexByDosage = new Map(dosages.map((dosage, index) => [dosage, index] as const));
+  const collected: DueTime[] = [];
+  for (const phase of resolveSequencePhases(dosages, options)) {
+    if (phase.end && phase.end.getTime() > phase.start.getTime() && phase.end <= from) {
+      continue;
+    }
+    const phaseFrom = phase.start > from ? phase.start : from;
+    for (const entry of phase.dosages) {
+      const times = nextDueDosesSingle(entry, {
+        ...options,
+        from: phaseFrom,
+        orderedAt: phase.start,
+        priorCount: phase.sequenced ? undefined : options.priorCount
+      });
+      for (const iso of times) {
+        const time = new Date(iso).getTime();
+        if (phase.end && phase.end.getTime() > phase.start.getTime() && time >= phase.end.getTime()) {
+          continue;
+        }
+        collected.push({ iso, time, dosageIndex: indexByDosage.get(entry) ?? 0, phaseStart: phase.start });
+      }
+    }
+  }
+  return collected;
+}
+
+interface SlotSource {
+  source: AdministrationSource;
+  when?: EventTiming;
+  fallbackClock: boolean;
+}
+
+/** Frequency clocks that come from the caller's `frequencyDefaults`. */
+function resolveConfiguredFrequencyClocks(timing: FhirTiming, config: NextDueDoseConfig): Set<string> {
+  const defaults = config.frequencyDefaults;
+  const code = timing.code?.coding?.find((coding) => coding.code)?.code?.toUpperCase();
+  const clocks = [...(code ? defaults?.byCode?.[code] ?? [] : [])];
+  const repeat = timing.repeat;
+  if (repeat?.frequency && repeat.period && repeat.periodUnit) {
+    clocks.push(
+      ...(defaults?.byFrequency?.[`freq:${repeat.frequency}/${repeat.periodUnit}`] ?? []),
+      ...(defaults?.byFrequency?.[`freq:${repeat.frequency}/per:${repeat.period}${repeat.periodUnit}`] ?? [])
+    );
+  }
+  return new Set(clocks.map(normalizeClock));
+}
+
+/**
+ * Maps every wall clock a dosage can produce to where it came from, following
+ * the same branches as `nextDueDosesSingle`. `otherwise` covers times that no
+ * clock explains, such as interval steps.
+ */
+function resolveSlotSources(
+  dosage: FhirDosage,
+  config: NextDueDoseConfig
+): { clocks: Map<string, SlotSource>; otherwise: SlotSource } {
+  const clocks = new Map<string, SlotSource>();
+  const order: SlotSource = { source: "order", fallbackClock: false };
+  const timing = dosage.timing;
+  if (timing?.event?.length) {
+    return { clocks, otherwise: { source: "event", fallbackClock: false } };
+  }
+  if (parseTimingEventAnchorExtension(timing)) {
+    return { clocks, otherwise: { source: "anchor", fallbackClock: false } };
+  }
+  if (isTimingWhileAwake(timing) && createWakeLayout(timing, config.wakeWindow ?? DEFAULT_WAKE_WINDOW)) {
+    return { clocks, otherwise: { source: "wakeWindow", fallbackClock: false } };
+  }
+  const repeat = timing?.repeat;
+  if (!timing || !repeat || isSingleAdministrationRepeat(repeat)) {
+    return { clocks, otherwise: order };
+  }
+  const add = (clock: string, slot: SlotSource) => {
+    if (!clocks.has(clock)) {
+      clocks.set(clock, slot);
+    }
+  };
+  const whenCodes = (repeat.when ?? []).filter((code) => code !== EventTiming.Immediate);
+  for (const code of whenCodes) {
+    for (const entry of expandTiming(code, config, repeat)) {
+      add(entry.time, { source: "when", when: code, fallbackClock: false });
+    }
+  }
+  for (const clock of repeat.timeOfDay ?? []) {
+    add(normalizeClock(clock), { source: "timeOfDay", fallbackClock: false });
+  }
+  const hasFrequency = !!repeat.frequency && !!repeat.period && !!repeat.periodUnit;
+  if (!clocks.size && whenCodes.length && !hasFrequency) {
+    for (const code of whenCodes) {
+      for (const entry of inferWhenFallbackEntries([code], repeat)) {
+        add(entry.time, { source: "when", when: code, fallbackClock: true });
+      }
+    }
+  }
+  if (clocks.size || resolveCalendarDays(timing)) {
+    return { clocks, otherwise: order };
+  }
+  const treatAsInterval =
+    !!repeat.period &&
+    !!repeat.periodUnit &&
+    (!repeat.frequency ||
+      repeat.periodUnit !== "d" ||
+      (repeat.frequency === 1 && repeat.period > 1));
+  const enforceDayFilter = (repeat.dayOfWeek?.length ?? 0) > 0;
+  if (
+    (treatAsInterval && isDayFilteredIntervalSupported(repeat, enforceDayFilter)) ||
+    resolveDayFilteredSeriesRepeat(repeat, enforceDayFilter)
+  ) {
+    return { clocks, otherwise: { source: "interval", fallbackClock: false } };
+  }
+  if (hasFrequency) {
+    const configured = resolveConfiguredFrequencyClocks(timing, config);
+    for (const clock of resolveFrequencyClocks(timing, config)) {
+      add(clock, { source: "frequency", fallbackClock: !configured.has(clock) });
+    }
+  }
+  return { clocks, otherwise: order };
+}
+
+/** Meal relation codes, which tie a dose to the meal's clock. */
+const MEAL_RELATION_CODES = new Set<string>(
+  Object.keys(EventTiming)
+    .filter((key) => /Meal|Breakfast|Lunch|Dinner/.test(key))
+    .map((key) => (EventTiming as Record<string, string>)[key])
+);
+
+/**
+ * A dosage's clocks over one day, as `consolidateAdministrationTimes` sees
+ * them: either pinned by meal codes, bedtime or explicit clocks, or a number
+ * of doses that may move.
+ */
+export type DailyClockPlan =
+  | { kind: "pinned"; clocks: Array<{ clock: string; constraint: ConsolidationConstraint }> }
+  | { kind: "movable"; doses: number; intervalMinutes?: number; defaults: string[] };
+
+export function resolveDailyClockPlan(
+  dosage: FhirDosage,
+  config: NextDueDoseConfig
+): DailyClockPlan | undefined {
+  const timing = dosage.timing;
+  const repeat = timing?.repeat;
+  if (
+    !timing ||
+    !repeat ||
+    timing.event?.length ||
+    parseTimingEventAnchorExtension(timing) ||
+    isSingleAdministrationRepeat(repeat)
+  ) {
+    return undefined;
+  }
+  const whenCodes = (repeat.when ?? []).filter((code) => code !== EventTiming.Immediate);
+  if (whenCodes.length || repeat.timeOfDay?.length) {
+    const pinned = new Map<string, ConsolidationConstraint>();
+    for (const code of whenCodes) {
+      const constraint: ConsolidationConstraint =
+        code === EventTiming["Before Sleep"]
+          ? "bedtime"
+          : MEAL_RELATION_CODES.has(code)
+          ? "mealRelation"
+          : "eventTiming";
+      const entries = expandTiming(code, config, repeat);
+      for (const entry of entries.length ? entries : inferWhenFallbackEntries([code], repeat)) {
+        if (!pinned.has(entry.time)) {
+          pinned.set(entry.time, constraint);
+        }
+      }
+    }
+    for (const clock of repeat.timeOfDay ?? []) {
+      pinned.set(normalizeClock(clock), "fixedClock");
+    }
+    return {
+      kind: "pinned",
+      clocks: Array.from(pinned.keys())
+        .sort()
+        .map((clock) => ({ clock, constraint: pinned.get(clock)! }))
+    };
+  }
+  if (resolveCalendarDays(timing)) {
+    return { kind: "movable", doses: 1, defaults: [] };
+  }
+  const { frequency, period, periodUnit } = repeat;
+  if (!period || !periodUnit) {
+    return undefined;
+  }
+  if (periodUnit === "s" || periodUnit === "min" || periodUnit === "h") {
+    const unitMinutes = periodUnit === "s" ? 1 / 60 : periodUnit === "min" ? 1 : 60;
+    const interval = (period * unitMinutes) / (frequency ?? 1);
+    if (interval < 60 || interval > 24 * 60 || (24 * 60) % interval !== 0) {
+      return undefined;
+    }
+    return { kind: "movable", doses: (24 * 60) / interval, intervalMinutes: interval, defaults: [] };
+  }
+  if (periodUnit === "d" && period === 1) {
+    return frequency
+      ? { kind: "movable", doses: frequency, defaults: resolveFrequencyClocks(timing, config) }
+      : undefined;
+  }
+  return (frequency ?? 1) === 1
+    ? { kind: "movable", doses: 1, defaults: resolveFrequencyClocks(timing, config) }
+    : undefined;
+}
+
+/**
+ * The wake window from options or config. Equal start and end clocks leave
+ * no waking time to lay doses out in, so they are rejected.
+ */
+function resolveWakeWindow(options: NextDueDoseOptions, caller: string): WakeWindow | undefined {
+  const window = options.wakeWindow ?? options.config?.wakeWindow;
+  if (window && normalizeClock(window.start) === normalizeClock(window.end)) {
+    throw new Error(`Invalid wakeWindow supplied to ${caller}`);
+  }
+  return window;
+}
+
+export function resolveScheduleConfig(options: NextDueDoseOptions, caller: string): NextDueDoseConfig {
+  const providedConfig = options.config;
+  const timeZone = options.timeZone ?? providedConfig?.timeZone;
+  if (!timeZone) {
+    throw new Error("Configuration with a valid timeZone is required");
+  }
+  return {
+    timeZone,
+    eventClock: { ...(providedConfig?.eventClock ?? {}), ...(options.eventClock ?? {}) },
+    mealOffsets: { ...(providedConfig?.mealOffsets ?? {}), ...(options.mealOffsets ?? {}) },
+    frequencyDefaults: mergeFrequencyDefaults(providedConfig?.frequencyDefaults, options.frequencyDefaults),
+    eventCalendar: options.eventCalendar ?? providedConfig?.eventCalendar,
+    wakeWindow: resolveWakeWindow(options, caller)
+  };
+}
+
+/**
+ * Like `nextDueDoses`, but each due time comes back with its dose, the dosage
+ * it belongs to and where its clock came from, so a MAR does not have to
+ * re-derive what a slot means. Concurrent dosages are merged into one
+ * chronological stream; two dosages due at the same instant both appear.
+ */
+export function nextDueAdministrations(
+  dosage: FhirDosage | FhirDosage[] | ParseBatchResult,
+  options: NextDueDoseOptions
+): DueAdministration[] {
+  const dosages = Array.isArray(dosage)
+    ? dosage
+    : "items" in dosage
+    ? dosage.items.map((item) => item.fhir)
+    : [dosage];
+  const config = resolveScheduleConfig(options, "nextDueAdministrations");
+  const timeZone = config.timeZone!;
+  const sources = dosages.map((entry) => resolveSlotSources(entry, config));
+  const seen = new Set<string>();
+  const administrations: Array<DueAdministration & { instant: number }> = [];
+  for (const due of collectDueTimes(dosages, options)) {
+    const key = `${due.dosageIndex}|${due.iso}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    const entry = dosages[due.dosageIndex];
+    const clock = toLocalClock(new Date(due.time), timeZone);
+    const immediate =
+      arrayIncludes(entry.timing?.repeat?.when ?? [], EventTiming.Immediate) &&
+      due.time === due.phaseStart.getTime();
+    const slot: SlotSource = immediate
+      ? { source: "when", when: EventTiming.Immediate, fallbackClock: false }
+      : sources[due.dosageIndex].clocks.get(clock) ?? sources[due.dosageIndex].otherwise;
+    const dose = entry.doseAndRate?.[0];
+    administrations.push({
+      instant: due.time,
+      time: due.iso,
+      dosageIndex: due.dosageIndex,
+      ...(dose?.doseQuantity ? { doseQuantity: { ...dose.doseQuantity } } : {}),
+      ...(dose?.doseRange ? { doseRange: dose.doseRange } : {}),
+      source: slot.source,
+      ...(slot.when ? { when: slot.when } : {}),
+      clock,
+      fallbackClock: slot.fallbackClock
+    });
+  }
+  return administrations
+    .sort((left, right) => left.instant - right.instant || left.dosageIndex - right.dosageIndex)
+    .slice(0, options.limit ?? 10)
+    .map(({ instant: _instant, ...administration }) => administration);
+}
+
+export function isAsNeeded(dosage: FhirDosage): boolean {
+  return Boolean(
+    dosage.asNeededBoolean || dosage.asNeededFor?.length
+  );
+}
+
+export function formatLocalDate(date: Date, timeZone: string): string {
+  const { year, month, day } = getTimeParts(date, timeZone);
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+}
+
+/** Local midnights bounding each day of the grid, plus the one after the last. */
+function resolveMarDayStarts(from: Date, days: number, timeZone: string): Date[] {
+  const { year, month, day } = getTimeParts(from, timeZone);
+  const starts: Date[] = [];
+  for (let offset = 0; offset <= days; offset += 1) {
+    const calendar = new Date(Date.UTC(year, month - 1, day + offset));
+    const start = makeZonedDate(
+      timeZone,
+      calendar.getUTCFullYear(),
+      calendar.getUTCMonth() + 1,
+      calendar.getUTCDate(),
+      0,
+      0,
+      0
+    );
+    if (!start) {
+      throw new Error("Unable to resolve start of day for provided date");
+    }
+    starts.push(start);
+  }
+  return starts;
+}
+
+/**
+ * Every scheduled administration of `dosages` before `end`. The limit is
+ * doubled until the stream runs past `end`, since dense intervals can need
+ * far more doses than a day has slots.
+ */
+export function collectAdministrationsUntil(
+  dosages: FhirDosage[],
+  options: NextDueDoseOptions,
+  end: Date
+): DueAdministration[] {
+  let limit = 32 * dosages.length;
+  for (;;) {
+    const administrations = nextDueAdministrations(dosages, { ...options, limit });
+    const last = administrations[administrations.length - 1];
+    if (administrations.length < limit || !last || new Date(last.time) >= end) {
+      return administrations.filter((administration) => new Date(administration.time) < end);
+    }
+    limit *= 2;
+  }
+}
+
+/**
+ * Windows during which the as-needed dosages of an entry may be given, split
+ * at local midnight. A window runs from the start of the dosage's phase until
+ * the phase or its `boundsDuration` ends.
+ */
+function resolveMarAvailability(
+  dosages: FhirDosage[],
+  options: NextDueDoseOptions,
+  dayStarts: Date[],
+  timeZone: string
+): MarAvailability[] {
+  if (!dosages.some(isAsNeeded)) {
+    return [];
+  }
+  const windows: MarAvailability[] = [];
+  for (const phase of resolveSequencePhases(dosages, options)) {
+    for (const entry of phase.dosages) {
+      if (!isAsNeeded(entry)) {
+        continue;
+      }
+      const phaseEnd = phase.end && phase.end > phase.start ? phase.end : null;
+      const capEnd = resolveRepeatDurationCapEnd(entry.timing?.repeat, phase.start, timeZone);
+      const windowEnd = phaseEnd ? minDate(phaseEnd, capEnd) : capEnd;
+      for (let index = 0; index < dayStarts.length - 1; index += 1) {
+        const start = phase.start > dayStarts[index] ? phase.start : dayStarts[index];
+        const end = windowEnd && windowEnd < dayStarts[index + 1] ? windowEnd : dayStarts[index + 1];
+        if (start >= end) {
+          continue;
+        }
+        windows.push({
+          date: formatLocalDate(dayStarts[index], timeZone),
+          dosageIndex: dosages.indexOf(entry),
+          start: formatZonedIso(start, timeZone),
+          end: formatZonedIso(end, timeZone)
+        });
+      }
+    }
+  }
+  return windows.sort(
+    (left, right) => left.start.localeCompare(right.start) || left.dosageIndex - right.dosageIndex
+  );
+}
+
+/**
+ * Lays out a Medication Administration Record: one row per entry, one column
+ * per distinct wall clock across every row, over whole local days. Scheduled
+ * dosages fill cells through `nextDueAdministrations`; as-needed dosages have
+ * no slots and instead report when they are available.
+ */
+export function buildMarGrid(entries: MarEntry[], options: MarGridOptions): MarGrid {
+  if (!options || typeof options !== "object") {
+    throw new Error("Options argument is required for buildMarGrid");
+  }
+  if (options.from === undefined) {
+    throw new Error("The 'from' option is required for buildMarGrid");
+  }
+  const days = options.days ?? 1;
+  if (!Number.isInteger(days) || days <= 0) {
+    throw new Error("Invalid days supplied to buildMarGrid");
+  }
+  const config = resolveScheduleConfig(options, "buildMarGrid");
+  const timeZone = config.timeZone!;
+  const dayStarts = resolveMarDayStarts(coerceDate(options.from, "from"), days, timeZone);
+  const rangeStart = dayStarts[0];
+  const rangeEnd = dayStarts[days];
+  const slots = new Set<string>();
+  const rows = entries.map((entry): MarRow => {
+    const dosages = Array.isArray(entry.dosage)
+      ? entry.dosage
+      : "items" in entry.dosage
+      ? entry.dosage.items.map((item) => item.fhir)
+      : [entry.dosage];
+    const orderedAt = entry.orderedAt ?? options.orderedAt;
+    const scheduleOptions: NextDueDoseOptions = {
+      ...options,
+      timeZone,
+      from: rangeStart,
+      orderedAt: orderedAt ?? rangeStart
+    };
+    const cells = collectAdministrationsUntil(dosages, scheduleOptions, rangeEnd)
+      .filter((administration) => !isAsNeeded(dosages[administration.dosageIndex]))
+      .map((administration): MarCell => {
+        slots.add(administration.clock);
+        return { ...administration, date: formatLocalDate(new Date(administration.time), timeZone) };
+      });
+    return {
+      label: entry.label,
+      dosages,
+      prn: dosages.length > 0 && dosages.every(isAsNeeded),
+      cells,
+      availability: resolveMarAvailability(dosages, scheduleOptions, dayStarts, timeZone)
+    };
+  });
+  return {
+    timeZone,
+    dates: dayStarts.slice(0, days).map((start) => formatLocalDate(start, timeZone)),
+    slots: Array.from(slots).sort(),
+    rows
+  };
+}
+
+interface SequencePhase {
+  dosages: FhirDosage[];
+  start: Date;
+  /** Exclusive end of the phase; null when it runs indefinitely. */
+  end: Date | null;
+  sequenced: boolean;
+}
+
+function isImmediateOnlyRepeat(repeat: FhirTimingRepeat): boolean {
+  return (
+    repeat.when?.length === 1 &&
+    repeat.when[0] === EventTiming.Immediate &&
+    repeat.frequency === undefined &&
+    repeat.period === undefined &&
+    (repeat.timeOfDay?.length ?? 0) === 0
+  );
+}
+
+/**
+ * Resolves when a dosage started at `start` stops contributing doses: loading
+ * doses end immediately, bounded courses at their duration, and count-limited
+ * courses just after their final dose.
+ */
+function resolveDosageCourseEnd(
+  dosage: FhirDosage,
+  start: Date,
+  options: NextDueDoseOptions,
+  timeZone: string
+): Date | null {
+  const repeat = dosage.timing?.repeat;
+  if (!repeat || isSingleAdministrationRepeat(repeat) || isImmediateOnlyRepeat(repeat)) {
+    return start;
+  }
+  const capEnd = resolveRepeatDurationCapEnd(repeat, start, timeZone);
+  if (capEnd) {
+    return capEnd;
+  }
+  if (repeat.count === undefined || repeat.count <= 0) {
+    return null;
+  }
+  const doses = nextDueDosesSingle(dosage, {
+    ...options,
+    from: start,
+    orderedAt: start,
+    priorCount: 0,
+    limit: Math.floor(repeat.count)
+  });
+  const last = doses[doses.length - 1];
+  return last ? new Date(new Date(last).getTime() + 1) : null;
+}
+
+/**
+ * Groups dosages by `sequence` and lays the phases back to back from the order
+ * start. Phases after an open-ended one are dropped since they never begin.
+ */
+function resolveSequencePhases(
+  dosages: FhirDosage[],
+  options: NextDueDoseOptions
+): SequencePhase[] {
+  const from = coerceDate(options.from, "from");
+  const start = options.orderedAt === undefined ? from : coerceDate(options.orderedAt, "orderedAt");
+  const sequences = Array.from(new Set(dosages.map((dosage) => dosage.sequence ?? 1))).sort(
+    (left, right) => left - right
+  );
+  if (sequences.length <= 1) {
+    return [{ dosages, start, end: null, sequenced: false }];
+  }
+  const timeZone = options.timeZone ?? options.config?.timeZone;
+  if (!timeZone) {
+    throw new Error("Configuration with a valid timeZone is required");
+  }
+  const phases: SequencePhase[] = [];
+  let phaseStart = start;
+  for (const sequence of sequences) {
+    const members = dosages.filter((dosage) => (dosage.sequence ?? 1) === sequence);
+    let end: Date | null = phaseStart;
+    for (const member of members) {
+      const memberEnd = resolveDosageCourseEnd(member, phaseStart, options, timeZone);
+      if (!memberEnd) {
+        end = null;
+        break;
+      }
+      if (end && memberEnd > end) {
+        end = memberEnd;
+      }
+    }
+    phases.push({ dosages: members, start: phaseStart, end, sequenced: true });
+    if (!end) {
+      break;
+    }
+    phaseStart = end;
+  }
+  return phases;
+}
+
+function nextDueDosesSingle(
   dosage: FhirDosage,
   options: NextDueDoseOptions
 ): string[] {
@@ -922,8 +1347,21 @@ export function nextDueDoses(
     timeZone,
     eventClock,
     mealOffsets,
-    frequencyDefaults
+    frequencyDefaults,
+    eventCalendar: options.eventCalendar ?? providedConfig?.eventCalendar,
+    wakeWindow: resolveWakeWindow(options, "nextDueDoses")
   };
+  const anchor = parseTimingEventAnchorExtension(dosage.timing);
+  if (anchor) {
+    return nextDueAnchoredDoses(dosage, anchor, options, config, from, orderedAt, limit);
+  }
+  const cycle = parseTimingCycleExtension(dosage.timing);
+  if (cycle) {
+    return nextDueCycleDoses(dosage, cycle, options, config, from, orderedAt, limit);
+  }
+  if (isTimingWhileAwake(dosage.timing)) {
+    return nextDueWakeDoses(dosage, options, config, from, orderedAt, limit);
+  }
   const timing: FhirTiming | undefined = dosage.timing;
   const repeat: FhirTimingRepeat | undefined = timing?.repeat;
   const courseEnd =
@@ -946,6 +1384,12 @@ export function nextDueDoses(
     );
   }
 
+  if (timing?.event?.length) {
+    return resolveEventInstants(timing, config, baseTime)
+      .filter((instant) => instant >= from && (!courseEnd || instant < courseEnd))
+      .slice(0, limit)
+      .map((instant) => formatZonedIso(instant, timeZone));
+  }
   if (!timing || !repeat) {
     return [];
   }
@@ -967,6 +1411,21 @@ export function nextDueDoses(
   const effectiveLimit =
     remainingCount !== undefined ? Math.min(limit, remainingCount) : limit;
 
+  const calendarDays = resolveCalendarDays(timing);
+  if (calendarDays) {
+    return generateCalendarDaySeries({
+      calendarDays,
+      repeat,
+      timeZone,
+      anchorDay: startOfLocalDay(baseTime, timeZone),
+      from,
+      to: courseEnd ?? undefined,
+      orderedAt,
+      limit: effectiveLimit,
+      clocks: resolveCalendarDayClocks(repeat, config, baseTime)
+    });
+  }
+
   if (isSingleAdministrationRepeat(repeat)) {
     if (hasUnresolvedRelationalInstruction(dosage)) {
       return [];
@@ -1164,13 +1623,544 @@ export function nextDueDoses(
           }
         }
       }
-      currentDay = addLocalDays(currentDay, 1, timeZone);
-      iterations += 1;
+      currentDay = addLocalDays(currentDay, 1, timeZone);
+      iterations += 1;
+    }
+    return results.slice(0, effectiveLimit);
+  }
+
+  return [];
+}
+
+interface CycleWindow {
+  start: Date;
+  /** Exclusive end: the start of the first off-day after the stretch. */
+  end: Date;
+}
+
+function withoutTimingExtension(dosage: FhirDosage, url: string): FhirDosage {
+  const extension = dosage.timing?.extension?.filter((entry) => entry.url !== url);
+  return {
+    ...dosage,
+    timing: { ...dosage.timing, extension: extension?.length ? extension : undefined }
+  };
+}
+
+/**
+ * Lists the active stretches of a treatment cycle that end after `from`. The
+ * local day of `anchor` is day 1 of the first cycle; cycles without a length
+ * run once.
+ */
+function resolveCycleWindows(
+  cycle: CanonicalScheduleCycle,
+  anchor: Date,
+  from: Date,
+  until: Date | null,
+  maxWindows: number,
+  timeZone: string
+): CycleWindow[] {
+  const anchorDay = startOfLocalDay(anchor, timeZone);
+  const runs = groupCycleDays(cycle.activeDays);
+  const elapsed = getLocalDayNumber(from, timeZone) - getLocalDayNumber(anchorDay, timeZone);
+  const windows: CycleWindow[] = [];
+  let index = cycle.length && elapsed > 0 ? Math.floor(elapsed / cycle.length) : 0;
+  while (windows.length < maxWindows) {
+    const offset = cycle.length ? index * cycle.length : 0;
+    for (const [low, high] of runs) {
+      const start = addLocalDays(anchorDay, offset + low - 1, timeZone);
+      if (until && start >= until) {
+        return windows;
+      }
+      const end = addLocalDays(anchorDay, offset + high, timeZone);
+      if (end > from) {
+        windows.push({ start, end });
+      }
+    }
+    if (!cycle.length) {
+      break;
+    }
+    index += 1;
+  }
+  return windows;
+}
+
+/**
+ * Collects the regular schedule's doses inside each active stretch of the
+ * cycle, so off-days are skipped and every cycle restarts on its day 1. Cycle
+ * day 1 is the local day of `orderedAt`, or of `from` without an order time.
+ */
+function nextDueCycleDoses(
+  dosage: FhirDosage,
+  cycle: CanonicalScheduleCycle,
+  options: NextDueDoseOptions,
+  config: NextDueDoseConfig,
+  from: Date,
+  orderedAt: Date | null,
+  limit: number
+): string[] {
+  const timeZone = config.timeZone!;
+  const anchor = orderedAt ?? from;
+  const schedule = withoutTimingExtension(dosage, TIMING_CYCLE_EXTENSION_URL);
+  let priorCount = options.priorCount;
+  if (priorCount === undefined && dosage.timing?.repeat?.count !== undefined) {
+    priorCount = anchor < from ? countScheduleEvents(dosage, anchor, from, config, anchor, anchor) : 0;
+  }
+  const results: string[] = [];
+  for (const window of resolveCycleWindows(cycle, anchor, from, null, limit * 31, timeZone)) {
+    const remaining = limit - results.length;
+    const due = nextDueDosesSingle(schedule, {
+      ...options,
+      from: window.start > from ? window.start : from,
+      orderedAt: anchor,
+      priorCount: priorCount === undefined ? undefined : priorCount + results.length,
+      limit: remaining
+    });
+    for (const iso of due) {
+      if (new Date(iso) < window.end) {
+        results.push(iso);
+      }
+    }
+    // A short batch means the schedule itself has run out, not just this cycle.
+    if (due.length < remaining || results.length >= limit) {
+      break;
+    }
+  }
+  return results;
+}
+
+/** Cycle-aware counterpart of `countScheduleEvents`. */
+function countCycleEvents(
+  dosage: FhirDosage,
+  cycle: CanonicalScheduleCycle,
+  from: Date,
+  to: Date,
+  config: NextDueDoseConfig,
+  baseTime: Date,
+  limit?: number
+): number {
+  const timeZone = config.timeZone!;
+  const schedule = withoutTimingExtension(dosage, TIMING_CYCLE_EXTENSION_URL);
+  const count = dosage.timing?.repeat?.count;
+  const priorCount = count !== undefined && from > baseTime
+    ? countCycleEvents(dosage, cycle, baseTime, from, config, baseTime)
+    : 0;
+  let remaining = Math.min(
+    limit ?? Number.POSITIVE_INFINITY,
+    count === undefined ? Number.POSITIVE_INFINITY : Math.max(0, Math.floor(count) - priorCount)
+  );
+  let total = 0;
+  for (const window of resolveCycleWindows(
+    cycle,
+    baseTime,
+    from,
+    to,
+    Number.POSITIVE_INFINITY,
+    timeZone
+  )) {
+    if (remaining <= 0) {
+      break;
+    }
+    const counted = countScheduleEvents(
+      schedule,
+      window.start > from ? window.start : from,
+      window.end < to ? window.end : to,
+      config,
+      baseTime,
+      null,
+      Number.isFinite(remaining) ? remaining : undefined
+    );
+    total += counted;
+    remaining -= counted;
+  }
+  return total;
+}
+
+/** Upper bound on anchored doses resolved for one count. */
+const MAX_ANCHORED_DOSES = 365 * 31;
+/** How far ahead recurring anchors are projected when nothing else ends the schedule. */
+const ANCHOR_HORIZON_DAYS = 366;
+
+/**
+ * Occurrences of an anchor's clinical event in `[from, until)`: the patient
+ * calendar's entries when it lists the event, otherwise the definition's
+ * weekdays. Dates without a time fall at `clock`; without one they cannot be
+ * placed and are skipped. Without either source the event never occurs.
+ */
+function resolveAnchorOccurrences(
+  anchor: CanonicalEventAnchor,
+  config: NextDueDoseConfig,
+  from: Date,
+  until: Date,
+  clock: string | undefined
+): Date[] {
+  const timeZone = config.timeZone!;
+  const entries = lookupEventCalendar(config.eventCalendar, anchor);
+  const occurrences: Array<Date | null> = [];
+  if (entries) {
+    for (const entry of entries) {
+      if (entry instanceof Date) {
+        occurrences.push(new Date(entry.getTime()));
+      } else {
+        occurrences.push(...resolveLocalDateTime(entry, timeZone, (localDay) =>
+          clock ? [makeZonedDateFromDay(localDay, timeZone, clock)] : []
+        ));
+      }
+    }
+  } else if (anchor.dayOfWeek?.length && clock) {
+    for (
+      let day = startOfLocalDay(from, timeZone);
+      day < until;
+      day = addLocalDays(day, 1, timeZone)
+    ) {
+      if (arrayIncludes(anchor.dayOfWeek, getLocalWeekday(day, timeZone))) {
+        occurrences.push(makeZonedDateFromDay(day, timeZone, clock));
+      }
+    }
+  }
+  return uniqueInstants(occurrences).filter((instant) => instant >= from && instant < until);
+}
+
+/**
+ * Minutes from an event's start to its anchored dose. `before` counts back
+ * from the start; `after` counts on from the end when the event has a
+ * duration, and otherwise from the start, which needs an explicit offset.
+ * Undefined when a bare `after` leaves the dose time unknown.
+ */
+function resolveAnchorShift(anchor: CanonicalEventAnchor): number | undefined {
+  const offset = anchor.offset ?? 0;
+  if (anchor.relation === EventAnchorRelation.Before) {
+    return -offset;
+  }
+  if (anchor.relation === EventAnchorRelation.After && !anchor.duration && !offset) {
+    return undefined;
+  }
+  return (anchor.relation === EventAnchorRelation.After ? anchor.duration ?? 0 : 0) + offset;
+}
+
+/**
+ * Anchored doses in `[from, until)`. A relation puts one dose at each event,
+ * shifted as in `resolveAnchorShift`; a bare day restriction (`on dialysis
+ * days`) keeps the regular schedule's doses on event days only, or gives one
+ * dose per event when there is no regular schedule.
+ */
+function resolveAnchoredDoses(
+  dosage: FhirDosage,
+  anchor: CanonicalEventAnchor,
+  config: NextDueDoseConfig,
+  from: Date,
+  until: Date,
+  baseTime: Date,
+  limit: number
+): Date[] {
+  const timeZone = config.timeZone!;
+  if (!anchor.relation && dosage.timing?.repeat) {
+    const schedule = withoutTimingExtension(dosage, TIMING_EVENT_ANCHOR_EXTENSION_URL);
+    const doses: Date[] = [];
+    let previousDay: number | undefined;
+    for (const occurrence of resolveAnchorOccurrences(
+      anchor,
+      config,
+      startOfLocalDay(from, timeZone),
+      until,
+      anchor.clock ?? "00:00:00"
+    )) {
+      const dayStart = startOfLocalDay(occurrence, timeZone);
+      if (dayStart.getTime() === previousDay) {
+        continue;
+      }
+      previousDay = dayStart.getTime();
+      const dayEnd = addLocalDays(dayStart, 1, timeZone);
+      const due = nextDueDosesSingle(schedule, {
+        from: dayStart > from ? dayStart : from,
+        orderedAt: baseTime,
+        priorCount: 0,
+        limit: limit - doses.length,
+        config
+      });
+      for (const iso of due) {
+        const instant = new Date(iso);
+        if (instant < dayEnd && instant < until) {
+          doses.push(instant);
+        }
+      }
+      if (doses.length >= limit) {
+        break;
+      }
+    }
+    return doses;
+  }
+  const minutes = resolveAnchorShift(anchor);
+  if (minutes === undefined) {
+    return [];
+  }
+  const shift = minutes * 60 * 1000;
+  return resolveAnchorOccurrences(
+    anchor,
+    config,
+    new Date(from.getTime() - shift),
+    new Date(until.getTime() - shift),
+    anchor.clock
+  )
+    .map((occurrence) => new Date(occurrence.getTime() + shift))
+    .slice(0, limit);
+}
+
+/**
+ * Doses timed against a clinical event. `Timing.repeat.count` caps the doses
+ * given since `orderedAt`, and `boundsDuration` ends the projection.
+ */
+function nextDueAnchoredDoses(
+  dosage: FhirDosage,
+  anchor: CanonicalEventAnchor,
+  options: NextDueDoseOptions,
+  config: NextDueDoseConfig,
+  from: Date,
+  orderedAt: Date | null,
+  limit: number
+): string[] {
+  const timeZone = config.timeZone!;
+  const baseTime = orderedAt ?? from;
+  const repeat = dosage.timing?.repeat;
+  const until =
+    (repeat ? resolveRepeatDurationCapEnd(repeat, baseTime, timeZone) : null) ??
+    addLocalDays(from, ANCHOR_HORIZON_DAYS, timeZone);
+  let remaining = limit;
+  if (repeat?.count !== undefined) {
+    const priorCount = options.priorCount ?? (baseTime < from
+      ? resolveAnchoredDoses(dosage, anchor, config, baseTime, from, baseTime, MAX_ANCHORED_DOSES).length
+      : 0);
+    remaining = Math.min(limit, Math.max(0, Math.floor(repeat.count) - priorCount));
+  }
+  if (remaining <= 0 || from >= until) {
+    return [];
+  }
+  return resolveAnchoredDoses(dosage, anchor, config, from, until, baseTime, remaining)
+    .map((instant) => formatZonedIso(instant, timeZone));
+}
+
+/** Anchor-aware counterpart of `countScheduleEvents`. */
+function countAnchoredEvents(
+  dosage: FhirDosage,
+  anchor: CanonicalEventAnchor,
+  from: Date,
+  to: Date,
+  config: NextDueDoseConfig,
+  baseTime: Date,
+  limit?: number
+): number {
+  const count = dosage.timing?.repeat?.count;
+  const priorCount = count !== undefined && from > baseTime
+    ? resolveAnchoredDoses(dosage, anchor, config, baseTime, from, baseTime, MAX_ANCHORED_DOSES).length
+    : 0;
+  const cap = Math.min(
+    limit ?? MAX_ANCHORED_DOSES,
+    count === undefined ? MAX_ANCHORED_DOSES : Math.max(0, Math.floor(count) - priorCount)
+  );
+  return cap > 0 ? resolveAnchoredDoses(dosage, anchor, config, from, to, baseTime, cap).length : 0;
+}
+
+/** Wake window used for `while awake` dosages when none is configured. */
+const DEFAULT_WAKE_WINDOW: WakeWindow = { start: "08:00", end: "22:00" };
+/** Upper bound on wake-window doses resolved for one count. */
+const MAX_WAKE_DOSES = 365 * 31;
+
+interface WakeSpan {
+  start: Date;
+  /** Inclusive end: a dose exactly at the end of the window is still given. */
+  end: Date;
+}
+
+/**
+ * Lists the wake windows that end after `from`, one per local day. The window
+ * opening the day before `from` is included because a window that runs past
+ * midnight may still be open.
+ */
+function resolveWakeSpans(
+  window: WakeWindow,
+  from: Date,
+  until: Date | null,
+  maxSpans: number,
+  timeZone: string
+): WakeSpan[] {
+  const start = normalizeClock(window.start);
+  const end = normalizeClock(window.end);
+  const overnight = end <= start;
+  const spans: WakeSpan[] = [];
+  let day = addLocalDays(from, -1, timeZone);
+  for (let guard = 0; spans.length < maxSpans && guard < maxSpans + 2; guard += 1) {
+    const spanStart = makeZonedDateFromDay(day, timeZone, start);
+    if (spanStart && until && spanStart >= until) {
+      break;
+    }
+    const spanEnd = makeZonedDateFromDay(overnight ? addLocalDays(day, 1, timeZone) : day, timeZone, end);
+    if (spanStart && spanEnd && spanEnd >= from) {
+      spans.push({ start: spanStart, end: spanEnd });
+    }
+    day = addLocalDays(day, 1, timeZone);
+  }
+  return spans;
+}
+
+/**
+ * How a `while awake` dosage fills one wake window, or `null` when its regular
+ * schedule is kept and filtered instead. Hour and minute intervals restart at
+ * the start of the window; a daily frequency is spread evenly from its start
+ * to its end. Clocks, meal codes and weekday filters always keep their slots.
+ */
+function createWakeLayout(
+  timing: FhirTiming | undefined,
+  window: WakeWindow
+): ((span: WakeSpan) => Date[]) | null {
+  const repeat = timing?.repeat;
+  if (
+    window.nightSlots === "skip" ||
+    !timing ||
+    !repeat ||
+    timing.event?.length ||
+    repeat.when?.length ||
+    repeat.timeOfDay?.length ||
+    repeat.dayOfWeek?.length ||
+    resolveCalendarDays(timing) ||
+    !repeat.period ||
+    !repeat.periodUnit
+  ) {
+    return null;
+  }
+  const { period, periodUnit } = repeat;
+  if (periodUnit === "s" || periodUnit === "min" || periodUnit === "h") {
+    const multiplier = periodUnit === "s" ? 1000 : periodUnit === "min" ? 60 * 1000 : 60 * 60 * 1000;
+    const step = (period * multiplier) / (repeat.frequency ?? 1);
+    return (span) => {
+      const doses: Date[] = [];
+      for (let time = span.start.getTime(); time <= span.end.getTime(); time += step) {
+        doses.push(new Date(time));
+      }
+      return doses;
+    };
+  }
+  if (periodUnit === "d" && period === 1 && repeat.frequency) {
+    const frequency = repeat.frequency;
+    return (span) => {
+      const length = span.end.getTime() - span.start.getTime();
+      const doses: Date[] = [];
+      for (let index = 0; index < frequency; index += 1) {
+        const offset = frequency > 1 ? (length * index) / (frequency - 1) : 0;
+        // Whole minutes, so an uneven split never lands on a fractional second.
+        doses.push(new Date(span.start.getTime() + Math.round(offset / 60000) * 60000));
+      }
+      return doses;
+    };
+  }
+  return null;
+}
+
+/**
+ * `while awake` doses in `[from, until)`, given on or after `baseTime` and
+ * before the end of the course. `Timing.repeat.count` is left to the callers.
+ */
+function resolveWakeDoses(
+  dosage: FhirDosage,
+  config: NextDueDoseConfig,
+  from: Date,
+  until: Date | null,
+  baseTime: Date,
+  limit: number
+): Date[] {
+  const timeZone = config.timeZone!;
+  const window = config.wakeWindow ?? DEFAULT_WAKE_WINDOW;
+  const repeat = dosage.timing?.repeat;
+  const courseEnd = repeat ? resolveRepeatDurationCapEnd(repeat, baseTime, timeZone) : null;
+  const end = courseEnd ? minDate(courseEnd, until) : until;
+  const start = baseTime > from ? baseTime : from;
+  const layout = createWakeLayout(dosage.timing, window);
+  const schedule = withoutTimingExtension(dosage, TIMING_WHILE_AWAKE_EXTENSION_URL);
+  const doses: Date[] = [];
+  const spans = resolveWakeSpans(
+    window,
+    start,
+    end,
+    end ? Number.POSITIVE_INFINITY : limit * 31,
+    timeZone
+  );
+  for (const span of spans) {
+    const candidates = layout
+      ? layout(span)
+      : nextDueDosesSingle(schedule, {
+          from: span.start > start ? span.start : start,
+          orderedAt: baseTime,
+          priorCount: 0,
+          limit: limit - doses.length,
+          config
+        }).map((iso) => new Date(iso));
+    for (const instant of candidates) {
+      const previous = doses[doses.length - 1];
+      if (
+        instant >= start &&
+        instant <= span.end &&
+        (!end || instant < end) &&
+        (!previous || instant > previous)
+      ) {
+        doses.push(instant);
+      }
+    }
+    if (doses.length >= limit) {
+      return doses.slice(0, limit);
+    }
+    // An empty batch from the regular schedule means it has run out.
+    if (!layout && !candidates.length) {
+      break;
     }
-    return results.slice(0, effectiveLimit);
   }
+  return doses;
+}
 
-  return [];
+/**
+ * Doses of a `while awake` dosage, laid out inside the configured wake window.
+ * `Timing.repeat.count` caps the doses given since `orderedAt`.
+ */
+function nextDueWakeDoses(
+  dosage: FhirDosage,
+  options: NextDueDoseOptions,
+  config: NextDueDoseConfig,
+  from: Date,
+  orderedAt: Date | null,
+  limit: number
+): string[] {
+  const timeZone = config.timeZone!;
+  const baseTime = orderedAt ?? from;
+  const count = dosage.timing?.repeat?.count;
+  let remaining = limit;
+  if (count !== undefined) {
+    const priorCount = options.priorCount ?? (baseTime < from
+      ? resolveWakeDoses(dosage, config, baseTime, from, baseTime, MAX_WAKE_DOSES).length
+      : 0);
+    remaining = Math.min(limit, Math.max(0, Math.floor(count) - priorCount));
+  }
+  if (remaining <= 0) {
+    return [];
+  }
+  return resolveWakeDoses(dosage, config, from, null, baseTime, remaining)
+    .map((instant) => formatZonedIso(instant, timeZone));
+}
+
+/** Wake-window counterpart of `countScheduleEvents`. */
+function countWakeEvents(
+  dosage: FhirDosage,
+  from: Date,
+  to: Date,
+  config: NextDueDoseConfig,
+  baseTime: Date,
+  limit?: number
+): number {
+  const count = dosage.timing?.repeat?.count;
+  const priorCount = count !== undefined && from > baseTime
+    ? resolveWakeDoses(dosage, config, baseTime, from, baseTime, MAX_WAKE_DOSES).length
+    : 0;
+  const cap = Math.min(
+    limit ?? MAX_WAKE_DOSES,
+    count === undefined ? MAX_WAKE_DOSES : Math.max(0, Math.floor(count) - priorCount)
+  );
+  return cap > 0 ? resolveWakeDoses(dosage, config, from, to, baseTime, cap).length : 0;
 }
 
 function derivePriorCountFromHistory(
@@ -1659,6 +2649,193 @@ function generateDayFilteredPeriodSeries(
   return results;
 }
 
+interface CalendarDays {
+  dayOfMonth: number[];
+  weekdayOfMonth: CanonicalWeekdayOfMonth[];
+}
+
+function resolveCalendarDays(timing: FhirTiming): CalendarDays | undefined {
+  const dayOfMonth = parseTimingDayOfMonthExtensions(timing);
+  const weekdayOfMonth = parseTimingWeekdayOfMonthExtensions(timing);
+  if (!dayOfMonth && !weekdayOfMonth) {
+    return undefined;
+  }
+  return { dayOfMonth: dayOfMonth ?? [], weekdayOfMonth: weekdayOfMonth ?? [] };
+}
+
+/**
+ * Clocks for a calendar-day schedule: its `when` and `timeOfDay` entries, or
+ * the local clock of the order when it names neither.
+ */
+function resolveCalendarDayClocks(
+  repeat: FhirTimingRepeat,
+  config: NextDueDoseConfig,
+  baseTime: Date
+): ExpandedTime[] {
+  const expanded = expandWhenCodes(repeat.when ?? [], config, repeat);
+  for (const clock of repeat.timeOfDay ?? []) {
+    expanded.push({ time: normalizeClock(clock), dayShift: 0 });
+  }
+  if (!expanded.length) {
+    return [{ time: toLocalClock(baseTime, config.timeZone!), dayShift: 0 }];
+  }
+  return expanded.sort((a, b) =>
+    a.dayShift !== b.dayShift ? a.dayShift - b.dayShift : a.time.localeCompare(b.time)
+  );
+}
+
+/**
+ * Reads an ISO date or date-time to instants. One with an offset is absolute,
+ * a local time without one is read in `timeZone`, and a bare date yields
+ * `dateInstants` for its local midnight. Partial dates (`2026`, `2026-11`)
+ * yield nothing.
+ */
+function resolveLocalDateTime(
+  value: string,
+  timeZone: string,
+  dateInstants: (localDay: Date) => Array<Date | null>
+): Array<Date | null> {
+  const match = value.match(EVENT_DATE_TIME_PATTERN);
+  if (!match) {
+    return [];
+  }
+  const [year, month, day] = [match[1], match[2], match[3]].map((part) => parseInt(part, 10));
+  if (match[7]) {
+    return [new Date(value)];
+  }
+  if (match[4] !== undefined) {
+    return [makeZonedDate(
+      timeZone,
+      year,
+      month,
+      day,
+      parseInt(match[4], 10),
+      parseInt(match[5], 10),
+      match[6] ? parseInt(match[6], 10) : 0
+    )];
+  }
+  const localDay = makeZonedDate(timeZone, year, month, day, 0, 0, 0);
+  return localDay ? dateInstants(localDay) : [];
+}
+
+/** Sorted, de-duplicated valid instants. */
+function uniqueInstants(instants: Array<Date | null>): Date[] {
+  const seen = new Set<number>();
+  const unique: Date[] = [];
+  for (const instant of instants) {
+    if (instant && !Number.isNaN(instant.getTime()) && !seen.has(instant.getTime())) {
+      seen.add(instant.getTime());
+      unique.push(instant);
+    }
+  }
+  return unique.sort((a, b) => a.getTime() - b.getTime());
+}
+
+/**
+ * Resolves `Timing.event` entries to instants. A bare date falls at the
+ * timing's when/timeOfDay clocks or, without any, at the clock of `baseTime`.
+ */
+function resolveEventInstants(
+  timing: FhirTiming,
+  config: NextDueDoseConfig,
+  baseTime: Date
+): Date[] {
+  const timeZone = config.timeZone!;
+  const instants: Array<Date | null> = [];
+  for (const event of timing.event ?? []) {
+    instants.push(...resolveLocalDateTime(event, timeZone, (localDay) =>
+      resolveCalendarDayClocks(timing.repeat ?? {}, config, baseTime).map((clock) =>
+        makeZonedDateFromDay(addLocalDays(localDay, clock.dayShift, timeZone), timeZone, clock.time)
+      )
+    ));
+  }
+  return uniqueInstants(instants);
+}
+
+/**
+ * Whether a local day is one of the calendar days: the nth day of its month
+ * (-1 for the last), or the nth weekday of its month, where the last weekday
+ * is the one with no same weekday left in the month.
+ */
+function isCalendarDay(day: Date, calendarDays: CalendarDays, timeZone: string): boolean {
+  const { year, month, day: date } = getTimeParts(day, timeZone);
+  const monthLength = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  for (const dayOfMonth of calendarDays.dayOfMonth) {
+    if (dayOfMonth === date || (dayOfMonth === -1 && date === monthLength)) {
+      return true;
+    }
+  }
+  if (!calendarDays.weekdayOfMonth.length) {
+    return false;
+  }
+  const weekday = getLocalWeekday(day, timeZone);
+  return calendarDays.weekdayOfMonth.some((entry) =>
+    entry.day === weekday &&
+    (entry.ordinal === -1 ? date + 7 > monthLength : Math.ceil(date / 7) === entry.ordinal)
+  );
+}
+
+type CalendarDaySeriesOptions = {
+  calendarDays: CalendarDays;
+  repeat: FhirTimingRepeat;
+  timeZone: string;
+  anchorDay: Date;
+  from: Date;
+  to?: Date;
+  orderedAt?: Date | null;
+  limit: number;
+  clocks: ExpandedTime[];
+};
+
+/**
+ * Expands day-of-month and nth-weekday schedules (`on the 1st`, `every 2nd
+ * Tuesday`) into dose timestamps. Months are stepped by the repeat period from
+ * the anchor month, so `every 3 months on the 1st` skips the months between.
+ */
+function generateCalendarDaySeries(options: CalendarDaySeriesOptions): string[] {
+  const { calendarDays, repeat, timeZone, anchorDay, from, to, orderedAt, limit, clocks } = options;
+  if (limit <= 0) {
+    return [];
+  }
+  const results: string[] = [];
+  const seen = new Set<string>();
+  const periodMonths = repeat.periodUnit === "a"
+    ? (repeat.period ?? 1) * 12
+    : repeat.periodUnit === "mo" ? repeat.period ?? 1 : 1;
+  let currentDay = startOfLocalDay(from, timeZone);
+  // A 31st or a 5th weekday can be up to three months from the last one.
+  const scanDays = limit * 93 * Math.max(1, periodMonths);
+  const maxIterations = to
+    ? Math.min(scanDays, Math.ceil((to.getTime() - currentDay.getTime()) / (24 * 60 * 60 * 1000)) + 1)
+    : scanDays;
+  for (let iterations = 0; iterations < maxIterations && results.length < limit; iterations += 1) {
+    if (
+      isCalendarDay(currentDay, calendarDays, timeZone) &&
+      isDateAlignedToPeriodCycle(currentDay, anchorDay, repeat, timeZone)
+    ) {
+      for (const entry of clocks) {
+        const targetDay = entry.dayShift === 0
+          ? currentDay
+          : addLocalDays(currentDay, entry.dayShift, timeZone);
+        const zoned = makeZonedDateFromDay(targetDay, timeZone, entry.time);
+        if (!zoned || zoned < from || (to && zoned >= to) || (orderedAt && zoned < orderedAt)) {
+          continue;
+        }
+        const iso = formatZonedIso(zoned, timeZone);
+        if (!seen.has(iso)) {
+          seen.add(iso);
+          results.push(iso);
+          if (results.length === limit) {
+            break;
+          }
+        }
+      }
+    }
+    currentDay = addLocalDays(currentDay, 1, timeZone);
+  }
+  return results;
+}
+
 /**
  * Formats a date into a local `HH:MM:SS` clock for the supplied timezone.
  *
@@ -1701,8 +2878,26 @@ function countScheduleEvents(
 ): number {
   const timing = dosage.timing;
   const repeat = timing?.repeat;
+  if (timing?.event?.length) {
+    const events = resolveEventInstants(timing, config, baseTime).filter(
+      (instant) => instant >= from && instant < to
+    );
+    return limit === undefined ? events.length : Math.min(limit, events.length);
+  }
+  const anchor = parseTimingEventAnchorExtension(timing);
+  if (anchor) {
+    return countAnchoredEvents(dosage, anchor, from, to, config, baseTime, limit);
+  }
   if (!timing || !repeat) return 0;
 
+  const cycle = parseTimingCycleExtension(timing);
+  if (cycle) {
+    return countCycleEvents(dosage, cycle, from, to, config, baseTime, limit);
+  }
+  if (isTimingWhileAwake(timing)) {
+    return countWakeEvents(dosage, from, to, config, baseTime, limit);
+  }
+
   const normalizedCount = repeat.count === undefined
     ? undefined
     : Math.max(0, Math.floor(repeat.count));
@@ -1728,6 +2923,21 @@ function countScheduleEvents(
   }
   const hardLimit = Number.isFinite(countLimit) ? countLimit : 365 * 31;
 
+  const calendarDays = resolveCalendarDays(timing);
+  if (calendarDays) {
+    return generateCalendarDaySeries({
+      calendarDays,
+      repeat,
+      timeZone,
+      anchorDay: startOfLocalDay(baseTime, timeZone),
+      from,
+      to,
+      orderedAt,
+      limit: hardLimit,
+      clocks: resolveCalendarDayClocks(repeat, config, baseTime)
+    }).length;
+  }
+
   if (isSingleAdministrationRepeat(repeat)) {
     if (hasUnresolvedRelationalInstruction(dosage)) {
       return 0;
@@ -1890,8 +3100,114 @@ function countScheduleEvents(
   return count;
 }
 
+/**
+ * Expresses a max-dose quantity in dose units. Bare counts such as
+ * `max 4 doses/day` scale by the dose itself.
+ */
+function maxDoseInDoseUnits(
+  limit: FhirQuantity | undefined,
+  doseValue: number,
+  doseUnit: string | undefined,
+  strength: Parameters<typeof convertValue>[3]
+): number | null {
+  if (limit?.value === undefined) {
+    return null;
+  }
+  const limitUnit = limit.unit ?? limit.code;
+  if (!limitUnit) {
+    return limit.value * doseValue;
+  }
+  if (!doseUnit) {
+    return null;
+  }
+  return convertValue(limit.value, limitUnit, doseUnit, strength);
+}
+
+/**
+ * Largest supply the dosage's max-dose fields allow between `from` and
+ * `end`, or undefined when no cap can be expressed in dose units.
+ */
+function resolveMaxDoseSupplyCap(
+  dosage: FhirDosage,
+  from: Date,
+  end: Date,
+  timeZone: string,
+  doseValue: number,
+  doseUnit: string | undefined,
+  strength: Parameters<typeof convertValue>[3]
+): number | undefined {
+  let cap: number | undefined;
+  for (const ratio of dosage.maxDosePerPeriod ?? []) {
+    const amount = maxDoseInDoseUnits(ratio.numerator, doseValue, doseUnit, strength);
+    const periodUnit = (ratio.denominator?.code ?? ratio.denominator?.unit) as FhirPeriodUnit | undefined;
+    const stepper = createIntervalStepper(
+      { period: ratio.denominator?.value ?? 1, periodUnit },
+      timeZone
+    );
+    if (amount === null || !stepper) {
+      continue;
+    }
+    let windows = 0;
+    let cursor = from;
+    while (cursor.getTime() < end.getTime() && windows < 10000) {
+      const next = stepper(cursor);
+      if (!next || next.getTime() <= cursor.getTime()) {
+        break;
+      }
+      windows += 1;
+      cursor = next;
+    }
+    const allowed = amount * windows;
+    cap = cap === undefined ? allowed : Math.min(cap, allowed);
+  }
+  const lifetime = maxDoseInDoseUnits(dosage.maxDosePerLifetime, doseValue, doseUnit, strength);
+  if (lifetime !== null) {
+    cap = cap === undefined ? lifetime : Math.min(cap, lifetime);
+  }
+  return cap;
+}
+
+const DEFAULT_DROPS_PER_ML = 20;
+
+type UnitStrength = Parameters<typeof convertValue>[3];
+
+function resolveContextStrength(context: MedicationContext | undefined): UnitStrength {
+  let strength = context?.strengthRatio;
+  if (!strength && context?.strength) {
+    strength = parseStrengthIntoRatio(context.strength, context) || undefined;
+  }
+  return strength as UnitStrength;
+}
+
+/**
+ * `convertValue` with drops bridged to mL through `context.dropsPerMl`, so
+ * eye drops can be counted against a 5 mL bottle.
+ */
+function convertDoseAmount(
+  value: number,
+  fromUnit: string,
+  toUnit: string,
+  context: MedicationContext | undefined,
+  strength: UnitStrength
+): number | null {
+  const dropsPerMl = context?.dropsPerMl ?? DEFAULT_DROPS_PER_ML;
+  const from = fromUnit.toLowerCase();
+  const to = toUnit.toLowerCase();
+  if (from === to) {
+    return value;
+  }
+  if (from === "drop") {
+    return convertValue(value / dropsPerMl, "mL", toUnit, strength);
+  }
+  if (to === "drop") {
+    const volume = convertValue(value, fromUnit, "mL", strength);
+    return volume === null ? null : volume * dropsPerMl;
+  }
+  return convertValue(value, fromUnit, toUnit, strength);
+}
+
 function calculateTotalUnitsSingle(
-  options: Omit<TotalUnitsOptions, "dosage"> & { dosage: FhirDosage }
+  options: Omit<TotalUnitsOptions, "dosage"> & { dosage: FhirDosage; until?: Date; eventLimit?: number }
 ): TotalUnitsResult {
   const { dosage, durationValue, durationUnit, roundToMultiple, context } = options;
   const from = coerceDate(options.from, "from");
@@ -1920,7 +3236,9 @@ function calculateTotalUnitsSingle(
     timeZone,
     eventClock,
     mealOffsets,
-    frequencyDefaults
+    frequencyDefaults,
+    eventCalendar: options.eventCalendar ?? providedConfig?.eventCalendar,
+    wakeWindow: resolveWakeWindow(options, "calculateTotalUnits")
   };
 
   // Calculate end date based on duration
@@ -1936,6 +3254,8 @@ function calculateTotalUnitsSingle(
     endDay,
     resolveRepeatDurationCapEnd(dosage.timing?.repeat, orderedAtDate ?? from, timeZone)
   );
+  // Sequential phases stop counting once the regimen moves to the next phase.
+  endDay = minDate(endDay, options.until ?? null);
 
   const count = countScheduleEvents(
     dosage,
@@ -1944,12 +3264,29 @@ function calculateTotalUnitsSingle(
     config,
     orderedAtDate ?? from,
     orderedAtDate,
-    2000
+    options.eventLimit ?? 2000
   );
 
   const doseQuantity = dosage.doseAndRate?.[0]?.doseQuantity?.value ?? 0;
+  const doseUnit = readQuantityUnit(dosage.doseAndRate?.[0]?.doseQuantity);
+  const strength = resolveContextStrength(context);
   let totalUnits = count * doseQuantity;
 
+  // PRN orders rarely have a schedule to count, so their supply is bounded by
+  // the max-dose cap instead; scheduled totals are clamped by the same cap.
+  const supplyCap = resolveMaxDoseSupplyCap(
+    dosage,
+    from,
+    endDay,
+    timeZone,
+    doseQuantity,
+    doseUnit,
+    strength
+  );
+  if (supplyCap !== undefined) {
+    totalUnits = isAsNeeded(dosage) && count === 0 ? supplyCap : Math.min(totalUnits, supplyCap);
+  }
+
   if (roundToMultiple && roundToMultiple > 0) {
     totalUnits = Math.ceil(totalUnits / roundToMultiple) * roundToMultiple;
   }
@@ -1959,17 +3296,11 @@ function calculateTotalUnitsSingle(
   // Handle containers
   const containerValue = context?.containerValue;
   const containerUnit = context?.containerUnit;
-  const doseUnit = dosage.doseAndRate?.[0]?.doseQuantity?.unit;
 
   if (containerValue && containerValue > 0) {
     let effectiveUnits = totalUnits;
     if (containerUnit && doseUnit && containerUnit !== doseUnit) {
-      let strength = context?.strengthRatio;
-      if (!strength && context?.strength) {
-        strength = parseStrengthIntoRatio(context.strength, context) || undefined;
-      }
-
-      const converted = convertValue(totalUnits, doseUnit, containerUnit, strength as any);
+      const converted = convertDoseAmount(totalUnits, doseUnit, containerUnit, context, strength);
       if (converted !== null) {
         effectiveUnits = converted;
       }
@@ -1980,20 +3311,57 @@ function calculateTotalUnitsSingle(
   return result;
 }
 
-export function calculateTotalUnits(options: TotalUnitsOptions): TotalUnitsResult {
+/**
+ * `calculateTotalUnits` with an optional hard stop and event limit, which lets
+ * `calculateDaysSupply` probe how much is used up to any instant.
+ */
+function calculateTotalUnitsUntil(
+  options: TotalUnitsOptions,
+  until?: Date,
+  eventLimit?: number
+): TotalUnitsResult {
   if (Array.isArray(options.dosage)) {
     const hasAnyDosage = options.dosage.length > 0;
     if (!hasAnyDosage) {
       return { totalUnits: 0 };
     }
+    const from = coerceDate(options.from, "from");
+    const timeZone = options.timeZone ?? options.config?.timeZone;
+    const stepper = timeZone
+      ? createIntervalStepper({ period: options.durationValue, periodUnit: options.durationUnit }, timeZone)
+      : null;
+    const overallEnd = minDate((stepper && stepper(from)) || from, until ?? null);
+    const runs: Array<
+      Omit<TotalUnitsOptions, "dosage"> & { dosage: FhirDosage; until?: Date; eventLimit?: number }
+    > = [];
+    for (const phase of resolveSequencePhases(options.dosage, options)) {
+      if (!phase.sequenced) {
+        runs.push(...phase.dosages.map((dosage) => ({ ...options, dosage, until, eventLimit })));
+        continue;
+      }
+      if (phase.start >= overallEnd) {
+        break;
+      }
+      const bounded = phase.end !== null && phase.end.getTime() > phase.start.getTime();
+      if (bounded && (phase.end as Date) <= from) {
+        continue;
+      }
+      for (const dosage of phase.dosages) {
+        runs.push({
+          ...options,
+          dosage,
+          from: phase.start > from ? phase.start : from,
+          orderedAt: phase.start,
+          until: minDate(overallEnd, bounded ? phase.end : null),
+          eventLimit
+        });
+      }
+    }
     let totalUnits = 0;
     let totalContainers = 0;
     let sawContainers = false;
-    for (const dosage of options.dosage) {
-      const result = calculateTotalUnitsSingle({
-        ...options,
-        dosage
-      });
+    for (const run of runs) {
+      const result = calculateTotalUnitsSingle(run);
       totalUnits += result.totalUnits;
       if (result.totalContainers !== undefined) {
         totalContainers += result.totalContainers;
@@ -2002,5 +3370,193 @@ export function calculateTotalUnits(options: TotalUnitsOptions): TotalUnitsResul
     }
     return sawContainers ? { totalUnits, totalContainers } : { totalUnits };
   }
-  return calculateTotalUnitsSingle(options as Omit<TotalUnitsOptions, "dosage"> & { dosage: FhirDosage });
+  return calculateTotalUnitsSingle({
+    ...(options as Omit<TotalUnitsOptions, "dosage"> & { dosage: FhirDosage }),
+    until,
+    eventLimit
+  });
+}
+
+export function calculateTotalUnits(options: TotalUnitsOptions): TotalUnitsResult {
+  return calculateTotalUnitsUntil(options);
+}
+
+/** Widest window `calculateDaysSupply` counts at once. */
+const DAYS_SUPPLY_MAX_STEP_DAYS = 32;
+/** A regimen with no doses for this long is taken to have ended. */
+const DAYS_SUPPLY_IDLE_DAYS = 366;
+/** Furthest `calculateDaysSupply` walks from `from`, about ten years. */
+const DAYS_SUPPLY_MAX_DAYS = 3660;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Dispensed amount from `quantity`, or from whole containers of `context.containerValue`. */
+function resolveDispensedSupply(
+  options: DaysSupplyOptions,
+  doseUnit: string | undefined
+): { value: number; unit: string | undefined } {
+  if (options.quantity !== undefined) {
+    if (!Number.isFinite(options.quantity) || options.quantity <= 0) {
+      throw new Error("Invalid quantity supplied to calculateDaysSupply");
+    }
+    return { value: options.quantity, unit: options.quantityUnit ?? doseUnit };
+  }
+  const containerValue = options.context?.containerValue;
+  if (containerValue === undefined) {
+    throw new Error("A quantity or context.containerValue must be supplied to calculateDaysSupply");
+  }
+  if (!Number.isFinite(containerValue) || containerValue <= 0) {
+    throw new Error("Invalid containerValue supplied to calculateDaysSupply");
+  }
+  if (options.containers !== undefined && (!Number.isFinite(options.containers) || options.containers <= 0)) {
+    throw new Error("Invalid containers supplied to calculateDaysSupply");
+  }
+  return {
+    value: (options.containers ?? 1) * containerValue,
+    unit: options.context?.containerUnit ?? doseUnit
+  };
+}
+
+function withDoseInUnit(
+  dosage: FhirDosage,
+  unit: string,
+  context: MedicationContext | undefined,
+  strength: UnitStrength
+): FhirDosage {
+  const [first, ...rest] = dosage.doseAndRate ?? [];
+  const dose = first?.doseQuantity;
+  const doseUnit = readQuantityUnit(dose);
+  if (dose?.value === undefined || !doseUnit) {
+    return dosage;
+  }
+  const value = convertDoseAmount(dose.value, doseUnit, unit, context, strength);
+  if (value === null) {
+    throw new Error(`A dose convertible to ${unit} must be supplied to calculateDaysSupply`);
+  }
+  return { ...dosage, doseAndRate: [{ ...first, doseQuantity: { value, unit } }, ...rest] };
+}
+
+/** Earliest instant in `(from, to]` at which the monotonic `reached` holds. */
+function findFirstInstant(from: Date, to: Date, reached: (instant: Date) => boolean): Date {
+  let low = from.getTime();
+  let high = to.getTime();
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (reached(new Date(middle))) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+  return new Date(high);
+}
+
+/**
+ * Inverse of `calculateTotalUnits`: how long a dispensed supply lasts and when
+ * the first dose it cannot cover falls due. Concurrent and sequenced dosages
+ * draw on the same supply, and PRN orders are assumed to use their maximum.
+ */
+export function calculateDaysSupply(options: DaysSupplyOptions): DaysSupplyResult {
+  const dosages = Array.isArray(options.dosage) ? options.dosage : [options.dosage];
+  const from = coerceDate(options.from, "from");
+  const timeZone = options.timeZone ?? options.config?.timeZone;
+  if (!timeZone) {
+    throw new Error("timeZone is required for calculateDaysSupply");
+  }
+  const context = options.context;
+  const strength = resolveContextStrength(context);
+  const doseUnits = new Set<string>();
+  for (const dosage of dosages) {
+    const unit = readQuantityUnit(dosage.doseAndRate?.[0]?.doseQuantity);
+    if (unit) {
+      doseUnits.add(unit);
+    }
+  }
+  const sharedUnit = doseUnits.size === 1 ? doseUnits.values().next().value : undefined;
+  const supply = resolveDispensedSupply(options, sharedUnit);
+
+  // Count in the shared dose unit so whole doses stay exact; only mixed-unit
+  // regimens are rescaled into the unit the supply was dispensed in.
+  const unit = doseUnits.size > 1 ? supply.unit : sharedUnit ?? supply.unit;
+  if (doseUnits.size > 1 && !unit) {
+    throw new Error("A quantityUnit must be supplied to calculateDaysSupply when doses use different units");
+  }
+  const totalUnits = supply.unit && unit
+    ? convertDoseAmount(supply.value, supply.unit, unit, context, strength)
+    : supply.value;
+  if (totalUnits === null) {
+    throw new Error(`A quantity convertible to ${unit} must be supplied to calculateDaysSupply`);
+  }
+  const counted = doseUnits.size > 1
+    ? dosages.map((dosage) => withDoseInUnit(dosage, unit as string, context, strength))
+    : dosages;
+
+  const totalOptions: TotalUnitsOptions = {
+    ...options,
+    dosage: counted,
+    orderedAt: options.orderedAt ?? from,
+    timeZone,
+    durationValue: DAYS_SUPPLY_IDLE_DAYS,
+    durationUnit: FhirPeriodUnit.Day,
+    roundToMultiple: undefined,
+    context: context ? { ...context, containerValue: undefined } : undefined
+  };
+  // Counting restarts at each window so dense or long regimens never reach
+  // the event limit of a single count; the order time keeps the grid fixed.
+  const usedIn = (start: Date, end: Date) =>
+    calculateTotalUnitsUntil({ ...totalOptions, from: start }, end, Number.POSITIVE_INFINITY).totalUnits;
+
+  // Walk forward a window at a time, doubling up to a month, so short
+  // supplies never count far ahead and open-ended regimens run until the
+  // supply does, up to the horizon.
+  const horizon = from.getTime() + DAYS_SUPPLY_MAX_DAYS * MS_PER_DAY;
+  let used = 0;
+  let cursor = from;
+  let lastWindow: { start: Date; end: Date; used: number } | undefined;
+  for (let days = 1; ; days = Math.min(days * 2, DAYS_SUPPLY_MAX_STEP_DAYS)) {
+    if (cursor.getTime() >= horizon) {
+      throw new Error(
+        `A quantity lasting at most ${DAYS_SUPPLY_MAX_DAYS} days must be supplied to calculateDaysSupply`
+      );
+    }
+    const windowStart = cursor;
+    const windowEnd = new Date(windowStart.getTime() + days * MS_PER_DAY);
+    const windowUsed = usedIn(windowStart, windowEnd);
+    if (used + windowUsed > totalUnits) {
+      // Usage jumps just after each administration, so the first window that
+      // overdraws the supply ends one millisecond past the uncovered dose.
+      const consumed = used;
+      const overdrawn = findFirstInstant(
+        windowStart,
+        windowEnd,
+        (instant) => consumed + usedIn(windowStart, instant) > totalUnits
+      );
+      const runOut = new Date(overdrawn.getTime() - 1);
+      return {
+        daysSupply: Math.floor((runOut.getTime() - from.getTime()) / MS_PER_DAY),
+        runOutDate: formatZonedIso(runOut, timeZone),
+        totalUnits,
+        ...(unit ? { unit } : {})
+      };
+    }
+    cursor = windowEnd;
+    if (windowUsed > 0) {
+      used += windowUsed;
+      lastWindow = { start: windowStart, end: windowEnd, used: windowUsed };
+    } else if (usedIn(windowEnd, new Date(windowEnd.getTime() + DAYS_SUPPLY_IDLE_DAYS * MS_PER_DAY)) <= 0) {
+      break;
+    }
+  }
+
+  if (!lastWindow) {
+    throw new Error("A dosage with a countable schedule or PRN maximum must be supplied to calculateDaysSupply");
+  }
+  // The regimen ends first, so the supply covers it through its last dose.
+  const { start, used: lastUsed } = lastWindow;
+  const lastDose = findFirstInstant(start, lastWindow.end, (instant) => usedIn(start, instant) >= lastUsed);
+  return {
+    daysSupply: Math.floor((lastDose.getTime() - 1 - from.getTime()) / MS_PER_DAY) + 1,
+    totalUnits,
+    remainingUnits: totalUnits - used,
+    ...(unit ? { unit } : {})
+  };
 }
@@ -0,0 +1,211 @@
+import { buildFhirDurationQuantity, parseFhirDurationUnit } from "./fhir";
+import { EventTiming, FhirDosage, FhirPeriodUnit, ParseResult } from "./types";
+
+interface PhaseLength {
+  value: number;
+  unit?: FhirPeriodUnit;
+}
+
+const SEQUENCE_CONNECTOR_TEXT: Record<string, string> = {
+  en: "then",
+  th: "แล้ว",
+  zh: "然后"
+};
+
+const MINUTES_PER_UNIT: Partial<Record<FhirPeriodUnit, number>> = {
+  [FhirPeriodUnit.Second]: 1 / 60,
+  [FhirPeriodUnit.Minute]: 1,
+  [FhirPeriodUnit.Hour]: 60,
+  [FhirPeriodUnit.Day]: 24 * 60,
+  [FhirPeriodUnit.Week]: 7 * 24 * 60
+};
+
+/**
+ * Length a dosage occupies before the next phase starts. Loading doses given
+ * once (`stat`, `now`, or no timing at all) take no time; unbounded
+ * schedules return undefined.
+ */
+function resolveDosageLength(dosage: FhirDosage): PhaseLength | undefined {
+  const repeat = dosage.timing?.repeat;
+  if (!repeat) {
+    return { value: 0 };
+  }
+  if (repeat.boundsDuration?.value !== undefined) {
+    const unit = parseFhirDurationUnit(repeat.boundsDuration);
+    return unit ? { value: repeat.boundsDuration.value, unit } : undefined;
+  }
+  const isImmediateOnly =
+    repeat.when?.length === 1 &&
+    repeat.when[0] === EventTiming.Immediate &&
+    repeat.frequency === undefined &&
+    repeat.period === undefined;
+  if (isImmediateOnly || (repeat.count === 1 && repeat.period === undefined)) {
+    return { value: 0 };
+  }
+  return undefined;
+}
+
+/**
+ * Adds phase lengths, keeping a shared unit when possible and otherwise
+ * converting to the smallest fixed-length unit involved.
+ */
+function sumLengths(lengths: PhaseLength[]): PhaseLength | undefined {
+  const units = Array.from(
+    new Set(lengths.map((length) => length.unit).filter((unit): unit is FhirPeriodUnit => Boolean(unit)))
+  );
+  if (units.length <= 1) {
+    return {
+      value: lengths.reduce((sum, length) => sum + length.value, 0),
+      unit: units[0]
+    };
+  }
+  let smallest: FhirPeriodUnit | undefined;
+  for (const unit of units) {
+    const minutes = MINUTES_PER_UNIT[unit];
+    if (minutes === undefined) {
+      return undefined;
+    }
+    if (!smallest || minutes < (MINUTES_PER_UNIT[smallest] ?? Infinity)) {
+      smallest = unit;
+    }
+  }
+  const target = MINUTES_PER_UNIT[smallest as FhirPeriodUnit] as number;
+  let total = 0;
+  for (const length of lengths) {
+    total += length.unit ? (length.value * (MINUTES_PER_UNIT[length.unit] as number)) / target : 0;
+  }
+  return { value: total, unit: smallest };
+}
+
+/**
+ * Length of a phase whose items run concurrently: the longest item wins.
+ */
+function longestLength(lengths: Array<PhaseLength | undefined>): PhaseLength | undefined {
+  let longest: PhaseLength | undefined;
+  let longestMinutes = -1;
+  for (const length of lengths) {
+    if (!length) {
+      return undefined;
+    }
+    const minutes = length.unit ? MINUTES_PER_UNIT[length.unit] : 0;
+    if (minutes === undefined) {
+      if (lengths.some((other) => other?.unit && other.unit !== length.unit && other.value > 0)) {
+        return undefined;
+      }
+      if (!longest || length.value > longest.value) {
+        longest = length;
+        longestMinutes = Infinity;
+      }
+      continue;
+    }
+    if (length.value * minutes > longestMinutes) {
+      longest = length;
+      longestMinutes = length.value * minutes;
+    }
+  }
+  return longest;
+}
+
+/**
+ * Tags parsed phases with their `sequence` number on both the result and the
+ * FHIR dosage.
+ */
+export function applySequenceNumber(result: ParseResult, sequence: number): void {
+  result.sequence = sequence;
+  result.fhir.sequence = sequence;
+}
+
+/**
+ * Fills `sequenceBounds` for each phase of a sequential batch. A phase starts
+ * once every earlier phase has run its full length; concurrent items that
+ * share a sequence number share the same window.
+ */
+export function assignSequenceBounds(results: ParseResult[]): void {
+  const phases = new Map<number, ParseResult[]>();
+  for (const result of results) {
+    if (result.sequence === undefined) {
+      continue;
+    }
+    const phase = phases.get(result.sequence) ?? [];
+    phase.push(result);
+    phases.set(result.sequence, phase);
+  }
+  const elapsed: PhaseLength[] = [];
+  const order = Array.from(phases.keys()).sort((left, right) => left - right);
+  for (const sequence of order) {
+    const phase = phases.get(sequence) as ParseResult[];
+    const start = sumLengths(elapsed);
+    if (!start) {
+      return;
+    }
+    const length = longestLength(phase.map((result) => resolveDosageLength(result.fhir)));
+    const startUnit = start.unit ?? length?.unit ?? FhirPeriodUnit.Day;
+    const end = length ? sumLengths([...elapsed, length]) : undefined;
+    for (const result of phase) {
+      result.sequenceBounds = {
+        start: buildFhirDurationQuantity(start.value, startUnit),
+        ...(end ? { end: buildFhirDurationQuantity(end.value, end.unit ?? startUnit) } : {})
+      };
+    }
+    if (!length) {
+      return;
+    }
+    elapsed.push(length);
+  }
+}
+
+/**
+ * Drops the closing full stop of a phase that a connector follows, so long
+ * text reads `for 5 days, then take` rather than `for 5 days., then take`.
+ */
+export function trimPhaseEnd(text: string): string {
+  return text.replace(/[.。]\s*$/, "");
+}
+
+/**
+ * Prefixes a formatted phase with the connector that introduces it, so batch
+ * text such as `2 tab IMD, then 1 tab 1x/d x4d` parses back into phases.
+ */
+export function prefixSequenceConnector(
+  text: string,
+  style: "short" | "long",
+  locale?: string
+): string {
+  const language = (locale ?? "").toLowerCase().split(/[-_]/)[0];
+  const connector =
+    SEQUENCE_CONNECTOR_TEXT[language] ??
+    (/^[\u0E00-\u0E7F]/.test(text) ? SEQUENCE_CONNECTOR_TEXT.th : SEQUENCE_CONNECTOR_TEXT.en);
+  if (connector !== SEQUENCE_CONNECTOR_TEXT.en || style === "short") {
+    return `${connector} ${text}`;
+  }
+  return `${connector} ${text.charAt(0).toLowerCase()}${text.slice(1)}`;
+}
+
+/**
+ * Length of a whole parsed regimen: sequential phases add up and concurrent
+ * items share the longest. Undefined when any item runs open-ended or the
+ * regimen takes no time at all.
+ */
+export function resolveRegimenDuration(
+  results: ParseResult[]
+): { value: number; unit: FhirPeriodUnit } | undefined {
+  const phases = new Map<number, ParseResult[]>();
+  for (const result of results) {
+    const sequence = result.sequence ?? 0;
+    const phase = phases.get(sequence) ?? [];
+    phase.push(result);
+    phases.set(sequence, phase);
+  }
+  const lengths: PhaseLength[] = [];
+  const order = Array.from(phases.keys()).sort((left, right) => left - right);
+  for (const sequence of order) {
+    const phase = phases.get(sequence) as ParseResult[];
+    const length = longestLength(phase.map((result) => resolveDosageLength(result.fhir)));
+    if (!length) {
+      return undefined;
+    }
+    lengths.push(length);
+  }
+  const total = sumLengths(lengths);
+  return total?.unit && total.value > 0 ? { value: total.value, unit: total.unit } : undefined;
+}
@@ -0,0 +1,103 @@
+import {
+  CanonicalSlidingScaleExpr,
+  CanonicalSlidingScaleTier,
+  FhirDoseAndRate,
+  FhirExtension
+} from "./types";
+import { buildUcumQuantity, readQuantityUnit } from "./ucum";
+
+export const SLIDING_SCALE_CONDITION_EXTENSION_URL =
+  "urn:ezmedicationinput:sliding-scale-condition";
+
+const OBSERVATION_URL = "observation";
+const RANGE_URL = "range";
+const THRESHOLD_URL = "threshold";
+
+
+function buildConditionExtension(
+  tier: CanonicalSlidingScaleTier,
+  scale: CanonicalSlidingScaleExpr
+): FhirExtension {
+  const extension: FhirExtension[] = [];
+  if (scale.observation) {
+    extension.push({ url: OBSERVATION_URL, valueString: scale.observation });
+  }
+  if (tier.comparator) {
+    const value = tier.comparator === ">" || tier.comparator === ">=" ? tier.low : tier.high;
+    if (value !== undefined) {
+      extension.push({
+        url: THRESHOLD_URL,
+        valueQuantity: { ...buildUcumQuantity(value, scale.observationUnit), comparator: tier.comparator }
+      });
+    }
+  } else {
+    extension.push({
+      url: RANGE_URL,
+      valueRange: {
+        low: tier.low !== undefined ? buildUcumQuantity(tier.low, scale.observationUnit) : undefined,
+        high: tier.high !== undefined ? buildUcumQuantity(tier.high, scale.observationUnit) : undefined
+      }
+    });
+  }
+  return { url: SLIDING_SCALE_CONDITION_EXTENSION_URL, extension };
+}
+
+/**
+ * One `doseAndRate` entry per row, each tagged with the observation range it
+ * applies to.
+ */
+export function buildSlidingScaleDoseAndRate(scale: CanonicalSlidingScaleExpr): FhirDoseAndRate[] {
+  return scale.tiers.map((tier) => ({
+    extension: [buildConditionExtension(tier, scale)],
+    doseQuantity: buildUcumQuantity(tier.value, tier.unit)
+  }));
+}
+
+function findConditionExtension(entry: FhirDoseAndRate | undefined): FhirExtension | undefined {
+  return entry?.extension?.find((extension) => extension.url === SLIDING_SCALE_CONDITION_EXTENSION_URL);
+}
+
+export function isSlidingScaleDoseAndRate(entry: FhirDoseAndRate | undefined): boolean {
+  return Boolean(findConditionExtension(entry));
+}
+
+/**
+ * Reads sliding-scale rows back from `doseAndRate`, or undefined when no entry
+ * carries the condition extension.
+ */
+export function parseSlidingScaleDoseAndRate(
+  entries: FhirDoseAndRate[] | undefined
+): CanonicalSlidingScaleExpr | undefined {
+  const tiers: CanonicalSlidingScaleTier[] = [];
+  let observation: string | undefined;
+  let observationUnit: string | undefined;
+  for (const entry of entries ?? []) {
+    const condition = findConditionExtension(entry);
+    const dose = entry.doseQuantity;
+    if (!condition || dose?.value === undefined) {
+      continue;
+    }
+    const part = (url: string) => condition.extension?.find((extension) => extension.url === url);
+    observation = observation ?? part(OBSERVATION_URL)?.valueString;
+    const tier: CanonicalSlidingScaleTier = { value: dose.value, unit: readQuantityUnit(dose) };
+    const threshold = part(THRESHOLD_URL)?.valueQuantity;
+    const range = part(RANGE_URL)?.valueRange;
+    if (threshold?.value !== undefined && threshold.comparator) {
+      tier.comparator = threshold.comparator;
+      if (threshold.comparator === ">" || threshold.comparator === ">=") {
+        tier.low = threshold.value;
+      } else {
+        tier.high = threshold.value;
+      }
+      observationUnit = observationUnit ?? readQuantityUnit(threshold);
+    } else if (range) {
+      tier.low = range.low?.value;
+      tier.high = range.high?.value;
+      observationUnit = observationUnit ?? readQuantityUnit(range.low) ?? readQuantityUnit(range.high);
+    } else {
+      continue;
+    }
+    tiers.push(tier);
+  }
+  return tiers.length ? { observation, observationUnit, tiers } : undefined;
+}
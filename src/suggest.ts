@@ -8,6 +8,7 @@ import {
   ROUTE_TEXT,
   TIMING_ABBREVIATIONS,
 } from "./maps";
+import { hasThaiText } from "./lexer/thai";
 import { ParseOptions, RouteCode } from "./types";
 
 export interface SuggestSigOptions extends ParseOptions {
@@ -212,6 +213,9 @@ const OPTIONAL_MATCH_TOKENS = new Set([
 
 const ROUTE_TOKEN_FRAGMENTS = new Set<string>();
 for (const phrase of Object.keys(DEFAULT_ROUTE_SYNONYMS)) {
+  if (hasThaiText(phrase)) {
+    continue;
+  }
   for (const fragment of phrase.split(/\s+/)) {
     const normalized = fragment.trim();
     if (normalized) {
@@ -244,7 +248,8 @@ const UNIT_LOOKUP = (() => {
   };
 
   for (const token in DEFAULT_UNIT_SYNONYMS) {
-    if (!Object.prototype.hasOwnProperty.call(DEFAULT_UNIT_SYNONYMS, token)) {
+    // Suggestions are completed in English; Thai spellings parse but are not offered.
+    if (!Object.prototype.hasOwnProperty.call(DEFAULT_UNIT_SYNONYMS, token) || hasThaiText(token)) {
       continue;
     }
     const canonicalValue = DEFAULT_UNIT_SYNONYMS[token];
@@ -0,0 +1,148 @@
+import { buildFhirDurationQuantity, canonicalFromFhir, parseFhirDurationUnit } from "./fhir";
+import { formatCanonicalClause } from "./format";
+import { FhirDosage, FhirPeriodUnit, FhirTiming, TaperRegimenOptions } from "./types";
+import { buildUcumQuantity, readQuantityUnit } from "./ucum";
+import { deepEqual } from "./utils/object";
+
+/** Guards against runaway tapers such as a 0.001 mg step. */
+const MAX_TAPER_STEPS = 100;
+
+/**
+ * Rounds away floating point drift from repeated subtraction (e.g. 2.5 mg
+ * steps) so doses stay human-readable.
+ */
+function roundAmount(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function requirePositive(value: number, label: string): void {
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`Invalid ${label} supplied to buildTaperRegimen`);
+  }
+}
+
+function withoutBounds(timing: FhirTiming | undefined): FhirTiming | undefined {
+  if (!timing) {
+    return undefined;
+  }
+  const { boundsDuration: _boundsDuration, ...repeat } = timing.repeat ?? {};
+  const { repeat: _repeat, ...rest } = timing;
+  return Object.keys(repeat).length ? { ...rest, repeat } : rest;
+}
+
+/**
+ * Expands a linear taper into sequenced dosages, one per step, each bounded
+ * to `stepInterval`. Pass the result to `formatSigBatch` for combined text or
+ * to `calculateTotalUnits` for the dispensed amount.
+ */
+export function buildTaperRegimen(options: TaperRegimenOptions): FhirDosage[] {
+  const { startDose, step, stepInterval, unit } = options;
+  requirePositive(startDose, "startDose");
+  requirePositive(step, "step");
+  requirePositive(stepInterval, "stepInterval");
+  const minDose = options.minDose ?? step;
+  requirePositive(minDose, "minDose");
+  if (minDose > startDose) {
+    throw new Error("minDose cannot exceed startDose in buildTaperRegimen");
+  }
+  if (!unit?.trim()) {
+    throw new Error("A dose unit is required for buildTaperRegimen");
+  }
+
+  const doses: number[] = [];
+  let dose = startDose;
+  for (;;) {
+    doses.push(dose);
+    if (dose <= minDose) {
+      break;
+    }
+    if (doses.length >= MAX_TAPER_STEPS) {
+      throw new Error(`Taper exceeds ${MAX_TAPER_STEPS} steps; increase the step size`);
+    }
+    dose = Math.max(minDose, roundAmount(dose - step));
+  }
+
+  const timing: FhirTiming = options.timing ?? {
+    repeat: { frequency: 1, period: 1, periodUnit: FhirPeriodUnit.Day }
+  };
+  const boundsDuration = buildFhirDurationQuantity(
+    stepInterval,
+    options.stepIntervalUnit ?? FhirPeriodUnit.Day
+  );
+  return doses.map((value, index) => {
+    const dosage: FhirDosage = {
+      sequence: index + 1,
+      timing: {
+        ...timing,
+        repeat: { ...(timing.repeat ?? {}), boundsDuration: { ...boundsDuration } }
+      },
+      ...(options.route ? { route: options.route } : {}),
+      doseAndRate: [{ doseQuantity: buildUcumQuantity(value, unit) }]
+    };
+    dosage.text = formatCanonicalClause(canonicalFromFhir(dosage), "long");
+    return dosage;
+  });
+}
+
+/**
+ * Recovers the taper options from sequenced dosages, or undefined when the
+ * steps do not form a linear taper with a shared unit, interval, and timing.
+ */
+export function describeTaperRegimen(dosages: FhirDosage[]): TaperRegimenOptions | undefined {
+  if (dosages.length < 2) {
+    return undefined;
+  }
+  const ordered = [...dosages].sort((left, right) => (left.sequence ?? 0) - (right.sequence ?? 0));
+  const first = ordered[0];
+  const unit = readQuantityUnit(first.doseAndRate?.[0]?.doseQuantity);
+  const interval = first.timing?.repeat?.boundsDuration;
+  const stepIntervalUnit = parseFhirDurationUnit(interval);
+  if (!unit || interval?.value === undefined || !stepIntervalUnit) {
+    return undefined;
+  }
+  const timing = withoutBounds(first.timing);
+
+  const doses: number[] = [];
+  for (let index = 0; index < ordered.length; index += 1) {
+    const dosage = ordered[index];
+    if (index > 0 && (dosage.sequence ?? 0) <= (ordered[index - 1].sequence ?? 0)) {
+      return undefined;
+    }
+    const quantity = dosage.doseAndRate?.[0]?.doseQuantity;
+    const bounds = dosage.timing?.repeat?.boundsDuration;
+    if (
+      quantity?.value === undefined ||
+      readQuantityUnit(quantity) !== unit ||
+      bounds?.value !== interval.value ||
+      parseFhirDurationUnit(bounds) !== stepIntervalUnit ||
+      !deepEqual(withoutBounds(dosage.timing), timing) ||
+      !deepEqual(dosage.route, first.route)
+    ) {
+      return undefined;
+    }
+    doses.push(quantity.value);
+  }
+
+  const step = roundAmount(doses[0] - doses[1]);
+  if (step <= 0) {
+    return undefined;
+  }
+  for (let index = 1; index < doses.length; index += 1) {
+    const decrement = roundAmount(doses[index - 1] - doses[index]);
+    const isLast = index === doses.length - 1;
+    if (isLast ? decrement <= 0 || decrement > step : decrement !== step) {
+      return undefined;
+    }
+  }
+
+  return {
+    startDose: doses[0],
+    step,
+    stepInterval: interval.value,
+    stepIntervalUnit,
+    minDose: doses[doses.length - 1],
+    unit,
+    ...(timing ? { timing } : {}),
+    ...(first.route ? { route: first.route } : {})
+  };
+}
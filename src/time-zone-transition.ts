@@ -0,0 +1,93 @@
+import { coerceDate, nextDueDoses } from "./schedule";
+import {
+  DoseSpacing,
+  TimeZoneTransitionOptions,
+  TimeZoneTransitionResult,
+  TransitionDose
+} from "./types";
+import { formatZonedIso, getOffset, getTimeParts, makeZonedDate } from "./zoned-time";
+
+/** The instant whose wall clock in `toZone` matches `date`'s in `fromZone`. */
+function shiftWallClock(date: Date, fromZone: string, toZone: string): Date {
+  const { year, month, day, hour, minute, second } = getTimeParts(date, fromZone);
+  return (
+    makeZonedDate(toZone, year, month, day, hour, minute, second) ??
+    // A clock skipped by a DST change keeps the offset difference instead.
+    new Date(date.getTime() + (getOffset(date, fromZone) - getOffset(date, toZone)) * 60 * 1000)
+  );
+}
+
+function measureSpacing(
+  doses: TransitionDose[],
+  prefer: (minutes: number, best: number) => boolean
+): DoseSpacing | undefined {
+  let best: DoseSpacing | undefined;
+  for (let index = 1; index < doses.length; index += 1) {
+    const minutes = (Date.parse(doses[index].time) - Date.parse(doses[index - 1].time)) / 60000;
+    if (!best || prefer(minutes, best.minutes)) {
+      best = { from: doses[index - 1].time, to: doses[index].time, minutes };
+    }
+  }
+  return best;
+}
+
+/**
+ * Continues a dosage across a change of time zone. Doses before `travelAt`
+ * follow the origin zone; later ones keep their instants or move to the
+ * destination's local clock, depending on `policy`. `limit` (default 10)
+ * counts doses from `from` across both zones, and the longest and shortest
+ * spacing show how far the bridge strays from the regular schedule.
+ */
+export function planTimeZoneTransition(options: TimeZoneTransitionOptions): TimeZoneTransitionResult {
+  if (!options || typeof options !== "object") {
+    throw new Error("Options argument is required for planTimeZoneTransition");
+  }
+  if (options.from === undefined || options.travelAt === undefined) {
+    throw new Error("The 'from' and 'travelAt' options are required for planTimeZoneTransition");
+  }
+  const { originTimeZone, destinationTimeZone } = options;
+  if (!originTimeZone || !destinationTimeZone) {
+    throw new Error("originTimeZone and destinationTimeZone are required for planTimeZoneTransition");
+  }
+  const policy = options.policy ?? "absolute";
+  if (policy !== "absolute" && policy !== "localClock") {
+    throw new Error("Invalid policy supplied to planTimeZoneTransition");
+  }
+  const from = coerceDate(options.from, "from");
+  const travelAt = coerceDate(options.travelAt, "travelAt");
+  const limit = options.limit ?? 10;
+  const origin = nextDueDoses(options.dosage, {
+    ...options,
+    timeZone: originTimeZone,
+    limit
+  }).map((iso) => new Date(iso));
+  const zoneAt = (instant: Date) => (instant < travelAt ? originTimeZone : destinationTimeZone);
+  let instants = origin;
+  if (policy === "localClock") {
+    const before = origin.filter((instant) => instant < travelAt);
+    const baseTime =
+      options.orderedAt === undefined ? from : coerceDate(options.orderedAt, "orderedAt");
+    const after =
+      before.length < limit
+        ? nextDueDoses(options.dosage, {
+            ...options,
+            timeZone: destinationTimeZone,
+            from: travelAt > from ? travelAt : from,
+            orderedAt: shiftWallClock(baseTime, originTimeZone, destinationTimeZone),
+            priorCount:
+              options.priorCount === undefined ? undefined : options.priorCount + before.length,
+            limit: limit - before.length
+          }).map((iso) => new Date(iso))
+        : [];
+    instants = [...before, ...after];
+  }
+  const doses = instants.map((instant) => ({
+    time: formatZonedIso(instant, zoneAt(instant)),
+    timeZone: zoneAt(instant)
+  }));
+  return {
+    doses,
+    longestGap: measureSpacing(doses, (minutes, best) => minutes > best),
+    shortestSpacing: measureSpacing(doses, (minutes, best) => minutes < best)
+  };
+}
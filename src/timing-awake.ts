@@ -0,0 +1,20 @@
+import { FhirExtension, FhirTiming } from "./types";
+
+export const TIMING_WHILE_AWAKE_EXTENSION_URL = "urn:ezmedicationinput:timing-while-awake";
+
+/**
+ * FHIR Timing cannot say "only while awake", so the qualifier rides on
+ * `Timing.extension` next to the `repeat` it narrows.
+ */
+export function buildTimingWhileAwakeExtension(): FhirExtension {
+  return { url: TIMING_WHILE_AWAKE_EXTENSION_URL, valueBoolean: true };
+}
+
+/** Whether the timing is limited to waking hours. */
+export function isTimingWhileAwake(timing: FhirTiming | undefined): boolean {
+  return Boolean(
+    timing?.extension?.some(
+      (extension) => extension.url === TIMING_WHILE_AWAKE_EXTENSION_URL && extension.valueBoolean
+    )
+  );
+}
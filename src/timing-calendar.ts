@@ -0,0 +1,104 @@
+import {
+  CanonicalScheduleExpr,
+  CanonicalWeekdayOfMonth,
+  FhirDayOfWeek,
+  FhirExtension,
+  FhirPeriodUnit,
+  FhirTiming
+} from "./types";
+
+export const TIMING_DAY_OF_MONTH_EXTENSION_URL = "urn:ezmedicationinput:timing-day-of-month";
+export const TIMING_WEEKDAY_OF_MONTH_EXTENSION_URL = "urn:ezmedicationinput:timing-weekday-of-month";
+
+const ORDINAL_URL = "ordinal";
+const DAY_OF_WEEK_URL = "dayOfWeek";
+
+const DAYS_OF_WEEK = new Set<string>([
+  FhirDayOfWeek.Monday,
+  FhirDayOfWeek.Tuesday,
+  FhirDayOfWeek.Wednesday,
+  FhirDayOfWeek.Thursday,
+  FhirDayOfWeek.Friday,
+  FhirDayOfWeek.Saturday,
+  FhirDayOfWeek.Sunday
+]);
+
+function isCalendarOrdinal(value: number | undefined, max: number): value is number {
+  return value !== undefined && Number.isInteger(value) && (value === -1 || (value >= 1 && value <= max));
+}
+
+/**
+ * `Timing.repeat` can say "weekly on Tuesday" but not "on the 15th" or "on the
+ * 2nd Tuesday", so those ride on `Timing.extension`: one day-of-month
+ * extension per day (`valueInteger`, -1 for the last day), and one
+ * weekday-of-month extension per weekday with `ordinal` and `dayOfWeek` parts.
+ */
+export function buildTimingCalendarExtensions(
+  dayOfMonth: number[] | undefined,
+  weekdayOfMonth: CanonicalWeekdayOfMonth[] | undefined
+): FhirExtension[] {
+  const extensions: FhirExtension[] = [];
+  for (const day of dayOfMonth ?? []) {
+    extensions.push({ url: TIMING_DAY_OF_MONTH_EXTENSION_URL, valueInteger: day });
+  }
+  for (const entry of weekdayOfMonth ?? []) {
+    extensions.push({
+      url: TIMING_WEEKDAY_OF_MONTH_EXTENSION_URL,
+      extension: [
+        { url: ORDINAL_URL, valueInteger: entry.ordinal },
+        { url: DAY_OF_WEEK_URL, valueCode: entry.day }
+      ]
+    });
+  }
+  return extensions;
+}
+
+/** Reads the days of the month back from `Timing.extension`, skipping malformed entries. */
+export function parseTimingDayOfMonthExtensions(timing: FhirTiming | undefined): number[] | undefined {
+  const days: number[] = [];
+  for (const extension of timing?.extension ?? []) {
+    if (
+      extension.url === TIMING_DAY_OF_MONTH_EXTENSION_URL &&
+      isCalendarOrdinal(extension.valueInteger, 31) &&
+      days.indexOf(extension.valueInteger) === -1
+    ) {
+      days.push(extension.valueInteger);
+    }
+  }
+  return days.length ? days : undefined;
+}
+
+/** Reads the nth weekdays back from `Timing.extension`, skipping malformed entries. */
+export function parseTimingWeekdayOfMonthExtensions(
+  timing: FhirTiming | undefined
+): CanonicalWeekdayOfMonth[] | undefined {
+  const entries: CanonicalWeekdayOfMonth[] = [];
+  for (const extension of timing?.extension ?? []) {
+    if (extension.url !== TIMING_WEEKDAY_OF_MONTH_EXTENSION_URL) {
+      continue;
+    }
+    const part = (url: string) => extension.extension?.find((child) => child.url === url);
+    const ordinal = part(ORDINAL_URL)?.valueInteger;
+    const day = part(DAY_OF_WEEK_URL)?.valueCode;
+    if (isCalendarOrdinal(ordinal, 5) && day && DAYS_OF_WEEK.has(day)) {
+      entries.push({ ordinal, day: day as FhirDayOfWeek });
+    }
+  }
+  return entries.length ? entries : undefined;
+}
+
+/**
+ * True when the calendar days already say "monthly", so `Q1MO` or `twice
+ * monthly` would only repeat them.
+ */
+export function calendarDaysCoverFrequency(schedule: CanonicalScheduleExpr): boolean {
+  const perMonth = (schedule.dayOfMonth?.length ?? 0) + (schedule.weekdayOfMonth?.length ?? 0);
+  return (
+    perMonth > 0 &&
+    schedule.periodUnit === FhirPeriodUnit.Month &&
+    (schedule.period === undefined || schedule.period === 1) &&
+    schedule.periodMax === undefined &&
+    schedule.frequencyMax === undefined &&
+    (schedule.frequency === undefined || schedule.frequency === perMonth)
+  );
+}
@@ -0,0 +1,95 @@
+import { CanonicalScheduleCycle, FhirExtension, FhirTiming } from "./types";
+
+export const TIMING_CYCLE_EXTENSION_URL = "urn:ezmedicationinput:timing-cycle";
+
+const LENGTH_URL = "length";
+const ACTIVE_DAYS_URL = "activeDays";
+
+/**
+ * Groups sorted cycle days into contiguous runs, so `[1, 2, 3, 8]` becomes
+ * `[[1, 3], [8, 8]]`.
+ */
+export function groupCycleDays(days: number[]): Array<[number, number]> {
+  const runs: Array<[number, number]> = [];
+  for (const day of days) {
+    const last = runs[runs.length - 1];
+    if (last && day === last[1] + 1) {
+      last[1] = day;
+    } else {
+      runs.push([day, day]);
+    }
+  }
+  return runs;
+}
+
+/** Compact day list used by the extension and short text: `1-14` or `1,8,15`. */
+export function formatCycleDays(days: number[]): string {
+  return groupCycleDays(days)
+    .map(([low, high]) => (low === high ? `${low}` : `${low}-${high}`))
+    .join(",");
+}
+
+function parseCycleDays(text: string | undefined): number[] | undefined {
+  if (!text) {
+    return undefined;
+  }
+  const days = new Set<number>();
+  for (const part of text.split(",")) {
+    const match = part.trim().match(/^([0-9]+)(?:-([0-9]+))?$/);
+    if (!match) {
+      return undefined;
+    }
+    const low = parseInt(match[1], 10);
+    const high = match[2] ? parseInt(match[2], 10) : low;
+    if (low < 1 || high < low) {
+      return undefined;
+    }
+    for (let day = low; day <= high; day += 1) {
+      days.add(day);
+    }
+  }
+  return days.size ? Array.from(days).sort((left, right) => left - right) : undefined;
+}
+
+/**
+ * FHIR Timing has no notion of treatment cycles, so the cycle rides on
+ * `Timing.extension` next to the per-day `repeat`. `activeDays` is the compact
+ * day list and `length` the cycle length in days; it is omitted when the day
+ * list does not repeat.
+ */
+export function buildTimingCycleExtension(cycle: CanonicalScheduleCycle): FhirExtension {
+  const extension: FhirExtension[] = [];
+  if (cycle.length !== undefined) {
+    extension.push({
+      url: LENGTH_URL,
+      valueQuantity: {
+        value: cycle.length,
+        unit: "d",
+        system: "http://unitsofmeasure.org",
+        code: "d"
+      }
+    });
+  }
+  extension.push({ url: ACTIVE_DAYS_URL, valueString: formatCycleDays(cycle.activeDays) });
+  return { url: TIMING_CYCLE_EXTENSION_URL, extension };
+}
+
+/**
+ * Reads the cycle back from `Timing.extension`, or undefined when the timing
+ * carries none or its day list is malformed.
+ */
+export function parseTimingCycleExtension(
+  timing: FhirTiming | undefined
+): CanonicalScheduleCycle | undefined {
+  const cycle = timing?.extension?.find((extension) => extension.url === TIMING_CYCLE_EXTENSION_URL);
+  if (!cycle) {
+    return undefined;
+  }
+  const part = (url: string) => cycle.extension?.find((extension) => extension.url === url);
+  const activeDays = parseCycleDays(part(ACTIVE_DAYS_URL)?.valueString);
+  if (!activeDays) {
+    return undefined;
+  }
+  const length = part(LENGTH_URL)?.valueQuantity?.value;
+  return length !== undefined && length > 0 ? { length, activeDays } : { activeDays };
+}
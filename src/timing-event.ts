@@ -0,0 +1,90 @@
+import { DateLiteral } from "./lexer/token-types";
+import { formatZonedIso, getTimeParts, makeZonedDate } from "./zoned-time";
+
+function pad2(value: number): string {
+  return value < 10 ? `0${value}` : `${value}`;
+}
+
+function formatDate(date: DateLiteral): string {
+  return `${date.year}-${pad2(date.month)}-${pad2(date.day)}`;
+}
+
+/**
+ * Builds a `Timing.event` entry: the bare date when no clock was written, or
+ * the zoned local date and time. Returns undefined for a wall-clock time that
+ * the time zone skips, or a clock without a time zone.
+ */
+export function buildEventDateTime(
+  date: DateLiteral,
+  clock: string | undefined,
+  timeZone: string | undefined
+): string | undefined {
+  if (!clock) {
+    return formatDate(date);
+  }
+  if (!timeZone) {
+    return undefined;
+  }
+  const [hour, minute, second] = clock.split(":").map((part) => Number(part));
+  const zoned = makeZonedDate(timeZone, date.year, date.month, date.day, hour, minute, second || 0);
+  return zoned ? formatZonedIso(zoned, timeZone) : undefined;
+}
+
+/** Local calendar date of an instant, shifted by whole days. */
+export function localEventDate(instant: Date, timeZone: string, dayOffset = 0): DateLiteral {
+  const { year, month, day } = getTimeParts(instant, timeZone);
+  const shifted = new Date(Date.UTC(year, month - 1, day + dayOffset));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate()
+  };
+}
+
+/**
+ * Reads the `referenceDate` parse option, throwing for values that are not a
+ * valid date.
+ */
+export function resolveReferenceDate(value: Date | string | undefined): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = value instanceof Date ? new Date(value.getTime()) : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error("Invalid referenceDate supplied to parseSig");
+  }
+  return date;
+}
+
+/**
+ * A `Timing.event` entry: a date, optionally with a local time and an offset
+ * (group 7). Entries without an offset are read in the schedule's time zone.
+ */
+export const EVENT_DATE_TIME_PATTERN =
+  /^([0-9]{4})-([0-9]{2})-([0-9]{2})(?:T([0-9]{2}):([0-9]{2})(?::([0-9]{2}))?(?:\.[0-9]+)?(Z|[+-][0-9]{2}:[0-9]{2})?)?$/;
+
+export interface EventDateTimeParts {
+  date: DateLiteral;
+  /** Local `HH:MM:SS` as written in the event, without its offset. */
+  clock?: string;
+}
+
+/**
+ * Splits a `Timing.event` entry into its local date and clock, so text can
+ * show the wall-clock time the event was written in.
+ */
+export function readEventDateTime(event: string): EventDateTimeParts | undefined {
+  const match = event.match(EVENT_DATE_TIME_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+  const date = {
+    year: parseInt(match[1], 10),
+    month: parseInt(match[2], 10),
+    day: parseInt(match[3], 10)
+  };
+  if (match[4] === undefined) {
+    return { date };
+  }
+  return { date, clock: `${match[4]}:${match[5]}:${match[6] ?? "00"}` };
+}
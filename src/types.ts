@@ -19,10 +19,15 @@ export interface FhirCodeableConcept {
 export interface FhirExtension {
   url: string;
   extension?: FhirExtension[];
+  valueBoolean?: boolean;
   valueCode?: string;
   valueString?: string;
   valueCoding?: FhirCoding;
   valueCodeableConcept?: FhirCodeableConcept;
+  valueInteger?: number;
+  valueTime?: string;
+  valueQuantity?: FhirQuantity;
+  valueRange?: FhirRange;
 }
 
 export interface FhirPrimitiveElement {
@@ -31,6 +36,7 @@ export interface FhirPrimitiveElement {
 
 export interface FhirQuantity {
   value?: number;
+  comparator?: "<" | "<=" | ">=" | ">";
   unit?: string;
   system?: string;
   code?: string;
@@ -286,12 +292,14 @@ export interface FhirTimingRepeat {
 }
 
 export interface FhirTiming {
+  extension?: FhirExtension[];
   event?: string[];
   repeat?: FhirTimingRepeat;
   code?: FhirCodeableConcept;
 }
 
 export interface FhirDoseAndRate {
+  extension?: FhirExtension[];
   type?: FhirCodeableConcept;
   doseRange?: FhirRange;
   doseQuantity?: FhirQuantity;
@@ -311,8 +319,26 @@ export interface FhirDosage {
   asNeededBoolean?: boolean;
   asNeededFor?: FhirCodeableConcept[];
   doseAndRate?: FhirDoseAndRate[];
+  maxDosePerPeriod?: FhirRatio[];
+  maxDosePerAdministration?: FhirQuantity;
+  maxDosePerLifetime?: FhirQuantity;
+  /** Order of this dosage within a sequential regimen; equal values run concurrently. */
+  sequence?: number;
+}
+
+/**
+ * FHIR R4 Dosage, emitted with `fhirVersion: "R4"`. R4 has one as-needed
+ * choice element and a single per-period cap.
+ */
+export interface FhirDosageR4 extends Omit<FhirDosage, "asNeededFor" | "maxDosePerPeriod"> {
+  /** The PRN reason; exclusive with `asNeededBoolean`. */
+  asNeededCodeableConcept?: FhirCodeableConcept;
+  maxDosePerPeriod?: FhirRatio;
 }
 
+/** FHIR release whose Dosage shape is emitted. */
+export type FhirVersion = "R4" | "R5";
+
 export type RouteCode = SNOMEDCTRouteCodes;
 export const RouteCode = SNOMEDCTRouteCodes;
 
@@ -335,7 +361,18 @@ export interface MedicationContext {
   strengthCodeableConcept?: FhirCodeableConcept;
   containerValue?: number;
   containerUnit?: string;
+  /** Drops in one mL of the product, used to convert drop doses. Defaults to 20. */
+  dropsPerMl?: number;
   defaultUnit?: string;
+  /** Patient weight used to resolve per-kg doses such as `15 mg/kg`. */
+  weightKg?: number;
+  /** Patient height; combined with weight to estimate BSA when needed. */
+  heightCm?: number;
+  /**
+   * Patient body surface area used to resolve per-m² doses. Estimated with
+   * the Mosteller formula from weight and height when omitted.
+   */
+  bodySurfaceAreaM2?: number;
   mealRelation?:
   | (typeof EventTiming)["Before Meal"]
   | (typeof EventTiming)["After Meal"]
@@ -404,6 +441,25 @@ export interface CodeableConceptDefinition {
 
 export interface PrnReasonDefinition extends CodeableConceptDefinition { }
 
+/**
+ * Institution-defined clinical event that doses can be timed against, such as
+ * dialysis, a procedure, or a chemotherapy day. The map key and `aliases` are
+ * the phrases the parser recognizes.
+ */
+export interface ClinicalEventAnchorDefinition extends CodeableConceptDefinition {
+  /** Usual local start of the event as `HH:mm`. */
+  clock?: string;
+  /** Usual length of the event in minutes; `after` doses count from its end. */
+  duration?: number;
+  /** Weekdays the event usually falls on, such as the HD days of a unit. */
+  dayOfWeek?: FhirDayOfWeek[];
+}
+
+export enum EventAnchorRelation {
+  Before = "before",
+  After = "after"
+}
+
 export interface AdditionalInstructionDefinition
   extends CodeableConceptDefinition { }
 
@@ -683,6 +739,25 @@ export interface ParseOptions extends FormatOptions {
    * EventTiming arrays can be ordered chronologically for that locale.
    */
   eventClock?: EventClockMap;
+  /**
+   * Instant that `stat`, `now`, `today`, and `tomorrow` resolve against when
+   * filling `Timing.event`. Without it, `stat` and `now` stay an immediate
+   * `when` code with a warning. `today`, `tomorrow`, and dates without a year
+   * also need `timeZone`, and are left unread without both.
+   */
+  referenceDate?: Date | string;
+  /**
+   * Institution-defined clinical events (`dialysis`, `procedure`, `chemo`)
+   * that `1 hr before procedure` or `after dialysis on HD days` time doses
+   * against.
+   */
+  eventAnchorMap?: Record<string, ClinicalEventAnchorDefinition>;
+  /**
+   * IANA time zone for date and time literals such as `2026-11-02 08:00`.
+   * Without it, such an event keeps only its date and the clock is written
+   * to `Timing.repeat.timeOfDay`.
+   */
+  timeZone?: string;
   allowDiscouraged?: boolean;
   /**
    * When enabled the parser will assume a single discrete unit (e.g., one
@@ -734,6 +809,13 @@ export interface ParseOptions extends FormatOptions {
    * spatial-relation extension.
    */
   bodySitePostcoordination?: boolean;
+  /**
+   * Dosage shape emitted in `fhir`. Defaults to "R5". "R4" writes the PRN
+   * reason to `asNeededCodeableConcept` (merging several reasons into its
+   * text with a warning) and keeps a single `maxDosePerPeriod` Ratio, typed
+   * as `FhirDosageR4`.
+   */
+  fhirVersion?: FhirVersion;
   /**
    * Explicit selections that override automatic site resolution for matching
    * phrases. Useful when custom dictionaries provide multiple options but a UI
@@ -777,10 +859,94 @@ export interface CanonicalDoseRange {
   high?: number;
 }
 
+/**
+ * Body-size basis of a normalized dose: `kg` for weight-based (`15 mg/kg`)
+ * and `m2` for body-surface-area-based (`75 mg/m2`) dosing.
+ */
+export type DoseBasisUnit = "kg" | "m2";
+
+/**
+ * Absolute dose resolved from a per-kg or per-m² dose and the patient's
+ * anthropometrics.
+ */
+export interface CanonicalCalculatedDose {
+  value?: number;
+  range?: CanonicalDoseRange;
+  unit?: string;
+}
+
 export interface CanonicalDoseExpr {
   value?: number;
   range?: CanonicalDoseRange;
   unit?: string;
+  /** Set for normalized doses; `value`/`range` are then per basis unit. */
+  basisUnit?: DoseBasisUnit;
+  calculated?: CanonicalCalculatedDose;
+  evidence?: CanonicalEvidence[];
+}
+
+/**
+ * Administration rate such as `80 mL/hr` or the weight-based `5 mcg/kg/min`.
+ */
+export interface CanonicalRateExpr {
+  value?: number;
+  range?: CanonicalDoseRange;
+  /** Amount delivered per period, e.g. `mL`, `U`, `mcg`. */
+  unit?: string;
+  /** Body-weight basis of weight-normalized rates, e.g. `kg`. */
+  perWeightUnit?: string;
+  /** Length of the rate denominator; omitted when it is a single unit. */
+  period?: number;
+  periodUnit: FhirPeriodUnit;
+  evidence?: CanonicalEvidence[];
+}
+
+/**
+ * Amount cap such as `2 tabs per dose`; `unit` is omitted for bare dose
+ * counts like `max 4 doses`.
+ */
+export interface CanonicalMaxDoseQuantity {
+  value: number;
+  unit?: string;
+}
+
+/**
+ * Cumulative cap over a window, e.g. `6 tabs/day` or `4 g/24h`.
+ */
+export interface CanonicalMaxDosePerPeriod extends CanonicalMaxDoseQuantity {
+  /** Length of the window; omitted when it is a single unit. */
+  period?: number;
+  periodUnit: FhirPeriodUnit;
+}
+
+export interface CanonicalMaxDoseExpr {
+  perPeriod?: CanonicalMaxDosePerPeriod[];
+  perAdministration?: CanonicalMaxDoseQuantity;
+  perLifetime?: CanonicalMaxDoseQuantity;
+  evidence?: CanonicalEvidence[];
+}
+
+export type SlidingScaleComparator = "<" | "<=" | ">=" | ">";
+
+/**
+ * One row of a sliding scale such as `151-200 2u` or `>300 8u`. Bounds are
+ * inclusive; open-ended rows carry a `comparator` with `low` (for `>`/`>=`) or
+ * `high` (for `<`/`<=`). A zero `value` means hold the dose.
+ */
+export interface CanonicalSlidingScaleTier {
+  low?: number;
+  high?: number;
+  comparator?: SlidingScaleComparator;
+  value: number;
+  unit?: string;
+}
+
+export interface CanonicalSlidingScaleExpr {
+  /** Measurement the rows are read against, e.g. `blood glucose`. */
+  observation?: string;
+  /** Unit of the row bounds, e.g. `mg/dL`. */
+  observationUnit?: string;
+  tiers: CanonicalSlidingScaleTier[];
   evidence?: CanonicalEvidence[];
 }
 
@@ -807,6 +973,22 @@ export interface CanonicalMethodExpr {
   evidence?: CanonicalEvidence[];
 }
 
+/**
+ * Repeating treatment cycle such as `21 days on, 7 days off` or `days 1-14
+ * q21d`. Days are numbered from 1 at the start of each cycle.
+ */
+export interface CanonicalScheduleCycle {
+  /** Cycle length in days; omitted when the day list does not repeat. */
+  length?: number;
+  activeDays: number[];
+}
+
+/** The `2nd Tuesday` of a month; an `ordinal` of -1 means the last one. */
+export interface CanonicalWeekdayOfMonth {
+  ordinal: number;
+  day: FhirDayOfWeek;
+}
+
 export interface CanonicalScheduleExpr {
   timingCode?: string;
   count?: number;
@@ -821,9 +1003,39 @@ export interface CanonicalScheduleExpr {
   dayOfWeek?: FhirDayOfWeek[];
   when?: EventTiming[];
   timeOfDay?: string[];
+  dayOfMonth?: number[];
+  weekdayOfMonth?: CanonicalWeekdayOfMonth[];
+  cycle?: CanonicalScheduleCycle;
+  /** `while awake`: doses are kept to the patient's wake window. */
+  whileAwake?: boolean;
+  /**
+   * One-off administration instants as FHIR `dateTime` strings: a date
+   * (`2026-11-02`) or a zoned date and time (`2026-11-02T08:00:00+07:00`).
+   */
+  event?: string[];
+  anchor?: CanonicalEventAnchor;
   evidence?: CanonicalEvidence[];
 }
 
+/**
+ * Dose timed against a clinical event from `ParseOptions.eventAnchorMap`.
+ * Without a relation the dose only falls on days the event occurs
+ * (`on HD days`).
+ */
+export interface CanonicalEventAnchor {
+  text: string;
+  coding?: FhirCoding;
+  relation?: EventAnchorRelation;
+  /** Minutes between the event and the dose, as in `1 hr before`. */
+  offset?: number;
+  /** Usual local start of the event as `HH:mm:ss`, from the definition. */
+  clock?: string;
+  /** Usual length of the event in minutes, from the definition. */
+  duration?: number;
+  /** Weekdays the event usually falls on, from the definition. */
+  dayOfWeek?: FhirDayOfWeek[];
+}
+
 export interface CanonicalPrnReasonExpr {
   text?: string;
   coding?: FhirCoding;
@@ -862,6 +1074,9 @@ export interface CanonicalSigClause {
   span?: TextRange;
   raw: CanonicalSourceSpan;
   dose?: CanonicalDoseExpr;
+  rate?: CanonicalRateExpr;
+  maxDose?: CanonicalMaxDoseExpr;
+  slidingScale?: CanonicalSlidingScaleExpr;
   route?: CanonicalRouteExpr;
   site?: CanonicalSiteExpr;
   method?: CanonicalMethodExpr;
@@ -875,11 +1090,27 @@ export interface CanonicalSigClause {
   warnings?: string[];
 }
 
-export interface ParseResult {
-  fhir: FhirDosage;
+/**
+ * Window a sequential phase occupies, measured from the start of the regimen.
+ * `end` is omitted when the phase is open-ended.
+ */
+export interface ParseSequenceBounds {
+  start: FhirQuantity;
+  end?: FhirQuantity;
+}
+
+export interface ParseResult<TDosage extends FhirDosage | FhirDosageR4 = FhirDosage> {
+  fhir: TDosage;
   shortText: string;
   longText: string;
   warnings: string[];
+  /** 1-based phase number when the sig chains regimens with `then`. */
+  sequence?: number;
+  /**
+   * Offset inherited from the phases before this one. Omitted once an earlier
+   * phase has no fixed length.
+   */
+  sequenceBounds?: ParseSequenceBounds;
   meta: {
     consumedTokens: string[];
     leftoverText?: string;
@@ -895,9 +1126,30 @@ export interface ParseResult {
       request: PrnReasonLookupRequest;
       suggestions: PrnReasonSuggestion[];
     }>;
+    dispense?: ParseDispenseMeta;
   };
 }
 
+/**
+ * Dispensing details written on the sig line (`#30`, `disp 30 tabs`,
+ * `RF2`, `DAW`). They describe the supply, not the administration, so they
+ * never appear on the Dosage.
+ */
+export interface ParseDispenseMeta {
+  /** Amount to dispense; `unit` is omitted for a bare count such as `#30`. */
+  quantity?: { value: number; unit?: string };
+  /** Refills allowed after the first fill. */
+  refills?: number;
+  /** Days the supply should last, from `30 day supply` or `DS: 30`. */
+  daysSupply?: number;
+  /**
+   * Whether the pharmacy may dispense a generic. `DAW` and `dispense as
+   * written` forbid it; `DAW0` and `generic ok` allow it. `dawCode` keeps the
+   * NCPDP product selection code when one is written (`DAW1`).
+   */
+  substitution?: { allowed: boolean; dawCode?: number };
+}
+
 export interface ParseNormalizedMeta {
   route?: RouteCode;
   unit?: string;
@@ -927,15 +1179,15 @@ export interface ParseBatchSegmentMeta {
   range: TextRange;
 }
 
-export interface ParseBatchResult {
+export interface ParseBatchResult<TDosage extends FhirDosage | FhirDosageR4 = FhirDosage> {
   input: string;
   count: number;
-  items: ParseResult[];
+  items: ParseResult<TDosage>[];
   /**
    * Top-level compatibility field mirroring the first parsed item so existing
    * single-sig integrations can migrate incrementally.
    */
-  fhir: FhirDosage;
+  fhir: TDosage;
   /**
    * Top-level compatibility field mirroring the first parsed item so existing
    * single-sig integrations can migrate incrementally.
@@ -962,6 +1214,7 @@ export interface ParseBatchResult {
       request: PrnReasonLookupRequest;
       suggestions: PrnReasonSuggestion[];
     }>;
+    dispense?: ParseDispenseMeta;
     segments: ParseBatchSegmentMeta[];
   };
 }
@@ -977,22 +1230,22 @@ export interface LintIssue {
   range?: TextRange;
 }
 
-export interface LintResult {
+export interface LintResult<TDosage extends FhirDosage | FhirDosageR4 = FhirDosage> {
   /** Standard parse output including FHIR representation and metadata. */
-  result: ParseResult;
+  result: ParseResult<TDosage>;
   /** Segments of the input that could not be interpreted. */
   issues: LintIssue[];
 }
 
-export interface LintBatchResult {
+export interface LintBatchResult<TDosage extends FhirDosage | FhirDosageR4 = FhirDosage> {
   input: string;
   count: number;
-  items: LintResult[];
+  items: LintResult<TDosage>[];
   /**
    * Top-level compatibility fields mirroring the first parsed item so existing
    * consumers of `lintSig` can migrate incrementally.
    */
-  result: ParseResult;
+  result: ParseResult<TDosage>;
   issues: LintIssue[];
   meta: {
     segments: ParseBatchSegmentMeta[];
@@ -1005,6 +1258,12 @@ export interface LintBatchResult {
  */
 export type EventClockMap = Record<string, string>;
 
+/**
+ * A patient's clinical event occurrences, keyed by the anchor's code or text
+ * (`dialysis`). Entries are instants, or dates that fall at the anchor's clock.
+ */
+export type EventCalendar = Record<string, Array<Date | string>>;
+
 /**
  * Meal timing offsets (in minutes) applied to broader AC/PC EventTiming codes.
  */
@@ -1020,6 +1279,24 @@ export interface FrequencyFallbackTimes {
   byFrequency?: Record<string, string[]>;
 }
 
+/**
+ * Hours a patient is awake, as local `HH:mm` clocks. An `end` at or before
+ * `start` runs past midnight, so a night-shift worker's day can start at
+ * 20:00 and end at 12:00.
+ */
+export interface WakeWindow {
+  start: string;
+  /** Before `start` runs past midnight; equal to `start` is rejected. */
+  end: string;
+  /**
+   * How `while awake` doses fit the window. `redistribute` (the default)
+   * restarts intervals at `start` every day and spreads daily frequencies
+   * from `start` to `end`; `skip` keeps the regular schedule and drops the
+   * slots that fall outside the window.
+   */
+  nightSlots?: "redistribute" | "skip";
+}
+
 /**
  * Shared configuration required to generate next-due dose timestamps.
  */
@@ -1028,6 +1305,9 @@ export interface NextDueDoseConfig {
   eventClock?: EventClockMap;
   mealOffsets?: MealOffsetMap;
   frequencyDefaults?: FrequencyFallbackTimes;
+  eventCalendar?: EventCalendar;
+  /** Applied to `while awake` dosages; defaults to 08:00-22:00. */
+  wakeWindow?: WakeWindow;
 }
 
 /**
@@ -1042,9 +1322,112 @@ export interface NextDueDoseOptions {
   eventClock?: EventClockMap;
   mealOffsets?: MealOffsetMap;
   frequencyDefaults?: FrequencyFallbackTimes;
+  /** Occurrences of clinical events that anchored doses are timed against. */
+  eventCalendar?: EventCalendar;
+  wakeWindow?: WakeWindow;
   config?: NextDueDoseConfig;
 }
 
+/** Where a due administration's clock came from. */
+export type AdministrationSource =
+  /** An `EventTiming` code such as `MORN` or `ACD`. */
+  | "when"
+  /** An explicit `timeOfDay` clock. */
+  | "timeOfDay"
+  /** A frequency such as BID spread over institution clocks. */
+  | "frequency"
+  /** A fixed interval stepped from the order start. */
+  | "interval"
+  /** A dated `timing.event`. */
+  | "event"
+  /** A clinical event anchor such as "2 hours before surgery". */
+  | "anchor"
+  /** The order start itself, e.g. a single dose. */
+  | "order"
+  /** A `while awake` dose laid out inside the wake window. */
+  | "wakeWindow";
+
+export interface DueAdministration {
+  /** Zoned ISO timestamp, as returned by `nextDueDoses`. */
+  time: string;
+  /** Index of the originating dosage within the supplied array or batch. */
+  dosageIndex: number;
+  doseQuantity?: FhirQuantity;
+  doseRange?: FhirRange;
+  source: AdministrationSource;
+  /** The `EventTiming` code the slot was expanded from, for `when` sources. */
+  when?: EventTiming;
+  /** Local wall-clock time of the slot (`HH:mm:ss`). */
+  clock: string;
+  /**
+   * True when no institution clock was configured for the slot and a built-in
+   * default was used, e.g. 09:00 for `QD`.
+   */
+  fallbackClock: boolean;
+}
+
+/** One medication row of a MAR grid. */
+export interface MarEntry {
+  /** Row heading, typically the medication name and strength. */
+  label: string;
+  dosage: FhirDosage | FhirDosage[] | ParseBatchResult;
+  /** When this medication was started; defaults to the grid's `orderedAt`. */
+  orderedAt?: Date | string;
+}
+
+export interface MarGridOptions extends Omit<NextDueDoseOptions, "limit" | "priorCount"> {
+  /** Calendar days covered, starting with the local day containing `from`. Defaults to 1. */
+  days?: number;
+}
+
+export interface MarCell extends DueAdministration {
+  /** Local calendar date of the administration (`YYYY-MM-DD`). */
+  date: string;
+}
+
+/** A stretch of one day during which an as-needed dosage may be given. */
+export interface MarAvailability {
+  date: string;
+  dosageIndex: number;
+  /** Zoned ISO timestamps; `end` is exclusive. */
+  start: string;
+  end: string;
+}
+
+export interface MarRow {
+  label: string;
+  dosages: FhirDosage[];
+  /** True when every dosage of the row is as needed. */
+  prn: boolean;
+  /** Scheduled administrations in chronological order. */
+  cells: MarCell[];
+  availability: MarAvailability[];
+}
+
+export interface MarGrid {
+  timeZone: string;
+  /** Local calendar dates covered (`YYYY-MM-DD`). */
+  dates: string[];
+  /** Wall clocks (`HH:mm:ss`) shared by every row, in ascending order. */
+  slots: string[];
+  rows: MarRow[];
+}
+
+/** Column headings of a rendered MAR. */
+export interface MarLabels {
+  medication: string;
+  instructions: string;
+  date: string;
+  asNeeded: string;
+}
+
+export interface MarRenderOptions extends FormatOptions {
+  /** Style of the instructions column. Defaults to `short`. */
+  style?: "short" | "long";
+  /** Overrides the headings chosen for `locale`. */
+  labels?: Partial<MarLabels>;
+}
+
 export interface TotalUnitsResult {
   totalUnits: number;
   totalContainers?: number;
@@ -1057,3 +1440,478 @@ export interface TotalUnitsOptions extends NextDueDoseOptions {
   roundToMultiple?: number;
   context?: MedicationContext;
 }
+
+export interface DaysSupplyOptions extends NextDueDoseOptions {
+  dosage: FhirDosage | FhirDosage[];
+  /** Amount dispensed, in `quantityUnit`. */
+  quantity?: number;
+  /** Unit of `quantity`. Defaults to the dose unit. */
+  quantityUnit?: string;
+  /**
+   * Containers dispensed when `quantity` is omitted, each holding
+   * `context.containerValue` of `context.containerUnit`. Defaults to 1.
+   */
+  containers?: number;
+  context?: MedicationContext;
+}
+
+export interface DaysSupplyResult {
+  /** Whole days the supply lasts from `from`. */
+  daysSupply: number;
+  /**
+   * Time of the first administration the supply can no longer cover. Omitted
+   * when the supply outlasts the regimen.
+   */
+  runOutDate?: string;
+  /** Supply expressed in `unit`, after container and drop conversion. */
+  totalUnits: number;
+  /**
+   * Supply left once the regimen ends; only set when the supply outlasts it.
+   */
+  remainingUnits?: number;
+  unit?: string;
+}
+
+export interface AdherenceOptions extends Omit<NextDueDoseOptions, "limit" | "priorCount"> {
+  dosage: FhirDosage | FhirDosage[] | ParseBatchResult;
+  /** When doses were actually taken, in any order. */
+  administrations: Array<Date | string>;
+  /** Exclusive end of the review; doses due from `from` up to here are expected. */
+  to: Date | string;
+  /** Minutes before a due time that still count as on time. Defaults to 60. */
+  earlyToleranceMinutes?: number;
+  /** Minutes after a due time that still count as on time. Defaults to 60. */
+  lateToleranceMinutes?: number;
+  /**
+   * Earliest a dose may be taken, in minutes before its due time, and still
+   * count as that dose. Defaults to 180.
+   */
+  earlyLimitMinutes?: number;
+  /** Latest a dose may be taken, in minutes after its due time, before it counts as missed. Defaults to 360. */
+  lateLimitMinutes?: number;
+}
+
+export type DoseAdherenceStatus = "onTime" | "early" | "late" | "missed";
+
+export interface ExpectedDoseOutcome {
+  /** Zoned ISO due time. */
+  due: string;
+  dosageIndex: number;
+  status: DoseAdherenceStatus;
+  /** The administration matched to the dose; omitted when it was missed. */
+  takenAt?: string;
+  /** Minutes from the due time to `takenAt`, negative when early. */
+  deviationMinutes?: number;
+}
+
+export interface AdherenceResult {
+  doses: ExpectedDoseOutcome[];
+  /** Administrations within the review that match no expected dose. */
+  extraDoses: string[];
+  counts: Record<DoseAdherenceStatus, number> & { extra: number };
+  /**
+   * Expected doses taken, early or late, as a percentage rounded to one
+   * decimal place. Omitted when nothing was due.
+   */
+  adherencePercent?: number;
+  /**
+   * Share of days with a dose due on which every due dose was taken, from 0
+   * to 1. Omitted when nothing was due.
+   */
+  proportionOfDaysCovered?: number;
+}
+
+/**
+ * How doses continue after a change of time zone. `absolute` keeps every dose
+ * at the same instant, so intervals never change but clock times move with
+ * the journey; `localClock` moves doses to the same wall-clock times in the
+ * destination zone.
+ */
+export type TimeZoneTransitionPolicy = "absolute" | "localClock";
+
+export interface TimeZoneTransitionOptions extends Omit<NextDueDoseOptions, "timeZone"> {
+  dosage: FhirDosage;
+  /** Zone the schedule was set up in. */
+  originTimeZone: string;
+  destinationTimeZone: string;
+  /** When the patient switches to the destination clock, e.g. on landing. */
+  travelAt: Date | string;
+  /** Defaults to `absolute`. */
+  policy?: TimeZoneTransitionPolicy;
+}
+
+export interface TransitionDose {
+  /** Zoned ISO time in the zone the patient is in at that moment. */
+  time: string;
+  timeZone: string;
+}
+
+/** Time between two consecutive doses of a transition. */
+export interface DoseSpacing {
+  from: string;
+  to: string;
+  minutes: number;
+}
+
+export interface TimeZoneTransitionResult {
+  doses: TransitionDose[];
+  /** Longest time between consecutive doses. Omitted with fewer than two doses. */
+  longestGap?: DoseSpacing;
+  /** Shortest time between consecutive doses. Omitted with fewer than two doses. */
+  shortestSpacing?: DoseSpacing;
+}
+
+/** Local `HH:mm` clocks from dawn to sunset, the hours a patient fasts. */
+export interface FastingWindow {
+  start: string;
+  end: string;
+}
+
+export interface FastingOptions extends FormatOptions {
+  window?: FastingWindow;
+  /** Pre-dawn meal clock. Defaults to the start of `window`. */
+  suhoor?: string;
+  /** Sunset meal clock. Defaults to the end of `window`. */
+  iftar?: string;
+  /** Closest two remapped doses may be given. Defaults to 4 hours. */
+  minSpacingHours?: number;
+}
+
+export type FastingRemapStatus = "remapped" | "unchanged" | "unsafe";
+
+export type FastingRemapReason =
+  /** As-needed doses are left to the patient. */
+  | "asNeeded"
+  /** Only oral doses break the fast. */
+  | "route"
+  /** Every dose already falls between iftar and suhoor. */
+  | "outsideFast"
+  /** No daily repeat to remap, such as a single `stat` dose. */
+  | "unscheduled"
+  /** The doses cannot fit between iftar and suhoor at the minimum spacing. */
+  | "tooFrequent"
+  /** The interval does not divide a day, e.g. `q36h`. */
+  | "irregularInterval"
+  /** The doses go with more meals than suhoor and iftar, e.g. `tid ac`. */
+  | "mealRelation";
+
+export interface FastingRemapItem {
+  /** The remapped dosage, or the original when it is unchanged or unsafe. */
+  dosage: FhirDosage;
+  status: FastingRemapStatus;
+  reason?: FastingRemapReason;
+  /** Long patient text for `dosage` in the requested locale. */
+  text: string;
+}
+
+export interface FastingRemapResult {
+  items: FastingRemapItem[];
+  /** False when any dosage could not be remapped safely. */
+  safe: boolean;
+  /**
+   * Breakfast at suhoor and dinner at iftar, for scheduling remapped doses
+   * that keep their meal codes.
+   */
+  eventClock: EventClockMap;
+}
+
+/**
+ * What placed a dose at its clock. The first four pin a dose; the rest
+ * explain where a movable dose was put.
+ */
+export type ConsolidationConstraint =
+  /** A meal code such as `AC`, `PC` or `with breakfast`. */
+  | "mealRelation"
+  | "bedtime"
+  /** Another event code, such as `MORN` or `WAKE`. */
+  | "eventTiming"
+  /** An explicit `timeOfDay`. */
+  | "fixedClock"
+  /** Moved onto a slot another dosage uses. */
+  | "sharedSlot"
+  /** Kept at the `frequencyDefaults` clock. */
+  | "defaultClock"
+  /** Placed to keep the minimum spacing between doses. */
+  | "minSpacing"
+  /** Placed on the grid of an hourly interval. */
+  | "interval";
+
+export interface ConsolidationOptions
+  extends Pick<NextDueDoseOptions, "eventClock" | "mealOffsets" | "frequencyDefaults" | "config">,
+  FormatOptions {
+  /**
+   * Closest two doses of a daily frequency may be moved together. Defaults
+   * to half an even split of the day but at least 4 hours, e.g. 6 hours for
+   * twice daily and 4 hours for four times daily; five or more doses a day
+   * keep an even split. Hourly intervals always keep their interval.
+   */
+  minSpacingHours?: number;
+  /** Extra clocks, as `HH:mm`, that movable doses may be placed at. */
+  candidateClocks?: string[];
+}
+
+export interface ConsolidatedClock {
+  /** `HH:mm:ss` */
+  clock: string;
+  drivenBy: ConsolidationConstraint;
+  /** Indexes of the other dosages given at this clock. */
+  sharedWith: number[];
+}
+
+export interface ConsolidatedDosage {
+  dosageIndex: number;
+  /**
+   * The dosage with its new `timeOfDay`, or unchanged when it is not movable.
+   * An hourly interval with no pinned, event or candidate clock to start its
+   * grid from is left unchanged too.
+   */
+  dosage: FhirDosage;
+  movable: boolean;
+  clocks: ConsolidatedClock[];
+  /** Why a dosage takes no part, e.g. as-needed or without a daily schedule. */
+  excluded?: "asNeeded" | "unscheduled";
+}
+
+export interface ConsolidatedSlot {
+  clock: string;
+  dosageIndexes: number[];
+}
+
+export interface ConsolidationResult {
+  items: ConsolidatedDosage[];
+  /** Distinct administration clocks after consolidation, in clock order. */
+  slots: ConsolidatedSlot[];
+  /**
+   * Distinct clocks before consolidation. Hourly intervals have no clock of
+   * their own until placed, so they are not counted.
+   */
+  originalSlotCount: number;
+}
+
+/** One compartment row of a compliance pack, such as Morning or Bedtime. */
+export interface CompliancePackSlot {
+  label: string;
+  /** Local `HH:mm` clock the compartment is taken at. */
+  clock: string;
+  /** Event codes filled into this compartment regardless of their clock. */
+  when?: EventTiming[];
+}
+
+export interface CompliancePackEntry {
+  /** Medication name and strength printed on the pack. */
+  label: string;
+  dosage: FhirDosage | FhirDosage[] | ParseBatchResult;
+  /** When this medication was started; defaults to the pack's `orderedAt`. */
+  orderedAt?: Date | string;
+}
+
+export interface CompliancePackOptions extends Omit<MarGridOptions, "days"> {
+  /** Defaults to Morning 08:00, Noon 12:00, Evening 18:00 and Bedtime 22:00. */
+  slots?: CompliancePackSlot[];
+  /** Furthest a dose may be from the nearest compartment clock. Defaults to 120. */
+  slotToleranceMinutes?: number;
+}
+
+export type CompliancePackExclusionReason =
+  | "asNeeded"
+  /** Only oral doses go in the pack. */
+  | "route"
+  /** Volume doses, such as `5 mL`. */
+  | "liquid"
+  /** A dose that is not counted in tablets or capsules, e.g. `500 mg`. */
+  | "doseUnit"
+  /** A dose range, such as `1-2 tab`. */
+  | "variableDose"
+  /** Anything finer than half a tablet, or a split capsule. */
+  | "splitDose"
+  /**
+   * A dose less often than daily without a fixed weekday or start date, which
+   * would land on whichever day the pack happens to start.
+   */
+  | "unfixedDay"
+  /** A dose too far from every compartment clock. */
+  | "noSlot"
+  /** No repeat to lay out, such as a single `stat` dose. */
+  | "unscheduled";
+
+export interface CompliancePackExclusion {
+  dosageIndex: number;
+  reason: CompliancePackExclusionReason;
+}
+
+export interface CompliancePackRow {
+  label: string;
+  dosages: FhirDosage[];
+  /**
+   * Tablets per compartment as `counts[day][slot]`, e.g. 0.5 for a half
+   * tablet. All zeros when the medication is excluded.
+   */
+  counts: number[][];
+  /** Tablets for the week from `calculateTotalUnits`; 0 when excluded. */
+  weeklyTotal: number;
+  /** Why the medication must be supplied outside the pack. */
+  excluded: CompliancePackExclusion[];
+}
+
+export interface CompliancePack {
+  timeZone: string;
+  /** The seven local dates of the pack (`YYYY-MM-DD`). */
+  dates: string[];
+  slots: CompliancePackSlot[];
+  rows: CompliancePackRow[];
+  /** Tablets per compartment across every packed row, `totals[day][slot]`. */
+  totals: number[][];
+}
+
+/**
+ * Linear taper described by its first dose and a fixed decrement per step.
+ */
+export interface TaperRegimenOptions {
+  /** Dose given during the first step. */
+  startDose: number;
+  /** Amount removed from the dose at each step. */
+  step: number;
+  /** Length of each step, in `stepIntervalUnit` (days by default). */
+  stepInterval: number;
+  stepIntervalUnit?: FhirPeriodUnit;
+  /**
+   * Lowest dose of the taper. The final step is clamped to it when the
+   * decrement would overshoot. Defaults to `step`.
+   */
+  minDose?: number;
+  /** Dose unit such as `mg` or `tab`. */
+  unit: string;
+  /** Timing shared by every step. Defaults to once daily. */
+  timing?: FhirTiming;
+  route?: FhirCodeableConcept;
+}
+
+export interface FhirReference {
+  reference?: string;
+  display?: string;
+}
+
+/** FHIR R5 CodeableReference: a code, a resource reference, or both. */
+export interface FhirCodeableReference {
+  concept?: FhirCodeableConcept;
+  reference?: FhirReference;
+}
+
+export interface FhirMedicationIngredient {
+  item: FhirCodeableReference;
+  isActive?: boolean;
+  strengthRatio?: FhirRatio;
+  strengthQuantity?: FhirQuantity;
+  strengthCodeableConcept?: FhirCodeableConcept;
+}
+
+/** FHIR R5 Medication, emitted as a contained resource. */
+export interface FhirMedication {
+  resourceType: "Medication";
+  id?: string;
+  code?: FhirCodeableConcept;
+  doseForm?: FhirCodeableConcept;
+  ingredient?: FhirMedicationIngredient[];
+}
+
+export interface FhirMedicationRequestDispenseRequest {
+  numberOfRepeatsAllowed?: number;
+  quantity?: FhirQuantity;
+  expectedSupplyDuration?: FhirQuantity;
+}
+
+/** Whether the dispenser may substitute, e.g. a generic for the brand. */
+export interface FhirMedicationRequestSubstitution {
+  allowedBoolean: boolean;
+}
+
+export type MedicationRequestStatus =
+  | "active"
+  | "on-hold"
+  | "ended"
+  | "stopped"
+  | "completed"
+  | "cancelled"
+  | "entered-in-error"
+  | "draft"
+  | "unknown";
+
+export type MedicationRequestIntent =
+  | "proposal"
+  | "plan"
+  | "order"
+  | "original-order"
+  | "reflex-order"
+  | "filler-order"
+  | "instance-order"
+  | "option";
+
+export type MedicationStatementStatus = "recorded" | "entered-in-error" | "draft";
+
+/** FHIR R5 MedicationRequest. */
+export interface FhirMedicationRequest {
+  resourceType: "MedicationRequest";
+  id?: string;
+  contained?: FhirMedication[];
+  status: MedicationRequestStatus;
+  intent: MedicationRequestIntent;
+  medication: FhirCodeableReference;
+  subject: FhirReference;
+  authoredOn?: string;
+  dosageInstruction: FhirDosage[];
+  dispenseRequest?: FhirMedicationRequestDispenseRequest;
+  substitution?: FhirMedicationRequestSubstitution;
+}
+
+/** FHIR R5 MedicationStatement. */
+export interface FhirMedicationStatement {
+  resourceType: "MedicationStatement";
+  id?: string;
+  contained?: FhirMedication[];
+  status: MedicationStatementStatus;
+  medication: FhirCodeableReference;
+  subject: FhirReference;
+  dateAsserted?: string;
+  dosage: FhirDosage[];
+}
+
+export interface MedicationResourceOptions {
+  /** Product code, e.g. an RxNorm or TMT coding with its display text. */
+  medication: FhirCodeableConcept;
+  /** Patient the medication is for. */
+  subject: FhirReference;
+  id?: string;
+  /**
+   * Strength, dose form and container size. Strength or form moves the
+   * product into a contained Medication; containers round the dispensed
+   * quantity up to whole packs.
+   */
+  context?: MedicationContext;
+}
+
+export interface MedicationRequestOptions
+  extends MedicationResourceOptions,
+  Omit<NextDueDoseOptions, "from" | "limit" | "priorCount"> {
+  /** Defaults to `active`. */
+  status?: MedicationRequestStatus;
+  /** Defaults to `order`. */
+  intent?: MedicationRequestIntent;
+  /**
+   * When the order was written. Also the start of the supply window; without
+   * it (or a time zone) a quantity not written on the sig is left out.
+   */
+  authoredOn?: Date | string;
+  /**
+   * Supply window for `expectedSupplyDuration` and the calculated quantity.
+   * Defaults to the regimen length written on the sig (`x 30d`).
+   */
+  durationValue?: number;
+  durationUnit?: FhirPeriodUnit;
+  roundToMultiple?: number;
+}
+
+export interface MedicationStatementOptions extends MedicationResourceOptions {
+  /** Defaults to `recorded`. */
+  status?: MedicationStatementStatus;
+  dateAsserted?: Date | string;
+}
@@ -0,0 +1,129 @@
+import { DEFAULT_UNIT_SYNONYMS } from "./maps";
+import { FhirQuantity } from "./types";
+import { objectEntries } from "./utils/object";
+
+export const UCUM_SYSTEM = "http://unitsofmeasure.org";
+
+/**
+ * UCUM codes for the parser's canonical units. Countable dose forms have no
+ * UCUM unit, so they use curly-brace annotations, which UCUM reads as "1".
+ */
+export const UCUM_CODE_BY_UNIT: Record<string, string> = {
+  kg: "kg",
+  g: "g",
+  mg: "mg",
+  mcg: "ug",
+  ng: "ng",
+  kL: "kL",
+  L: "L",
+  dL: "dL",
+  mL: "mL",
+  mcL: "uL",
+  nL: "nL",
+  m2: "m2",
+  mmol: "mmol",
+  mEq: "meq",
+  U: "U",
+  IU: "[iU]",
+  tsp: "[tsp_us]",
+  tbsp: "[tbs_us]",
+  tab: "{tbl}",
+  cap: "{cap}",
+  puff: "{puff}",
+  spray: "{spray}",
+  drop: "{drop}",
+  pump: "{pump}",
+  squeeze: "{squeeze}",
+  applicatorful: "{applicatorful}",
+  capful: "{capful}",
+  scoop: "{scoop}",
+  application: "{application}",
+  ribbon: "{ribbon}",
+  patch: "{patch}",
+  suppository: "{suppository}",
+  implant: "{implant}",
+  lozenge: "{lozenge}",
+  pessary: "{pessary}",
+  piece: "{piece}",
+  stick: "{stick}"
+};
+
+const UNIT_BY_UCUM_CODE: Record<string, string> = (() => {
+  const map: Record<string, string> = {};
+  for (const [unit, code] of objectEntries(UCUM_CODE_BY_UNIT)) {
+    map[code] = unit;
+  }
+  return map;
+})();
+
+// Time units in rate and window denominators are written as UCUM already,
+// optionally with a multiplier such as `(2.h)`.
+const UCUM_TIME_PART = /^(?:s|min|h|d|wk|mo|a|\([0-9]+(?:\.[0-9]+)?\.(?:s|min|h|d|wk|mo|a)\))$/;
+
+function ucumCodeForPart(part: string): string | undefined {
+  if (part === "1" || UCUM_TIME_PART.test(part)) {
+    return part;
+  }
+  const canonical = UCUM_CODE_BY_UNIT[part] ? part : DEFAULT_UNIT_SYNONYMS[part.toLowerCase()];
+  return canonical ? UCUM_CODE_BY_UNIT[canonical] : undefined;
+}
+
+/**
+ * UCUM code for a unit written the way the parser emits it (`tab`, `mcg`,
+ * `mcg/kg/min`), or undefined when any part has no UCUM equivalent.
+ */
+export function getUcumCode(unit: string | undefined): string | undefined {
+  const parts = unit?.trim().split("/");
+  if (!parts?.length || parts.some((part) => !part)) {
+    return undefined;
+  }
+  const codes: string[] = [];
+  for (const part of parts) {
+    const code = ucumCodeForPart(part);
+    if (!code) {
+      return undefined;
+    }
+    codes.push(code);
+  }
+  return codes.join("/");
+}
+
+/** Parser unit for a UCUM code, the inverse of `getUcumCode`. */
+export function getUnitFromUcumCode(code: string | undefined): string | undefined {
+  const parts = code?.trim().split("/");
+  if (!parts?.length || parts.some((part) => !part)) {
+    return undefined;
+  }
+  const units: string[] = [];
+  for (const part of parts) {
+    const unit = part === "1" || UCUM_TIME_PART.test(part) ? part : UNIT_BY_UCUM_CODE[part];
+    if (!unit) {
+      return undefined;
+    }
+    units.push(unit);
+  }
+  return units.join("/");
+}
+
+/** A quantity with `system`/`code` added when its unit maps to UCUM. */
+export function buildUcumQuantity(value: number, unit: string | undefined): FhirQuantity {
+  if (!unit) {
+    return { value };
+  }
+  const code = getUcumCode(unit);
+  return code ? { value, unit, system: UCUM_SYSTEM, code } : { value, unit };
+}
+
+/**
+ * The parser unit of a FHIR quantity. A known UCUM code wins over the
+ * display `unit`, which may be missing or localized (`เม็ด`, `片`).
+ */
+export function readQuantityUnit(quantity: FhirQuantity | undefined): string | undefined {
+  if (quantity?.system === UCUM_SYSTEM) {
+    const unit = getUnitFromUcumCode(quantity.code);
+    if (unit) {
+      return unit;
+    }
+  }
+  return quantity?.unit ?? quantity?.code;
+}
@@ -2,6 +2,7 @@ import { FhirRatio, FhirQuantity, MedicationContext } from "../types";
 import { getBaseUnitFactor, getUnitCategory } from "./units";
 import { DEFAULT_UNIT_BY_NORMALIZED_FORM, KNOWN_DOSAGE_FORMS_TO_DOSE } from "../maps";
 import { arrayIncludes } from "./array";
+import { buildUcumQuantity } from "../ucum";
 
 /**
  * High-level strength parser that returns the most appropriate FHIR representation.
@@ -78,8 +79,8 @@ export function parseStrengthIntoRatio(strength: string, context?: MedicationCon
     const finalNumValue = totalNumeratorMg / getBaseUnitFactor(resultNumUnit);
 
     return {
-        numerator: { value: finalNumValue, unit: resultNumUnit },
-        denominator: { value: resultDenValue, unit: resultDenUnit }
+        numerator: buildUcumQuantity(finalNumValue, resultNumUnit),
+        denominator: buildUcumQuantity(resultDenValue, resultDenUnit)
     };
 }
 
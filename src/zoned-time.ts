@@ -0,0 +1,191 @@
+const SECONDS_PER_MINUTE = 60;
+
+/** Caches expensive Intl.DateTimeFormat objects per time zone. */
+const dateTimeFormatCache = new Map<string, Intl.DateTimeFormat>();
+
+export interface TimeParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+interface DateTimeFormatPart {
+  type: string;
+  value: string;
+}
+
+interface IntlDateTimeFormatOptionsExtended extends Intl.DateTimeFormatOptions {
+  calendar?: string;
+  numberingSystem?: string;
+}
+
+interface DateTimeFormatWithParts extends Intl.DateTimeFormat {
+  formatToParts?: (date: Date) => DateTimeFormatPart[];
+}
+
+/** Simple zero-padding helper for numeric components. */
+export function pad(value: number, length = 2): string {
+  const absolute = Math.abs(value);
+  let output = absolute.toString();
+  while (output.length < length) {
+    output = `0${output}`;
+  }
+  return value < 0 ? `-${output}` : output;
+}
+
+function formatToParts(formatter: Intl.DateTimeFormat, date: Date): DateTimeFormatPart[] {
+  const withParts = formatter as DateTimeFormatWithParts;
+  if (typeof withParts.formatToParts === "function") {
+    return withParts.formatToParts(date);
+  }
+  const iso = date.toISOString();
+  return [
+    { type: "year", value: iso.slice(0, 4) },
+    { type: "month", value: iso.slice(5, 7) },
+    { type: "day", value: iso.slice(8, 10) },
+    { type: "hour", value: iso.slice(11, 13) },
+    { type: "minute", value: iso.slice(14, 16) },
+    { type: "second", value: iso.slice(17, 19) }
+  ];
+}
+
+/** Retrieves (and caches) an Intl formatter for calendar components. */
+function getDateTimeFormat(timeZone: string): Intl.DateTimeFormat {
+  let formatter = dateTimeFormatCache.get(timeZone);
+  if (!formatter) {
+    const options: IntlDateTimeFormatOptionsExtended = {
+      timeZone,
+      calendar: "iso8601",
+      numberingSystem: "latn",
+      hour12: false,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit"
+    };
+    formatter = new Intl.DateTimeFormat("en-CA", options);
+    dateTimeFormatCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Extracts calendar components for a Date interpreted within the supplied time
+ * zone.
+ */
+export function getTimeParts(date: Date, timeZone: string): TimeParts {
+  const formatter = getDateTimeFormat(timeZone);
+  const parts: Partial<TimeParts> = {};
+  const rawParts = formatToParts(formatter, date);
+  for (const part of rawParts) {
+    if (part.type === "literal") {
+      continue;
+    }
+    if (part.type === "year") {
+      parts.year = Number(part.value);
+    } else if (part.type === "month") {
+      parts.month = Number(part.value);
+    } else if (part.type === "day") {
+      parts.day = Number(part.value);
+    } else if (part.type === "hour") {
+      parts.hour = Number(part.value);
+    } else if (part.type === "minute") {
+      parts.minute = Number(part.value);
+    } else if (part.type === "second") {
+      parts.second = Number(part.value);
+    }
+  }
+  if (parts.hour === 24) {
+    // Some locales express midnight as 24:00 of the previous day. Nudge the
+    // instant forward slightly so we can capture the correct calendar date and
+    // reset the hour component back to zero.
+    const forward = new Date(date.getTime() + 60 * 1000);
+    const forwardParts = formatToParts(formatter, forward);
+    for (const part of forwardParts) {
+      if (part.type === "literal") {
+        continue;
+      }
+      if (part.type === "year") {
+        parts.year = Number(part.value);
+      } else if (part.type === "month") {
+        parts.month = Number(part.value);
+      } else if (part.type === "day") {
+        parts.day = Number(part.value);
+      }
+    }
+    parts.hour = 0;
+    parts.minute = parts.minute ?? 0;
+    parts.second = parts.second ?? 0;
+  }
+  if (
+    parts.year === undefined ||
+    parts.month === undefined ||
+    parts.day === undefined ||
+    parts.hour === undefined ||
+    parts.minute === undefined ||
+    parts.second === undefined
+  ) {
+    throw new Error("Unable to resolve time parts for provided date");
+  }
+  return parts as TimeParts;
+}
+
+/** Calculates the time-zone offset in minutes for a given instant. */
+export function getOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getTimeParts(date, timeZone);
+  const zonedTime = Date.UTC(year, month - 1, day, hour, minute, second);
+  return (zonedTime - date.getTime()) / (SECONDS_PER_MINUTE * 1000);
+}
+
+/**
+ * Renders an ISO-8601 string that reflects the provided time zone instead of
+ * defaulting to UTC.
+ */
+export function formatZonedIso(date: Date, timeZone: string): string {
+  const { year, month, day, hour, minute, second } = getTimeParts(date, timeZone);
+  const offsetMinutes = getOffset(date, timeZone);
+  const offsetSign = offsetMinutes >= 0 ? "+" : "-";
+  const absoluteOffset = Math.abs(offsetMinutes);
+  const offsetHours = Math.floor(absoluteOffset / SECONDS_PER_MINUTE);
+  const offsetRemainder = absoluteOffset % SECONDS_PER_MINUTE;
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}:${pad(second)}${offsetSign}${pad(offsetHours)}:${pad(offsetRemainder)}`;
+}
+
+/**
+ * Builds a Date representing a local wall-clock time in the target time zone.
+ */
+export function makeZonedDate(
+  timeZone: string,
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number
+): Date | null {
+  const initialUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  let candidate = new Date(initialUtc);
+  let offset = getOffset(candidate, timeZone);
+  candidate = new Date(initialUtc - offset * SECONDS_PER_MINUTE * 1000);
+  const recalculatedOffset = getOffset(candidate, timeZone);
+  if (recalculatedOffset !== offset) {
+    candidate = new Date(initialUtc - recalculatedOffset * SECONDS_PER_MINUTE * 1000);
+  }
+  const parts = getTimeParts(candidate, timeZone);
+  if (
+    parts.year !== year ||
+    parts.month !== month ||
+    parts.day !== day ||
+    parts.hour !== hour ||
+    parts.minute !== minute ||
+    parts.second !== second
+  ) {
+    return null;
+  }
+  return candidate;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { analyzeAdherence, parseSig } from "../src/index";
+
+describe("analyzeAdherence", () => {
+  const bid = {
+    dosage: parseSig("1 tab po bid").fhir,
+    from: "2024-01-01T00:00:00Z",
+    to: "2024-01-04T00:00:00Z",
+    timeZone: "UTC",
+    frequencyDefaults: { byCode: { BID: ["08:00", "20:00"] } }
+  };
+
+  it("classifies each expected dose and flags extra administrations", () => {
+    const result = analyzeAdherence({
+      ...bid,
+      administrations: [
+        "2024-01-01T08:10:00Z",
+        "2024-01-01T21:30:00Z",
+        "2024-01-02T06:30:00Z",
+        "2024-01-02T12:00:00Z",
+        "2024-01-03T20:05:00Z",
+        "2024-01-03T08:00:00Z",
+        "2024-01-03T20:00:00Z"
+      ]
+    });
+    expect(result.doses[1]).toEqual({
+      due: "2024-01-01T20:00:00+00:00",
+      dosageIndex: 0,
+      status: "late",
+      takenAt: "2024-01-01T21:30:00+00:00",
+      deviationMinutes: 90
+    });
+    expect(result.doses.map((dose) => [dose.due, dose.status, dose.deviationMinutes])).toEqual([
+      ["2024-01-01T08:00:00+00:00", "onTime", 10],
+      ["2024-01-01T20:00:00+00:00", "late", 90],
+      ["2024-01-02T08:00:00+00:00", "early", -90],
+      ["2024-01-02T20:00:00+00:00", "missed", undefined],
+      ["2024-01-03T08:00:00+00:00", "onTime", 0],
+      ["2024-01-03T20:00:00+00:00", "onTime", 0]
+    ]);
+    expect(result.extraDoses).toEqual(["2024-01-02T12:00:00+00:00", "2024-01-03T20:05:00+00:00"]);
+    expect(result.counts).toEqual({ onTime: 3, early: 1, late: 1, missed: 1, extra: 2 });
+    expect(result.adherencePercent).toBe(83.3);
+    expect(result.proportionOfDaysCovered).toBeCloseTo(2 / 3, 5);
+  });
+
+  it("applies configurable tolerance windows", () => {
+    const administrations = ["2024-01-01T09:30:00Z", "2024-01-01T14:30:00Z"];
+    const strict = analyzeAdherence({ ...bid, to: "2024-01-02T00:00:00Z", administrations });
+    expect(strict.doses.map((dose) => dose.status)).toEqual(["late", "missed"]);
+    expect(strict.extraDoses).toEqual(["2024-01-01T14:30:00+00:00"]);
+    expect(strict.adherencePercent).toBe(50);
+    const partial = analyzeAdherence({ ...bid, to: "2024-01-02T12:00:00Z", administrations });
+    expect(partial.doses).toHaveLength(3);
+    expect(partial.adherencePercent).toBe(33.3);
+
+    const relaxed = analyzeAdherence({
+      ...bid,
+      to: "2024-01-02T00:00:00Z",
+      administrations,
+      lateToleranceMinutes: 120,
+      earlyLimitMinutes: 360
+    });
+    expect(relaxed.doses.map((dose) => dose.status)).toEqual(["onTime", "early"]);
+    expect(relaxed.extraDoses).toEqual([]);
+    expect(relaxed.proportionOfDaysCovered).toBe(1);
+  });
+
+  it("expects nothing from as-needed dosages", () => {
+    const result = analyzeAdherence({
+      dosage: parseSig("1 tab po q6h prn pain").fhir,
+      from: "2024-01-01T00:00:00Z",
+      to: "2024-01-02T00:00:00Z",
+      timeZone: "UTC",
+      administrations: ["2024-01-01T10:00:00Z"]
+    });
+    expect(result.doses).toEqual([]);
+    expect(result.extraDoses).toEqual(["2024-01-01T10:00:00+00:00"]);
+    expect(result.adherencePercent).toBeUndefined();
+    expect(result.proportionOfDaysCovered).toBeUndefined();
+  });
+
+  it("rejects unparseable administration times", () => {
+    expect(() => analyzeAdherence({ ...bid, administrations: ["yesterday"] })).toThrow(
+      "Invalid administration supplied to analyzeAdherence"
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { buildCompliancePack, parseSig } from "../src/index";
+import { EventTiming, NextDueDoseConfig } from "../src/types";
+
+const CONFIG: NextDueDoseConfig = {
+  timeZone: "Asia/Bangkok",
+  eventClock: { MORN: "08:00", HS: "22:00" },
+  frequencyDefaults: {
+    byCode: { BID: ["08:00", "18:00"] },
+    byFrequency: { "freq:2/d": ["08:00", "18:00"] }
+  }
+};
+
+const EMPTY_WEEK = Array.from({ length: 7 }, () => [0, 0, 0, 0]);
+
+describe("buildCompliancePack", () => {
+  it("counts tablets per day and compartment, including half tablets", () => {
+    const pack = buildCompliancePack(
+      [
+        { label: "Metformin 500 mg", dosage: parseSig("1 tab po bid").fhir },
+        { label: "Amlodipine 10 mg", dosage: parseSig("1/2 tab po qam").fhir },
+        { label: "Simvastatin 20 mg", dosage: parseSig("1 tab po hs").fhir }
+      ],
+      { from: "2026-03-02T10:00:00+07:00", config: CONFIG }
+    );
+    expect(pack.dates).toEqual([
+      "2026-03-02",
+      "2026-03-03",
+      "2026-03-04",
+      "2026-03-05",
+      "2026-03-06",
+      "2026-03-07",
+      "2026-03-08"
+    ]);
+    expect(pack.slots.map((slot) => `${slot.label} ${slot.clock}`)).toEqual([
+      "Morning 08:00",
+      "Noon 12:00",
+      "Evening 18:00",
+      "Bedtime 22:00"
+    ]);
+    expect(pack.rows.map((row) => row.counts[0])).toEqual([
+      [1, 0, 1, 0],
+      [0.5, 0, 0, 0],
+      [0, 0, 0, 1]
+    ]);
+    expect(pack.rows.map((row) => row.weeklyTotal)).toEqual([14, 3.5, 7]);
+    expect(pack.totals).toEqual(Array.from({ length: 7 }, () => [1.5, 0, 1, 1]));
+  });
+
+  it("packs weekly items on their own day and flags those without one", () => {
+    const pack = buildCompliancePack(
+      [
+        { label: "Alendronate 70 mg", dosage: parseSig("1 tab po every monday").fhir },
+        { label: "Methotrexate 2.5 mg", dosage: parseSig("1 tab po weekly").fhir },
+        {
+          label: "Methotrexate 2.5 mg",
+          dosage: parseSig("1 tab po weekly").fhir,
+          orderedAt: "2026-02-25T08:00:00+07:00"
+        }
+      ],
+      { from: "2026-03-02", config: CONFIG }
+    );
+    const [alendronate, unanchored, anchored] = pack.rows;
+    expect(alendronate.counts.map((day) => day[0])).toEqual([1, 0, 0, 0, 0, 0, 0]);
+    expect(alendronate.weeklyTotal).toBe(1);
+    expect(unanchored.excluded).toEqual([{ dosageIndex: 0, reason: "unfixedDay" }]);
+    expect(unanchored.counts).toEqual(EMPTY_WEEK);
+    expect(anchored.counts.map((day) => day[0])).toEqual([0, 0, 1, 0, 0, 0, 0]);
+  });
+
+  it("leaves out medications that cannot go in the pack", () => {
+    const pack = buildCompliancePack(
+      [
+        { label: "Paracetamol 500 mg", dosage: parseSig("1 tab po q6h prn pain").fhir },
+        { label: "Lactulose", dosage: parseSig("15 ml po bid").fhir },
+        { label: "Glyceryl trinitrate", dosage: parseSig("1 tab sl daily").fhir },
+        { label: "Omeprazole 20 mg", dosage: parseSig("0.5 cap po daily").fhir },
+        { label: "Furosemide 40 mg", dosage: parseSig("1-2 tab po daily").fhir },
+        { label: "Metformin 500 mg", dosage: parseSig("1 tab po bid").fhir }
+      ],
+      { from: "2026-03-02", config: CONFIG }
+    );
+    expect(pack.rows.map((row) => row.excluded.map((entry) => entry.reason))).toEqual([
+      ["asNeeded"],
+      ["liquid"],
+      ["route"],
+      ["splitDose"],
+      ["variableDose"],
+      []
+    ]);
+    expect(pack.rows.slice(0, 5).every((row) => row.weeklyTotal === 0)).toBe(true);
+    expect(pack.totals[0]).toEqual([1, 0, 1, 0]);
+  });
+
+  it("fills custom compartments by event code and flags doses between them", () => {
+    const pack = buildCompliancePack(
+      [
+        { label: "Gliclazide 80 mg", dosage: parseSig("1 tab po with breakfast").fhir },
+        { label: "Levodopa 100 mg", dosage: parseSig("1 tab po q4h").fhir }
+      ],
+      {
+        from: "2026-03-02",
+        config: { ...CONFIG, eventClock: { ...CONFIG.eventClock, CM: "06:30" } },
+        slots: [
+          { label: "Breakfast", clock: "09:00", when: [EventTiming.Breakfast] },
+          { label: "Night", clock: "21:00" }
+        ]
+      }
+    );
+    const [gliclazide, levodopa] = pack.rows;
+    expect(gliclazide.counts[0]).toEqual([1, 0]);
+    expect(levodopa.excluded).toEqual([{ dosageIndex: 0, reason: "noSlot" }]);
+  });
+
+  it("rejects invalid slot settings", () => {
+    expect(() =>
+      buildCompliancePack([], { from: "2026-03-02", config: CONFIG, slotToleranceMinutes: -1 })
+    ).toThrow("Invalid slotToleranceMinutes supplied to buildCompliancePack");
+    expect(() => buildCompliancePack([], { from: "2026-03-02", config: CONFIG, slots: [] })).toThrow(
+      "Invalid slots supplied to buildCompliancePack"
+    );
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { consolidateAdministrationTimes, parseSig } from "../src/index";
+
+const EVENT_CLOCK = { CM: "07:30", CD: "12:30", CV: "18:30", HS: "22:00" };
+const MEAL_OFFSETS = { AC: -30, PC: 30 };
+
+function consolidate(sigs: string[], options = {}) {
+  return consolidateAdministrationTimes(
+    sigs.map((sig) => parseSig(sig).fhir),
+    { eventClock: EVENT_CLOCK, mealOffsets: MEAL_OFFSETS, ...options }
+  );
+}
+
+describe("consolidateAdministrationTimes", () => {
+  it("moves daily frequencies onto meal and bedtime slots", () => {
+    const result = consolidate(["1 tab po tid pc", "1 tab po bid", "1 tab po qid", "1 tab po hs"]);
+    expect(result.slots).toEqual([
+      { clock: "08:00:00", dosageIndexes: [0, 1, 2] },
+      { clock: "12:00:00", dosageIndexes: [2] },
+      { clock: "13:00:00", dosageIndexes: [0] },
+      { clock: "16:00:00", dosageIndexes: [2] },
+      { clock: "19:00:00", dosageIndexes: [0, 1] },
+      { clock: "22:00:00", dosageIndexes: [2, 3] }
+    ]);
+    expect(result.originalSlotCount).toBeGreaterThan(result.slots.length);
+    expect(result.items[2].dosage.timing?.repeat?.timeOfDay).toEqual([
+      "08:00:00",
+      "12:00:00",
+      "16:00:00",
+      "22:00:00"
+    ]);
+    expect(result.items[1].dosage.timing?.repeat?.timeOfDay).toEqual(["08:00:00", "19:00:00"]);
+    expect(result.items[1].dosage.text).toBe("Take 1 tablet orally twice daily at 8:00 am, 7:00 pm.");
+    expect(result.items[1].clocks[0]).toEqual({
+      clock: "08:00:00",
+      drivenBy: "sharedSlot",
+      sharedWith: [0, 2]
+    });
+  });
+
+  it("keeps meal, bedtime and explicit clocks pinned", () => {
+    const result = consolidate(["1 tab po ac breakfast", "1 tab po hs", "1 tab po at 21:00"]);
+    expect(result.items.map((item) => [item.movable, item.clocks.map((clock) => clock.drivenBy)])).toEqual([
+      [false, ["mealRelation"]],
+      [false, ["bedtime"]],
+      [false, ["fixedClock"]]
+    ]);
+    expect(result.items[0].dosage).toEqual(parseSig("1 tab po ac breakfast").fhir);
+  });
+
+  it("lays an hourly interval on a grid that shares a slot inside the day", () => {
+    const result = consolidate(["1 tab po q8h", "1 tab po hs", "1 tab po ac breakfast"]);
+    expect(result.items[0].clocks).toEqual([
+      { clock: "06:00:00", drivenBy: "interval", sharedWith: [] },
+      { clock: "14:00:00", drivenBy: "interval", sharedWith: [] },
+      { clock: "22:00:00", drivenBy: "sharedSlot", sharedWith: [1] }
+    ]);
+    expect(result.items[0].dosage.timing).toEqual({
+      repeat: { period: 1, periodUnit: "d", frequency: 3, timeOfDay: ["06:00:00", "14:00:00", "22:00:00"] }
+    });
+  });
+
+  it("leaves intervals unchanged without a clock to start their grid", () => {
+    const dosages = ["1 tab po q12h", "1 tab po q8h", "1 tab po q6h"].map((sig) => parseSig(sig).fhir);
+    const result = consolidateAdministrationTimes(dosages);
+    expect(result.items.map((item) => item.dosage)).toEqual(dosages);
+    expect(result.items.map((item) => [item.movable, item.clocks])).toEqual([
+      [false, []],
+      [false, []],
+      [false, []]
+    ]);
+    expect(result.slots).toEqual([]);
+    const anchored = consolidateAdministrationTimes(dosages.slice(1, 2), { candidateClocks: ["06:00"] });
+    expect(anchored.items[0].dosage.timing?.repeat?.timeOfDay).toEqual(["06:00:00", "14:00:00", "22:00:00"]);
+  });
+
+  it("does not squeeze doses closer than the minimum spacing", () => {
+    const result = consolidate(["1 tab po tid pc", "1 tab po bid"], { minSpacingHours: 12 });
+    const clocks = result.items[1].clocks.map((clock) => clock.clock);
+    expect(clocks).toEqual(["08:00:00", "20:00:00"]);
+    expect(result.items[1].clocks.map((clock) => clock.drivenBy)).toEqual(["sharedSlot", "defaultClock"]);
+  });
+
+  it("leaves as-needed and unscheduled dosages out", () => {
+    const result = consolidate(["1 tab po q6h prn pain", "1 tab po stat"]);
+    expect(result.items.map((item) => item.excluded)).toEqual(["asNeeded", "unscheduled"]);
+    expect(result.slots).toEqual([]);
+    expect(() => consolidate(["1 tab po bid"], { minSpacingHours: 0 })).toThrow(
+      "Invalid minSpacingHours supplied to consolidateAdministrationTimes"
+    );
+  });
+});
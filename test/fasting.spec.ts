@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { nextDueDoses, parseSig, remapForFasting } from "../src/index";
+
+const RAMADAN = { suhoor: "04:00", iftar: "18:30" };
+
+describe("remapForFasting", () => {
+  it("moves twice-daily doses to suhoor and iftar", () => {
+    const { items, safe } = remapForFasting(parseSig("1 tab po bid").fhir, RAMADAN);
+    expect(safe).toBe(true);
+    expect(items[0].status).toBe("remapped");
+    expect(items[0].dosage.timing).toEqual({
+      repeat: { frequency: 2, period: 1, periodUnit: "d", timeOfDay: ["04:00:00", "18:30:00"] }
+    });
+    expect(items[0].text).toBe("Take 1 tablet orally twice daily at 4:00 am, 6:30 pm.");
+    expect(items[0].dosage.text).toBe(items[0].text);
+    expect(
+      nextDueDoses(items[0].dosage, { from: "2026-02-20T00:00:00+07:00", timeZone: "Asia/Bangkok", limit: 2 })
+    ).toEqual(["2026-02-20T04:00:00+07:00", "2026-02-20T18:30:00+07:00"]);
+  });
+
+  it("keeps meal relations by moving them to suhoor and iftar", () => {
+    const result = remapForFasting(
+      ["1 tab po bid ac", "1 tab po qd pc", "1 tab po ac breakfast", "1 tab po tid ac"].map((sig) => parseSig(sig).fhir),
+      RAMADAN
+    );
+    const [twice, once, breakfast, thrice] = result.items;
+    expect(twice.dosage.timing?.repeat).toEqual({ frequency: 2, period: 1, periodUnit: "d", when: ["ACM", "ACV"] });
+    expect(twice.text).toBe("Take 1 tablet orally twice daily before breakfast and before dinner.");
+    expect(once.dosage.timing?.repeat?.when).toEqual(["PCV"]);
+    expect(breakfast.dosage.timing?.repeat?.when).toEqual(["ACM"]);
+    expect([thrice.status, thrice.reason]).toEqual(["unsafe", "mealRelation"]);
+    expect(result.safe).toBe(false);
+    expect(result.eventClock).toEqual({ CM: "04:00:00", CV: "18:30:00" });
+    expect(
+      nextDueDoses(twice.dosage, {
+        from: "2026-02-20T00:00:00+07:00",
+        timeZone: "Asia/Bangkok",
+        eventClock: result.eventClock,
+        limit: 2
+      })
+    ).toEqual(["2026-02-20T04:00:00+07:00", "2026-02-20T18:30:00+07:00"]);
+  });
+
+  it("spreads three daily doses across the eating window and keeps the course length", () => {
+    const { items } = remapForFasting(parseSig("1 tab po q8h x 30 days").fhir, {
+      window: { start: "04:00", end: "18:30" }
+    });
+    expect(items[0].dosage.timing?.repeat).toMatchObject({
+      frequency: 3,
+      period: 1,
+      periodUnit: "d",
+      timeOfDay: ["04:00:00", "18:30:00", "23:15:00"],
+      boundsDuration: { value: 30, code: "d" }
+    });
+  });
+
+  it("flags regimens that cannot be compressed safely", () => {
+    const result = remapForFasting(
+      [parseSig("1 tab po q6h").fhir, parseSig("1 tab po q36h").fhir],
+      RAMADAN
+    );
+    expect(result.safe).toBe(false);
+    expect(result.items.map((item) => [item.status, item.reason])).toEqual([
+      ["unsafe", "tooFrequent"],
+      ["unsafe", "irregularInterval"]
+    ]);
+    expect(result.items[0].dosage.timing?.repeat).toEqual({ period: 6, periodUnit: "h" });
+    expect(
+      remapForFasting(parseSig("1 tab po q6h").fhir, { ...RAMADAN, minSpacingHours: 3 }).items[0].status
+    ).toBe("remapped");
+  });
+
+  it("leaves doses that do not break the fast alone", () => {
+    const { items } = remapForFasting(
+      ["1 tab po q4h prn pain", "1 drop ou bid", "1 tab po hs"].map((sig) => parseSig(sig).fhir),
+      RAMADAN
+    );
+    expect(items.map((item) => [item.status, item.reason])).toEqual([
+      ["unchanged", "asNeeded"],
+      ["unchanged", "route"],
+      ["unchanged", "outsideFast"]
+    ]);
+  });
+
+  it("writes Thai patient text", () => {
+    const { items } = remapForFasting(parseSig("1 tab po qd").fhir, { ...RAMADAN, locale: "th" });
+    expect(items[0].text).toBe("รับประทาน ครั้งละ 1 เม็ด วันละครั้ง เวลา 18:30.");
+  });
+
+  it("requires a fasting window or meal clocks", () => {
+    expect(() => remapForFasting(parseSig("1 tab po bid").fhir, {})).toThrow(
+      "A fasting window or suhoor and iftar clocks must be supplied to remapForFasting"
+    );
+    expect(() => remapForFasting(parseSig("1 tab po bid").fhir, { suhoor: "4am", iftar: "18:30" })).toThrow(
+      "Invalid suhoor supplied to remapForFasting"
+    );
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 import { normalizeBodySiteKey } from "../src/maps";
-import { lexInput } from "../src/lexer/lex";
+import { lexInput, parseDateLiteral } from "../src/lexer/lex";
 import { annotateLexTokens, ConnectorRole, resolveDayMeaning, TokenWordClass } from "../src/lexer/meaning";
 import { scanSurfaceTokens } from "../src/lexer/surface";
 import { LexKind, SurfaceTokenKind } from "../src/lexer/token-types";
@@ -98,6 +98,16 @@ describe("lex normalization", () => {
   });
 });
 
+describe("date literals", () => {
+  it("lexes ISO and day-first dates, converting Buddhist-era years", () => {
+    const tokens = lexInput("2026-11-02 2/11/2569 1/2");
+    expect(tokens.map((token) => token.kind)).toEqual([LexKind.Date, LexKind.Date, LexKind.Number]);
+    expect(parseDateLiteral("2/11/2569")).toEqual({ year: 2026, month: 11, day: 2 });
+    expect(parseDateLiteral("11/25/2026")).toEqual({ year: 2026, month: 11, day: 25 });
+    expect(parseDateLiteral("2026-02-30")).toBeUndefined();
+  });
+});
+
 describe("loose phrase normalization", () => {
   it("preserves thai text while stripping punctuation without unicode property regexes", () => {
     expect(normalizeBodySiteKey("  ศีรษะ/head  ")).toBe("ศีรษะ head");
@@ -150,3 +160,23 @@ describe("semantic annotations", () => {
     ]);
   });
 });
+
+describe("Thai lexing", () => {
+  it("splits unspaced Thai into known words and normalizes Thai digits", () => {
+    const tokens = lexInput("ครั้งละ๑เม็ดวันละ๓ครั้ง");
+
+    expect(tokens.map((token) => token.original)).toEqual([
+      "ครั้งละ",
+      "1",
+      "เม็ด",
+      "วันละ",
+      "3",
+      "ครั้ง"
+    ]);
+    expect(tokens[1]).toMatchObject({ kind: LexKind.Number, value: 1 });
+  });
+
+  it("leaves unfamiliar Thai text whole", () => {
+    expect(lexInput("ยาพิเศษ").map((token) => token.original)).toEqual(["ยาพิเศษ"]);
+  });
+});
@@ -10,6 +10,12 @@ describe("lintSig", () => {
     expect(linted.result.meta.leftoverText).toBeUndefined();
   });
 
+  it("does not flag dispense details on the sig line", () => {
+    const linted = lintSig("1 tab po bid x 30d #60 RF2 DAW", { context: TAB_CONTEXT });
+    expect(linted.issues).toHaveLength(0);
+    expect(linted.count).toBe(1);
+  });
+
   it("captures trailing unparsed text", () => {
     const input = "1 tab po bid ???";
     const linted = lintSig(input, { context: TAB_CONTEXT });
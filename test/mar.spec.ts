@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildMarGrid,
+  parseSig,
+  registerSigLocalePack,
+  renderMarCsv,
+  renderMarHtml,
+  renderMarText,
+  ZH_LOCALE_PACK
+} from "../src/index";
+import { FhirDosage, NextDueDoseConfig } from "../src/types";
+
+const CONFIG: NextDueDoseConfig = {
+  timeZone: "Asia/Bangkok",
+  eventClock: { MORN: "08:00", HS: "22:00" },
+  frequencyDefaults: { byCode: { BID: ["08:00", "20:00"] } }
+};
+
+describe("buildMarGrid", () => {
+  it("shares slot columns between medications due at the same clock", () => {
+    const grid = buildMarGrid(
+      [
+        { label: "Metformin 500 mg", dosage: parseSig("1 tab po bid").fhir },
+        { label: "Amlodipine 5 mg", dosage: parseSig("1 tab po qam").fhir },
+        { label: "Simvastatin 20 mg", dosage: parseSig("1 tab po hs").fhir }
+      ],
+      { from: "2026-03-02T06:00:00+07:00", days: 2, config: CONFIG }
+    );
+    expect(grid.timeZone).toBe("Asia/Bangkok");
+    expect(grid.dates).toEqual(["2026-03-02", "2026-03-03"]);
+    expect(grid.slots).toEqual(["08:00:00", "20:00:00", "22:00:00"]);
+    expect(grid.rows.map((row) => row.cells.map((cell) => `${cell.date} ${cell.clock}`))).toEqual([
+      ["2026-03-02 08:00:00", "2026-03-02 20:00:00", "2026-03-03 08:00:00", "2026-03-03 20:00:00"],
+      ["2026-03-02 08:00:00", "2026-03-03 08:00:00"],
+      ["2026-03-02 22:00:00", "2026-03-03 22:00:00"]
+    ]);
+    expect(grid.rows[0].cells[0]).toMatchObject({
+      time: "2026-03-02T08:00:00+07:00",
+      doseQuantity: { value: 1, unit: "tab" },
+      source: "frequency"
+    });
+  });
+
+  it("starts and stops rows with their own order and course length", () => {
+    const grid = buildMarGrid(
+      [
+        {
+          label: "Ceftriaxone 1 g",
+          dosage: parseSig("1 g iv q12h x 1 day").fhir,
+          orderedAt: "2026-03-02T10:00:00+07:00"
+        }
+      ],
+      { from: "2026-03-02", days: 3, config: CONFIG }
+    );
+    expect(grid.rows[0].cells.map((cell) => cell.time)).toEqual([
+      "2026-03-02T10:00:00+07:00",
+      "2026-03-02T22:00:00+07:00"
+    ]);
+    expect(grid.slots).toEqual(["10:00:00", "22:00:00"]);
+  });
+
+  it("keeps as-needed rows as availability windows", () => {
+    const grid = buildMarGrid(
+      [
+        {
+          label: "Paracetamol 500 mg",
+          dosage: parseSig("1-2 tab po q6h prn pain").fhir,
+          orderedAt: "2026-03-02T10:30:00+07:00"
+        }
+      ],
+      { from: "2026-03-02", days: 2, config: CONFIG }
+    );
+    const [row] = grid.rows;
+    expect(row.prn).toBe(true);
+    expect(row.cells).toEqual([]);
+    expect(grid.slots).toEqual([]);
+    expect(row.availability).toEqual([
+      {
+        date: "2026-03-02",
+        dosageIndex: 0,
+        start: "2026-03-02T10:30:00+07:00",
+        end: "2026-03-03T00:00:00+07:00"
+      },
+      {
+        date: "2026-03-03",
+        dosageIndex: 0,
+        start: "2026-03-03T00:00:00+07:00",
+        end: "2026-03-04T00:00:00+07:00"
+      }
+    ]);
+  });
+
+  it("lays out each phase of a sequenced regimen on its own days", () => {
+    const taper: FhirDosage[] = [
+      {
+        sequence: 1,
+        timing: {
+          repeat: {
+            frequency: 1,
+            period: 1,
+            periodUnit: "d",
+            when: ["MORN"],
+            boundsDuration: { value: 1, unit: "d", system: "http://unitsofmeasure.org", code: "d" }
+          }
+        },
+        doseAndRate: [{ doseQuantity: { value: 40, unit: "mg" } }]
+      },
+      {
+        sequence: 2,
+        timing: { repeat: { frequency: 1, period: 1, periodUnit: "d", when: ["MORN"] } },
+        doseAndRate: [{ doseQuantity: { value: 20, unit: "mg" } }]
+      }
+    ] as FhirDosage[];
+    const grid = buildMarGrid([{ label: "Prednisolone", dosage: taper }], {
+      from: "2026-03-02T00:00:00+07:00",
+      days: 2,
+      config: CONFIG
+    });
+    expect(
+      grid.rows[0].cells.map((cell) => [cell.date, cell.dosageIndex, cell.doseQuantity?.value])
+    ).toEqual([
+      ["2026-03-02", 0, 40],
+      ["2026-03-03", 1, 20]
+    ]);
+  });
+
+  it("rejects a non-positive number of days", () => {
+    expect(() => buildMarGrid([], { from: "2026-03-02", days: 0, config: CONFIG })).toThrow(
+      "Invalid days supplied to buildMarGrid"
+    );
+  });
+});
+
+describe("MAR renderers", () => {
+  const grid = buildMarGrid(
+    [
+      { label: "Metformin 500 mg", dosage: parseSig("1 tab po bid").fhir },
+      {
+        label: "Paracetamol 500 mg",
+        dosage: parseSig("1-2 tab po q6h prn pain").fhir,
+        orderedAt: "2026-03-02T10:30:00+07:00"
+      }
+    ],
+    { from: "2026-03-02", days: 2, config: CONFIG }
+  );
+
+  it("renders a fixed-width text table", () => {
+    expect(renderMarText(grid)).toBe(
+      [
+        "Medication         | Instructions            | Date       | 08:00 | 20:00 | As needed",
+        "-------------------|-------------------------|------------|-------|-------|------------",
+        "Metformin 500 mg   | 1 tab PO BID            | 2026-03-02 | 1 tab | 1 tab |",
+        "                   |                         | 2026-03-03 | 1 tab | 1 tab |",
+        "Paracetamol 500 mg | 1-2 tab PO Q6H PRN pain | 2026-03-02 |       |       | 10:30-24:00",
+        "                   |                         | 2026-03-03 |       |       | 00:00-24:00"
+      ].join("\n")
+    );
+  });
+
+  it("renders localized CSV with escaped fields", () => {
+    const csv = renderMarCsv(grid, { locale: "th", labels: { medication: "ยา, ความแรง" } });
+    expect(csv.split("\n")).toEqual([
+      '"ยา, ความแรง",วิธีใช้,วันที่,08:00,20:00,ใช้เมื่อจำเป็น',
+      "Metformin 500 mg,1 เม็ด PO วันละ 2 ครั้ง,2026-03-02,1 เม็ด,1 เม็ด,",
+      "Metformin 500 mg,1 เม็ด PO วันละ 2 ครั้ง,2026-03-03,1 เม็ด,1 เม็ด,",
+      "Paracetamol 500 mg,1-2 เม็ด PO ทุก 6 ชั่วโมง ใช้เมื่อจำเป็นสำหรับ ปวด,2026-03-02,,,10:30-24:00",
+      "Paracetamol 500 mg,1-2 เม็ด PO ทุก 6 ชั่วโมง ใช้เมื่อจำเป็นสำหรับ ปวด,2026-03-03,,,00:00-24:00"
+    ]);
+  });
+
+  it("renders an HTML table with escaped labels spanning every date", () => {
+    const html = renderMarHtml(
+      buildMarGrid([{ label: "Insulin <regular>", dosage: parseSig("10 U sc qam").fhir }], {
+        from: "2026-03-02",
+        days: 2,
+        config: CONFIG
+      }),
+      { locale: "zh", style: "long" }
+    );
+    expect(html).toContain(
+      '<thead><tr><th scope="col">药品</th><th scope="col">用法</th><th scope="col">日期</th><th scope="col">08:00</th></tr></thead>'
+    );
+    expect(html).toContain('<th scope="row" rowspan="2">Insulin &lt;regular&gt;</th>');
+    expect(html).toContain("<tr><td>2026-03-03</td><td>10 U</td></tr>");
+  });
+
+  it("takes headings from locale packs registered at runtime", () => {
+    registerSigLocalePack({
+      ...ZH_LOCALE_PACK,
+      locale: "zh-hk",
+      marLabels: { medication: "藥物", date: "日期" }
+    });
+    const [header] = renderMarCsv(grid, { locale: "zh-HK" }).split("\n");
+    expect(header).toBe("藥物,Instructions,日期,08:00,20:00,As needed");
+    expect(renderMarCsv(grid, { i18n: { inherit: "th", marLabels: { date: "วัน" } } }).split("\n")[0]).toBe(
+      "ยา,วิธีใช้,วัน,08:00,20:00,ใช้เมื่อจำเป็น"
+    );
+  });
+});
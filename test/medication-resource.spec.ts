@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { buildMedicationRequest, buildMedicationStatement, parseSig } from "../src/index";
+import { FhirPeriodUnit } from "../src/types";
+import { UCUM_SYSTEM } from "../src/ucum";
+
+const AMLODIPINE = {
+  coding: [
+    {
+      system: "http://www.nlm.nih.gov/research/umls/rxnorm",
+      code: "197361",
+      display: "amlodipine 5 MG Oral Tablet"
+    }
+  ],
+  text: "amlodipine 5 mg tablet"
+};
+const PATIENT = { reference: "Patient/example" };
+
+describe("buildMedicationRequest", () => {
+  it("takes the quantity and refills written on the sig", () => {
+    const request = buildMedicationRequest(parseSig("1 tab po bid x 30d #60 refills x2"), {
+      medication: AMLODIPINE,
+      subject: PATIENT,
+      authoredOn: "2026-01-05"
+    });
+    expect(request).toEqual({
+      resourceType: "MedicationRequest",
+      status: "active",
+      intent: "order",
+      medication: { concept: AMLODIPINE },
+      subject: PATIENT,
+      authoredOn: "2026-01-05",
+      dosageInstruction: [expect.objectContaining({ text: "Take 1 tablet orally twice daily for 30 days.", sequence: 1 })],
+      dispenseRequest: {
+        numberOfRepeatsAllowed: 2,
+        quantity: { value: 60, unit: "tab", system: UCUM_SYSTEM, code: "{tbl}" },
+        expectedSupplyDuration: { value: 30, unit: "days", system: UCUM_SYSTEM, code: "d" }
+      }
+    });
+  });
+
+  it("takes days supply and substitution from the sig", () => {
+    const request = buildMedicationRequest(parseSig("1 tab po bid 30 day supply DAW"), {
+      medication: AMLODIPINE,
+      subject: PATIENT,
+      authoredOn: "2026-01-05T00:00:00Z",
+      timeZone: "UTC"
+    });
+    expect(request.substitution).toEqual({ allowedBoolean: false });
+    expect(request.dispenseRequest).toEqual({
+      quantity: { value: 60, unit: "tab", system: UCUM_SYSTEM, code: "{tbl}" },
+      expectedSupplyDuration: { value: 30, unit: "days", system: UCUM_SYSTEM, code: "d" }
+    });
+  });
+
+  it("calculates the quantity over the regimen when the sig has none", () => {
+    const request = buildMedicationRequest(parseSig("2 tabs po qd x 3d then 1 tab po qd x 4d"), {
+      medication: AMLODIPINE,
+      subject: PATIENT,
+      authoredOn: new Date("2026-01-05T00:00:00Z"),
+      timeZone: "UTC"
+    });
+    expect(request.authoredOn).toBe("2026-01-05T00:00:00.000Z");
+    expect(request.dosageInstruction.map((dosage) => dosage.sequence)).toEqual([1, 2]);
+    expect(request.dispenseRequest).toEqual({
+      quantity: { value: 10, unit: "tab", system: UCUM_SYSTEM, code: "{tbl}" },
+      expectedSupplyDuration: { value: 7, unit: "days", system: UCUM_SYSTEM, code: "d" }
+    });
+  });
+
+  it("rounds a supplied window up to whole packs", () => {
+    const request = buildMedicationRequest(parseSig("1 tab po bid"), {
+      medication: AMLODIPINE,
+      subject: PATIENT,
+      authoredOn: "2026-01-05T00:00:00Z",
+      timeZone: "UTC",
+      durationValue: 10,
+      durationUnit: FhirPeriodUnit.Day,
+      context: { containerValue: 28 }
+    });
+    expect(request.dispenseRequest?.quantity).toEqual({
+      value: 28,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
+  });
+
+  it("contains a Medication when strength or form is known", () => {
+    const request = buildMedicationRequest(parseSig("1 tab po daily"), {
+      medication: AMLODIPINE,
+      subject: PATIENT,
+      context: { strength: "5 mg", dosageForm: "tablet" }
+    });
+    expect(request.medication).toEqual({ reference: { reference: "#medication" } });
+    expect(request.contained).toEqual([
+      {
+        resourceType: "Medication",
+        id: "medication",
+        code: AMLODIPINE,
+        doseForm: { text: "tablet" },
+        ingredient: [
+          {
+            item: { concept: AMLODIPINE },
+            isActive: true,
+            strengthQuantity: { value: 5, unit: "mg", system: UCUM_SYSTEM, code: "mg" }
+          }
+        ]
+      }
+    ]);
+    expect(request.dispenseRequest).toBeUndefined();
+  });
+
+  it("leaves out the calculated quantity without authoredOn", () => {
+    const options = { medication: AMLODIPINE, subject: PATIENT, timeZone: "UTC" };
+    const request = buildMedicationRequest(parseSig("1 tab po bid x 5d refills x2"), options);
+    expect(request.dosageInstruction).toHaveLength(1);
+    expect(request.authoredOn).toBeUndefined();
+    expect(request.dispenseRequest).toEqual({ numberOfRepeatsAllowed: 2 });
+    expect(buildMedicationRequest(parseSig("1 tab po bid x 5d"), options).dispenseRequest).toBeUndefined();
+    expect(buildMedicationRequest(parseSig("1 tab po bid x 5d disp 10 tabs"), options).dispenseRequest).toEqual({
+      quantity: { value: 10, unit: "tab", system: UCUM_SYSTEM, code: "{tbl}" },
+      expectedSupplyDuration: { value: 5, unit: "days", system: UCUM_SYSTEM, code: "d" }
+    });
+  });
+});
+
+describe("buildMedicationStatement", () => {
+  it("carries every parsed dosage without dispensing details", () => {
+    const statement = buildMedicationStatement(parseSig("1 tab po qam, 2 tabs po qhs #90"), {
+      medication: AMLODIPINE,
+      subject: PATIENT,
+      dateAsserted: "2026-01-05"
+    });
+    expect(statement.resourceType).toBe("MedicationStatement");
+    expect(statement.status).toBe("recorded");
+    expect(statement.dosage.map((dosage) => dosage.sequence)).toEqual([1, 1]);
+    expect(statement.dosage.map((dosage) => dosage.doseAndRate?.[0]?.doseQuantity?.value)).toEqual([1, 2]);
+    expect(statement).not.toHaveProperty("dispenseRequest");
+  });
+});
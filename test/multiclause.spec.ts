@@ -293,6 +293,13 @@ describe("multi-clause parsing", () => {
     expect(reparsedFromPipe.items[3].shortText).toBe("4 tab PO HS");
   });
 
+  it("joins sequenced phases into one long sentence", () => {
+    const batch = parseSig("500 mg po bid x 3d then 250 mg bid x 7d");
+    expect(formatParseBatch(batch, "long")).toBe(
+      "Take 500 mg orally twice daily for 3 days, then take 250 mg orally twice daily for 7 days."
+    );
+  });
+
   it("formats multi-item FHIR arrays and supports parse round-trips", () => {
     const input = "1 tab po at wake, 1 tab suppo before lunch, 1 tab po before dinner, 1 tab suppo hs";
     const batch = parseSig(input);
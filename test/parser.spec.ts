@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
 import {
+  canonicalToFhir,
   fromFhirDosage,
   formatSig,
   getBodySiteCode,
@@ -7,14 +8,27 @@ import {
   getBodySiteText,
   getBodySiteTextAsync,
   listSupportedBodySiteGrammar,
+  lintSig,
   listSupportedBodySiteText,
   lookupBodySite,
   parseSig,
   parseSigAsync,
+  projectFhirDosageToR4,
+  registerSigLocalePack,
   suggestBodySiteText,
-  suggestBodySites
+  suggestBodySites,
+  ZH_LOCALE_PACK
 } from "../src/index";
 import { BODY_SITE_SPATIAL_RELATION_EXTENSION_URL } from "../src/body-site-spatial";
+import { TIMING_EVENT_ANCHOR_EXTENSION_URL } from "../src/event-anchor";
+import { SLIDING_SCALE_CONDITION_EXTENSION_URL } from "../src/sliding-scale";
+import { UCUM_CODE_BY_UNIT, UCUM_SYSTEM } from "../src/ucum";
+import { TIMING_CYCLE_EXTENSION_URL, parseTimingCycleExtension } from "../src/timing-cycle";
+import { TIMING_WHILE_AWAKE_EXTENSION_URL } from "../src/timing-awake";
+import {
+  TIMING_DAY_OF_MONTH_EXTENSION_URL,
+  TIMING_WEEKDAY_OF_MONTH_EXTENSION_URL
+} from "../src/timing-calendar";
 import {
   SNOMED_CT_FINDING_SITE_ATTRIBUTE_CODE,
   SNOMED_CT_LATERALITY_ATTRIBUTE_CODE,
@@ -30,6 +44,8 @@ import {
   AdvicePolarity,
   AdviceRelation,
   EventTiming,
+  FhirDayOfWeek,
+  FhirPeriodUnit,
   RouteCode,
   SNOMEDCTRouteCodes,
   SiteCodeLookupRequest
@@ -75,7 +91,12 @@ function expectPrimitiveTranslation(
 describe("parseSig core scenarios", () => {
   it("parses 1x3 po pc", () => {
     const result = parseSig("1x3 po pc", { context: TAB_CONTEXT });
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "tab" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.fhir.timing?.code?.coding?.[0]?.code).toBe("TID");
     expect(result.fhir.timing?.repeat).toMatchObject({
       frequency: 3,
@@ -93,7 +114,12 @@ describe("parseSig core scenarios", () => {
 
   it("parses decimal multiplicative tokens", () => {
     const result = parseSig("1.5x3", { context: TAB_CONTEXT });
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1.5, unit: "tab" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1.5,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.fhir.timing?.code?.coding?.[0]?.code).toBe("TID");
     expect(result.fhir.timing?.repeat).toMatchObject({
       frequency: 3,
@@ -107,7 +133,12 @@ describe("parseSig core scenarios", () => {
 
   it("parses spaced decimal multiplicative tokens", () => {
     const result = parseSig("1.5 x3", { context: TAB_CONTEXT });
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1.5, unit: "tab" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1.5,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.fhir.timing?.code?.coding?.[0]?.code).toBe("TID");
     expect(result.fhir.timing?.repeat).toMatchObject({
       frequency: 3,
@@ -131,7 +162,12 @@ describe("parseSig core scenarios", () => {
       enableMealDashSyntax: true
     });
     expect(result.count).toBe(1);
-    expect(result.items[0].fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "tab" });
+    expect(result.items[0].fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.items[0].fhir.timing?.repeat?.when).toEqual([
       EventTiming.Breakfast,
       EventTiming.Dinner
@@ -156,9 +192,19 @@ describe("parseSig core scenarios", () => {
       enableMealDashSyntax: true
     });
     expect(result.count).toBe(2);
-    expect(result.items[0].fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 10, unit: "tab" });
+    expect(result.items[0].fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 10,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.items[0].fhir.timing?.repeat?.when).toEqual([EventTiming["Before Breakfast"]]);
-    expect(result.items[1].fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 12, unit: "tab" });
+    expect(result.items[1].fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 12,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.items[1].fhir.timing?.repeat?.when).toEqual([EventTiming["Before Lunch"]]);
   });
 
@@ -177,7 +223,12 @@ describe("parseSig core scenarios", () => {
   it("keeps split timing clauses in one item when dosage context is identical", () => {
     const result = parseSig("1 tab po @ 8:00, 1 tab po hs", { context: TAB_CONTEXT });
     expect(result.count).toBe(1);
-    expect(result.items[0].fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "tab" });
+    expect(result.items[0].fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.items[0].fhir.route?.coding?.[0]?.code).toBe(SNOMEDCTRouteCodes["Oral route"]);
     expect(result.items[0].fhir.timing?.repeat?.timeOfDay).toEqual(["08:00:00"]);
     expect(result.items[0].fhir.timing?.repeat?.when).toEqual([EventTiming["Before Sleep"]]);
@@ -376,21 +427,36 @@ describe("parseSig core scenarios", () => {
     const result = parseSig("1x3 OD", {
       context: { dosageForm: "eye drops, solution" }
     });
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "drop" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "drop",
+      system: UCUM_SYSTEM,
+      code: "{drop}"
+    });
     expect(result.fhir.timing?.code?.coding?.[0]?.code).toBe("TID");
     expect(result.fhir.site?.text).toBe("right eye");
   });
 
   it("defaults ophthalmic units when only site hints are supplied", () => {
     const result = parseSig("1x3 OD");
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "drop" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "drop",
+      system: UCUM_SYSTEM,
+      code: "{drop}"
+    });
     expect(result.fhir.timing?.code?.coding?.[0]?.code).toBe("TID");
     expect(result.fhir.site?.text).toBe("right eye");
   });
 
   it("interprets OD as once daily when systemic cues are present", () => {
     const result = parseSig("1 tab OD", { context: TAB_CONTEXT });
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "tab" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.fhir.timing?.code?.coding?.[0]?.code).toBe("QD");
     expect(result.fhir.timing?.repeat).toMatchObject({
       frequency: 1,
@@ -403,14 +469,24 @@ describe("parseSig core scenarios", () => {
 
   it("preserves ophthalmic interpretation of OD when eye context exists", () => {
     const result = parseSig("1 drop OD");
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "drop" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "drop",
+      system: UCUM_SYSTEM,
+      code: "{drop}"
+    });
     expect(result.fhir.site?.text).toBe("right eye");
     expect(result.fhir.timing?.code).toBeUndefined();
   });
 
   it("treats OD as once daily for inhalation dosage-form context", () => {
     const result = parseSig("1 od", { context: { dosageForm: "inhalation" } });
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "puff" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "puff",
+      system: UCUM_SYSTEM,
+      code: "{puff}"
+    });
     expect(result.fhir.timing?.code?.coding?.[0]?.code).toBe("QD");
     expect(result.fhir.site).toBeUndefined();
     expect(result.fhir.route?.coding?.[0]?.code).not.toBe(
@@ -420,7 +496,12 @@ describe("parseSig core scenarios", () => {
 
   it("interprets ophthalmic double OD as right eye once daily", () => {
     const result = parseSig("1 drop OD OD");
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "drop" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "drop",
+      system: UCUM_SYSTEM,
+      code: "{drop}"
+    });
     expect(result.fhir.site?.text).toBe("right eye");
     expect(result.fhir.route?.coding?.[0]?.code).toBe(SNOMEDCTRouteCodes["Ophthalmic route"]);
     expect(result.fhir.timing?.repeat).toMatchObject({
@@ -907,7 +988,12 @@ describe("parseSig core scenarios", () => {
 
   it("interprets dotted O.D. as once daily when paired with oral route", () => {
     const result = parseSig("500 mg po O.D.");
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 500, unit: "mg" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 500,
+      unit: "mg",
+      system: UCUM_SYSTEM,
+      code: "mg"
+    });
     expect(result.fhir.timing?.repeat).toMatchObject({
       frequency: 1,
       period: 1,
@@ -919,7 +1005,12 @@ describe("parseSig core scenarios", () => {
 
   it("parses numeric per-day cadence shorthand", () => {
     const result = parseSig("1 tab 3/day", { context: TAB_CONTEXT });
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "tab" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.fhir.timing?.code?.coding?.[0]?.code).toBe("TID");
     expect(result.fhir.timing?.repeat).toMatchObject({
       frequency: 3,
@@ -940,7 +1031,12 @@ describe("parseSig core scenarios", () => {
 
   it("parses numeric per-week cadence", () => {
     const result = parseSig("2 puffs 2/week");
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 2, unit: "puff" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 2,
+      unit: "puff",
+      system: UCUM_SYSTEM,
+      code: "{puff}"
+    });
     expect(result.fhir.timing?.repeat).toMatchObject({
       frequency: 2,
       period: 1,
@@ -950,7 +1046,12 @@ describe("parseSig core scenarios", () => {
 
   it("parses numeric per-month cadence", () => {
     const result = parseSig("Apply 1 patch 1/month");
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "patch" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "patch",
+      system: UCUM_SYSTEM,
+      code: "{patch}"
+    });
     expect(result.fhir.timing?.repeat).toMatchObject({
       frequency: 1,
       period: 1,
@@ -1005,7 +1106,12 @@ describe("parseSig core scenarios", () => {
 
   it("infers inhalation units from respiratory route hints", () => {
     const result = parseSig("2 inh q4h");
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 2, unit: "puff" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 2,
+      unit: "puff",
+      system: UCUM_SYSTEM,
+      code: "{puff}"
+    });
     expect(result.fhir.route?.coding?.[0]?.code).toBe(
       SNOMEDCTRouteCodes["Respiratory tract route (qualifier value)"]
     );
@@ -1026,7 +1132,12 @@ describe("parseSig core scenarios", () => {
 
   it("infers patch units for transdermal routes", () => {
     const result = parseSig("1 td daily");
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "patch" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "patch",
+      system: UCUM_SYSTEM,
+      code: "{patch}"
+    });
     expect(result.fhir.route?.coding?.[0]?.code).toBe(SNOMEDCTRouteCodes["Transdermal route"]);
   });
 
@@ -1034,7 +1145,9 @@ describe("parseSig core scenarios", () => {
     const result = parseSig("1 pr q12h");
     expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
       value: 1,
-      unit: "suppository"
+      unit: "suppository",
+      system: UCUM_SYSTEM,
+      code: "{suppository}"
     });
     expect(result.fhir.route?.coding?.[0]?.code).toBe(SNOMEDCTRouteCodes["Per rectum"]);
   });
@@ -1048,7 +1161,9 @@ describe("parseSig core scenarios", () => {
     const result = parseSig("500 milligrams po q12h");
     expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
       value: 500,
-      unit: "mg"
+      unit: "mg",
+      system: UCUM_SYSTEM,
+      code: "mg"
     });
     expect(result.meta.normalized.unit).toBe("mg");
     expect(result.fhir.route?.coding?.[0]?.code).toBe(SNOMEDCTRouteCodes["Oral route"]);
@@ -1056,14 +1171,24 @@ describe("parseSig core scenarios", () => {
 
   it("supports spelled millilitre synonyms", () => {
     const result = parseSig("10 millilitres po qd");
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 10, unit: "mL" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 10,
+      unit: "mL",
+      system: UCUM_SYSTEM,
+      code: "mL"
+    });
     expect(result.meta.normalized.unit).toBe("mL");
     expect(result.fhir.route?.coding?.[0]?.code).toBe(SNOMEDCTRouteCodes["Oral route"]);
   });
 
   it("persists insulin shorthand units", () => {
     const result = parseSig("20 U sc hs");
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 20, unit: "U" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 20,
+      unit: "U",
+      system: UCUM_SYSTEM,
+      code: "U"
+    });
     expect(result.fhir.route?.coding?.[0]?.code).toBe(SNOMEDCTRouteCodes["Subcutaneous route"]);
     expect(result.fhir.timing?.repeat?.when).toEqual([EventTiming["Before Sleep"]]);
     expect(result.fhir.additionalInstruction).toBeUndefined();
@@ -1075,13 +1200,23 @@ describe("parseSig core scenarios", () => {
       context: { dosageForm: "vial" }
     });
     expect(result.count).toBe(1);
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 10, unit: "U" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 10,
+      unit: "U",
+      system: UCUM_SYSTEM,
+      code: "U"
+    });
     expect(result.fhir.timing?.repeat?.when).toEqual([EventTiming["Before Breakfast"], EventTiming["Before Dinner"]]);
   });
 
   it("parses million IU notation", () => {
     const result = parseSig("2.4M IU IM once");
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 2400000, unit: "IU" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 2400000,
+      unit: "IU",
+      system: UCUM_SYSTEM,
+      code: "[iU]"
+    });
     expect(result.fhir.route?.coding?.[0]?.code).toBe(SNOMEDCTRouteCodes["Intramuscular route"]);
     expect(result.fhir.timing?.repeat).toMatchObject({ count: 1 });
     expect(result.fhir.timing?.repeat?.frequency).toBeUndefined();
@@ -1137,7 +1272,12 @@ describe("parseSig core scenarios", () => {
 
   it("parses million IU notation with weekly cadence", () => {
     const result = parseSig("2.4M IU IM Q1week");
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 2400000, unit: "IU" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 2400000,
+      unit: "IU",
+      system: UCUM_SYSTEM,
+      code: "[iU]"
+    });
     expect(result.fhir.route?.coding?.[0]?.code).toBe(SNOMEDCTRouteCodes["Intramuscular route"]);
     expect(result.fhir.timing?.repeat).toMatchObject({
       period: 1,
@@ -1149,7 +1289,9 @@ describe("parseSig core scenarios", () => {
     const result = parseSig("1 tab suppository");
     expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
       value: 1,
-      unit: "tab"
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
     });
     expect(result.fhir.route?.coding?.[0]?.code).toBe(SNOMEDCTRouteCodes["Per rectum"]);
     expect(result.meta.leftoverText).toBeUndefined();
@@ -1159,7 +1301,9 @@ describe("parseSig core scenarios", () => {
     const result = parseSig("11 tabs suppo");
     expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
       value: 11,
-      unit: "tab"
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
     });
     expect(result.fhir.route?.coding?.[0]?.code).toBe(SNOMEDCTRouteCodes["Per rectum"]);
     expect(result.meta.leftoverText).toBeUndefined();
@@ -1167,11 +1311,21 @@ describe("parseSig core scenarios", () => {
 
   it("parses household teaspoon and tablespoon measures", () => {
     const teaspoon = parseSig("1 teaspoon po q6h");
-    expect(teaspoon.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "tsp" });
+    expect(teaspoon.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "tsp",
+      system: UCUM_SYSTEM,
+      code: "[tsp_us]"
+    });
     expect(teaspoon.meta.normalized.unit).toBe("tsp");
 
     const tablespoon = parseSig("2 tablespoons po q8h");
-    expect(tablespoon.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 2, unit: "tbsp" });
+    expect(tablespoon.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 2,
+      unit: "tbsp",
+      system: UCUM_SYSTEM,
+      code: "[tbs_us]"
+    });
     expect(tablespoon.meta.normalized.unit).toBe("tbsp");
   });
 
@@ -1187,8 +1341,8 @@ describe("parseSig core scenarios", () => {
   it("parses dose ranges with frequency code", () => {
     const result = parseSig("1-2 tabs po prn pain tid", { context: TAB_CONTEXT });
     expect(result.fhir.doseAndRate?.[0]?.doseRange).toEqual({
-      low: { value: 1, unit: "tab" },
-      high: { value: 2, unit: "tab" }
+      low: { value: 1, unit: "tab", system: UCUM_SYSTEM, code: "{tbl}" },
+      high: { value: 2, unit: "tab", system: UCUM_SYSTEM, code: "{tbl}" }
     });
     expect(result.fhir.timing?.code?.coding?.[0]?.code).toBe("TID");
     expect(result.longText).toContain("1 to 2 tablets orally");
@@ -1209,14 +1363,24 @@ describe("parseSig core scenarios", () => {
 
   it("parses 1*3 po ac", () => {
     const result = parseSig("1*3 po ac", { context: TAB_CONTEXT });
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "tab" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.fhir.timing?.code?.coding?.[0]?.code).toBe("TID");
     expect(result.fhir.timing?.repeat?.when).toEqual(["AC"]);
   });
 
   it("parses daily without code", () => {
     const result = parseSig("500 mg po daily");
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 500, unit: "mg" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 500,
+      unit: "mg",
+      system: UCUM_SYSTEM,
+      code: "mg"
+    });
     expect(result.fhir.timing?.code).toBeUndefined();
     expect(result.fhir.timing?.repeat).toMatchObject({
       frequency: 1,
@@ -1227,7 +1391,12 @@ describe("parseSig core scenarios", () => {
 
   it("parses q6h prn", () => {
     const result = parseSig("2 tab po q6h prn pain");
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 2, unit: "tab" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 2,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.fhir.timing?.code?.coding?.[0]?.code).toBe("Q6H");
     expect(result.fhir.timing?.repeat).toMatchObject({ period: 6, periodUnit: "h" });
     expect(result.fhir.asNeededBoolean).toBe(true);
@@ -1247,7 +1416,12 @@ describe("parseSig core scenarios", () => {
 
   it("parses period ranges with prn reasons", () => {
     const result = parseSig("2 supp q 6-8 h prn constipation");
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 2, unit: "suppository" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 2,
+      unit: "suppository",
+      system: UCUM_SYSTEM,
+      code: "{suppository}"
+    });
     expect(result.fhir.timing?.repeat).toMatchObject({
       period: 6,
       periodMax: 8,
@@ -1938,13 +2112,23 @@ describe("parseSig core scenarios", () => {
 
   it("parses 1xweekly tuesday", () => {
     const result = parseSig("1xweekly tuesday", { context: TAB_CONTEXT });
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "tab" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.fhir.timing?.repeat).toMatchObject({ period: 1, periodUnit: "wk", dayOfWeek: ["tue"] });
   });
 
   it("parses 1*weekly wednesday", () => {
     const result = parseSig("1*weekly wednesday", { context: TAB_CONTEXT });
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "tab" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.fhir.timing?.code?.coding?.[0]?.code).toBe("WK");
     expect(result.fhir.timing?.repeat).toMatchObject({ period: 1, periodUnit: "wk", dayOfWeek: ["wed"] });
     expect(result.longText).toContain("once weekly on Wednesday");
@@ -1998,7 +2182,12 @@ describe("parseSig core scenarios", () => {
     ];
     for (const input of cases) {
       const result = parseSig(input, { context: TAB_CONTEXT });
-      expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "tab" });
+      expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+        value: 1,
+        unit: "tab",
+        system: UCUM_SYSTEM,
+        code: "{tbl}"
+      });
       expect(result.fhir.timing?.repeat).toMatchObject({
         frequency: 1,
         period: 1,
@@ -2037,7 +2226,12 @@ describe("parseSig core scenarios", () => {
     ];
     for (const input of cases) {
       const result = parseSig(input, { context: TAB_CONTEXT });
-      expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1.5, unit: "tab" });
+      expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+        value: 1.5,
+        unit: "tab",
+        system: UCUM_SYSTEM,
+        code: "{tbl}"
+      });
       expect(result.fhir.timing?.repeat).toMatchObject({
         frequency: 1,
         period: 1,
@@ -2113,14 +2307,24 @@ describe("parseSig core scenarios", () => {
       { context: TAB_CONTEXT }
     );
     expect(result.count).toBe(2);
-    expect(result.items[0].fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "tab" });
+    expect(result.items[0].fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.items[0].fhir.timing?.repeat).toMatchObject({
       frequency: 1,
       period: 1,
       periodUnit: "d",
       dayOfWeek: ["mon", "tue", "wed", "thu", "fri"]
     });
-    expect(result.items[1].fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1.5, unit: "tab" });
+    expect(result.items[1].fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1.5,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.items[1].fhir.timing?.repeat).toMatchObject({
       frequency: 1,
       period: 1,
@@ -2135,14 +2339,24 @@ describe("parseSig core scenarios", () => {
       { context: TAB_CONTEXT }
     );
     expect(result.count).toBe(2);
-    expect(result.items[0].fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "tab" });
+    expect(result.items[0].fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.items[0].fhir.timing?.repeat).toMatchObject({
       frequency: 1,
       period: 1,
       periodUnit: "d",
       dayOfWeek: ["mon", "tue", "wed", "thu", "fri"]
     });
-    expect(result.items[1].fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1.5, unit: "tab" });
+    expect(result.items[1].fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1.5,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.items[1].fhir.timing?.repeat).toMatchObject({
       frequency: 1,
       period: 1,
@@ -2171,39 +2385,69 @@ describe("parseSig core scenarios", () => {
 
   it("maps AM to EventTiming", () => {
     const result = parseSig("1 po am", { context: TAB_CONTEXT });
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "tab" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.fhir.timing?.code?.coding?.[0]?.code).toBe("AM");
     expect(result.fhir.timing?.repeat?.when).toEqual(["MORN"]);
   });
 
   it("maps NOON", () => {
     const result = parseSig("1 po noon", { context: TAB_CONTEXT });
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "tab" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.fhir.timing?.repeat?.when).toEqual(["NOON"]);
   });
 
   it("maps PM", () => {
     const result = parseSig("1 po pm", { context: TAB_CONTEXT });
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "tab" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.fhir.timing?.code?.coding?.[0]?.code).toBe("PM");
     expect(result.fhir.timing?.repeat?.when).toEqual(["EVE"]);
   });
 
   it("maps HS", () => {
     const result = parseSig("1xHS", { context: TAB_CONTEXT });
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "tab" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.fhir.timing?.repeat?.when).toEqual(["HS"]);
   });
 
   it("maps STAT to immediate timing", () => {
     const result = parseSig("1 tab po stat", { context: TAB_CONTEXT });
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "tab" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.fhir.timing?.repeat?.when).toEqual([EventTiming.Immediate]);
   });
 
   it("maps early morning combo", () => {
     const result = parseSig("1 tab early morning", { context: TAB_CONTEXT });
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "tab" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
     expect(result.fhir.timing?.repeat?.when).toEqual([EventTiming["Early Morning"]]);
   });
 
@@ -2317,24 +2561,44 @@ describe("parseSig core scenarios", () => {
 
   it("infers unit from context", () => {
     const result = parseSig("1", { context: { dosageForm: "tab" } });
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "tab" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
   });
 
   it("uses container unit from context", () => {
     const result = parseSig("2", {
       context: { dosageForm: "sol", containerUnit: "mL" }
     });
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 2, unit: "mL" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 2,
+      unit: "mL",
+      system: UCUM_SYSTEM,
+      code: "mL"
+    });
   });
 
   it("normalizes complex dosage forms from context", () => {
     const result = parseSig("1", { context: { dosageForm: "capsule, soft" } });
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "cap" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "cap",
+      system: UCUM_SYSTEM,
+      code: "{cap}"
+    });
   });
 
   it("normalizes transdermal dosage forms", () => {
     const result = parseSig("1", { context: { dosageForm: "transdermal patch" } });
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "patch" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "patch",
+      system: UCUM_SYSTEM,
+      code: "{patch}"
+    });
   });
 
   it("parses patch td daily", () => {
@@ -2374,7 +2638,12 @@ describe("parseSig core scenarios", () => {
 
   it("captures site text", () => {
     const result = parseSig("1 mL IM left arm");
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "mL" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "mL",
+      system: UCUM_SYSTEM,
+      code: "mL"
+    });
     expect(result.fhir.site?.text).toBe("left arm");
     expect(result.fhir.route?.coding?.[0]?.code).toBe(
       SNOMEDCTRouteCodes["Intramuscular route"]
@@ -3979,6 +4248,50 @@ describe("internationalization", () => {
     });
   });
 
+  describe("Chinese localization", () => {
+    it("phrases long text from the zh locale pack", () => {
+      const cases = [
+        { input: "1 tab po tid pc", expected: "口服，每次1片，每日3次，饭后。" },
+        { input: "2 drops OD qid x 7 days", expected: "滴入右眼，每次2滴，每日4次，连用7天。" },
+        { input: "apply to left arm bid prn itching", expected: "外用，涂于左上臂，每日2次，瘙痒时使用。" },
+        {
+          input: "500 mg po q6h prn pain max 4 g/day",
+          expected: "口服，每次500mg，每6小时1次，疼痛时使用。每天不超过4g。"
+        },
+        { input: "1 tab po ac, avoid alcohol", expected: "口服，每次1片，饭前。避免饮酒。" },
+        { input: "80 mL/hr iv", expected: "静脉注射，速度为每小时80mL。" }
+      ];
+      for (const { input, expected } of cases) {
+        const result = parseSig(input, { locale: "zh" });
+        expect(result.longText).toBe(expected);
+        expect(result.shortText).toBe(parseSig(input).shortText);
+      }
+    });
+
+    it("supports meal grouping and the daily count summary", () => {
+      const input = "10 units sc ac breakfast lunch dinner";
+      expect(parseSig(input, { locale: "zh" }).longText).toBe(
+        "皮下注射，每次10单位，早餐前、午餐前和晚餐前。"
+      );
+      expect(parseSig(input, { locale: "zh", groupMealTimingsByRelation: true }).longText).toBe(
+        "皮下注射，每次10单位，早餐、午餐和晚餐前。"
+      );
+      expect(parseSig(input, { locale: "zh", includeTimesPerDaySummary: true }).longText).toBe(
+        "皮下注射，每次10单位，每日3次，早餐前、午餐前和晚餐前。"
+      );
+    });
+
+    it("registers custom locale packs", () => {
+      registerSigLocalePack({
+        ...ZH_LOCALE_PACK,
+        locale: "zh-test",
+        dose: { ...ZH_LOCALE_PACK.dose, template: "一次{dose}" },
+        frequency: { ...ZH_LOCALE_PACK.frequency, perDay: "一日{n}次" }
+      });
+      expect(parseSig("1 tab po bid", { locale: "zh-test" }).longText).toBe("口服，一次1片，一日2次。");
+    });
+  });
+
   it("supports grouped English meal timings together with a daily count summary", () => {
     const result = parseSig("1 tab po pc breakfast lunch dinner", {
       groupMealTimingsByRelation: true,
@@ -4035,6 +4348,69 @@ describe("unit normalization", () => {
     }
   });
 
+  it("codes every default unit in UCUM", () => {
+    for (const canonical of new Set(Object.values(DEFAULT_UNIT_SYNONYMS))) {
+      const dose = parseSig(`1 ${canonical}`).fhir.doseAndRate?.[0]?.doseQuantity;
+      expect(dose?.system).toBe(UCUM_SYSTEM);
+      expect(dose?.code).toBe(UCUM_CODE_BY_UNIT[canonical]);
+    }
+  });
+
+  it("uses UCUM annotations for countable units and curated codes otherwise", () => {
+    const code = (sig: string) => parseSig(sig).fhir.doseAndRate?.[0]?.doseQuantity?.code;
+    expect(code("1 tab po daily")).toBe("{tbl}");
+    expect(code("2 puffs inh q4h")).toBe("{puff}");
+    expect(code("100 mcg inh bid")).toBe("ug");
+    expect(code("20 meq po daily")).toBe("meq");
+    expect(code("1000 iu po daily")).toBe("[iU]");
+  });
+
+  it("codes rate, basis and limit quantities", () => {
+    const rate = parseSig("5 mcg/kg/min iv");
+    expect(rate.fhir.doseAndRate?.[0]?.rateRatio?.numerator).toEqual({
+      value: 5,
+      unit: "mcg/kg",
+      system: UCUM_SYSTEM,
+      code: "ug/kg"
+    });
+    const basis = parseSig("15 mg/kg po q6h prn fever");
+    expect(basis.fhir.doseAndRate?.[0]?.doseQuantity?.code).toBe("mg/kg");
+    const limit = parseSig("1 tab po q4h prn pain; do not exceed 6 tabs/day");
+    expect(limit.fhir.maxDosePerPeriod).toEqual([
+      expect.objectContaining({ numerator: { value: 6, unit: "tab", system: UCUM_SYSTEM, code: "{tbl}" } })
+    ]);
+  });
+
+  it("reads UCUM-coded quantities whose unit text is localized or missing", () => {
+    const localized = fromFhirDosage({
+      doseAndRate: [
+        { doseQuantity: { value: 1, unit: "เม็ด", system: UCUM_SYSTEM, code: "{tbl}" } }
+      ],
+      timing: { repeat: { frequency: 2, period: 1, periodUnit: FhirPeriodUnit.Day } }
+    });
+    expect(localized.shortText).toBe("1 tab 2x/d");
+    expect(localized.meta.normalized.unit).toBe("tab");
+
+    const missing = fromFhirDosage({
+      doseAndRate: [
+        {
+          doseRange: {
+            low: { value: 5, system: UCUM_SYSTEM, code: "mL" },
+            high: { value: 10, system: UCUM_SYSTEM, code: "mL" }
+          },
+          rateQuantity: { value: 2, system: UCUM_SYSTEM, code: "ug/kg/min" }
+        }
+      ]
+    });
+    expect(missing.meta.canonical.clauses[0].dose).toEqual({ range: { low: 5, high: 10 }, unit: "mL" });
+    expect(missing.meta.canonical.clauses[0].rate).toMatchObject({
+      value: 2,
+      unit: "mcg",
+      perWeightUnit: "kg",
+      periodUnit: FhirPeriodUnit.Minute
+    });
+  });
+
   it("normalizes dosage form strings", () => {
     expect(normalizeDosageForm("Nasal Spray, Suspension")).toBe("nasal spray");
     expect(normalizeDosageForm("capsule, soft")).toBe("capsule");
@@ -4045,7 +4421,12 @@ describe("unit normalization", () => {
 describe("ocular and injection scenarios", () => {
   it("parses right eye drops with QID", () => {
     const result = parseSig("1 drop OD QID");
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "drop" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "drop",
+      system: UCUM_SYSTEM,
+      code: "{drop}"
+    });
     expect(result.fhir.timing?.code?.coding?.[0]?.code).toBe("QID");
     expect(result.fhir.timing?.repeat).toMatchObject({
       frequency: 4,
@@ -4063,7 +4444,12 @@ describe("ocular and injection scenarios", () => {
 
   it("parses left eye drops every 2 hours", () => {
     const result = parseSig("1 drop OS Q2H");
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "drop" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "drop",
+      system: UCUM_SYSTEM,
+      code: "{drop}"
+    });
     expect(result.fhir.timing?.code?.coding?.[0]?.code).toBe("Q2H");
     expect(result.fhir.timing?.repeat).toMatchObject({ period: 2, periodUnit: "h" });
     expect(result.fhir.site?.text).toBe("left eye");
@@ -4071,7 +4457,12 @@ describe("ocular and injection scenarios", () => {
 
   it("parses both eyes every hour", () => {
     const result = parseSig("1 drop OU Q1H");
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "drop" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "drop",
+      system: UCUM_SYSTEM,
+      code: "{drop}"
+    });
     expect(result.fhir.timing?.code?.coding?.[0]?.code).toBe("Q1H");
     expect(result.fhir.site?.text).toBe("both eyes");
     expect(result.longText).toBe("Instill 1 drop every 1 hour in both eyes.");
@@ -4104,7 +4495,12 @@ describe("ocular and injection scenarios", () => {
 
   it("parses intramuscular injections", () => {
     const result = parseSig("1 mL IM q6h");
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "mL" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "mL",
+      system: UCUM_SYSTEM,
+      code: "mL"
+    });
     expect(result.fhir.timing?.repeat).toMatchObject({ period: 6, periodUnit: "h" });
     expect(result.fhir.route?.coding?.[0]).toEqual({
       system: "http://snomed.info/sct",
@@ -4121,7 +4517,12 @@ describe("ocular and injection scenarios", () => {
 
   it("parses spaced IVT shorthand with eye side", () => {
     const result = parseSig("0.05 mL IVT OS q1mo");
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 0.05, unit: "mL" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 0.05,
+      unit: "mL",
+      system: UCUM_SYSTEM,
+      code: "mL"
+    });
     expect(result.fhir.timing?.code?.coding?.[0]?.code).toBe("MO");
     expect(result.fhir.route?.coding?.[0]).toEqual({
       system: "http://snomed.info/sct",
@@ -4168,83 +4569,1056 @@ describe("ocular and injection scenarios", () => {
   });
 });
 
-describe("minute and fractional interval parsing", () => {
-  const cases: Array<{ input: string; period: number; unit: string }> = [
-    { input: "q30min", period: 30, unit: "min" },
-    { input: "q15min", period: 15, unit: "min" },
-    { input: "q0.5h", period: 30, unit: "min" },
-    { input: "q1/2hr", period: 30, unit: "min" },
-    { input: "q0.25h", period: 15, unit: "min" },
-    { input: "q1/4hr", period: 15, unit: "min" },
-    { input: "q 0.5 h", period: 30, unit: "min" },
-    { input: "q 30 minutes", period: 30, unit: "min" },
-    { input: "q 15 minutes", period: 15, unit: "min" },
-    { input: "q30 m", period: 30, unit: "min" }
-  ];
+describe("infusion rates", () => {
+  it("parses a volume flow rate alongside the bag volume", () => {
+    const result = parseSig("NSS 1000 mL iv at 80 mL/hr");
+    expect(result.fhir.doseAndRate).toEqual([
+      {
+        doseQuantity: { value: 1000, unit: "mL", system: UCUM_SYSTEM, code: "mL" },
+        rateQuantity: { value: 80, unit: "mL/h", system: UCUM_SYSTEM, code: "mL/h" }
+      }
+    ]);
+    expect(result.shortText).toBe("1000 mL IV @ 80 mL/h");
+    expect(result.longText).toBe("Infuse 1000 mL intravenously at 80 mL per hour.");
+  });
 
-  for (const { input, period, unit } of cases) {
-    it(`parses ${input} as every ${period} ${unit}`, () => {
+  it("accepts spelled per-hour rates and rate lead phrases", () => {
+    for (const input of ["80 mL per hour", "80 ml / hr", "at a rate of 80 mL/hr"]) {
       const result = parseSig(input);
-      expect(result.fhir.timing?.repeat).toMatchObject({ period, periodUnit: unit });
-    });
-  }
-});
-
-describe("smart meal expansion", () => {
-  it("keeps generic tokens when expansion disabled", () => {
-    const result = parseSig("1x2 po ac");
-    expect(result.fhir.timing?.repeat?.when).toEqual([EventTiming["Before Meal"]]);
+      expect(result.fhir.doseAndRate?.[0]?.rateQuantity).toEqual({
+        value: 80,
+        unit: "mL/h",
+        system: UCUM_SYSTEM,
+        code: "mL/h"
+      });
+      expect(result.meta.leftoverText).toBeUndefined();
+    }
   });
 
-  it("expands before-meal tokens when enabled", () => {
-    const result = parseSig("1x2 po ac", { smartMealExpansion: true });
-    expect(result.fhir.timing?.repeat?.when).toEqual([
-      EventTiming["Before Breakfast"],
-      EventTiming["Before Dinner"]
+  it("projects weight-based rates to rateRatio", () => {
+    const result = parseSig("heparin 18 units/kg/hr iv");
+    expect(result.fhir.doseAndRate).toEqual([
+      {
+        rateRatio: {
+          numerator: { value: 18, unit: "U/kg", system: UCUM_SYSTEM, code: "U/kg" },
+          denominator: {
+            value: 1,
+            unit: "hour",
+            system: "http://unitsofmeasure.org",
+            code: "h"
+          }
+        }
+      }
     ]);
+    expect(result.longText).toBe("Infuse intravenously at 18 U/kg per hour.");
+
+    const dopamine = parseSig("dopamine 5 mcg/kg/min titrate");
+    expect(dopamine.fhir.doseAndRate?.[0]?.rateRatio?.numerator).toEqual({
+      value: 5,
+      unit: "mcg/kg",
+      system: UCUM_SYSTEM,
+      code: "ug/kg"
+    });
+    expect(dopamine.fhir.doseAndRate?.[0]?.rateRatio?.denominator?.code).toBe("min");
+    expect(dopamine.shortText).toBe("@ 5 mcg/kg/min");
+    expect(dopamine.fhir.patientInstruction).toBe("titrate");
+    expect(dopamine.longText).toBe("Use at 5 mcg/kg per minute. Titrate.");
+    expect(dopamine.meta.leftoverText).toBe("dopamine");
+  });
+
+  it("keeps an explicit non-infusion route next to a flow rate", () => {
+    const result = parseSig("2 L/min via nasal cannula");
+    expect(result.fhir.route?.coding?.[0]?.code).toBe("46713006");
+    expect(result.fhir.doseAndRate?.[0]?.rateQuantity).toEqual({
+      value: 2,
+      unit: "L/min",
+      system: UCUM_SYSTEM,
+      code: "L/min"
+    });
+    expect(result.longText).toBe("Use via nasal route at 2 L per minute.");
+    expect(result.meta.leftoverText).toBeUndefined();
   });
 
-  it("supports alternate meal pairing", () => {
-    const result = parseSig("1x2 po pc", {
-      smartMealExpansion: true,
-      twoPerDayPair: "breakfast+lunch"
+  it("parses rate ranges into rateRange", () => {
+    const result = parseSig("50-100 mL/hr");
+    expect(result.fhir.doseAndRate?.[0]?.rateRange).toEqual({
+      low: { value: 50, unit: "mL/h", system: UCUM_SYSTEM, code: "mL/h" },
+      high: { value: 100, unit: "mL/h", system: UCUM_SYSTEM, code: "mL/h" }
     });
-    expect(result.fhir.timing?.repeat?.when).toEqual([
-      EventTiming["After Breakfast"],
-      EventTiming["After Lunch"]
-    ]);
+    expect(result.longText).toBe("Use at 50 to 100 mL per hour.");
   });
 
-  it("expands after-meal abbreviations for twice-daily cadences", () => {
-    const result = parseSig("1 tab bid pc", { smartMealExpansion: true });
-    expect(result.fhir.timing?.repeat?.when).toEqual([
-      EventTiming["After Breakfast"],
-      EventTiming["After Dinner"]
-    ]);
+  it("keeps discrete per-day counts as frequencies", () => {
+    const result = parseSig("2 tabs per day");
+    expect(result.fhir.doseAndRate?.[0]?.rateQuantity).toBeUndefined();
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 2,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
   });
 
-  it("translates after-meal tokens using detected frequency when enabled", () => {
-    const result = parseSig("1 tab tid pc", { smartMealExpansion: true });
-    expect(result.fhir.timing?.repeat?.when).toEqual([
-      EventTiming["After Breakfast"],
-      EventTiming["After Lunch"],
-      EventTiming["After Dinner"]
-    ]);
+  it("round-trips rates through FHIR", () => {
+    for (const input of ["1000 mL iv at 80 mL/hr", "18 units/kg/hr", "50-100 mL/hr"]) {
+      const parsed = parseSig(input);
+      const roundTripped = fromFhirDosage(parsed.fhir);
+      expect(roundTripped.fhir.doseAndRate).toEqual(parsed.fhir.doseAndRate);
+      expect(roundTripped.longText).toBe(parsed.longText);
+    }
+    expect(formatSig({ doseAndRate: [{ rateQuantity: { value: 2, unit: "L/min" } }] }, "long")).toBe(
+      "Use at 2 L per minute."
+    );
   });
 
-  it("expands after-meal abbreviations for four daily doses", () => {
-    const result = parseSig("1 tab qid pc", { smartMealExpansion: true });
-    expect(result.fhir.timing?.repeat?.when).toEqual([
-      EventTiming["After Breakfast"],
-      EventTiming["After Lunch"],
-      EventTiming["After Dinner"],
-      EventTiming["Before Sleep"]
-    ]);
+  it("renders Thai rate phrases", () => {
+    const result = parseSig("NSS 1000 mL iv at 80 mL/hr", { locale: "th" });
+    expect(result.longText).toContain("ในอัตรา 80 มิลลิลิตร ต่อชั่วโมง");
   });
+});
 
-  it("expands after-meal tokens with additional bedtime events", () => {
-    const result = parseSig("1 tab qid pc hs", { smartMealExpansion: true });
-    expect(result.fhir.timing?.repeat?.when).toEqual([
+describe("max-dose limits", () => {
+  it("parses a per-day cap after a PRN clause", () => {
+    const result = parseSig("1 tab po q4h prn pain; do not exceed 6 tabs/day");
+    expect(result.fhir.maxDosePerPeriod).toEqual([
+      {
+        numerator: { value: 6, unit: "tab", system: UCUM_SYSTEM, code: "{tbl}" },
+        denominator: {
+          value: 1,
+          unit: "day",
+          system: "http://unitsofmeasure.org",
+          code: "d"
+        }
+      }
+    ]);
+    expect(result.fhir.additionalInstruction).toBeUndefined();
+    expect(result.fhir.asNeededFor?.[0]?.text).toBe("pain");
+    expect(result.shortText).toBe("1 tab PO Q4H PRN pain max 6 tab/d");
+    expect(result.longText).toBe(
+      "Take 1 tablet orally every 4 hours as needed for pain. Do not exceed 6 tablets per day."
+    );
+  });
+
+  it("accepts compact and spelled windows", () => {
+    const compact = parseSig("max 4 g/24h");
+    expect(compact.fhir.maxDosePerPeriod?.[0]?.numerator).toEqual({
+      value: 4,
+      unit: "g",
+      system: UCUM_SYSTEM,
+      code: "g"
+    });
+    expect(compact.fhir.maxDosePerPeriod?.[0]?.denominator?.value).toBe(24);
+    expect(compact.fhir.maxDosePerPeriod?.[0]?.denominator?.code).toBe("h");
+    expect(compact.fhir.doseAndRate).toBeUndefined();
+
+    for (const input of [
+      "2 puffs prn wheeze, max 8 puffs in 24 hours",
+      "2 puffs prn wheeze max 8 puffs in any 24 hour period"
+    ]) {
+      const result = parseSig(input);
+      expect(result.fhir.maxDosePerPeriod?.[0]?.numerator).toEqual({
+        value: 8,
+        unit: "puff",
+        system: UCUM_SYSTEM,
+        code: "{puff}"
+      });
+      expect(result.fhir.maxDosePerPeriod?.[0]?.denominator?.value).toBe(24);
+      expect(result.fhir.asNeededFor?.[0]?.text).toBe("wheeze");
+      expect(result.meta.leftoverText).toBeUndefined();
+    }
+  });
+
+  it("stops PRN reasons before max-dose phrases", () => {
+    const result = parseSig("650 mg po q6h prn fever not more than 3 g daily");
+    expect(result.fhir.asNeededFor?.[0]?.text).toBe("fever");
+    expect(result.fhir.maxDosePerPeriod?.[0]?.numerator).toEqual({
+      value: 3,
+      unit: "g",
+      system: UCUM_SYSTEM,
+      code: "g"
+    });
+    expect(result.fhir.maxDosePerPeriod?.[0]?.denominator?.code).toBe("d");
+  });
+
+  it("parses per-administration and lifetime caps", () => {
+    const result = parseSig("1-2 tabs po q6h prn pain max 2 tabs per dose, max 8 tabs per day");
+    expect(result.fhir.maxDosePerAdministration).toEqual({
+      value: 2,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
+    expect(result.fhir.maxDosePerPeriod?.[0]?.numerator).toEqual({
+      value: 8,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
+    expect(result.longText).toBe(
+      "Take 1 to 2 tablets orally every 6 hours as needed for pain. Do not exceed 2 tablets per dose or 8 tablets per day."
+    );
+
+    const lifetime = parseSig("1 tab po daily max 100 tabs lifetime");
+    expect(lifetime.fhir.maxDosePerLifetime).toEqual({
+      value: 100,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
+    expect(lifetime.shortText).toBe("1 tab PO 1x/d max 100 tab/lifetime");
+  });
+
+  it("keeps dose-count caps unitless", () => {
+    const result = parseSig("1 tab po q4h prn pain, max 6 doses/day");
+    expect(result.fhir.maxDosePerPeriod?.[0]?.numerator).toEqual({ value: 6 });
+    expect(result.longText).toContain("Do not exceed 6 doses per day.");
+  });
+
+  it("round-trips limits through FHIR", () => {
+    const parsed = parseSig("1 tab po q4h prn pain max 2 tabs at a time, max 6 tabs/day");
+    const roundTripped = fromFhirDosage(parsed.fhir);
+    expect(roundTripped.fhir.maxDosePerPeriod).toEqual(parsed.fhir.maxDosePerPeriod);
+    expect(roundTripped.fhir.maxDosePerAdministration).toEqual(parsed.fhir.maxDosePerAdministration);
+    expect(roundTripped.longText).toBe(parsed.longText);
+  });
+
+  it("renders Thai limits", () => {
+    const result = parseSig("1 tab po q4h prn pain; do not exceed 6 tabs/day", { locale: "th" });
+    expect(result.shortText).toContain("ไม่เกิน 6 เม็ด/วัน");
+    expect(result.longText).toContain("ห้ามใช้เกิน 6 เม็ด ต่อวัน.");
+  });
+});
+
+describe("weight- and BSA-based doses", () => {
+  it("keeps the per-kg basis and warns without a weight", () => {
+    const result = parseSig("15 mg/kg po q6h prn fever");
+    expect(result.fhir.doseAndRate).toEqual([
+      {
+        type: {
+          coding: [
+            {
+              system: "http://terminology.hl7.org/CodeSystem/dose-rate-type",
+              code: "ordered",
+              display: "Ordered"
+            }
+          ]
+        },
+        doseQuantity: { value: 15, unit: "mg/kg", system: UCUM_SYSTEM, code: "mg/kg" }
+      }
+    ]);
+    expect(result.meta.leftoverText).toBeUndefined();
+    expect(result.shortText).toBe("15 mg/kg PO Q6H PRN fever");
+    expect(result.warnings).toContain(
+      "Weight-based dose needs patient weight (context.weightKg) to calculate the absolute dose."
+    );
+  });
+
+  it("emits the calculated dose ahead of the ordered ratio", () => {
+    const result = parseSig("15 mg/kg po q6h prn fever", {
+      context: { weightKg: 18, strength: "250 mg/5 mL", dosageForm: "syrup" }
+    });
+    expect(result.fhir.doseAndRate?.map((entry) => entry.type?.coding?.[0]?.code)).toEqual([
+      "calculated",
+      "ordered"
+    ]);
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 270,
+      unit: "mg",
+      system: UCUM_SYSTEM,
+      code: "mg"
+    });
+    expect(result.longText).toBe(
+      "Take 15 mg/kg (270 mg) orally every 6 hours as needed for fever."
+    );
+    expect(result.warnings).toEqual([]);
+    expect(fromFhirDosage(result.fhir).shortText).toBe(result.shortText);
+  });
+
+  it("rounds to the administrable tablet strength", () => {
+    const result = parseSig("10-15 mg/kg/dose po q8h", {
+      context: { weightKg: 18, strength: "500 mg", dosageForm: "tablet" }
+    });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 250,
+      unit: "mg",
+      system: UCUM_SYSTEM,
+      code: "mg"
+    });
+    expect(result.fhir.doseAndRate?.[1]?.doseRange).toEqual({
+      low: { value: 10, unit: "mg/kg", system: UCUM_SYSTEM, code: "mg/kg" },
+      high: { value: 15, unit: "mg/kg", system: UCUM_SYSTEM, code: "mg/kg" }
+    });
+  });
+
+  it("derives BSA from weight and height", () => {
+    const missing = parseSig("75 mg/m2 iv q3w");
+    expect(missing.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 75,
+      unit: "mg/m2",
+      system: UCUM_SYSTEM,
+      code: "mg/m2"
+    });
+    expect(missing.warnings[0]).toContain("BSA-based dose");
+
+    const result = parseSig("75 mg/m2 iv q3w", { context: { weightKg: 70, heightCm: 170 } });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 136.5,
+      unit: "mg",
+      system: UCUM_SYSTEM,
+      code: "mg"
+    });
+    expect(result.longText).toBe("Inject 75 mg/m² (136.5 mg) intravenously every 3 weeks.");
+
+    const explicit = parseSig("100 mg/m² iv once", { context: { bodySurfaceAreaM2: 1.5 } });
+    expect(explicit.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 150,
+      unit: "mg",
+      system: UCUM_SYSTEM,
+      code: "mg"
+    });
+  });
+});
+
+describe("sliding-scale insulin", () => {
+  it("parses a threshold table into conditional doseAndRate entries", () => {
+    const result = parseSig(
+      "regular insulin sc ac per sliding scale: 151-200 2u, 201-250 4u, 251-300 6u"
+    );
+    expect(result.count).toBe(1);
+    expect(result.fhir.doseAndRate).toHaveLength(3);
+    expect(result.fhir.doseAndRate?.[1]).toEqual({
+      extension: [
+        {
+          url: SLIDING_SCALE_CONDITION_EXTENSION_URL,
+          extension: [
+            {
+              url: "range",
+              valueRange: { low: { value: 201 }, high: { value: 250 } }
+            }
+          ]
+        }
+      ],
+      doseQuantity: { value: 4, unit: "U", system: UCUM_SYSTEM, code: "U" }
+    });
+    expect(result.fhir.timing?.repeat?.when).toEqual([EventTiming["Before Meal"]]);
+    expect(result.shortText).toBe("SC AC sliding scale: 151-200 2 U, 201-250 4 U, 251-300 6 U");
+    expect(result.longText).toBe(
+      "Inject subcutaneously before meals per sliding scale:\n- 151-200: 2 U\n- 201-250: 4 U\n- 251-300: 6 U"
+    );
+  });
+
+  it("reads open-ended rows, hold rows, and the observation", () => {
+    const result = parseSig("insulin sc ac bg <70 hold, 151-200 mg/dL 2u, >300 8 units");
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 0,
+      unit: "U",
+      system: UCUM_SYSTEM,
+      code: "U"
+    });
+    expect(result.fhir.doseAndRate?.[2]?.extension?.[0]?.extension).toEqual([
+      { url: "observation", valueString: "blood glucose" },
+      {
+        url: "threshold",
+        valueQuantity: { value: 300, unit: "mg/dL", system: UCUM_SYSTEM, code: "mg/dL", comparator: ">" }
+      }
+    ]);
+    expect(result.longText).toBe(
+      "Inject subcutaneously before meals according to blood glucose:\n" +
+        "- below 70 mg/dL: hold\n- 151-200 mg/dL: 2 U\n- above 300 mg/dL: 8 U"
+    );
+  });
+
+  it("keeps a base dose ahead of the correction rows", () => {
+    const result = parseSig(
+      "humalog 4 units sc ac plus correction scale: 150-199 1u; 200-249 2u; 250+ 3u"
+    );
+    expect(result.count).toBe(1);
+    expect(result.fhir.doseAndRate?.[0]).toEqual({ doseQuantity: { value: 4, unit: "U", system: UCUM_SYSTEM, code: "U" } });
+    expect(result.fhir.doseAndRate?.[3]?.extension?.[0]?.extension?.[0]?.valueQuantity).toEqual({
+      value: 250,
+      comparator: ">="
+    });
+    expect(result.shortText).toBe("4 U SC AC sliding scale: 150-199 1 U, 200-249 2 U, >=250 3 U");
+  });
+
+  it("parses a single glucose condition", () => {
+    const result = parseSig("lispro sc tid ac if bg > 250 give 4 u");
+    expect(result.fhir.doseAndRate).toHaveLength(1);
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 4,
+      unit: "U",
+      system: UCUM_SYSTEM,
+      code: "U"
+    });
+    expect(result.fhir.timing?.repeat?.frequency).toBe(3);
+  });
+
+  it("round-trips through FHIR and its own short text", () => {
+    const parsed = parseSig("insulin sc ac bg <70 hold, 151-200 mg/dL 2u, >300 8 units");
+    const roundTripped = fromFhirDosage(parsed.fhir);
+    expect(roundTripped.fhir.doseAndRate).toEqual(parsed.fhir.doseAndRate);
+    expect(roundTripped.longText).toBe(parsed.longText);
+    expect(parseSig(parsed.shortText).fhir.doseAndRate).toEqual(parsed.fhir.doseAndRate);
+  });
+});
+
+describe("cyclic regimens", () => {
+  it("projects a chemotherapy day list with its cycle length", () => {
+    const result = parseSig("1000 mg po bid days 1-14 q21d");
+    expect(result.meta.leftoverText).toBeUndefined();
+    expect(result.fhir.timing?.repeat).toEqual({ frequency: 2, period: 1, periodUnit: "d" });
+    expect(result.fhir.timing?.extension).toEqual([
+      {
+        url: TIMING_CYCLE_EXTENSION_URL,
+        extension: [
+          {
+            url: "length",
+            valueQuantity: { value: 21, unit: "d", system: "http://unitsofmeasure.org", code: "d" }
+          },
+          { url: "activeDays", valueString: "1-14" }
+        ]
+      }
+    ]);
+    expect(result.shortText).toBe("1000 mg PO BID D1-14 Q21D");
+    expect(result.longText).toBe("Take 1000 mg orally twice daily on days 1-14 of each 21-day cycle.");
+    expect(parseSig(result.shortText).fhir.timing?.extension).toEqual(result.fhir.timing?.extension);
+  });
+
+  it("reads on/off spans as a cycle starting on day 1", () => {
+    for (const input of [
+      "1 tab po daily 21 days on, 7 days off",
+      "1 tab po daily 3 weeks on then 1 week off",
+      "1 tab po daily on for 21 days, off for 7 days"
+    ]) {
+      const result = parseSig(input);
+      expect(result.count).toBe(1);
+      expect(result.meta.leftoverText).toBeUndefined();
+      expect(result.shortText).toBe("1 tab PO 1x/d D1-21 Q28D");
+    }
+  });
+
+  it("keeps comma-separated day lists in one clause", () => {
+    const result = parseSig("100 mg iv on days 1, 8, 15 of a 28-day cycle");
+    expect(result.count).toBe(1);
+    expect(result.shortText).toBe("100 mg IV D1,8,15 Q28D");
+    expect(result.longText).toBe(
+      "Inject 100 mg intravenously on days 1, 8 and 15 of each 28-day cycle."
+    );
+    expect(parseSig(result.shortText, { locale: "th" }).longText).toContain(
+      "ในวันที่ 1, 8 และ 15 ของทุกรอบ 28 วัน"
+    );
+  });
+
+  it("round-trips the cycle through FHIR", () => {
+    const result = parseSig("1 tab po daily on days 1-5");
+    expect(parseTimingCycleExtension(result.fhir.timing)).toEqual({ activeDays: [1, 2, 3, 4, 5] });
+    expect(fromFhirDosage(result.fhir).shortText).toBe(result.shortText);
+    expect(parseSig("take for 5 days 2 tabs").fhir.timing?.extension).toBeUndefined();
+  });
+});
+
+describe("while awake qualifier", () => {
+  it("marks the timing with a while-awake extension", () => {
+    const result = parseSig("1 tab po q4h while awake");
+    expect(result.meta.leftoverText).toBeUndefined();
+    expect(result.fhir.timing?.repeat).toEqual({ period: 4, periodUnit: "h" });
+    expect(result.fhir.timing?.extension).toEqual([
+      { url: TIMING_WHILE_AWAKE_EXTENSION_URL, valueBoolean: true }
+    ]);
+    expect(result.shortText).toBe("1 tab PO Q4H while awake");
+    expect(result.longText).toBe("Take 1 tablet orally every 4 hours while awake.");
+    expect(parseSig(result.shortText).fhir).toEqual(result.fhir);
+    expect(fromFhirDosage(result.fhir).shortText).toBe(result.shortText);
+  });
+
+  it("reads daytime and overnight phrasings", () => {
+    for (const input of [
+      "1 tab po q6h during the day",
+      "1 tab po q6h except overnight",
+      "1 tab po q6h not at night",
+      "1 เม็ด ทุก 6 ชั่วโมง ขณะตื่น"
+    ]) {
+      const result = parseSig(input);
+      expect(result.meta.leftoverText).toBeUndefined();
+      expect(result.fhir.timing?.extension).toEqual([
+        { url: TIMING_WHILE_AWAKE_EXTENSION_URL, valueBoolean: true }
+      ]);
+    }
+  });
+
+  it("ends a PRN reason before the qualifier", () => {
+    const result = parseSig("1 tab po q4h prn pain while awake");
+    expect(result.fhir.asNeededFor?.[0]?.text).toBe("pain");
+    expect(result.fhir.timing?.extension).toEqual([
+      { url: TIMING_WHILE_AWAKE_EXTENSION_URL, valueBoolean: true }
+    ]);
+  });
+
+  it("localizes the qualifier", () => {
+    expect(parseSig("1 tab po qid while awake", { locale: "th" }).shortText).toContain("ขณะตื่น");
+    expect(parseSig("1 tab po qid while awake", { locale: "zh" }).longText).toContain("仅限清醒时");
+  });
+});
+
+describe("calendar day rules", () => {
+  it("projects a monthly injection day onto a timing extension", () => {
+    const result = parseSig("1000 mcg im on the 1st of every month");
+    expect(result.meta.leftoverText).toBeUndefined();
+    expect(result.fhir.timing?.repeat).toEqual({ period: 1, periodUnit: "mo" });
+    expect(result.fhir.timing?.extension).toEqual([
+      { url: TIMING_DAY_OF_MONTH_EXTENSION_URL, valueInteger: 1 }
+    ]);
+    expect(result.shortText).toBe("1000 mcg IM 1st of month");
+    expect(result.longText).toBe("Inject 1000 mcg intramuscularly on the 1st of each month.");
+    expect(parseSig(result.shortText).fhir).toEqual(result.fhir);
+    expect(fromFhirDosage(result.fhir).shortText).toBe(result.shortText);
+  });
+
+  it("reads several days of the month as the monthly frequency", () => {
+    const result = parseSig("1 tab po monthly on the 1st and 15th");
+    expect(result.fhir.timing?.repeat).toEqual({ frequency: 2, period: 1, periodUnit: "mo" });
+    expect(result.fhir.timing?.code).toBeUndefined();
+    expect(result.shortText).toBe("1 tab PO 1st & 15th of month");
+    expect(result.longText).toBe("Take 1 tablet orally on the 1st and the 15th of each month.");
+    expect(parseSig("1 tab po on the 1st, 15th").count).toBe(1);
+  });
+
+  it("parses nth and last weekdays of the month", () => {
+    const second = parseSig("1 tab po every 2nd tuesday");
+    expect(second.fhir.timing?.extension).toEqual([
+      {
+        url: TIMING_WEEKDAY_OF_MONTH_EXTENSION_URL,
+        extension: [
+          { url: "ordinal", valueInteger: 2 },
+          { url: "dayOfWeek", valueCode: "tue" }
+        ]
+      }
+    ]);
+    expect(second.shortText).toBe("1 tab PO 2nd Tue of month");
+    expect(second.longText).toBe("Take 1 tablet orally on the 2nd Tuesday of each month.");
+
+    const last = parseSig("1 tab po on the last friday of the month", { locale: "th" });
+    expect(last.shortText).toBe("1 เม็ด PO วันศุกร์สุดท้าย ของเดือน");
+    expect(fromFhirDosage(last.fhir).fhir.timing).toEqual(last.fhir.timing);
+  });
+
+  it("removes excluded weekdays", () => {
+    expect(parseSig("1 tab po every weekday except wednesday").fhir.timing?.repeat?.dayOfWeek).toEqual([
+      "mon",
+      "tue",
+      "thu",
+      "fri"
+    ]);
+    expect(parseSig("1 tab po daily not on weekends").fhir.timing?.repeat?.dayOfWeek).toEqual([
+      "mon",
+      "tue",
+      "wed",
+      "thu",
+      "fri"
+    ]);
+  });
+
+  it("leaves intervals and ordinal sites alone", () => {
+    expect(parseSig("1 tab every 2nd day").fhir.timing?.extension).toBeUndefined();
+    expect(parseSig("1 tab on days 1-14 q21d").fhir.timing?.extension?.[0]?.url).toBe(
+      TIMING_CYCLE_EXTENSION_URL
+    );
+    expect(parseSig("apply to the 2nd toe daily").fhir.timing?.extension).toBeUndefined();
+  });
+});
+
+describe("one-time administrations", () => {
+  const reference = { referenceDate: "2026-10-19T03:15:00Z", timeZone: "Asia/Bangkok" };
+
+  it("pins stat and now to the reference instant", () => {
+    const result = parseSig("2 tabs po stat", reference);
+    expect(result.fhir.timing).toEqual({
+      event: ["2026-10-19T10:15:00+07:00"],
+      repeat: { count: 1, when: ["IMD"] }
+    });
+    expect(result.longText).toBe(
+      "Take 2 tablets orally immediately on 19 October 2026 at 10:15 am for 1 dose."
+    );
+    expect(parseSig("1 tab po once now", reference).fhir.timing?.event).toEqual([
+      "2026-10-19T10:15:00+07:00"
+    ]);
+    const unpinned = parseSig("2 tabs po stat");
+    expect(unpinned.fhir.timing).toEqual({ repeat: { when: ["IMD"] } });
+    expect(unpinned.warnings).toEqual([
+      "Immediate dose needs a referenceDate to be recorded as a Timing.event."
+    ]);
+  });
+
+  it("reads an absolute date and time as a single event", () => {
+    const result = parseSig("1 tab po single dose on 2026-11-02 08:00", { timeZone: "Asia/Bangkok" });
+    expect(result.meta.leftoverText).toBeUndefined();
+    expect(result.fhir.timing).toEqual({
+      event: ["2026-11-02T08:00:00+07:00"],
+      repeat: { count: 1 }
+    });
+    expect(result.shortText).toBe("1 tab PO 2026-11-02 08:00 x1");
+    expect(result.longText).toBe("Take 1 tablet orally once on 2 November 2026 at 8:00 am.");
+    expect(fromFhirDosage(result.fhir).fhir.timing).toEqual(result.fhir.timing);
+    expect(parseSig(result.shortText, { timeZone: "Asia/Bangkok" }).fhir).toEqual(result.fhir);
+  });
+
+  it("converts Thai Buddhist-era dates", () => {
+    const written = parseSig("1 tab po 2 พ.ย. 2569 เวลา 08:00", { timeZone: "Asia/Bangkok", locale: "th" });
+    expect(written.fhir.timing?.event).toEqual(["2026-11-02T08:00:00+07:00"]);
+    expect(written.shortText).toBe("1 เม็ด PO 2 พ.ย. 2569 08:00");
+    expect(written.longText).toBe("รับประทาน ครั้งละ 1 เม็ด วันที่ 2 พฤศจิกายน 2569 เวลา 08:00.");
+    expect(parseSig("1 tab po on 2/11/2569").fhir.timing?.event).toEqual(["2026-11-02"]);
+    expect(parseSig("1 tab po on Nov 2, 2026").fhir.timing?.event).toEqual(["2026-11-02"]);
+  });
+
+  it("resolves relative days against the reference date", () => {
+    const result = parseSig("give 1 tab at 14:00 today", reference);
+    expect(result.fhir.timing).toEqual({ event: ["2026-10-19T14:00:00+07:00"] });
+    expect(parseSig("1 tab po tomorrow 8am", reference).fhir.timing?.event).toEqual([
+      "2026-10-20T08:00:00+07:00"
+    ]);
+    expect(parseSig("apply to the left arm on 2 Nov 2026").fhir.site?.text).toBe("left arm");
+    expect(() => parseSig("1 tab po today", { referenceDate: "soon" })).toThrow(
+      "Invalid referenceDate supplied to parseSig"
+    );
+  });
+
+  it("leaves relative days unread without a reference date and time zone", () => {
+    for (const options of [{}, { referenceDate: reference.referenceDate }, { timeZone: "Asia/Bangkok" }]) {
+      const result = parseSig("1 tab po tomorrow", options);
+      expect(result.fhir.timing?.event).toBeUndefined();
+      expect(result.meta.leftoverText).toBe("tomorrow");
+    }
+    expect(parseSig("1 tab po on 2 Nov").fhir.timing?.event).toBeUndefined();
+  });
+
+  it("keeps a written clock as timeOfDay when no time zone is given", () => {
+    const result = parseSig("1 tab po single dose on 2026-11-02 08:00");
+    expect(result.fhir.timing).toEqual({
+      event: ["2026-11-02"],
+      repeat: { count: 1, timeOfDay: ["08:00:00"] }
+    });
+  });
+});
+
+describe("clinical event anchors", () => {
+  const eventAnchorMap = {
+    dialysis: {
+      text: "dialysis",
+      aliases: ["hd", "ฟอกไต"],
+      coding: { system: "http://snomed.info/sct", code: "302497006", display: "Hemodialysis" },
+      clock: "09:00",
+      dayOfWeek: [FhirDayOfWeek.Monday, FhirDayOfWeek.Wednesday, FhirDayOfWeek.Friday]
+    },
+    procedure: { text: "procedure" },
+    chemo: { text: "chemotherapy", aliases: ["chemo"] }
+  };
+
+  it("times doses before or after a registered event", () => {
+    const result = parseSig("1 tab 1 hr before procedure", { eventAnchorMap });
+    expect(result.meta.leftoverText).toBeUndefined();
+    expect(result.fhir.timing).toEqual({
+      extension: [
+        {
+          url: TIMING_EVENT_ANCHOR_EXTENSION_URL,
+          extension: [
+            { url: "event", valueCodeableConcept: { text: "procedure" } },
+            { url: "relation", valueCode: "before" },
+            {
+              url: "offset",
+              valueQuantity: { value: 60, unit: "min", system: "http://unitsofmeasure.org", code: "min" }
+            }
+          ]
+        }
+      ]
+    });
+    expect(result.shortText).toBe("1 tab 1 h before procedure");
+    expect(result.longText).toBe("Use 1 tablet 1 hour before procedure.");
+    expect(fromFhirDosage(result.fhir).shortText).toBe(result.shortText);
+    expect(parseSig(result.shortText, { eventAnchorMap }).fhir).toEqual(result.fhir);
+
+    const chemo = parseSig("30 min before chemo", { eventAnchorMap });
+    expect(chemo.longText).toBe("Use the medication 30 minutes before chemotherapy.");
+    expect(parseSig("30 min before chemo", { eventAnchorMap, locale: "th" }).shortText).toBe(
+      "ก่อน chemotherapy 30 นาที"
+    );
+  });
+
+  it("merges a relation with an event-day restriction", () => {
+    const result = parseSig("1 tab after dialysis on HD days", { eventAnchorMap });
+    expect(result.meta.leftoverText).toBeUndefined();
+    const anchor = result.meta.canonical.clauses[0].schedule?.anchor;
+    expect(anchor).toEqual({
+      text: "dialysis",
+      coding: { system: "http://snomed.info/sct", code: "302497006", display: "Hemodialysis" },
+      clock: "09:00:00",
+      dayOfWeek: ["mon", "wed", "fri"],
+      relation: "after"
+    });
+    expect(result.shortText).toBe("1 tab after dialysis");
+    expect(parseSig("1 tab po หลังฟอกไต", { eventAnchorMap }).meta.canonical.clauses[0].schedule?.anchor)
+      .toEqual(anchor);
+    expect(parseSig("1 tab po bid on HD days", { eventAnchorMap }).shortText).toBe(
+      "1 tab PO BID on dialysis days"
+    );
+  });
+
+  it("carries the event duration and flags doses it cannot place", () => {
+    const withDuration = { ...eventAnchorMap, dialysis: { ...eventAnchorMap.dialysis, duration: 240 } };
+    const result = parseSig("1 tab after dialysis", { eventAnchorMap: withDuration });
+    expect(result.meta.canonical.clauses[0].schedule?.anchor?.duration).toBe(240);
+    expect(result.fhir.timing?.extension?.[0].extension).toContainEqual({
+      url: "duration",
+      valueQuantity: { value: 240, unit: "min", system: "http://unitsofmeasure.org", code: "min" }
+    });
+    expect(result.warnings).toEqual([]);
+    expect(fromFhirDosage(result.fhir).meta.canonical.clauses[0].schedule?.anchor?.duration).toBe(240);
+
+    expect(parseSig("1 tab after dialysis", { eventAnchorMap }).warnings).toEqual([
+      "Dose after dialysis needs an offset or an event duration to be scheduled."
+    ]);
+    expect(parseSig("30 min before chemo", { eventAnchorMap }).warnings).toEqual([
+      "chemotherapy has no usual clock; calendar entries without a time are not scheduled."
+    ]);
+  });
+
+  it("ignores event names without a registry", () => {
+    expect(parseSig("1 tab 1 hr before procedure").fhir.timing?.extension).toBeUndefined();
+  });
+});
+
+describe("FHIR R4 projection", () => {
+  it("moves a single PRN reason to asNeededCodeableConcept", () => {
+    const result = parseSig("1 tab po q6h prn pain", { fhirVersion: "R4" });
+    expect(result.fhir.asNeededBoolean).toBeUndefined();
+    expect(result.fhir.asNeededFor).toBeUndefined();
+    expect(result.fhir.asNeededCodeableConcept).toEqual({
+      text: "pain",
+      coding: [{ system: "http://snomed.info/sct", code: "22253000", display: "Pain" }]
+    });
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("keeps asNeededBoolean when there is no reason", () => {
+    const result = parseSig("1 tab po prn", { fhirVersion: "R4" });
+    expect(result.fhir.asNeededBoolean).toBe(true);
+    expect(result.fhir.asNeededCodeableConcept).toBeUndefined();
+  });
+
+  it("merges several PRN reasons with a warning", () => {
+    const result = parseSig("1 tab po q4h prn pain or nausea", { fhirVersion: "R4" });
+    expect(result.fhir.asNeededCodeableConcept).toEqual({ text: "pain or nausea" });
+    expect(result.warnings).toContain(
+      "FHIR R4 Dosage allows one as-needed reason; merged 2 reasons into asNeededCodeableConcept.text without their codings."
+    );
+  });
+
+  it("emits a single maxDosePerPeriod Ratio", () => {
+    const result = parseSig("500 mg po q6h prn pain max 4 g/day", { fhirVersion: "R4" });
+    expect(result.fhir.maxDosePerPeriod).toEqual({
+      numerator: { value: 4, unit: "g", system: UCUM_SYSTEM, code: "g" },
+      denominator: { value: 1, unit: "day", system: "http://unitsofmeasure.org", code: "d" }
+    });
+  });
+
+  it("keeps the first of several per-period caps", () => {
+    const projected = projectFhirDosageToR4({
+      maxDosePerPeriod: [
+        { numerator: { value: 6, unit: "tab" }, denominator: { value: 1, unit: "d" } },
+        { numerator: { value: 30, unit: "tab" }, denominator: { value: 1, unit: "wk" } }
+      ]
+    });
+    expect(projected.dosage.maxDosePerPeriod).toEqual({
+      numerator: { value: 6, unit: "tab" },
+      denominator: { value: 1, unit: "d" }
+    });
+    expect(projected.warnings).toEqual([
+      "FHIR R4 Dosage allows one maxDosePerPeriod; kept the first of 2 limits."
+    ]);
+  });
+
+  it("projects canonical clauses straight to R4", () => {
+    const result = parseSig("500 mg po q6h prn pain max 4 g/day");
+    const [clause] = result.meta.canonical.clauses;
+    const r4 = canonicalToFhir(clause, result.fhir.text, { fhirVersion: "R4" });
+    expect(r4).toEqual(parseSig("500 mg po q6h prn pain max 4 g/day", { fhirVersion: "R4" }).fhir);
+    expect(r4.asNeededCodeableConcept?.text).toBe("pain");
+    expect(canonicalToFhir(clause, result.fhir.text)).toEqual(result.fhir);
+  });
+
+  it("projects lint results and keeps R5 caps as a list", () => {
+    const lint = lintSig("500 mg po q6h prn pain max 4 g/day", { fhirVersion: "R4" });
+    expect(lint.result.fhir.asNeededCodeableConcept?.text).toBe("pain");
+    expect(lint.items[0].result.fhir.maxDosePerPeriod).toEqual(lint.result.fhir.maxDosePerPeriod);
+    expect(parseSig("500 mg po q6h prn pain max 4 g/day").fhir.maxDosePerPeriod).toHaveLength(1);
+  });
+
+  it("leaves R5 output unchanged by default", () => {
+    expect(parseSig("1 tab po q6h prn pain", { fhirVersion: "R5" }).fhir).toEqual(
+      parseSig("1 tab po q6h prn pain").fhir
+    );
+  });
+
+  it("reads R4 dosages back", () => {
+    const r5 = parseSig("500 mg po q6h prn pain max 4 g/day");
+    const r4 = parseSig("500 mg po q6h prn pain max 4 g/day", { fhirVersion: "R4" });
+    const read = fromFhirDosage(r4.fhir);
+    const expected = fromFhirDosage(r5.fhir);
+    expect(read.longText).toBe(r5.longText);
+    expect(read.meta.canonical.clauses[0].prn).toEqual(expected.meta.canonical.clauses[0].prn);
+    expect(read.meta.canonical.clauses[0].maxDose).toEqual(expected.meta.canonical.clauses[0].maxDose);
+    expect(formatSig(r4.fhir, "short")).toBe(r5.shortText);
+  });
+});
+
+describe("dispense details", () => {
+  it("reads a bare count and a refill count from the sig line", () => {
+    const result = parseSig("1 tab po bid x 30d #60 refills x2");
+    expect(result.longText).toBe("Take 1 tablet orally twice daily for 30 days.");
+    expect(result.meta.leftoverText).toBeUndefined();
+    expect(result.meta.dispense).toEqual({ quantity: { value: 60 }, refills: 2 });
+    expect(result.fhir).not.toHaveProperty("dispenseRequest");
+  });
+
+  it("keeps the unit written after disp", () => {
+    const result = parseSig("1 tab po daily disp: 30 tabs, 2 refills");
+    expect(result.count).toBe(1);
+    expect(result.meta.dispense).toEqual({ quantity: { value: 30, unit: "tab" }, refills: 2 });
+    expect(result.fhir.additionalInstruction).toBeUndefined();
+  });
+
+  it("stops PRN reasons and sites before dispense details", () => {
+    const prn = parseSig("1 tab po q6h prn pain #30");
+    expect(prn.fhir.asNeededFor?.[0]?.text).toBe("pain");
+    expect(prn.meta.dispense).toEqual({ quantity: { value: 30 } });
+
+    const topical = parseSig("apply bid to affected area # 1 tube no refills");
+    expect(topical.fhir.site?.text).toBe("affected area");
+    expect(topical.meta.dispense).toEqual({ quantity: { value: 1, unit: "tube" }, refills: 0 });
+    expect(topical.meta.leftoverText).toBeUndefined();
+  });
+
+  it("reads compact RF and DAW tokens", () => {
+    const result = parseSig("1 tab po bid x 30d #60 RF2 DAW1");
+    expect(result.meta.leftoverText).toBeUndefined();
+    expect(result.meta.dispense).toEqual({
+      quantity: { value: 60 },
+      refills: 2,
+      substitution: { allowed: false, dawCode: 1 }
+    });
+
+    expect(parseSig("1 tab po daily qty:90 DS: 90 generic ok").meta.dispense).toEqual({
+      quantity: { value: 90 },
+      daysSupply: 90,
+      substitution: { allowed: true }
+    });
+    expect(parseSig("1 tab po daily dispense as written").meta.dispense).toEqual({
+      substitution: { allowed: false }
+    });
+  });
+
+  it("reads days supply in its common spellings", () => {
+    for (const input of [
+      "1 tab po daily 30 day supply",
+      "1 tab po daily 30-day supply",
+      "1 tab po daily days supply: 30",
+      "1 tab po daily DS:30"
+    ]) {
+      const result = parseSig(input);
+      expect(result.meta.leftoverText).toBeUndefined();
+      expect(result.meta.dispense).toEqual({ daysSupply: 30 });
+    }
+  });
+
+  it("folds dispense-only lines into the order instead of adding dosages", () => {
+    const result = parseSig("1 tab po daily\nDisp: #30\nRefills: 2.");
+    expect(result.count).toBe(1);
+    expect(result.longText).toBe("Take 1 tablet orally once daily.");
+    expect(result.meta.dispense).toEqual({ quantity: { value: 30 }, refills: 2 });
+
+    const commas = parseSig("1 tab po daily, 30 day supply, DAW");
+    expect(commas.count).toBe(1);
+    expect(commas.meta.dispense).toEqual({ daysSupply: 30, substitution: { allowed: false } });
+  });
+
+  it("leaves a bare DS to the drug name", () => {
+    const result = parseSig("Bactrim DS 1 tab po bid");
+    expect(result.meta.dispense).toBeUndefined();
+  });
+});
+
+describe("Thai sigs", () => {
+  it("parses native Thai sigs to the same dosage as their English form", () => {
+    const cases = [
+      { thai: "รับประทาน ครั้งละ 1 เม็ด วันละ 3 ครั้ง หลังอาหาร", english: "take 1 tab tid pc" },
+      { thai: "ครั้งละ ครึ่งเม็ด ก่อนนอน", english: "1/2 tab hs" },
+      { thai: "ครั้งละ 2 ช้อนชา วันละ 2 ครั้ง ก่อนอาหาร", english: "2 tsp bid ac" },
+      { thai: "ครั้งละ 1 เม็ด ทุก 6 ชั่วโมง เมื่อมีอาการ", english: "1 tab q6h prn" },
+      { thai: "รับประทาน ครั้งละ 1 เม็ด หลังอาหาร เช้า เย็น", english: "take 1 tab pc breakfast and dinner" },
+      { thai: "ทา วันละ 2 ครั้ง", english: "apply bid" },
+      { thai: "วันเว้นวัน", english: "qod" },
+      { thai: "1 เม็ด สัปดาห์ละครั้ง", english: "1 tab once weekly" },
+      { thai: "ครั้งละ 1 เม็ดครึ่ง วันละครั้ง", english: "1.5 tab qd" },
+      { thai: "ครั้งละ 1 เม็ด ทุกวัน เป็นเวลา 7 วัน", english: "1 tab qd for 7 days" },
+      { thai: "พ่น ครั้งละ 2 พ่น วันละ 2 ครั้ง", english: "spray 2 sprays bid" }
+    ];
+    for (const { thai, english } of cases) {
+      const result = parseSig(thai);
+      expect(result.meta.leftoverText).toBeUndefined();
+      expect(result.fhir).toEqual(parseSig(english).fhir);
+    }
+  });
+
+  it("segments unspaced Thai text and Thai digits", () => {
+    expect(parseSig("รับประทานครั้งละ๑เม็ดวันละ๓ครั้งหลังอาหาร").fhir).toEqual(
+      parseSig("take 1 tab tid pc").fhir
+    );
+  });
+
+  it("codes Thai PRN reasons like their English equivalents", () => {
+    const result = parseSig("1 เม็ด ทุก 6 ชั่วโมง เวลาปวด");
+    expect(result.fhir.timing).toEqual(parseSig("1 tab q6h prn pain").fhir.timing);
+    expect(result.fhir.asNeededFor).toEqual([
+      {
+        text: "ปวด",
+        coding: [{ system: "http://snomed.info/sct", code: "22253000", display: "Pain" }]
+      }
+    ]);
+  });
+
+  it("reads back its own Thai output", () => {
+    const thai = parseSig("1 tab po tid pc", { locale: "th" });
+    for (const text of [thai.longText, thai.shortText]) {
+      const reparsed = parseSig(text);
+      expect(reparsed.meta.leftoverText).toBeUndefined();
+      expect(reparsed.fhir.timing).toEqual(thai.fhir.timing);
+      expect(reparsed.fhir.doseAndRate).toEqual(thai.fhir.doseAndRate);
+      expect(reparsed.fhir.route).toEqual(thai.fhir.route);
+    }
+  });
+});
+
+describe("sequential regimens", () => {
+  it("splits a loading dose from the maintenance phase", () => {
+    const result = parseSig("2 tabs stat then 1 tab daily x 4 days");
+    expect(result.meta.segments.map((segment) => segment.text)).toEqual([
+      "2 tabs stat",
+      "1 tab daily x 4 days"
+    ]);
+    expect(result.items.map((item) => item.sequence)).toEqual([1, 2]);
+    expect(result.items.map((item) => item.fhir.sequence)).toEqual([1, 2]);
+    expect(result.items[0].fhir.timing?.repeat?.when).toEqual([EventTiming.Immediate]);
+    expect(result.items[1].sequenceBounds?.start.value).toBe(0);
+    expect(result.items[1].sequenceBounds?.end?.value).toBe(4);
+  });
+
+  it("offsets later phases by the earlier durations and carries the route", () => {
+    const result = parseSig("500 mg po bid x 3d, then 250 mg bid x 7d");
+    expect(result.count).toBe(2);
+    expect(result.items[1].fhir.route?.text).toBe(result.items[0].fhir.route?.text);
+    expect(result.items[1].sequenceBounds).toEqual({
+      start: { value: 3, unit: "days", system: "http://unitsofmeasure.org", code: "d" },
+      end: { value: 10, unit: "days", system: "http://unitsofmeasure.org", code: "d" }
+    });
+  });
+
+  it("omits inherited bounds after an open-ended phase", () => {
+    const result = parseSig("1 tab po daily followed by 2 tabs po daily x 5 days");
+    expect(result.items.map((item) => item.sequence)).toEqual([1, 2]);
+    expect(result.items[0].sequenceBounds?.end).toBeUndefined();
+    expect(result.items[1].sequenceBounds).toBeUndefined();
+  });
+
+  it("recognizes the Thai connector", () => {
+    const result = parseSig("1 tab bid x 3 days แล้ว 1 tab daily x 7 days");
+    expect(result.items.map((item) => item.sequence)).toEqual([1, 2]);
+  });
+
+  it("keeps workflow steps without a second amount in one clause", () => {
+    const result = parseSig("leave on for 10 minutes then rinse");
+    expect(result.count).toBe(1);
+    expect(result.items[0].sequence).toBeUndefined();
+    expect(result.fhir.sequence).toBeUndefined();
+  });
+});
+
+describe("minute and fractional interval parsing", () => {
+  const cases: Array<{ input: string; period: number; unit: string }> = [
+    { input: "q30min", period: 30, unit: "min" },
+    { input: "q15min", period: 15, unit: "min" },
+    { input: "q0.5h", period: 30, unit: "min" },
+    { input: "q1/2hr", period: 30, unit: "min" },
+    { input: "q0.25h", period: 15, unit: "min" },
+    { input: "q1/4hr", period: 15, unit: "min" },
+    { input: "q 0.5 h", period: 30, unit: "min" },
+    { input: "q 30 minutes", period: 30, unit: "min" },
+    { input: "q 15 minutes", period: 15, unit: "min" },
+    { input: "q30 m", period: 30, unit: "min" }
+  ];
+
+  for (const { input, period, unit } of cases) {
+    it(`parses ${input} as every ${period} ${unit}`, () => {
+      const result = parseSig(input);
+      expect(result.fhir.timing?.repeat).toMatchObject({ period, periodUnit: unit });
+    });
+  }
+});
+
+describe("smart meal expansion", () => {
+  it("keeps generic tokens when expansion disabled", () => {
+    const result = parseSig("1x2 po ac");
+    expect(result.fhir.timing?.repeat?.when).toEqual([EventTiming["Before Meal"]]);
+  });
+
+  it("expands before-meal tokens when enabled", () => {
+    const result = parseSig("1x2 po ac", { smartMealExpansion: true });
+    expect(result.fhir.timing?.repeat?.when).toEqual([
+      EventTiming["Before Breakfast"],
+      EventTiming["Before Dinner"]
+    ]);
+  });
+
+  it("supports alternate meal pairing", () => {
+    const result = parseSig("1x2 po pc", {
+      smartMealExpansion: true,
+      twoPerDayPair: "breakfast+lunch"
+    });
+    expect(result.fhir.timing?.repeat?.when).toEqual([
+      EventTiming["After Breakfast"],
+      EventTiming["After Lunch"]
+    ]);
+  });
+
+  it("expands after-meal abbreviations for twice-daily cadences", () => {
+    const result = parseSig("1 tab bid pc", { smartMealExpansion: true });
+    expect(result.fhir.timing?.repeat?.when).toEqual([
+      EventTiming["After Breakfast"],
+      EventTiming["After Dinner"]
+    ]);
+  });
+
+  it("translates after-meal tokens using detected frequency when enabled", () => {
+    const result = parseSig("1 tab tid pc", { smartMealExpansion: true });
+    expect(result.fhir.timing?.repeat?.when).toEqual([
+      EventTiming["After Breakfast"],
+      EventTiming["After Lunch"],
+      EventTiming["After Dinner"]
+    ]);
+  });
+
+  it("expands after-meal abbreviations for four daily doses", () => {
+    const result = parseSig("1 tab qid pc", { smartMealExpansion: true });
+    expect(result.fhir.timing?.repeat?.when).toEqual([
+      EventTiming["After Breakfast"],
+      EventTiming["After Lunch"],
+      EventTiming["After Dinner"],
+      EventTiming["Before Sleep"]
+    ]);
+  });
+
+  it("expands after-meal tokens with additional bedtime events", () => {
+    const result = parseSig("1 tab qid pc hs", { smartMealExpansion: true });
+    expect(result.fhir.timing?.repeat?.when).toEqual([
       EventTiming["After Breakfast"],
       EventTiming["After Lunch"],
       EventTiming["After Dinner"],
@@ -4573,7 +5947,9 @@ describe("topical product forms and workflow", () => {
     const pumps = parseSig("apply 2 pumps to face every morning");
     expect(pumps.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
       value: 2,
-      unit: "pump"
+      unit: "pump",
+      system: UCUM_SYSTEM,
+      code: "{pump}"
     });
 
     const ribbon = parseSig("apply 0.5 cm ribbon to eyelid nightly");
@@ -4677,7 +6053,12 @@ describe("assume single discrete dose", () => {
       context: { dosageForm: "tablet" },
       assumeSingleDiscreteDose: true
     });
-    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({ value: 1, unit: "tab" });
+    expect(result.fhir.doseAndRate?.[0]?.doseQuantity).toEqual({
+      value: 1,
+      unit: "tab",
+      system: UCUM_SYSTEM,
+      code: "{tbl}"
+    });
   });
 
   it("ignores non-discrete units", () => {
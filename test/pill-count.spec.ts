@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { calculateTotalUnits, parseSig } from "../src/index";
+import { calculateDaysSupply, calculateTotalUnits, parseSig } from "../src/index";
 import { EventTiming, FhirDosage, FhirPeriodUnit } from "../src/types";
 
 describe("calculateTotalUnits", () => {
@@ -137,6 +137,19 @@ describe("calculateTotalUnits", () => {
         expect(result.totalContainers).toBe(2);
     });
 
+    it("converts drop doses into mL containers", () => {
+        // 30 days of 1 drop in each eye twice daily = 120 drops = 6 mL.
+        const result = calculateTotalUnits({
+            dosage: parseSig("2 drops bid").fhir,
+            durationValue: 30,
+            durationUnit: FhirPeriodUnit.Day,
+            context: { containerValue: 5, containerUnit: "mL" },
+            ...BASE_OPTIONS
+        });
+        expect(result.totalUnits).toBe(120);
+        expect(result.totalContainers).toBe(2);
+    });
+
     it("handles complex unit conversion via strengthRatio (mass to volume)", () => {
         const dosage: FhirDosage = {
             doseAndRate: [{ doseQuantity: { value: 100, unit: "mg" } }],
@@ -408,4 +421,194 @@ describe("calculateTotalUnits", () => {
         // 2 weeks include Fri/Sat/Sun/Mon twice = 8 doses
         expect(result.totalUnits).toBe(8);
     });
+
+    it("estimates PRN supply from the per-period cap", () => {
+        const parsed = parseSig("2 tabs po prn pain max 8 tabs per day");
+        const result = calculateTotalUnits({
+            dosage: parsed.fhir,
+            durationValue: 7,
+            durationUnit: FhirPeriodUnit.Day,
+            ...BASE_OPTIONS
+        });
+        expect(result.totalUnits).toBe(56);
+    });
+
+    it("clamps scheduled totals by the per-period cap", () => {
+        const parsed = parseSig("1 tab po q4h prn pain max 4 tabs/day");
+        const result = calculateTotalUnits({
+            dosage: parsed.fhir,
+            durationValue: 7,
+            durationUnit: FhirPeriodUnit.Day,
+            ...BASE_OPTIONS
+        });
+        // q4h would allow 6 tabs/day; the cap keeps it at 4 tabs/day
+        expect(result.totalUnits).toBe(28);
+    });
+
+    it("converts mass caps into dose units", () => {
+        const dosage: FhirDosage = {
+            asNeededBoolean: true,
+            doseAndRate: [{ doseQuantity: { value: 500, unit: "mg" } }],
+            maxDosePerPeriod: [
+                {
+                    numerator: { value: 3, unit: "g" },
+                    denominator: { value: 1, unit: "day", code: "d" }
+                }
+            ]
+        };
+        const result = calculateTotalUnits({
+            dosage,
+            durationValue: 5,
+            durationUnit: FhirPeriodUnit.Day,
+            ...BASE_OPTIONS
+        });
+        expect(result.totalUnits).toBe(15000);
+    });
+});
+
+describe("calculateDaysSupply", () => {
+    const BASE_OPTIONS = {
+        timeZone: "UTC",
+        from: "2024-01-01T00:00:00Z"
+    };
+
+    it("finds how long a tablet count lasts and when it runs out", () => {
+        const result = calculateDaysSupply({
+            dosage: parseSig("1 tab po bid").fhir,
+            quantity: 60,
+            ...BASE_OPTIONS
+        });
+        expect(result).toEqual({
+            daysSupply: 30,
+            runOutDate: "2024-01-31T08:00:00+00:00",
+            totalUnits: 60,
+            unit: "tab"
+        });
+    });
+
+    it("is the inverse of calculateTotalUnits", () => {
+        const dosage = parseSig("1 tab po tid").fhir;
+        const { totalUnits } = calculateTotalUnits({
+            dosage,
+            durationValue: 14,
+            durationUnit: FhirPeriodUnit.Day,
+            ...BASE_OPTIONS
+        });
+        expect(calculateDaysSupply({ dosage, quantity: totalUnits, ...BASE_OPTIONS }).daysSupply).toBe(14);
+    });
+
+    it("converts a bottle of eye drops through drops per mL", () => {
+        const dosage = parseSig("1 drop ou bid").fhir;
+        const result = calculateDaysSupply({
+            dosage,
+            context: { containerValue: 5, containerUnit: "mL" },
+            ...BASE_OPTIONS
+        });
+        expect(result.totalUnits).toBe(100);
+        expect(result.daysSupply).toBe(50);
+
+        const largerDrops = calculateDaysSupply({
+            dosage,
+            context: { containerValue: 5, containerUnit: "mL", dropsPerMl: 16 },
+            ...BASE_OPTIONS
+        });
+        expect(largerDrops.daysSupply).toBe(40);
+    });
+
+    it("counts whole containers such as inhalers", () => {
+        const result = calculateDaysSupply({
+            dosage: parseSig("2 puffs inh bid").fhir,
+            containers: 2,
+            context: { containerValue: 200, containerUnit: "puff" },
+            ...BASE_OPTIONS
+        });
+        expect(result.daysSupply).toBe(100);
+    });
+
+    it("assumes PRN orders are used up to their maximum", () => {
+        const result = calculateDaysSupply({
+            dosage: parseSig("2 tabs po prn pain max 8 tabs per day").fhir,
+            quantity: 30,
+            ...BASE_OPTIONS
+        });
+        expect(result.daysSupply).toBe(3);
+        expect(result.runOutDate).toBe("2024-01-04T00:00:00+00:00");
+    });
+
+    it("draws concurrent dosages from one supply", () => {
+        const dosage: FhirDosage[] = [
+            {
+                doseAndRate: [{ doseQuantity: { value: 5, unit: "mL" } }],
+                timing: { repeat: { timeOfDay: ["08:00:00"] } }
+            },
+            {
+                doseAndRate: [{ doseQuantity: { value: 2, unit: "tsp" } }],
+                timing: { repeat: { timeOfDay: ["20:00:00"] } }
+            }
+        ];
+        const result = calculateDaysSupply({
+            dosage,
+            quantity: 150,
+            quantityUnit: "mL",
+            ...BASE_OPTIONS
+        });
+        // 5 mL + 10 mL a day.
+        expect(result.daysSupply).toBe(10);
+        expect(result.runOutDate).toBe("2024-01-11T08:00:00+00:00");
+        expect(result.unit).toBe("mL");
+    });
+
+    it("reports what is left when the supply outlasts the course", () => {
+        const result = calculateDaysSupply({
+            dosage: parseSig("1 tab po bid x 7d").fhir,
+            quantity: 30,
+            ...BASE_OPTIONS
+        });
+        expect(result).toEqual({ daysSupply: 7, totalUnits: 30, remainingUnits: 16, unit: "tab" });
+    });
+
+    it("follows open-ended regimens past a year", () => {
+        const result = calculateDaysSupply({
+            dosage: parseSig("1 tab po daily").fhir,
+            quantity: 500,
+            ...BASE_OPTIONS
+        });
+        expect(result.daysSupply).toBe(500);
+        expect(result.remainingUnits).toBeUndefined();
+        expect(result.runOutDate).toBe("2025-05-15T09:00:00+00:00");
+    });
+
+    it("counts dense schedules beyond the usual event limit", () => {
+        const result = calculateDaysSupply({
+            dosage: parseSig("1 tab po q1h").fhir,
+            quantity: 5000,
+            ...BASE_OPTIONS
+        });
+        expect(result.runOutDate).toBe("2024-07-27T08:00:00+00:00");
+        expect(result.daysSupply).toBe(208);
+    });
+
+    it("rejects sigs with nothing to count", () => {
+        expect(() =>
+            calculateDaysSupply({ dosage: parseSig("1 tab po prn pain").fhir, quantity: 30, ...BASE_OPTIONS })
+        ).toThrow("A dosage with a countable schedule or PRN maximum must be supplied to calculateDaysSupply");
+        expect(() => calculateDaysSupply({ dosage: parseSig("1 tab po bid").fhir, ...BASE_OPTIONS })).toThrow(
+            "A quantity or context.containerValue must be supplied to calculateDaysSupply"
+        );
+    });
+
+    it("rejects quantities it cannot count down", () => {
+        const dosage = parseSig("1 tab po daily").fhir;
+        for (const quantity of [-5, 0, Number.NaN, Number.POSITIVE_INFINITY]) {
+            expect(() => calculateDaysSupply({ dosage, quantity, ...BASE_OPTIONS })).toThrow(
+                "Invalid quantity supplied to calculateDaysSupply"
+            );
+        }
+        expect(() =>
+            calculateDaysSupply({ dosage, context: { containerValue: -1 }, ...BASE_OPTIONS })
+        ).toThrow("Invalid containerValue supplied to calculateDaysSupply");
+        expect(() => calculateDaysSupply({ dosage, quantity: 5000, ...BASE_OPTIONS })).toThrow(
+            "A quantity lasting at most 3660 days must be supplied to calculateDaysSupply"
+        );
+    });
 });
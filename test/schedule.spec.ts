@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { nextDueDoses, calculateTotalUnits, parseSig } from "../src/index";
+import { calculateTotalUnits, nextDueAdministrations, nextDueDoses, parseSig } from "../src/index";
 import { EventTiming, FhirDosage, NextDueDoseOptions, FhirPeriodUnit, FhirDayOfWeek } from "../src/types";
 
 const EVENT_CLOCK = {
@@ -550,6 +550,455 @@ describe("nextDueDoses", () => {
   });
 });
 
+describe("sequential regimens", () => {
+  const from = "2024-01-01T08:00:00Z";
+
+  it("walks a loading dose before the maintenance phase", () => {
+    const parsed = parseSig("2 tabs stat then 1 tab daily x 4 days");
+    const dosages = parsed.items.map((item) => item.fhir);
+    expect(
+      nextDueDoses(dosages, { ...BASE_OPTIONS, from, orderedAt: from, limit: 10 })
+    ).toEqual([
+      "2024-01-01T08:00:00+00:00",
+      "2024-01-01T09:00:00+00:00",
+      "2024-01-02T09:00:00+00:00",
+      "2024-01-03T09:00:00+00:00",
+      "2024-01-04T09:00:00+00:00"
+    ]);
+  });
+
+  it("accepts the batch returned by parseSig", () => {
+    const parsed = parseSig("2 tabs stat then 1 tab daily x 4 days");
+    const options = { ...BASE_OPTIONS, from, orderedAt: from, limit: 10 };
+    expect(nextDueDoses(parsed, options)).toEqual(
+      nextDueDoses(
+        parsed.items.map((item) => item.fhir),
+        options
+      )
+    );
+    expect(nextDueDoses(parsed, options)).toHaveLength(5);
+  });
+
+  it("starts the next phase once the previous course ends", () => {
+    const parsed = parseSig("500 mg po bid x 3d then 250 mg bid x 7d");
+    const dosages = parsed.items.map((item) => item.fhir);
+    const due = nextDueDoses(dosages, {
+      ...BASE_OPTIONS,
+      from: "2024-01-03T12:00:00Z",
+      orderedAt: from,
+      limit: 3
+    });
+    expect(due).toEqual([
+      "2024-01-03T20:00:00+00:00",
+      "2024-01-04T08:00:00+00:00",
+      "2024-01-04T20:00:00+00:00"
+    ]);
+    const total = calculateTotalUnits({
+      dosage: dosages,
+      from,
+      orderedAt: from,
+      durationValue: 14,
+      durationUnit: FhirPeriodUnit.Day,
+      timeZone: "UTC"
+    });
+    expect(total.totalUnits).toBe(6 * 500 + 14 * 250);
+  });
+
+  it("never reaches phases after an open-ended one", () => {
+    const dosages: FhirDosage[] = [
+      {
+        sequence: 1,
+        doseAndRate: [{ doseQuantity: { value: 1, unit: "tab" } }],
+        timing: { repeat: { frequency: 1, period: 1, periodUnit: FhirPeriodUnit.Day } }
+      },
+      {
+        sequence: 2,
+        doseAndRate: [{ doseQuantity: { value: 5, unit: "tab" } }],
+        timing: { repeat: { frequency: 1, period: 1, periodUnit: FhirPeriodUnit.Day } }
+      }
+    ];
+    const total = calculateTotalUnits({
+      dosage: dosages,
+      from,
+      durationValue: 7,
+      durationUnit: FhirPeriodUnit.Day,
+      timeZone: "UTC"
+    });
+    expect(total.totalUnits).toBe(7);
+  });
+});
+
+describe("cyclic regimens", () => {
+  const orderedAt = "2024-01-01T00:00:00Z";
+
+  it("skips off-days and restarts each cycle on day 1", () => {
+    const { fhir } = parseSig("1 tab po bid days 1-2 q7d");
+    expect(
+      nextDueDoses(fhir, { ...BASE_OPTIONS, from: "2024-01-02T12:00:00Z", orderedAt, limit: 4 })
+    ).toEqual([
+      "2024-01-02T20:00:00+00:00",
+      "2024-01-08T08:00:00+00:00",
+      "2024-01-08T20:00:00+00:00",
+      "2024-01-09T08:00:00+00:00"
+    ]);
+  });
+
+  it("stops a non-repeating day list after its last day", () => {
+    const { fhir } = parseSig("1 tab po daily on days 1-3");
+    expect(nextDueDoses(fhir, { ...BASE_OPTIONS, from: orderedAt, limit: 10 })).toHaveLength(3);
+  });
+
+  it("counts only active days in totals", () => {
+    const { fhir } = parseSig("1 tab po daily 21 days on, 7 days off");
+    const total = calculateTotalUnits({
+      dosage: fhir,
+      from: orderedAt,
+      durationValue: 56,
+      durationUnit: FhirPeriodUnit.Day,
+      timeZone: "UTC"
+    });
+    expect(total.totalUnits).toBe(42);
+  });
+});
+
+describe("wake windows", () => {
+  const from = "2024-01-01T06:00:00Z";
+  const wakeWindow = { start: "07:00", end: "22:00" };
+
+  it("restarts intervals at the start of each wake window", () => {
+    const { fhir } = parseSig("1 tab po q4h while awake");
+    expect(nextDueDoses(fhir, { ...BASE_OPTIONS, from, wakeWindow, limit: 5 })).toEqual([
+      "2024-01-01T07:00:00+00:00",
+      "2024-01-01T11:00:00+00:00",
+      "2024-01-01T15:00:00+00:00",
+      "2024-01-01T19:00:00+00:00",
+      "2024-01-02T07:00:00+00:00"
+    ]);
+  });
+
+  it("spreads a daily frequency across the window", () => {
+    const { fhir } = parseSig("1 tab po qid while awake");
+    expect(nextDueDoses(fhir, { ...BASE_OPTIONS, from, config: { wakeWindow }, limit: 4 })).toEqual([
+      "2024-01-01T07:00:00+00:00",
+      "2024-01-01T12:00:00+00:00",
+      "2024-01-01T17:00:00+00:00",
+      "2024-01-01T22:00:00+00:00"
+    ]);
+  });
+
+  it("drops night slots of the regular schedule in skip mode", () => {
+    const { fhir } = parseSig("1 tab po q6h except overnight");
+    expect(
+      nextDueDoses(fhir, {
+        ...BASE_OPTIONS,
+        from: "2024-01-01T00:00:00Z",
+        wakeWindow: { ...wakeWindow, nightSlots: "skip" },
+        limit: 4
+      })
+    ).toEqual([
+      "2024-01-01T12:00:00+00:00",
+      "2024-01-01T18:00:00+00:00",
+      "2024-01-02T12:00:00+00:00",
+      "2024-01-02T18:00:00+00:00"
+    ]);
+  });
+
+  it("runs a shift worker's day past midnight", () => {
+    const { fhir } = parseSig("1 tab po q6h while awake");
+    expect(
+      nextDueDoses(fhir, {
+        ...BASE_OPTIONS,
+        from: "2024-01-01T12:00:00Z",
+        wakeWindow: { start: "20:00", end: "08:00" },
+        limit: 4
+      })
+    ).toEqual([
+      "2024-01-01T20:00:00+00:00",
+      "2024-01-02T02:00:00+00:00",
+      "2024-01-02T08:00:00+00:00",
+      "2024-01-02T20:00:00+00:00"
+    ]);
+  });
+
+  it("counts only waking doses in totals and labels their source", () => {
+    const { fhir } = parseSig("1 tab po q4h while awake");
+    const total = calculateTotalUnits({
+      dosage: fhir,
+      from: "2024-01-01T00:00:00Z",
+      durationValue: 3,
+      durationUnit: FhirPeriodUnit.Day,
+      timeZone: "UTC",
+      wakeWindow
+    });
+    expect(total.totalUnits).toBe(12);
+    expect(
+      nextDueAdministrations(fhir, { ...BASE_OPTIONS, from, wakeWindow, limit: 1 })[0]
+    ).toMatchObject({ source: "wakeWindow", clock: "07:00:00" });
+  });
+
+  it("rejects a wake window that starts when it ends", () => {
+    const { fhir } = parseSig("1 tab po q4h while awake");
+    const empty = { start: "08:00", end: "08:00:00" };
+    expect(() => nextDueDoses(fhir, { ...BASE_OPTIONS, from, wakeWindow: empty, limit: 4 })).toThrow(
+      "Invalid wakeWindow supplied to nextDueDoses"
+    );
+    expect(() =>
+      calculateTotalUnits({
+        dosage: fhir,
+        from,
+        durationValue: 1,
+        durationUnit: FhirPeriodUnit.Day,
+        timeZone: "UTC",
+        config: { timeZone: "UTC", wakeWindow: empty }
+      })
+    ).toThrow("Invalid wakeWindow supplied to calculateTotalUnits");
+  });
+});
+
+describe("calendar day rules", () => {
+  const orderedAt = "2024-01-10T09:00:00Z";
+
+  it("generates days of the month at the order clock", () => {
+    const { fhir } = parseSig("1 tab po on the 1st and 15th of each month");
+    expect(nextDueDoses(fhir, { ...BASE_OPTIONS, from: orderedAt, orderedAt, limit: 3 })).toEqual([
+      "2024-01-15T09:00:00+00:00",
+      "2024-02-01T09:00:00+00:00",
+      "2024-02-15T09:00:00+00:00"
+    ]);
+  });
+
+  it("finds nth and last weekdays, skipping months without a match", () => {
+    const second = parseSig("1 tab po every 2nd tuesday at 8am").fhir;
+    expect(nextDueDoses(second, { ...BASE_OPTIONS, from: orderedAt, limit: 2 })).toEqual([
+      "2024-02-13T08:00:00+00:00",
+      "2024-03-12T08:00:00+00:00"
+    ]);
+    const last = parseSig("1 tab po on the last day of the month at 8am").fhir;
+    expect(nextDueDoses(last, { ...BASE_OPTIONS, from: orderedAt, limit: 2 })).toEqual([
+      "2024-01-31T08:00:00+00:00",
+      "2024-02-29T08:00:00+00:00"
+    ]);
+    const thirtyFirst = parseSig("1 tab po on the 31st at 8am").fhir;
+    expect(nextDueDoses(thirtyFirst, { ...BASE_OPTIONS, from: orderedAt, limit: 3 })).toEqual([
+      "2024-01-31T08:00:00+00:00",
+      "2024-03-31T08:00:00+00:00",
+      "2024-05-31T08:00:00+00:00"
+    ]);
+  });
+
+  it("steps months by the period and counts calendar days in totals", () => {
+    const quarterly = parseSig("1 tab po every 3 months on the 1st").fhir;
+    expect(nextDueDoses(quarterly, { ...BASE_OPTIONS, from: orderedAt, orderedAt, limit: 2 })).toEqual([
+      "2024-04-01T09:00:00+00:00",
+      "2024-07-01T09:00:00+00:00"
+    ]);
+    const total = calculateTotalUnits({
+      dosage: parseSig("1 tab po on the 1st and 15th of each month").fhir,
+      from: orderedAt,
+      durationValue: 90,
+      durationUnit: FhirPeriodUnit.Day,
+      timeZone: "UTC"
+    });
+    expect(total.totalUnits).toBe(6);
+  });
+});
+
+describe("timing events", () => {
+  it("returns event instants without a repeat", () => {
+    const dosage: FhirDosage = {
+      timing: { event: ["2024-01-12T08:00:00+07:00", "2024-01-10T20:00:00Z", "2024-01-15"] }
+    };
+    expect(nextDueDoses(dosage, { ...BASE_OPTIONS, from: "2024-01-11T00:00:00Z" })).toEqual([
+      "2024-01-12T01:00:00+00:00",
+      "2024-01-15T00:00:00+00:00"
+    ]);
+    expect(
+      nextDueDoses(
+        { timing: { event: ["2024-01-15"], repeat: { timeOfDay: ["09:00:00"] } } },
+        { ...BASE_OPTIONS, from: "2024-01-11T00:00:00Z" }
+      )
+    ).toEqual(["2024-01-15T09:00:00+00:00"]);
+  });
+
+  it("counts a one-off dose in totals", () => {
+    const { fhir } = parseSig("2 tabs po stat", { referenceDate: "2024-01-10T09:00:00Z" });
+    const total = calculateTotalUnits({
+      dosage: fhir,
+      from: "2024-01-10T00:00:00Z",
+      durationValue: 7,
+      durationUnit: FhirPeriodUnit.Day,
+      timeZone: "UTC"
+    });
+    expect(total.totalUnits).toBe(2);
+  });
+});
+
+describe("clinical event anchors", () => {
+  const eventAnchorMap = {
+    dialysis: {
+      text: "dialysis",
+      aliases: ["hd"],
+      clock: "09:00",
+      duration: 240,
+      dayOfWeek: [FhirDayOfWeek.Monday, FhirDayOfWeek.Wednesday, FhirDayOfWeek.Friday]
+    },
+    procedure: { text: "procedure" },
+    infusion: { text: "infusion", clock: "10:00", dayOfWeek: [FhirDayOfWeek.Tuesday] }
+  };
+  const from = "2024-01-01T00:00:00Z";
+
+  it("schedules offsets from the patient event calendar", () => {
+    const { fhir } = parseSig("1 tab 1 hr before procedure", { eventAnchorMap });
+    expect(nextDueDoses(fhir, { ...BASE_OPTIONS, from })).toEqual([]);
+    const eventCalendar = { procedure: ["2024-01-03T10:00:00Z", "2023-12-30T10:00:00Z", "2024-01-05"] };
+    expect(nextDueDoses(fhir, { ...BASE_OPTIONS, from, eventCalendar })).toEqual([
+      "2024-01-03T09:00:00+00:00"
+    ]);
+    const total = calculateTotalUnits({
+      dosage: fhir,
+      from,
+      durationValue: 7,
+      durationUnit: FhirPeriodUnit.Day,
+      timeZone: "UTC",
+      eventCalendar
+    });
+    expect(total.totalUnits).toBe(1);
+  });
+
+  it("places date-only calendar entries at the definition's clock", () => {
+    const { fhir } = parseSig("1 tab 1 hr before dialysis", { eventAnchorMap });
+    const eventCalendar = { dialysis: ["2024-01-02", "2024-01-04T07:30:00Z"] };
+    expect(nextDueDoses(fhir, { ...BASE_OPTIONS, from, eventCalendar })).toEqual([
+      "2024-01-02T08:00:00+00:00",
+      "2024-01-04T06:30:00+00:00"
+    ]);
+  });
+
+  it("projects the definition's weekdays without a calendar", () => {
+    const after = parseSig("1 tab 30 min after dialysis x 3 doses", { eventAnchorMap });
+    expect(nextDueDoses(after.fhir, { ...BASE_OPTIONS, from })).toEqual([
+      "2024-01-01T13:30:00+00:00",
+      "2024-01-03T13:30:00+00:00",
+      "2024-01-05T13:30:00+00:00"
+    ]);
+    const daysOnly = parseSig("1 tab po bid on HD days", { eventAnchorMap });
+    expect(nextDueDoses(daysOnly.fhir, { ...BASE_OPTIONS, from: "2024-01-01T12:00:00Z", limit: 4 })).toEqual([
+      "2024-01-01T20:00:00+00:00",
+      "2024-01-03T08:00:00+00:00",
+      "2024-01-03T20:00:00+00:00",
+      "2024-01-05T08:00:00+00:00"
+    ]);
+  });
+
+  it("times after-event doses from the event's end", () => {
+    const dialysis = parseSig("1 tab after dialysis", { eventAnchorMap });
+    expect(nextDueDoses(dialysis.fhir, { ...BASE_OPTIONS, from, limit: 2 })).toEqual([
+      "2024-01-01T13:00:00+00:00",
+      "2024-01-03T13:00:00+00:00"
+    ]);
+    const bare = parseSig("1 tab after infusion", { eventAnchorMap });
+    expect(nextDueDoses(bare.fhir, { ...BASE_OPTIONS, from })).toEqual([]);
+    const offset = parseSig("1 tab 2 hr after infusion", { eventAnchorMap });
+    expect(nextDueDoses(offset.fhir, { ...BASE_OPTIONS, from, limit: 1 })).toEqual([
+      "2024-01-02T12:00:00+00:00"
+    ]);
+  });
+});
+
+describe("nextDueAdministrations", () => {
+  it("merges a batch into one stream with doses and clock sources", () => {
+    const batch = parseSig("2 tabs po @ 8:00, 1 tab hs");
+    const due = nextDueAdministrations(batch, {
+      ...BASE_OPTIONS,
+      from: "2024-01-01T00:00:00Z",
+      limit: 3
+    });
+    expect(due).toEqual([
+      {
+        time: "2024-01-01T08:00:00+00:00",
+        dosageIndex: 0,
+        doseQuantity: expect.objectContaining({ value: 2, unit: "tab" }),
+        source: "timeOfDay",
+        clock: "08:00:00",
+        fallbackClock: false
+      },
+      {
+        time: "2024-01-01T22:00:00+00:00",
+        dosageIndex: 1,
+        doseQuantity: expect.objectContaining({ value: 1, unit: "tab" }),
+        source: "when",
+        when: EventTiming["Before Sleep"],
+        clock: "22:00:00",
+        fallbackClock: false
+      },
+      expect.objectContaining({ time: "2024-01-02T08:00:00+00:00", dosageIndex: 0 })
+    ]);
+  });
+
+  it("keeps concurrent dosages due at the same instant", () => {
+    const dosages: FhirDosage[] = [
+      { doseAndRate: [{ doseQuantity: { value: 1, unit: "tab" } }], timing: { repeat: { when: [EventTiming.Morning] } } },
+      { doseAndRate: [{ doseQuantity: { value: 5, unit: "mg" } }], timing: { repeat: { timeOfDay: ["08:00"] } } }
+    ];
+    const due = nextDueAdministrations(dosages, { ...BASE_OPTIONS, from: "2024-01-01T00:00:00Z", limit: 2 });
+    expect(due.map((entry) => [entry.time, entry.dosageIndex, entry.source])).toEqual([
+      ["2024-01-01T08:00:00+00:00", 0, "when"],
+      ["2024-01-01T08:00:00+00:00", 1, "timeOfDay"]
+    ]);
+  });
+
+  it("flags built-in clocks used when none are configured", () => {
+    const dosage: FhirDosage = {
+      doseAndRate: [{ doseQuantity: { value: 1, unit: "tab" } }],
+      timing: { repeat: { frequency: 2, period: 1, periodUnit: FhirPeriodUnit.Day } }
+    };
+    const options = { timeZone: "UTC", from: "2024-01-01T00:00:00Z", limit: 2 };
+    expect(nextDueAdministrations([dosage], options).map((entry) => [entry.clock, entry.fallbackClock])).toEqual([
+      ["08:00:00", true],
+      ["20:00:00", true]
+    ]);
+    const configured = nextDueAdministrations([dosage], {
+      ...options,
+      frequencyDefaults: { byFrequency: { "freq:2/d": ["07:00", "19:00"] } }
+    });
+    expect(configured.map((entry) => [entry.source, entry.clock, entry.fallbackClock])).toEqual([
+      ["frequency", "07:00:00", false],
+      ["frequency", "19:00:00", false]
+    ]);
+
+    const meal = nextDueAdministrations(parseSig("1 tab po pc breakfast").fhir, options);
+    expect(meal[0]).toMatchObject({ source: "when", when: EventTiming["After Breakfast"], fallbackClock: true });
+  });
+
+  it("labels interval steps, dose ranges and stat doses", () => {
+    const interval = nextDueAdministrations(parseSig("1-2 tabs po q8h").fhir, {
+      timeZone: "UTC",
+      from: "2024-01-01T03:00:00Z",
+      orderedAt: "2024-01-01T03:00:00Z",
+      limit: 2
+    });
+    expect(interval.map((entry) => [entry.time, entry.source])).toEqual([
+      ["2024-01-01T03:00:00+00:00", "interval"],
+      ["2024-01-01T11:00:00+00:00", "interval"]
+    ]);
+    expect(interval[0].doseRange).toEqual({
+      low: expect.objectContaining({ value: 1 }),
+      high: expect.objectContaining({ value: 2 })
+    });
+
+    const loading = nextDueAdministrations(parseSig("2 tabs po stat then 1 tab po qd"), {
+      timeZone: "UTC",
+      from: "2024-01-01T03:00:00Z",
+      orderedAt: "2024-01-01T03:00:00Z",
+      limit: 2
+    });
+    expect(loading.map((entry) => [entry.dosageIndex, entry.source, entry.when])).toEqual([
+      [0, "when", EventTiming.Immediate],
+      [1, "frequency", undefined]
+    ]);
+  });
+});
+
 describe("calculateTotalUnits", () => {
   const dosageBID: FhirDosage = {
     doseAndRate: [{ doseQuantity: { value: 1, unit: "g" } }],
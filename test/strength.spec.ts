@@ -15,6 +15,13 @@ describe("parseStrength", () => {
         expect(res.strengthRatio?.denominator?.value).toBe(5);
         expect(res.strengthQuantity).toBeUndefined();
     });
+
+    it("codes both sides of the ratio in UCUM", () => {
+        const res = parseStrength("250 mg/5 mL");
+        expect(res.strengthRatio?.numerator).toMatchObject({ system: "http://unitsofmeasure.org", code: "mg" });
+        expect(res.strengthRatio?.denominator).toMatchObject({ system: "http://unitsofmeasure.org", code: "mL" });
+        expect(parseStrength("50 mcg").strengthQuantity?.code).toBe("ug");
+    });
 });
 
 describe("parseStrengthIntoRatio", () => {
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildTaperRegimen,
+  calculateTotalUnits,
+  describeTaperRegimen,
+  formatSigBatch,
+  parseSig
+} from "../src/index";
+import { FhirPeriodUnit } from "../src/types";
+
+describe("buildTaperRegimen", () => {
+  it("expands a linear taper into sequenced, bounded steps", () => {
+    const dosages = buildTaperRegimen({
+      startDose: 40,
+      step: 10,
+      stepInterval: 5,
+      minDose: 5,
+      unit: "mg"
+    });
+    expect(dosages.map((dosage) => dosage.sequence)).toEqual([1, 2, 3, 4, 5]);
+    expect(dosages.map((dosage) => dosage.doseAndRate?.[0]?.doseQuantity?.value)).toEqual([
+      40, 30, 20, 10, 5
+    ]);
+    expect(dosages[0].timing?.repeat).toEqual({
+      frequency: 1,
+      period: 1,
+      periodUnit: FhirPeriodUnit.Day,
+      boundsDuration: { value: 5, unit: "days", system: "http://unitsofmeasure.org", code: "d" }
+    });
+    expect(dosages[0].text).toBe("Use 40 mg once daily for 5 days.");
+  });
+
+  it("avoids floating point drift on fractional steps", () => {
+    const dosages = buildTaperRegimen({ startDose: 10, step: 2.5, stepInterval: 3, unit: "mg" });
+    expect(dosages.map((dosage) => dosage.doseAndRate?.[0]?.doseQuantity?.value)).toEqual([
+      10, 7.5, 5, 2.5
+    ]);
+  });
+
+  it("formats combined text and totals the whole taper", () => {
+    const { route } = parseSig("1 tab po").fhir;
+    const dosages = buildTaperRegimen({
+      startDose: 40,
+      step: 10,
+      stepInterval: 5,
+      minDose: 5,
+      unit: "mg",
+      route
+    });
+    expect(formatSigBatch(dosages.slice(0, 2), "short")).toBe(
+      "40 mg PO 1x/d x5d, then 30 mg PO 1x/d x5d"
+    );
+    expect(formatSigBatch(dosages.slice(0, 2), "long")).toBe(
+      "Take 40 mg orally once daily for 5 days, then take 30 mg orally once daily for 5 days."
+    );
+    expect(formatSigBatch(dosages.slice(0, 2), "short", { locale: "th" })).toContain(", แล้ว 30 มก.");
+
+    const total = calculateTotalUnits({
+      dosage: dosages,
+      from: "2024-01-01T00:00:00Z",
+      durationValue: 30,
+      durationUnit: FhirPeriodUnit.Day,
+      timeZone: "UTC"
+    });
+    expect(total.totalUnits).toBe((40 + 30 + 20 + 10 + 5) * 5);
+  });
+
+  it("rejects invalid input", () => {
+    expect(() => buildTaperRegimen({ startDose: 10, step: 0, stepInterval: 3, unit: "mg" })).toThrow(
+      "Invalid step supplied to buildTaperRegimen"
+    );
+    expect(() =>
+      buildTaperRegimen({ startDose: 10, step: 5, stepInterval: 3, minDose: 20, unit: "mg" })
+    ).toThrow("minDose cannot exceed startDose");
+  });
+});
+
+describe("describeTaperRegimen", () => {
+  it("recovers the options used to build a taper", () => {
+    const options = {
+      startDose: 60,
+      step: 20,
+      stepInterval: 1,
+      stepIntervalUnit: FhirPeriodUnit.Week,
+      minDose: 10,
+      unit: "mg",
+      timing: { repeat: { frequency: 2, period: 1, periodUnit: FhirPeriodUnit.Day } }
+    };
+    expect(describeTaperRegimen(buildTaperRegimen(options))).toEqual(options);
+  });
+
+  it("returns undefined for dosages that are not a linear taper", () => {
+    const dosages = buildTaperRegimen({ startDose: 40, step: 10, stepInterval: 5, unit: "mg" });
+    dosages[2].doseAndRate = [{ doseQuantity: { value: 25, unit: "mg" } }];
+    expect(describeTaperRegimen(dosages)).toBeUndefined();
+    expect(describeTaperRegimen(dosages.slice(0, 1))).toBeUndefined();
+  });
+});
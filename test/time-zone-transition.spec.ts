@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { parseSig, planTimeZoneTransition } from "../src/index";
+
+describe("planTimeZoneTransition", () => {
+  const travel = {
+    from: "2024-01-10T00:00:00+07:00",
+    originTimeZone: "Asia/Bangkok",
+    destinationTimeZone: "Europe/London",
+    travelAt: "2024-01-10T18:00:00Z",
+    limit: 4
+  };
+
+  it("keeps absolute intervals and shows later doses on the destination clock", () => {
+    const result = planTimeZoneTransition({ ...travel, dosage: parseSig("1 tab po bid").fhir });
+    expect(result.doses).toEqual([
+      { time: "2024-01-10T08:00:00+07:00", timeZone: "Asia/Bangkok" },
+      { time: "2024-01-10T20:00:00+07:00", timeZone: "Asia/Bangkok" },
+      { time: "2024-01-11T01:00:00+00:00", timeZone: "Europe/London" },
+      { time: "2024-01-11T13:00:00+00:00", timeZone: "Europe/London" }
+    ]);
+    expect(result.longestGap?.minutes).toBe(720);
+    expect(result.shortestSpacing?.minutes).toBe(720);
+  });
+
+  it("re-anchors to local clock times and reports the shortened spacing", () => {
+    const result = planTimeZoneTransition({
+      ...travel,
+      dosage: parseSig("1 tab po bid").fhir,
+      policy: "localClock"
+    });
+    expect(result.doses.map((dose) => dose.time)).toEqual([
+      "2024-01-10T08:00:00+07:00",
+      "2024-01-10T20:00:00+07:00",
+      "2024-01-10T20:00:00+00:00",
+      "2024-01-11T08:00:00+00:00"
+    ]);
+    expect(result.shortestSpacing).toEqual({
+      from: "2024-01-10T20:00:00+07:00",
+      to: "2024-01-10T20:00:00+00:00",
+      minutes: 420
+    });
+  });
+
+  it("keeps an interval's wall clocks when flying east", () => {
+    const result = planTimeZoneTransition({
+      dosage: parseSig("1 tab po q12h").fhir,
+      from: "2024-01-10T08:00:00Z",
+      orderedAt: "2024-01-10T08:00:00Z",
+      originTimeZone: "Europe/London",
+      destinationTimeZone: "Asia/Bangkok",
+      travelAt: "2024-01-11T02:00:00Z",
+      policy: "localClock",
+      limit: 3
+    });
+    expect(result.doses.map((dose) => dose.time)).toEqual([
+      "2024-01-10T08:00:00+00:00",
+      "2024-01-10T20:00:00+00:00",
+      "2024-01-11T20:00:00+07:00"
+    ]);
+    expect(result.longestGap?.minutes).toBe(1020);
+  });
+
+  it("rejects an unknown policy", () => {
+    expect(() =>
+      planTimeZoneTransition({
+        ...travel,
+        dosage: parseSig("1 tab po bid").fhir,
+        policy: "nearest" as never
+      })
+    ).toThrow("Invalid policy supplied to planTimeZoneTransition");
+  });
+});